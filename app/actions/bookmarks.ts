@@ -0,0 +1,301 @@
+"use server";
+
+/**
+ * Saved Item Server Actions
+ *
+ * This module handles the current user's personal bookmarks:
+ * - Saving messages and note blocks, with an optional private note and
+ *   reminder time
+ * - Updating the note or reminder of an item that is already saved
+ * - Removing saved items
+ * - Listing saved items across all spaces, newest first
+ *
+ * Saved items are private, so nothing here is broadcast. Saved messages
+ * always show their current content; once a message is deleted, or the
+ * user leaves its space, the item remains as a tombstone until removed.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import { saveItemSchema, savedItemIdSchema } from "@/utils/validation/actions";
+import {
+  isUniqueViolation,
+  mapMessageData,
+  messageInclude,
+} from "@/utils/messageData";
+import { truncateText } from "@/utils/formatters";
+import { BOOKMARKS } from "@/utils/constants";
+import type { SavedItem, SaveItemInput } from "@/types";
+
+/**
+ * Relations loaded with a saved item: the live message or note it points to,
+ * each with the name of its space
+ */
+const bookmarkInclude = {
+  message: {
+    include: { ...messageInclude, space: { select: { name: true } } },
+  },
+  note: {
+    select: {
+      id: true,
+      title: true,
+      spaceId: true,
+      space: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.BookmarkInclude;
+
+type BookmarkWithTarget = Prisma.BookmarkGetPayload<{
+  include: typeof bookmarkInclude;
+}>;
+
+/**
+ * Maps a bookmark row to the client saved item shape
+ *
+ * @param row - Bookmark with its message or note loaded
+ * @param memberSpaceIds - Spaces the viewer currently belongs to
+ * @returns Saved item, marked deleted when its target is gone or out of reach
+ */
+const mapSavedItem = (
+  row: BookmarkWithTarget,
+  memberSpaceIds: Set<string>
+): SavedItem => {
+  const base = {
+    id: String(row.id),
+    privateNote: row.privateNote ?? undefined,
+    remindAt: row.remindAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+
+  if (row.kind === "MESSAGE") {
+    const message = row.message;
+    if (
+      !message ||
+      message.deletedAt !== null ||
+      !memberSpaceIds.has(message.spaceId)
+    ) {
+      return { ...base, kind: "message", isDeleted: true };
+    }
+    return {
+      ...base,
+      kind: "message",
+      spaceId: message.spaceId,
+      spaceName: message.space.name,
+      message: mapMessageData(message),
+    };
+  }
+
+  const note = row.note;
+  const isReachable = note !== null && memberSpaceIds.has(note.spaceId);
+  return {
+    ...base,
+    kind: "noteBlock",
+    blockIndex: row.blockIndex ?? undefined,
+    excerpt: row.excerpt ?? undefined,
+    ...(isReachable
+      ? {
+          spaceId: note.spaceId,
+          spaceName: note.space.name,
+          noteId: String(note.id),
+          noteTitle: note.title,
+        }
+      : { isDeleted: true }),
+  };
+};
+
+/**
+ * Reads the text of a note block for its saved excerpt
+ * Todo blocks use their title, or their items when untitled
+ *
+ * @param noteId - ID of the note
+ * @param blockIndex - Position of the block within the note
+ * @returns Shortened block text, or null if the note has no such block
+ */
+const readBlockExcerpt = async (
+  noteId: bigint,
+  blockIndex: number
+): Promise<string | null> => {
+  const block = await prisma.noteBlock.findFirst({
+    where: { noteId, sortOrder: blockIndex },
+    select: {
+      type: true,
+      content: true,
+      todoTitle: true,
+      items: { select: { text: true }, orderBy: { sortOrder: "asc" } },
+    },
+  });
+  if (!block) return null;
+  const text =
+    block.type === "TODO"
+      ? block.todoTitle || block.items.map((item) => item.text).join(", ")
+      : block.content;
+  return truncateText(text.trim(), BOOKMARKS.EXCERPT_LENGTH);
+};
+
+/**
+ * Lists the spaces the user currently belongs to
+ *
+ * @param userId - ID of the user
+ * @returns Set of space IDs
+ */
+const getMemberSpaceIds = async (userId: string): Promise<Set<string>> => {
+  const memberships = await prisma.spaceMember.findMany({
+    where: { userId },
+    select: { spaceId: true },
+  });
+  return new Set(memberships.map((m) => m.spaceId));
+};
+
+/**
+ * Saves a message or note block for the authenticated user
+ * Saving an item that is already saved updates its private note and
+ * reminder instead; fields left undefined keep their current value and
+ * null clears them
+ *
+ * @param input - Message ID, or note ID and block position, with optional private note and reminder
+ * @returns The saved item
+ * @throws Error if validation fails, the item is missing, or user is not a member of its space
+ */
+export async function saveItem(input: SaveItemInput): Promise<SavedItem> {
+  const parsed = saveItemSchema.safeParse(input);
+  if (!parsed.success) throw new Error("Invalid saved item");
+  const { id: userId } = await requireAuth();
+
+  const { messageId, noteId, blockIndex, privateNote, remindAt } = parsed.data;
+  const details = {
+    ...(privateNote !== undefined && { privateNote: privateNote || null }),
+    ...(remindAt !== undefined && {
+      remindAt: remindAt ? new Date(remindAt) : null,
+    }),
+  };
+
+  let spaceId: string;
+  let upsert: () => Promise<{ id: bigint }>;
+
+  if (messageId) {
+    const message = await prisma.message.findUnique({
+      where: { id: BigInt(messageId) },
+      select: { spaceId: true, deletedAt: true, activityKind: true },
+    });
+    if (!message || message.deletedAt) throw new Error("Message not found");
+    if (message.activityKind) {
+      throw new Error("Activity messages can't be saved");
+    }
+    spaceId = message.spaceId;
+    const where = {
+      userId_messageId: { userId, messageId: BigInt(messageId) },
+    };
+    upsert = () =>
+      prisma.bookmark.upsert({
+        where,
+        create: {
+          userId,
+          kind: "MESSAGE",
+          messageId: BigInt(messageId),
+          ...details,
+        },
+        update: details,
+        select: { id: true },
+      });
+  } else {
+    const note = await prisma.note.findUnique({
+      where: { id: BigInt(noteId as string) },
+      select: { id: true, spaceId: true },
+    });
+    if (!note) throw new Error("Note not found");
+    spaceId = note.spaceId;
+    const index = blockIndex as number;
+    const where = {
+      userId_noteId_blockIndex: { userId, noteId: note.id, blockIndex: index },
+    };
+    upsert = async () => {
+      const existing = await prisma.bookmark.findUnique({
+        where,
+        select: { id: true },
+      });
+      if (existing) {
+        return prisma.bookmark.update({
+          where: { id: existing.id },
+          data: details,
+          select: { id: true },
+        });
+      }
+      const excerpt = await readBlockExcerpt(note.id, index);
+      if (excerpt === null) throw new Error("Note block not found");
+      return prisma.bookmark.create({
+        data: {
+          userId,
+          kind: "NOTE_BLOCK",
+          noteId: note.id,
+          blockIndex: index,
+          excerpt,
+          ...details,
+        },
+        select: { id: true },
+      });
+    };
+  }
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  let saved: { id: bigint };
+  try {
+    saved = await upsert();
+  } catch (error) {
+    // A concurrent save created the row first; this attempt now updates it
+    if (!isUniqueViolation(error)) throw error;
+    saved = await upsert();
+  }
+
+  const row = await prisma.bookmark.findUniqueOrThrow({
+    where: { id: saved.id },
+    include: bookmarkInclude,
+  });
+  return mapSavedItem(row, new Set([spaceId]));
+}
+
+/**
+ * Removes one of the authenticated user's saved items
+ *
+ * @param savedItemId - The ID of the saved item
+ * @returns The ID of the removed item
+ * @throws Error if validation fails or the item is missing or belongs to someone else
+ */
+export async function unsaveItem(savedItemId: string) {
+  const parsed = savedItemIdSchema.safeParse(savedItemId);
+  if (!parsed.success) throw new Error("Invalid saved item id");
+  const { id: userId } = await requireAuth();
+
+  const { count } = await prisma.bookmark.deleteMany({
+    where: { id: BigInt(savedItemId), userId },
+  });
+  if (count === 0) throw new Error("Saved item not found");
+
+  return { id: savedItemId };
+}
+
+/**
+ * Lists the authenticated user's saved items across all spaces
+ *
+ * @returns Saved items, most recently saved first
+ * @throws Error if user is not authenticated
+ */
+export async function listSavedItems(): Promise<SavedItem[]> {
+  const { id: userId } = await requireAuth();
+
+  const [rows, memberSpaceIds] = await Promise.all([
+    prisma.bookmark.findMany({
+      where: { userId },
+      include: bookmarkInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    }),
+    getMemberSpaceIds(userId),
+  ]);
+
+  return rows.map((row) => mapSavedItem(row, memberSpaceIds));
+}
@@ -0,0 +1,65 @@
+"use server";
+
+/**
+ * Slash Command Server Actions
+ *
+ * This module exposes the slash command registry to the composer:
+ * - Listing the registered commands for the command palette
+ * - Running a typed command for a member of a space
+ *
+ * Command replies are returned to the caller only and never stored or
+ * broadcast; any changes a command makes go through the regular actions.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import { runSlashCommandSchema } from "@/utils/validation/actions";
+import { checkAdminPermission } from "@/utils/spaceUtils";
+import {
+  listSlashCommandInfo,
+  runSlashCommandInput,
+} from "@/utils/slashCommands";
+import type { SlashCommandInfo, SlashCommandResult } from "@/types";
+
+/**
+ * Lists the registered slash commands
+ *
+ * @returns Command names, usage and descriptions
+ * @throws Error if user is not authenticated
+ */
+export async function listSlashCommands(): Promise<SlashCommandInfo[]> {
+  await requireAuth();
+  return listSlashCommandInfo();
+}
+
+/**
+ * Runs a slash command in a space
+ *
+ * @param spaceId - The ID of the space the command was typed in
+ * @param input - Command text, e.g. `/note Sprint goals`
+ * @param noteId - Note open in the caller's notes panel, if any
+ * @returns Reply for the caller and any follow-up for the client
+ * @throws Error if validation fails, user is not a member, or the command fails
+ */
+export async function runSlashCommand(
+  spaceId: string,
+  input: string,
+  noteId?: string
+): Promise<SlashCommandResult> {
+  const parsed = runSlashCommandSchema.safeParse({ spaceId, input, noteId });
+  if (!parsed.success) throw new Error("Invalid command");
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { role: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  return runSlashCommandInput(parsed.data.input, {
+    spaceId,
+    userId,
+    isAdmin: await checkAdminPermission(spaceId, userId),
+    noteId: parsed.data.noteId,
+  });
+}
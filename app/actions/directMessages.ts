@@ -0,0 +1,214 @@
+"use server";
+
+/**
+ * Direct Message Server Actions
+ *
+ * This module handles 1:1 and small-group conversations:
+ * - Finding people to message by name or username
+ * - Starting a direct message, or reopening the one that already exists
+ *   for the same participants
+ * - Real-time notifications via Pusher
+ *
+ * Direct messages are spaces without an admin, invite links, or a title of
+ * their own; each participant sees the other participants' names instead.
+ */
+
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import { requireAuth } from "@/utils/actionsAuth";
+import {
+  searchPeopleSchema,
+  startDirectMessageSchema,
+} from "@/utils/validation/actions";
+import { isUniqueViolation } from "@/utils/messageData";
+import { mapBroadcastMemberData, mapMemberData } from "@/utils/spaceUtils";
+import {
+  describeDirectMessage,
+  toStoredDirectMessageName,
+} from "@/utils/directMessages";
+import { DIRECT_MESSAGES } from "@/utils/constants";
+import type { SpaceWithNotes, UserSummary } from "@/types";
+
+/**
+ * Members loaded with a direct message, oldest participant first
+ */
+const directMessageInclude = {
+  members: {
+    orderBy: { joinedAt: "asc" },
+    select: {
+      spaceId: true,
+      userId: true,
+      role: true,
+      joinedAt: true,
+      updatedAt: true,
+      user: true,
+    },
+  },
+} satisfies Prisma.SpaceInclude;
+
+/**
+ * Identifies a set of participants regardless of order
+ *
+ * @param userIds - Every participant's user ID, without duplicates
+ * @returns Hash of the sorted IDs, stored as the space's direct key
+ */
+const toDirectKey = (userIds: string[]): string =>
+  crypto
+    .createHash("sha256")
+    .update([...userIds].sort().join(":"))
+    .digest("hex");
+
+/**
+ * Finds the direct message for a set of participants
+ *
+ * @param directKey - Key of the participant set
+ * @returns Space with its members, or null if none was started yet
+ */
+const findDirectMessage = (directKey: string) =>
+  prisma.space.findUnique({
+    where: { directKey },
+    include: directMessageInclude,
+  });
+
+/**
+ * Finds people the authenticated user can start a direct message with
+ * Matches names and usernames; email addresses are not searched
+ *
+ * @param query - Part of a name or username
+ * @returns Matching users, excluding the caller, ordered by name
+ * @throws Error if validation fails or user is not authenticated
+ */
+export async function searchPeople(query: string): Promise<UserSummary[]> {
+  const parsed = searchPeopleSchema.safeParse(query);
+  if (!parsed.success) throw new Error("Invalid search query");
+  const { id: userId } = await requireAuth();
+
+  const users = await prisma.user.findMany({
+    where: {
+      id: { not: userId },
+      importKey: null,
+      OR: [
+        { name: { contains: parsed.data, mode: "insensitive" } },
+        { username: { contains: parsed.data } },
+      ],
+    },
+    select: { id: true, name: true, username: true, avatar: true },
+    orderBy: [{ name: "asc" }, { username: "asc" }],
+    take: DIRECT_MESSAGES.PEOPLE_SEARCH_LIMIT,
+  });
+
+  return users.map((u) => ({ ...u, avatar: u.avatar ?? undefined }));
+}
+
+/**
+ * Opens a direct message between the authenticated user and other people
+ * The same participants always share one conversation: an existing one is
+ * reused, and participants who had left it are added back
+ *
+ * @param userIds - IDs of the other participants
+ * @returns Direct message titled from the caller's point of view
+ * @throws Error if validation fails, a user does not exist, or there is nobody else to message
+ */
+export async function startDirectMessage(
+  userIds: string[]
+): Promise<SpaceWithNotes> {
+  const parsed = startDirectMessageSchema.safeParse({ userIds });
+  if (!parsed.success) throw new Error("Invalid direct message payload");
+  const { id: userId } = await requireAuth();
+
+  const participantIds = [...new Set([userId, ...parsed.data.userIds])];
+  if (participantIds.length < 2) {
+    throw new Error("Pick someone to message");
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: participantIds } },
+    select: { id: true, name: true, username: true },
+  });
+  if (users.length !== participantIds.length) {
+    throw new Error("User not found");
+  }
+
+  const directKey = toDirectKey(participantIds);
+  let space = await findDirectMessage(directKey);
+  let isNewForSomeone = false;
+
+  if (!space) {
+    const names = participantIds.map((id) => {
+      const u = users.find((candidate) => candidate.id === id);
+      return u?.name || u?.username || "Someone";
+    });
+    try {
+      space = await prisma.space.create({
+        data: {
+          name: toStoredDirectMessageName(names),
+          isDirect: true,
+          directKey,
+          members: {
+            create: participantIds.map((id) => ({
+              userId: id,
+              role: "MEMBER" as const,
+            })),
+          },
+        },
+        include: directMessageInclude,
+      });
+      isNewForSomeone = true;
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      space = await findDirectMessage(directKey);
+      if (!space) throw error;
+    }
+  }
+
+  const spaceId = space.id;
+  const memberIds = new Set(space.members.map((m) => m.userId));
+  const missing = participantIds.filter((id) => !memberIds.has(id));
+  if (missing.length > 0) {
+    await prisma.spaceMember.createMany({
+      data: missing.map((id) => ({
+        spaceId,
+        userId: id,
+        role: "MEMBER" as const,
+      })),
+      skipDuplicates: true,
+    });
+    space = await prisma.space.findUniqueOrThrow({
+      where: { id: spaceId },
+      include: directMessageInclude,
+    });
+    isNewForSomeone = true;
+  }
+
+  const members = space.members.map(mapMemberData);
+  const spaceData = {
+    id: space.id,
+    name: space.name,
+    createdAt: space.createdAt.toISOString(),
+    isDirect: true,
+    members,
+    messages: [],
+    notes: [],
+  };
+
+  if (isNewForSomeone && pusherServer) {
+    const broadcastMembers = space.members.map(mapBroadcastMemberData);
+    await pusherServer.trigger(
+      participantIds.map((id) => `user-${id}`),
+      "space:created",
+      { space: { ...spaceData, members: broadcastMembers } }
+    );
+    for (const member of broadcastMembers.filter((m) =>
+      missing.includes(m.userId)
+    )) {
+      await pusherServer.trigger(`space-${spaceId}`, "member:joined", {
+        spaceId,
+        member,
+      });
+    }
+  }
+
+  return { ...spaceData, ...describeDirectMessage(members, userId) };
+}
@@ -0,0 +1,127 @@
+"use server";
+
+/**
+ * Import Server Actions
+ *
+ * This module handles importing Slack and Discord exports into spaces:
+ * - Reading an uploaded export and staging it with a dry-run report
+ * - Running a staged import a few batches at a time, and resuming it after
+ *   a failure or an interrupted run
+ * - Listing and discarding the current user's imports
+ *
+ * Each channel becomes a space with the importer as its only member, so
+ * nobody is added to a space by someone else's upload. Spaces are only
+ * announced once all of their messages are imported.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import { importJobIdSchema } from "@/utils/validation/actions";
+import { parseImportArchive } from "@/utils/chatImport";
+import {
+  advanceImportJob,
+  mapImportJob,
+  stageImportJob,
+} from "@/utils/importJobs";
+import { IMPORTS } from "@/utils/constants";
+import type { ImportJobSummary } from "@/types";
+
+/**
+ * Finds an import job owned by the current user
+ *
+ * @param jobId - ID of the import job
+ * @param userId - ID of the current user
+ * @returns The job
+ * @throws Error if the job does not exist or belongs to someone else
+ */
+async function findOwnJob(jobId: string, userId: string) {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || job.userId !== userId) throw new Error("Import not found");
+  return job;
+}
+
+/**
+ * Reads an uploaded export and stages it without importing anything
+ *
+ * @param formData - Form data containing the export as `file`
+ * @returns The staged job with its dry-run report
+ * @throws Error if no file is attached, it is too large, or it is not a
+ * supported export
+ */
+export async function previewImport(
+  formData: FormData
+): Promise<ImportJobSummary> {
+  const file = formData.get("file");
+  if (!file || typeof file === "string") throw new Error("No file attached");
+  if (file.size > IMPORTS.MAX_ARCHIVE_BYTES) {
+    throw new Error(
+      `Exports larger than ${Math.round(
+        IMPORTS.MAX_ARCHIVE_BYTES / 1024 / 1024
+      )} MB cannot be imported`
+    );
+  }
+  const { id: userId } = await requireAuth();
+
+  const archive = parseImportArchive(Buffer.from(await file.arrayBuffer()));
+  const job = await stageImportJob(userId, file.name, archive);
+  return mapImportJob(job);
+}
+
+/**
+ * Starts or resumes a staged import and runs its next batches
+ * Call again until the job is completed or failed; a scheduled run also
+ * continues running jobs if the importer leaves.
+ *
+ * @param jobId - ID of the import job
+ * @returns The job after this run
+ * @throws Error if validation fails or the job is not the user's
+ */
+export async function runImport(jobId: string): Promise<ImportJobSummary> {
+  const parsed = importJobIdSchema.safeParse(jobId);
+  if (!parsed.success) throw new Error("Invalid import payload");
+  const { id: userId } = await requireAuth();
+
+  const job = await findOwnJob(parsed.data, userId);
+  if (job.status === "COMPLETED") return mapImportJob(job);
+
+  return mapImportJob(await advanceImportJob(job.id));
+}
+
+/**
+ * Lists the current user's imports, newest first
+ *
+ * @returns Import jobs with their reports and progress
+ */
+export async function listImportJobs(): Promise<ImportJobSummary[]> {
+  const { id: userId } = await requireAuth();
+
+  const jobs = await prisma.importJob.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: 20,
+  });
+  return jobs.map(mapImportJob);
+}
+
+/**
+ * Discards an import that is not running
+ * Spaces already created by the import are kept.
+ *
+ * @param jobId - ID of the import job
+ * @throws Error if validation fails, the job is not the user's, or a run
+ * currently holds it
+ */
+export async function discardImportJob(jobId: string) {
+  const parsed = importJobIdSchema.safeParse(jobId);
+  if (!parsed.success) throw new Error("Invalid import payload");
+  const { id: userId } = await requireAuth();
+
+  await findOwnJob(parsed.data, userId);
+  const { count } = await prisma.importJob.deleteMany({
+    where: {
+      id: parsed.data,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+    },
+  });
+  if (count === 0) throw new Error("The import is running; try again shortly");
+}
@@ -4,9 +4,16 @@
  * Message Management Server Actions
  *
  * This module handles all message-related operations including:
- * - Listing messages for a space
- * - Sending new messages
- * - Sending activity messages (for note operations)
+ * - Listing messages for a space with cursor-based pagination
+ * - Sending new messages with structured @mention references
+ * - Sending messages with file and image attachments
+ * - Quoting a message in a reply and forwarding messages between spaces
+ * - Link previews for the first URL in a message, dismissible by the author
+ * - Replying to messages in threads and reading threads
+ * - Recording note activity events
+ * - Editing and deleting messages with revision history
+ * - Toggling emoji reactions with aggregated counts
+ * - Broadcasting typing signals
  * - Real-time message broadcasting via Pusher
  *
  * All actions include:
@@ -17,39 +24,76 @@
  * - Proper error handling
  */
 
+import { after } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/utils/actionsAuth";
-import { ACTIVITY_PREFIX } from "@/utils/activity";
 import {
   sendMessageSchema,
   sendActivitySchema,
+  listMessagesSchema,
+  editMessageSchema,
+  messageIdSchema,
+  sendReplySchema,
+  toggleReactionSchema,
+  spaceIdSchema,
+  sendAttachmentsSchema,
+  forwardMessageSchema,
 } from "@/utils/validation/actions";
+import {
+  fetchMessagePage,
+  fetchReactionSummaries,
+  fetchThread,
+  fetchThreadSummary,
+  mapMessageData,
+  messageInclude,
+  resolveMentions,
+  resolveQuote,
+  type MessagePageOptions,
+} from "@/utils/messageData";
 import { pusherServer } from "@/lib/pusher";
+import { uploadBlob } from "@/lib/blobStorage";
+import { validateAttachments } from "@/utils/attachments";
+import { ATTACHMENTS } from "@/utils/constants";
+import {
+  attachLinkPreview,
+  postActivity,
+  postMessage,
+} from "@/utils/messageDelivery";
+import type { ActivityEvent } from "@/types";
 
 /**
- * Retrieves all messages for a specific space
+ * Retrieves one page of messages for a specific space
+ * Pages are read from the (spaceId, createdAt) index; without a cursor
+ * the newest page is returned
  *
  * @param spaceId - The ID of the space to retrieve messages for
- * @returns Array of formatted message objects with user information
- * @throws Error if user is not authenticated
+ * @param options - Optional `before`/`after` cursor and page size
+ * @returns Page of formatted messages (oldest first) with cursors
+ * @throws Error if validation fails, user is not authenticated, or is not a member of the space
  */
-export async function listMessages(spaceId: string) {
-  await requireAuth();
-
-  const msgs = await prisma.message.findMany({
-    where: { spaceId },
-    orderBy: { createdAt: "asc" },
-    include: { user: true },
-  });
-
-  return msgs.map((m) => ({
-    id: String(m.id),
-    content: m.content,
-    timestamp: m.createdAt.toISOString(),
-    senderName: m.user?.name,
-    username: m.user?.username,
-    type: "text" as const,
-  }));
+export async function listMessages(
+  spaceId: string,
+  options: MessagePageOptions = {}
+) {
+  const parsed = listMessagesSchema.safeParse({ spaceId, ...options });
+  if (!parsed.success) throw new Error("Invalid message page request");
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  return fetchMessagePage(
+    spaceId,
+    {
+      before: parsed.data.before,
+      after: parsed.data.after,
+      limit: parsed.data.limit,
+    },
+    userId
+  );
 }
 
 /**
@@ -57,70 +101,589 @@ export async function listMessages(spaceId: string) {
  *
  * @param spaceId - The ID of the space to send the message to
  * @param content - The message content to send
- * @returns Formatted message object that was created
- * @throws Error if validation fails or user is not authenticated
+ * @param idempotencyKey - Optional key generated by the sender; a repeated
+ * send with the same key returns the original message without broadcasting it
+ * again. It is echoed back as `clientId` so the sender can match the broadcast
+ * with its optimistic copy.
+ * @param quotedMessageId - Optional message in the same space to quote; the
+ * reply keeps a snapshot of its sender and an excerpt
+ * @returns Formatted message object that was created, or the original one for a repeated key
+ * @throws Error if validation fails, user is not authenticated, may not mention everyone, or the quoted message is unavailable
  */
-export async function sendMessage(spaceId: string, content: string) {
-  const parsed = sendMessageSchema.safeParse({ spaceId, content });
+export async function sendMessage(
+  spaceId: string,
+  content: string,
+  idempotencyKey?: string,
+  quotedMessageId?: string
+) {
+  const parsed = sendMessageSchema.safeParse({
+    spaceId,
+    content,
+    idempotencyKey,
+    quotedMessageId,
+  });
   if (!parsed.success) throw new Error("Invalid message payload");
   const user = await requireAuth();
   const userId = user.id as string;
 
+  return postMessage(spaceId, userId, content, idempotencyKey, quotedMessageId);
+}
+
+/**
+ * Sends a message with file attachments and broadcasts it in real-time
+ * Files are checked against the space's size limit and the allowed content
+ * types, uploaded to blob storage, and stored with the message in order
+ *
+ * @param formData - Form data containing spaceId, an optional caption as content, an optional quotedMessageId, and one or more files
+ * @returns Formatted message object that was created
+ * @throws Error if validation fails, a file is rejected, user is not a member, or storage is not configured
+ */
+export async function sendMessageWithAttachments(formData: FormData) {
+  const parsed = sendAttachmentsSchema.safeParse({
+    spaceId: formData.get("spaceId"),
+    content: formData.get("content") ?? "",
+    quotedMessageId: formData.get("quotedMessageId") ?? undefined,
+  });
+  if (!parsed.success) throw new Error("Invalid attachment payload");
+  const { spaceId, content, quotedMessageId } = parsed.data;
+  const files = formData
+    .getAll("files")
+    .filter((entry): entry is File => typeof entry !== "string");
+  if (files.length === 0) throw new Error("No files attached");
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { space: { select: { attachmentMaxBytes: true } } },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const maxBytes = membership.space.attachmentMaxBytes;
+  const error = validateAttachments(files, maxBytes);
+  if (error) throw new Error(error);
+
+  const mentions = await resolveMentions(spaceId, userId, content);
+  const quote = quotedMessageId
+    ? await resolveQuote(spaceId, quotedMessageId)
+    : undefined;
+
+  const uploaded = [];
+  for (const file of files) {
+    uploaded.push(
+      await uploadBlob(file, {
+        maxBytes,
+        allowedTypes: ATTACHMENTS.ALLOWED_TYPES,
+        folder: `attachments/${spaceId}`,
+      })
+    );
+  }
+
   const created = await prisma.message.create({
-    data: { spaceId, userId, content },
-    include: { user: true },
+    data: {
+      spaceId,
+      userId,
+      content,
+      ...quote,
+      mentionsEveryone: mentions.mentionsEveryone,
+      mentions: {
+        create: mentions.userIds.map((mentionedId) => ({
+          userId: mentionedId,
+        })),
+      },
+      attachments: { create: uploaded },
+    },
+    include: messageInclude,
   });
 
-  const payload = {
-    id: String(created.id),
-    content: created.content,
-    timestamp: created.createdAt.toISOString(),
-    senderName: created.user?.name,
-    username: created.user?.username,
-    type: "text" as const,
-  };
+  const payload = mapMessageData(created);
 
   if (pusherServer) {
     await pusherServer.trigger(`space-${spaceId}`, "message:new", payload);
   }
+  after(() => attachLinkPreview(created.id, content));
 
   return payload;
 }
 
 /**
- * Sends an activity message (for note operations) to a space
- * Activity messages are prefixed and used to notify users about note changes
+ * Forwards a message into another space the user belongs to
+ * The copy keeps the content, attachments and link preview, and credits the
+ * original sender and space. Forwarding a forwarded message credits its
+ * original source; mentions are not resolved again in the new space.
+ * Attachments must pass the target space's size limit and allowed types.
+ *
+ * @param messageId - The ID of the message to forward
+ * @param targetSpaceId - The ID of the space to post the copy in
+ * @returns Formatted message object that was created in the target space
+ * @throws Error if validation fails, the message cannot be forwarded, an attachment is not allowed in the target space, or user is not a member of both spaces
+ */
+export async function forwardMessage(messageId: string, targetSpaceId: string) {
+  const parsed = forwardMessageSchema.safeParse({ messageId, targetSpaceId });
+  if (!parsed.success) throw new Error("Invalid forward payload");
+  const { id: userId } = await requireAuth();
+
+  const original = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+    include: {
+      user: true,
+      space: { select: { name: true } },
+      attachments: { orderBy: { id: "asc" } },
+      poll: { select: { messageId: true } },
+    },
+  });
+  if (!original || original.deletedAt || original.activityKind) {
+    throw new Error("Message not found");
+  }
+  if (original.poll) throw new Error("Polls cannot be forwarded");
+
+  const memberships = await prisma.spaceMember.findMany({
+    where: { userId, spaceId: { in: [original.spaceId, targetSpaceId] } },
+    select: { spaceId: true, space: { select: { attachmentMaxBytes: true } } },
+  });
+  const memberOf = new Set(memberships.map((m) => m.spaceId));
+  const target = memberships.find((m) => m.spaceId === targetSpaceId);
+  if (!memberOf.has(original.spaceId) || !target) {
+    throw new Error("Forbidden: not a member of this space");
+  }
+
+  if (original.attachments.length > 0) {
+    const error = validateAttachments(
+      original.attachments.map((a) => ({
+        name: a.name,
+        size: a.size,
+        type: a.contentType,
+      })),
+      target.space.attachmentMaxBytes
+    );
+    if (error) throw new Error(error);
+  }
+
+  const source =
+    original.forwardedSenderName !== null
+      ? {
+          forwardedFromId: original.forwardedFromId,
+          forwardedSenderName: original.forwardedSenderName,
+          forwardedSpaceName: original.forwardedSpaceName,
+        }
+      : {
+          forwardedFromId: original.id,
+          forwardedSenderName: original.user.name,
+          forwardedSpaceName: original.space.name,
+        };
+
+  const created = await prisma.message.create({
+    data: {
+      spaceId: targetSpaceId,
+      userId,
+      content: original.content,
+      ...source,
+      previewUrl: original.previewDismissed ? null : original.previewUrl,
+      attachments: {
+        create: original.attachments.map((a) => ({
+          url: a.url,
+          name: a.name,
+          contentType: a.contentType,
+          size: a.size,
+        })),
+      },
+    },
+    include: messageInclude,
+  });
+
+  const payload = mapMessageData(created);
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${targetSpaceId}`,
+      "message:new",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Replies to a message in its thread and broadcasts the reply in real-time
+ * Replying to a reply adds to the root thread, so threads stay one level deep
+ *
+ * @param parentId - The ID of the message being replied to
+ * @param content - The reply content
+ * @returns Formatted reply message object that was created
+ * @throws Error if validation fails, the parent is missing, user is not authenticated, or not a member
+ */
+export async function sendReply(parentId: string, content: string) {
+  const parsed = sendReplySchema.safeParse({ parentId, content });
+  if (!parsed.success) throw new Error("Invalid reply payload");
+  const { id: userId } = await requireAuth();
+
+  const target = await prisma.message.findUnique({
+    where: { id: BigInt(parentId) },
+    select: { id: true, spaceId: true, parentId: true, deletedAt: true },
+  });
+  if (!target || target.deletedAt) throw new Error("Message not found");
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId: target.spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const rootId = target.parentId ?? target.id;
+  const mentions = await resolveMentions(
+    target.spaceId,
+    userId,
+    parsed.data.content
+  );
+
+  const created = await prisma.message.create({
+    data: {
+      spaceId: target.spaceId,
+      userId,
+      parentId: rootId,
+      content: parsed.data.content,
+      mentionsEveryone: mentions.mentionsEveryone,
+      mentions: {
+        create: mentions.userIds.map((mentionedId) => ({
+          userId: mentionedId,
+        })),
+      },
+    },
+    include: messageInclude,
+  });
+
+  const reply = mapMessageData(created);
+  const summary = await fetchThreadSummary(rootId);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${target.spaceId}`, "thread:reply", {
+      reply,
+      summary,
+    });
+  }
+  after(() => attachLinkPreview(created.id, parsed.data.content));
+
+  return reply;
+}
+
+/**
+ * Retrieves a thread: the parent message and all of its replies
+ *
+ * @param parentId - The ID of the thread's parent message
+ * @returns Parent message (with its thread summary) and replies, oldest first
+ * @throws Error if validation fails, the thread is missing, user is not authenticated, or not a member
+ */
+export async function listThread(parentId: string) {
+  const parsed = messageIdSchema.safeParse(parentId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: userId } = await requireAuth();
+
+  const target = await prisma.message.findUnique({
+    where: { id: BigInt(parentId) },
+    select: { spaceId: true },
+  });
+  if (!target) throw new Error("Thread not found");
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId: target.spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const thread = await fetchThread(BigInt(parentId));
+  if (!thread) throw new Error("Thread not found");
+
+  return { parent: thread.parent, replies: thread.replies };
+}
+
+/**
+ * Records a note activity (created, edited or deleted) in a space
+ * Other activity events are recorded by the server actions that cause them
  *
  * @param spaceId - The ID of the space to send the activity message to
- * @param htmlContent - The HTML content of the activity message
- * @returns Formatted activity message object that was created
+ * @param activity - Note event with the note's ID and title
+ * @param idempotencyKey - Optional key generated by the sender; a repeated
+ * send with the same key returns the original message without broadcasting it again
+ * @returns Formatted activity message object that was created, or the original one for a repeated key
  * @throws Error if validation fails or user is not authenticated
  */
 export async function sendActivityMessage(
   spaceId: string,
-  htmlContent: string
+  activity: ActivityEvent,
+  idempotencyKey?: string
 ) {
-  const parsed = sendActivitySchema.safeParse({ spaceId, htmlContent });
+  const parsed = sendActivitySchema.safeParse({
+    spaceId,
+    activity,
+    idempotencyKey,
+  });
   if (!parsed.success) throw new Error("Invalid activity payload");
-  const user = await requireAuth();
-  const userId = user.id as string;
+  const { id: userId } = await requireAuth();
 
-  const created = await prisma.message.create({
-    data: { spaceId, userId, content: `${ACTIVITY_PREFIX}${htmlContent}` },
-    include: { user: true },
+  return postActivity(spaceId, userId, parsed.data.activity, idempotencyKey);
+}
+
+/**
+ * Edits the content of a message sent by the authenticated user
+ * The previous content is stored as a revision before the update
+ *
+ * @param messageId - The ID of the message to edit
+ * @param content - The new message content
+ * @returns Formatted message object with the new content
+ * @throws Error if validation fails, the message is missing, or the user is not its author
+ */
+export async function editMessage(messageId: string, content: string) {
+  const parsed = editMessageSchema.safeParse({ messageId, content });
+  if (!parsed.success) throw new Error("Invalid message payload");
+  const { id: userId } = await requireAuth();
+
+  const existing = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+    include: messageInclude,
+  });
+  if (!existing || existing.deletedAt) throw new Error("Message not found");
+  if (existing.activityKind) {
+    throw new Error("Activity messages cannot be edited");
+  }
+  if (existing.poll) throw new Error("Polls cannot be edited");
+  if (existing.userId !== userId) {
+    throw new Error("Forbidden: only the author can edit this message");
+  }
+
+  const newContent = parsed.data.content;
+  if (newContent === existing.content) return mapMessageData(existing);
+  const mentions = await resolveMentions(existing.spaceId, userId, newContent);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.messageRevision.create({
+      data: {
+        messageId: existing.id,
+        content: existing.content,
+        editorId: userId,
+      },
+    });
+    return tx.message.update({
+      where: { id: existing.id },
+      data: {
+        content: newContent,
+        editedAt: new Date(),
+        mentionsEveryone: mentions.mentionsEveryone,
+        mentions: {
+          deleteMany: {},
+          create: mentions.userIds.map((mentionedId) => ({
+            userId: mentionedId,
+          })),
+        },
+      },
+      include: messageInclude,
+    });
+  });
+
+  const payload = mapMessageData(updated);
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${existing.spaceId}`,
+      "message:updated",
+      payload
+    );
+  }
+  after(() => attachLinkPreview(existing.id, newContent));
+
+  return payload;
+}
+
+/**
+ * Hides the link preview on one of the user's own messages
+ *
+ * @param messageId - The ID of the message whose preview is dismissed
+ * @returns Formatted message object without its preview
+ * @throws Error if validation fails, the message is missing, or user is not the author
+ */
+export async function dismissLinkPreview(messageId: string) {
+  const parsed = messageIdSchema.safeParse(messageId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: userId } = await requireAuth();
+
+  const existing = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+    select: { userId: true, deletedAt: true },
+  });
+  if (!existing || existing.deletedAt) throw new Error("Message not found");
+  if (existing.userId !== userId) {
+    throw new Error("Forbidden: only the author can dismiss this preview");
+  }
+
+  const updated = await prisma.message.update({
+    where: { id: BigInt(messageId) },
+    data: { previewDismissed: true },
+    include: messageInclude,
   });
 
+  const payload = mapMessageData(updated);
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${updated.spaceId}`,
+      "message:updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Deletes a message, leaving a tombstone in the timeline
+ * Authors may delete their own messages; space admins may delete any message.
+ * The deleted content is kept as a revision.
+ *
+ * @param messageId - The ID of the message to delete
+ * @returns Object containing the space ID and message ID
+ * @throws Error if validation fails, the message is missing, or the user lacks permission
+ */
+export async function deleteMessage(messageId: string) {
+  const parsed = messageIdSchema.safeParse(messageId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: userId } = await requireAuth();
+
+  const existing = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+  });
+  if (!existing || existing.deletedAt) throw new Error("Message not found");
+
+  if (existing.userId !== userId) {
+    const membership = await prisma.spaceMember.findUnique({
+      where: { spaceId_userId: { spaceId: existing.spaceId, userId } },
+      select: { role: true },
+    });
+    if (!membership || membership.role !== "ADMIN") {
+      throw new Error("Forbidden: only the author or an admin can delete");
+    }
+  }
+
+  const [, , removedPins] = await prisma.$transaction([
+    prisma.messageRevision.create({
+      data: {
+        messageId: existing.id,
+        content: existing.content,
+        editorId: userId,
+      },
+    }),
+    prisma.message.update({
+      where: { id: existing.id },
+      data: { content: "", deletedAt: new Date() },
+    }),
+    prisma.messagePin.deleteMany({ where: { messageId: existing.id } }),
+  ]);
+
+  const payload = { spaceId: existing.spaceId, id: String(existing.id) };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${existing.spaceId}`,
+      "message:deleted",
+      payload
+    );
+    if (removedPins.count > 0) {
+      await pusherServer.trigger(
+        `space-${existing.spaceId}`,
+        "message:unpinned",
+        { spaceId: existing.spaceId, messageId: payload.id }
+      );
+    }
+    if (existing.parentId !== null) {
+      const summary = await fetchThreadSummary(existing.parentId);
+      await pusherServer.trigger(
+        `space-${existing.spaceId}`,
+        "thread:updated",
+        { summary }
+      );
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Adds or removes the authenticated user's reaction on a message
+ * and broadcasts the message's aggregated reactions
+ *
+ * @param messageId - The ID of the message to react to
+ * @param emoji - The reaction emoji
+ * @returns Object containing the space ID, message ID, and aggregated reactions
+ * @throws Error if validation fails, the message is missing, user is not authenticated, or not a member
+ */
+export async function toggleReaction(messageId: string, emoji: string) {
+  const parsed = toggleReactionSchema.safeParse({ messageId, emoji });
+  if (!parsed.success) throw new Error("Invalid reaction payload");
+  const { id: userId } = await requireAuth();
+
+  const message = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+    select: { id: true, spaceId: true, activityKind: true, deletedAt: true },
+  });
+  if (!message || message.deletedAt) throw new Error("Message not found");
+  if (message.activityKind) {
+    throw new Error("Activity messages cannot be reacted to");
+  }
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId: message.spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const key = { messageId: message.id, userId, emoji: parsed.data.emoji };
+  const removed = await prisma.messageReaction.deleteMany({ where: key });
+  if (removed.count === 0) {
+    await prisma.messageReaction.createMany({
+      data: [key],
+      skipDuplicates: true,
+    });
+  }
+
+  const summaries = await fetchReactionSummaries([message.id]);
   const payload = {
-    id: String(created.id),
-    content: htmlContent,
-    timestamp: created.createdAt.toISOString(),
-    senderName: created.user?.name,
-    username: created.user?.username,
-    type: "activity" as const,
+    spaceId: message.spaceId,
+    messageId: String(message.id),
+    reactions: summaries.get(String(message.id)) ?? [],
   };
 
   if (pusherServer) {
-    await pusherServer.trigger(`space-${spaceId}`, "activity:new", payload);
+    await pusherServer.trigger(
+      `space-${message.spaceId}`,
+      "reaction:updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Broadcasts that the authenticated user is typing in a space
+ * Clients throttle these signals and expire them on their own, so nothing is stored
+ *
+ * @param spaceId - The ID of the space being typed in
+ * @returns Object containing the space ID and the typing user's name
+ * @throws Error if validation fails, user is not authenticated, or not a member
+ */
+export async function sendTypingSignal(spaceId: string) {
+  const parsed = spaceIdSchema.safeParse(spaceId);
+  if (!parsed.success) throw new Error("Invalid space id");
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { user: { select: { name: true, username: true } } },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const { name, username } = membership.user;
+  const payload = { spaceId, username, name };
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "typing:start", payload);
   }
 
   return payload;
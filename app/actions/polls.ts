@@ -0,0 +1,232 @@
+"use server";
+
+/**
+ * Poll Server Actions
+ *
+ * This module handles quick votes posted in the chat:
+ * - Creating a poll message with its question and options
+ * - Single or multiple choice voting, changing or withdrawing a vote
+ * - Anonymous polls that only report counts
+ * - Closing a poll by hand (author or admin) or at its close time
+ * - Broadcasting live tallies via Pusher
+ *
+ * The question is stored as the message content, so polls show up in
+ * previews and search like any other message.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import { requireAuth } from "@/utils/actionsAuth";
+import {
+  createPollSchema,
+  messageIdSchema,
+  votePollSchema,
+} from "@/utils/validation/actions";
+import { mapMessageData, mapPoll, messageInclude } from "@/utils/messageData";
+import { checkAdminPermission } from "@/utils/spaceUtils";
+import type { Message, Poll, PollInput } from "@/types";
+
+/**
+ * Loads the current tallies of a poll
+ *
+ * @param messageId - ID of the poll message
+ * @returns Poll without the viewer's own votes
+ */
+async function loadPoll(messageId: bigint): Promise<Poll> {
+  const poll = await prisma.poll.findUniqueOrThrow({
+    where: { messageId },
+    ...messageInclude.poll,
+  });
+  return mapPoll(poll);
+}
+
+/**
+ * Whether a poll no longer accepts votes
+ *
+ * @param poll - Poll close fields
+ * @returns true once the poll was closed or its close time has passed
+ */
+const isPollClosed = (poll: {
+  closedAt: Date | null;
+  closesAt: Date | null;
+}): boolean =>
+  poll.closedAt !== null ||
+  (poll.closesAt !== null && poll.closesAt.getTime() <= Date.now());
+
+/**
+ * Posts a poll to a space
+ *
+ * @param spaceId - The ID of the space to post in
+ * @param poll - Question, options, voting mode and optional close time
+ * @returns Formatted poll message
+ * @throws Error if validation fails, the close time has passed, or user is not a member
+ */
+export async function createPoll(
+  spaceId: string,
+  poll: PollInput
+): Promise<Message> {
+  const parsed = createPollSchema.safeParse({ spaceId, ...poll });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "Invalid poll");
+  }
+  const closesAt = parsed.data.closesAt
+    ? new Date(parsed.data.closesAt)
+    : undefined;
+  if (closesAt && closesAt.getTime() <= Date.now()) {
+    throw new Error("Pick a close time in the future");
+  }
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const created = await prisma.message.create({
+    data: {
+      spaceId,
+      userId,
+      content: parsed.data.question,
+      poll: {
+        create: {
+          multipleChoice: parsed.data.multipleChoice,
+          anonymous: parsed.data.anonymous,
+          closesAt,
+          options: {
+            create: parsed.data.options.map((text, sortOrder) => ({
+              text,
+              sortOrder,
+            })),
+          },
+        },
+      },
+    },
+    include: messageInclude,
+  });
+
+  const payload = mapMessageData(created);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:new", payload);
+  }
+
+  return { ...payload, poll: payload.poll && { ...payload.poll, myVotes: [] } };
+}
+
+/**
+ * Sets the authenticated user's vote in a poll
+ * The given options replace any earlier vote; an empty list withdraws it
+ *
+ * @param messageId - The ID of the poll message
+ * @param optionIds - IDs of the chosen options
+ * @returns Object containing the space ID, message ID, and tallies with the user's votes
+ * @throws Error if validation fails, the poll is missing or closed, the options are invalid, or user is not a member
+ */
+export async function votePoll(messageId: string, optionIds: string[]) {
+  const parsed = votePollSchema.safeParse({ messageId, optionIds });
+  if (!parsed.success) throw new Error("Invalid vote");
+  const { id: userId } = await requireAuth();
+
+  const pollId = BigInt(messageId);
+  const poll = await prisma.poll.findUnique({
+    where: { messageId: pollId },
+    select: {
+      multipleChoice: true,
+      closesAt: true,
+      closedAt: true,
+      options: { select: { id: true } },
+      message: { select: { spaceId: true, deletedAt: true } },
+    },
+  });
+  if (!poll || poll.message.deletedAt) throw new Error("Poll not found");
+  const { spaceId } = poll.message;
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+  if (isPollClosed(poll)) throw new Error("This poll is closed");
+
+  const chosen = [...new Set(parsed.data.optionIds)];
+  const validIds = new Set(poll.options.map((o) => String(o.id)));
+  if (chosen.some((id) => !validIds.has(id))) {
+    throw new Error("Invalid poll option");
+  }
+  if (!poll.multipleChoice && chosen.length > 1) {
+    throw new Error("This poll allows only one choice");
+  }
+
+  await prisma.$transaction([
+    prisma.pollVote.deleteMany({ where: { pollId, userId } }),
+    prisma.pollVote.createMany({
+      data: chosen.map((id) => ({ pollId, optionId: BigInt(id), userId })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  const tallies = await loadPoll(pollId);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "poll:updated", {
+      spaceId,
+      messageId,
+      poll: tallies,
+    });
+  }
+
+  return { spaceId, messageId, poll: { ...tallies, myVotes: chosen } };
+}
+
+/**
+ * Closes a poll so it no longer accepts votes
+ * Only the poll's author or a space admin may close it; closing a closed
+ * poll is a no-op
+ *
+ * @param messageId - The ID of the poll message
+ * @returns Object containing the space ID, message ID, and final tallies
+ * @throws Error if validation fails, the poll is missing, or the user may not close it
+ */
+export async function closePoll(messageId: string) {
+  const parsed = messageIdSchema.safeParse(messageId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: userId } = await requireAuth();
+
+  const pollId = BigInt(messageId);
+  const poll = await prisma.poll.findUnique({
+    where: { messageId: pollId },
+    select: {
+      closedAt: true,
+      message: { select: { spaceId: true, userId: true, deletedAt: true } },
+    },
+  });
+  if (!poll || poll.message.deletedAt) throw new Error("Poll not found");
+  const { spaceId } = poll.message;
+
+  if (
+    poll.message.userId !== userId &&
+    !(await checkAdminPermission(spaceId, userId))
+  ) {
+    throw new Error("Forbidden: only the author or an admin can close a poll");
+  }
+
+  if (poll.closedAt === null) {
+    await prisma.poll.update({
+      where: { messageId: pollId },
+      data: { closedAt: new Date() },
+    });
+  }
+
+  const tallies = await loadPoll(pollId);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "poll:updated", {
+      spaceId,
+      messageId,
+      poll: tallies,
+    });
+  }
+
+  return { spaceId, messageId, poll: tallies };
+}
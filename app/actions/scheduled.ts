@@ -0,0 +1,160 @@
+"use server";
+
+/**
+ * Scheduled Message Server Actions
+ *
+ * This module handles messages written now and posted later:
+ * - Scheduling a message for a future time, optionally repeating with an RRULE-style rule
+ * - Cancelling a pending scheduled message
+ * - Listing the current user's pending scheduled messages in a space
+ *
+ * Due messages are posted by the dispatcher in utils/scheduledMessages,
+ * which is triggered through /api/cron/scheduled-messages.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import {
+  scheduleMessageSchema,
+  scheduledMessageIdSchema,
+  spaceIdSchema,
+} from "@/utils/validation/actions";
+import { resolveMentions } from "@/utils/messageData";
+import { mapScheduledMessage } from "@/utils/scheduledMessages";
+import {
+  isValidTimeZone,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from "@/utils/recurrence";
+import { SCHEDULED_MESSAGES } from "@/utils/constants";
+import type { ScheduledMessage } from "@/types";
+
+/**
+ * Schedules a message to be posted to a space later
+ * With a recurrence rule the message repeats at the same local time of day
+ * as the first send, in the given time zone
+ *
+ * @param spaceId - The ID of the space to post in
+ * @param content - The message content
+ * @param sendAt - First send time as an ISO 8601 timestamp
+ * @param rrule - Optional recurrence rule, e.g. `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR`
+ * @param timeZone - IANA time zone of the sender, defaults to UTC
+ * @returns Formatted scheduled message
+ * @throws Error if validation fails, the time has passed, the rule is unsupported or never repeats, user is not a member, or the limit is reached
+ */
+export async function scheduleMessage(
+  spaceId: string,
+  content: string,
+  sendAt: string,
+  rrule?: string,
+  timeZone = "UTC"
+): Promise<ScheduledMessage> {
+  const parsed = scheduleMessageSchema.safeParse({
+    spaceId,
+    content,
+    sendAt,
+    rrule: rrule || undefined,
+    timeZone,
+  });
+  if (!parsed.success) throw new Error("Invalid scheduled message");
+  if (!isValidTimeZone(parsed.data.timeZone)) {
+    throw new Error("Unknown time zone");
+  }
+  const startAt = new Date(parsed.data.sendAt);
+  if (startAt.getTime() <= Date.now()) {
+    throw new Error("Pick a time in the future");
+  }
+  if (parsed.data.rrule) {
+    const rule = parseRecurrenceRule(parsed.data.rrule);
+    const repeats = rule.count !== 1;
+    if (
+      repeats &&
+      !nextOccurrence(rule, startAt, parsed.data.timeZone, startAt)
+    ) {
+      throw new Error("The repeat rule never repeats after the first send");
+    }
+  }
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  // Checks @here/@all permissions now rather than when the message is due
+  await resolveMentions(spaceId, userId, parsed.data.content);
+
+  const pending = await prisma.scheduledMessage.count({
+    where: { spaceId, userId, nextRunAt: { not: null } },
+  });
+  if (pending >= SCHEDULED_MESSAGES.MAX_PENDING_PER_SPACE) {
+    throw new Error(
+      `You can have at most ${SCHEDULED_MESSAGES.MAX_PENDING_PER_SPACE} scheduled messages in a space`
+    );
+  }
+
+  const created = await prisma.scheduledMessage.create({
+    data: {
+      spaceId,
+      userId,
+      content: parsed.data.content,
+      startAt,
+      nextRunAt: startAt,
+      rrule: parsed.data.rrule,
+      timeZone: parsed.data.timeZone,
+    },
+  });
+
+  return mapScheduledMessage(created);
+}
+
+/**
+ * Cancels one of the current user's scheduled messages
+ * Cancelling a message that already finished is a no-op
+ *
+ * @param scheduledMessageId - The ID of the scheduled message
+ * @returns The space and ID of the cancelled message
+ * @throws Error if validation fails, the message is missing, or belongs to someone else
+ */
+export async function cancelScheduledMessage(scheduledMessageId: string) {
+  const parsed = scheduledMessageIdSchema.safeParse(scheduledMessageId);
+  if (!parsed.success) throw new Error("Invalid scheduled message id");
+  const { id: userId } = await requireAuth();
+
+  const existing = await prisma.scheduledMessage.findUnique({
+    where: { id: scheduledMessageId },
+    select: { spaceId: true, userId: true },
+  });
+  if (!existing || existing.userId !== userId) {
+    throw new Error("Scheduled message not found");
+  }
+
+  await prisma.scheduledMessage.updateMany({
+    where: { id: scheduledMessageId, cancelledAt: null },
+    data: { nextRunAt: null, cancelledAt: new Date() },
+  });
+
+  return { spaceId: existing.spaceId, id: scheduledMessageId };
+}
+
+/**
+ * Lists the current user's pending scheduled messages in a space
+ *
+ * @param spaceId - The ID of the space
+ * @returns Scheduled messages, soonest first
+ * @throws Error if validation fails or user is not authenticated
+ */
+export async function listScheduledMessages(
+  spaceId: string
+): Promise<ScheduledMessage[]> {
+  const parsed = spaceIdSchema.safeParse(spaceId);
+  if (!parsed.success) throw new Error("Invalid space id");
+  const { id: userId } = await requireAuth();
+
+  const rows = await prisma.scheduledMessage.findMany({
+    where: { spaceId, userId, nextRunAt: { not: null } },
+    orderBy: { nextRunAt: "asc" },
+  });
+  return rows.map(mapScheduledMessage);
+}
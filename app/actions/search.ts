@@ -0,0 +1,149 @@
+"use server";
+
+/**
+ * Message Search Server Actions
+ *
+ * This module handles searching messages with Postgres full-text search:
+ * - Free text matched against the messages' English text search vectors
+ * - `from:username`, `in:space`, `before:`/`after:` date and `has:link` filters
+ * - Highlighted snippets around the matched words
+ * - Newest-first pages with a message ID cursor
+ *
+ * Results only ever come from spaces the caller belongs to.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import { searchMessagesSchema } from "@/utils/validation/actions";
+import { mapMessageData, messageInclude } from "@/utils/messageData";
+import {
+  hasSearchCriteria,
+  parseSearchQuery,
+  splitSnippet,
+} from "@/utils/search";
+import { SEARCH } from "@/utils/constants";
+import { truncateText } from "@/utils/formatters";
+import type { MessageSearchPage } from "@/types";
+
+/**
+ * Options passed to ts_headline for result snippets
+ */
+const HEADLINE_OPTIONS = `StartSel=${SEARCH.HIGHLIGHT_START}, StopSel=${SEARCH.HIGHLIGHT_END}, MaxWords=24, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Searches messages in the authenticated user's spaces
+ * Unknown `from:` users or `in:` spaces yield no results rather than an error
+ *
+ * @param query - Free text with optional filter operators
+ * @param cursor - Message ID returned as `nextCursor` by the previous page
+ * @returns Page of results, newest first, with the cursor for the next page
+ * @throws Error if validation fails, a date is invalid, or user is not authenticated
+ */
+export async function searchMessages(
+  query: string,
+  cursor?: string
+): Promise<MessageSearchPage> {
+  const parsedInput = searchMessagesSchema.safeParse({ query, cursor });
+  if (!parsedInput.success) throw new Error("Invalid search query");
+  const { id: userId } = await requireAuth();
+
+  const parsed = parseSearchQuery(parsedInput.data.query);
+  if (!hasSearchCriteria(parsed)) throw new Error("Invalid search query");
+
+  const empty: MessageSearchPage = { results: [], nextCursor: null };
+
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`m."deletedAt" IS NULL`,
+    Prisma.sql`m."activityKind" IS NULL`,
+    Prisma.sql`m."spaceId" IN (SELECT sm."spaceId" FROM "public"."space_members" sm WHERE sm."userId" = ${userId}::uuid)`,
+  ];
+
+  if (parsed.from) {
+    const author = await prisma.user.findUnique({
+      where: { username: parsed.from },
+      select: { id: true },
+    });
+    if (!author) return empty;
+    conditions.push(Prisma.sql`m."userId" = ${author.id}::uuid`);
+  }
+  if (parsed.in) {
+    const spaces = await prisma.space.findMany({
+      where: {
+        name: { equals: parsed.in, mode: "insensitive" },
+        members: { some: { userId } },
+      },
+      select: { id: true },
+    });
+    if (spaces.length === 0) return empty;
+    conditions.push(
+      Prisma.sql`m."spaceId" IN (${Prisma.join(
+        spaces.map((s) => Prisma.sql`${s.id}::uuid`)
+      )})`
+    );
+  }
+  if (parsed.before) {
+    conditions.push(Prisma.sql`m."createdAt" < ${parsed.before}`);
+  }
+  if (parsed.after) {
+    conditions.push(Prisma.sql`m."createdAt" >= ${parsed.after}`);
+  }
+  if (parsed.hasLink) {
+    conditions.push(Prisma.sql`m."content" ~* 'https?://'`);
+  }
+  if (parsedInput.data.cursor) {
+    conditions.push(Prisma.sql`m."id" < ${BigInt(parsedInput.data.cursor)}`);
+  }
+
+  // The to_tsvector expression must match the messages_content_search_idx
+  // index exactly for Postgres to use it
+  const rows = parsed.text
+    ? await prisma.$queryRaw<{ id: bigint; headline: string }[]>`
+        SELECT m."id",
+               ts_headline('english', m."content", q, ${HEADLINE_OPTIONS}) AS "headline"
+        FROM "public"."messages" m,
+             websearch_to_tsquery('english', ${parsed.text}) q
+        WHERE to_tsvector('english', m."content") @@ q
+          AND ${Prisma.join(conditions, " AND ")}
+        ORDER BY m."id" DESC
+        LIMIT ${SEARCH.PAGE_SIZE + 1}`
+    : await prisma.$queryRaw<{ id: bigint; headline: null }[]>`
+        SELECT m."id", NULL AS "headline"
+        FROM "public"."messages" m
+        WHERE ${Prisma.join(conditions, " AND ")}
+        ORDER BY m."id" DESC
+        LIMIT ${SEARCH.PAGE_SIZE + 1}`;
+
+  const page = rows.slice(0, SEARCH.PAGE_SIZE);
+  const messages = await prisma.message.findMany({
+    where: { id: { in: page.map((r) => r.id) } },
+    include: { ...messageInclude, space: { select: { name: true } } },
+  });
+  const byId = new Map(messages.map((m) => [m.id, m]));
+
+  const results = page.flatMap(({ id, headline }) => {
+    const row = byId.get(id);
+    if (!row) return [];
+    return [
+      {
+        message: mapMessageData(row),
+        spaceId: row.spaceId,
+        spaceName: row.space.name,
+        snippet: headline
+          ? splitSnippet(headline)
+          : [
+              {
+                text: truncateText(row.content, SEARCH.SNIPPET_LENGTH),
+                highlighted: false,
+              },
+            ],
+      },
+    ];
+  });
+
+  return {
+    results,
+    nextCursor:
+      rows.length > SEARCH.PAGE_SIZE ? String(page[page.length - 1].id) : null,
+  };
+}
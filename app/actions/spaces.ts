@@ -7,6 +7,13 @@
  * - Creating and deleting spaces
  * - Managing space members and roles
  * - Updating space information
+ * - Tracking each member's last-read message and unread counts
+ * - Read receipts that can be turned off per space
+ * - Controlling who may mention @here and @all
+ * - Setting the largest file members may attach
+ * - Message retention windows and legal holds
+ * - Keeping direct messages closed to invite links and joins
+ * - Pinning and unpinning messages (admin only)
  * - Handling space icons and file uploads
  * - Real-time notifications via Pusher
  *
@@ -21,38 +28,44 @@
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/utils/actionsAuth";
 import type { Prisma } from "@prisma/client";
-import { isActivityContent, stripActivityPrefix } from "@/utils/activity";
+import {
+  countUnreadMessages,
+  countUnreadMessagesBySpace,
+  fetchMessagePage,
+  fetchPinnedMessages,
+  mapMessageData,
+  mapPinnedMessage,
+  pinInclude,
+  unreadMessagesWhere,
+} from "@/utils/messageData";
 import {
   createSpaceSchema,
   spaceIdSchema,
   spaceNameSchema,
   spaceDescriptionSchema,
+  markSpaceReadSchema,
+  readReceiptsSchema,
+  everyoneMentionsSchema,
+  attachmentLimitSchema,
+  retentionPolicySchema,
+  legalHoldSchema,
+  messageIdSchema,
 } from "@/utils/validation/actions";
-import { BlobServiceClient } from "@azure/storage-blob";
 import crypto from "crypto";
 import type { SpaceWithNotes } from "@/types";
-import { sendActivityMessage } from "./messages";
+import { postActivity } from "@/utils/messageDelivery";
 import { pusherServer } from "@/lib/pusher";
+import { uploadBlob } from "@/lib/blobStorage";
+import { PINS, SPACE_ICONS } from "@/utils/constants";
+import { getMessagePreview } from "@/utils/messageUtils";
+import { describeDirectMessage } from "@/utils/directMessages";
 import {
   mapMemberData,
   getUserDisplayName,
   checkAdminPermission,
   sendActivityMessageSafe,
-  createMemberActivityMessage,
 } from "@/utils/spaceUtils";
 
-interface BlockBlobClientLike {
-  uploadData: (data: Buffer, options?: unknown) => Promise<void>;
-  url: string;
-}
-interface ContainerClientLike {
-  createIfNotExists: () => Promise<void>;
-  getBlockBlobClient: (blobName: string) => BlockBlobClientLike;
-}
-interface BlobServiceLike {
-  getContainerClient: (name: string) => ContainerClientLike;
-}
-
 type SpaceForList = Prisma.SpaceGetPayload<{
   include: {
     members: {
@@ -62,15 +75,14 @@ type SpaceForList = Prisma.SpaceGetPayload<{
         role: true;
         joinedAt: true;
         updatedAt: true;
+        lastReadMessageId: true;
         user: true;
       };
     };
-    messages: true;
+    messages: { include: { user: true; attachments: true } };
   };
 }>;
 
-type MessageWithUser = Prisma.MessageGetPayload<{ include: { user: true } }>;
-
 type SpaceDetail = Prisma.SpaceGetPayload<{
   include: {
     members: {
@@ -80,11 +92,12 @@ type SpaceDetail = Prisma.SpaceGetPayload<{
         role: true;
         joinedAt: true;
         updatedAt: true;
+        lastReadMessageId: true;
         user: true;
       };
     };
   };
-}> & { messages: MessageWithUser[] };
+}>;
 
 type NoteItemDB = {
   id: string;
@@ -107,10 +120,27 @@ type NoteFull = {
   blocks: NoteBlockDB[];
 };
 
+/**
+ * Collects members' last-read message IDs for read receipts
+ *
+ * @param members - Members with their last-read pointers
+ * @returns Map of user ID to last-read message ID (members without one are left out)
+ */
+const toReadPointers = (
+  members: { userId: string; lastReadMessageId: bigint | null }[]
+): Record<string, string> =>
+  Object.fromEntries(
+    members
+      .filter((m) => m.lastReadMessageId !== null)
+      .map((m) => [m.userId, String(m.lastReadMessageId)])
+  );
+
 /**
  * Retrieves all spaces that the authenticated user is a member of
+ * Only the latest non-activity message is loaded per space; the timeline
+ * itself is paged in through getSpaceDetail and listMessages
  *
- * @returns Array of spaces with messages, members, and last message info
+ * @returns Array of spaces with members, last message info, and unread counts
  */
 export async function listUserSpaces() {
   const { id: userId } = await requireAuth();
@@ -126,53 +156,58 @@ export async function listUserSpaces() {
           role: true,
           joinedAt: true,
           updatedAt: true,
+          lastReadMessageId: true,
           user: true,
         },
       },
       messages: {
-        orderBy: { createdAt: "asc" },
-        include: { user: true },
+        where: {
+          deletedAt: null,
+          parentId: null,
+          activityKind: null,
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: 1,
+        include: { user: true, attachments: { orderBy: { id: "asc" } } },
       },
     },
     orderBy: { updatedAt: "desc" },
   })) as SpaceForList[];
+  const unread = await countUnreadMessagesBySpace(userId);
 
   const mapped = spaces.map((s) => {
-    const allMessages = (s.messages as MessageWithUser[]).map((msg) => {
-      const isAct = isActivityContent(msg.content);
-      return {
-        id: Number(msg.id),
-        content: isAct ? stripActivityPrefix(msg.content) : msg.content,
-        timestamp: msg.createdAt.toISOString(),
-        senderName: msg.user?.name,
-        username: msg.user?.username,
-        type: isAct ? ("activity" as const) : ("text" as const),
-      };
-    });
-
-    const lastNonActivity = [...allMessages]
-      .reverse()
-      .find((m) => m.type !== "activity");
+    const last = s.messages[0];
+    const lastMessage = last ? mapMessageData(last) : undefined;
+    const counts = unread.get(s.id) ?? { unreadCount: 0, mentionCount: 0 };
+    const members = s.members.map(mapMemberData);
 
     return {
       id: s.id,
       name: s.name,
       icon: s.icon ?? undefined,
       description: s.description ?? undefined,
+      ...(s.isDirect ? describeDirectMessage(members, userId) : {}),
+      isDirect: s.isDirect,
       createdAt: s.createdAt.toISOString(),
-      members: s.members.map(mapMemberData),
-      lastMessage: lastNonActivity?.content,
-      lastMessageSender: lastNonActivity?.senderName,
-      messages: allMessages,
+      members,
+      lastMessage: lastMessage && getMessagePreview(lastMessage),
+      lastMessageSender: lastMessage?.senderName,
+      lastMessageTimestamp: lastMessage?.timestamp,
+      unreadCount: counts.unreadCount,
+      mentionCount: counts.mentionCount,
+      readReceiptsEnabled: s.readReceiptsEnabled,
+      membersCanMentionEveryone: s.membersCanMentionEveryone,
+      attachmentMaxBytes: s.attachmentMaxBytes,
+      retentionDays: s.retentionDays,
+      legalHold: s.legalHold,
+      messages: [],
       notes: [],
-    } as unknown as ReturnType<typeof Object.assign> & { createdAt: string } & {
-      messages: { timestamp: string }[];
     };
   });
 
   mapped.sort((a, b) => {
-    const aLast = a.messages[a.messages.length - 1]?.timestamp;
-    const bLast = b.messages[b.messages.length - 1]?.timestamp;
+    const aLast = a.lastMessageTimestamp;
+    const bLast = b.lastMessageTimestamp;
     const aCreated = new Date(a.createdAt).getTime();
     const bCreated = new Date(b.createdAt).getTime();
     const aTs = Math.max(aLast ? new Date(aLast).getTime() : 0, aCreated);
@@ -296,65 +331,7 @@ export async function createSpaceFromForm(
       return { error: firstError };
     }
 
-    let iconUrl: string | undefined;
-    if (file && typeof file !== "string") {
-      const blobFile = file as File;
-      if (blobFile.size > 0) {
-        if (blobFile.size > 5 * 1024 * 1024) {
-          return { error: "Max file size is 5MB" };
-        }
-        const contentType = blobFile.type || "application/octet-stream";
-        if (!/^image\//.test(contentType)) {
-          return { error: "Only image files are allowed" };
-        }
-
-        const conn = process.env.AZURE_STORAGE_CONNECTION_STRING;
-        const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
-        const accountKey = process.env.AZURE_STORAGE_ACCOUNT_KEY;
-        const containerName = process.env.AZURE_STORAGE_CONTAINER;
-        if (!containerName) {
-          return { error: "Missing AZURE_STORAGE_CONTAINER env" };
-        }
-
-        let blobService: BlobServiceLike | null = null;
-        if (conn && conn.length > 0) {
-          blobService = BlobServiceClient.fromConnectionString(
-            conn
-          ) as unknown as BlobServiceLike;
-        } else if (accountName && accountKey) {
-          const { StorageSharedKeyCredential } = await import(
-            "@azure/storage-blob"
-          );
-          const sharedKey = new StorageSharedKeyCredential(
-            accountName,
-            accountKey
-          );
-          blobService = new BlobServiceClient(
-            `https://${accountName}.blob.core.windows.net`,
-            sharedKey
-          ) as unknown as BlobServiceLike;
-        } else {
-          return { error: "Missing Azure Storage credentials" };
-        }
-
-        const container = blobService.getContainerClient(containerName);
-        await container.createIfNotExists();
-
-        const ext = (blobFile.name.split(".").pop() || "png").toLowerCase();
-        const uniqueName = `${crypto.randomUUID()}.${ext}`;
-        const blockBlob = container.getBlockBlobClient(uniqueName);
-
-        const arrayBuffer = await blobFile.arrayBuffer();
-        const nodeBuffer =
-          typeof Buffer !== "undefined"
-            ? Buffer.from(arrayBuffer)
-            : new Uint8Array(arrayBuffer);
-        await blockBlob.uploadData(nodeBuffer as unknown as Buffer, {
-          blobHTTPHeaders: { blobContentType: contentType },
-        });
-        iconUrl = blockBlob.url;
-      }
-    }
+    const iconUrl = await uploadSpaceIcon(file);
 
     const created = await createSpace(name, description, iconUrl);
     return { success: "Space created", created };
@@ -383,6 +360,15 @@ export async function joinSpace(spaceId: string) {
   });
   if (existing) return `${spaceId}:${userId}`;
 
+  const space = await prisma.space.findUnique({
+    where: { id: spaceId },
+    select: { isDirect: true },
+  });
+  if (!space) throw new Error("Space not found");
+  if (space.isDirect) {
+    throw new Error("Direct messages can't be joined");
+  }
+
   const member = await prisma.spaceMember.create({
     data: { spaceId, userId, role: "MEMBER" },
     include: { user: true },
@@ -410,16 +396,417 @@ export async function joinSpace(spaceId: string) {
   return `${member.spaceId}:${member.userId}`;
 }
 
+/**
+ * Moves the authenticated member's last-read pointer forward
+ * The pointer never moves backwards, so stale calls from another tab are harmless
+ *
+ * @param spaceId - The ID of the space being read
+ * @param messageId - Newest message seen (defaults to the newest in the space)
+ * @returns Object containing the space ID and the current last-read message ID
+ * @throws Error if validation fails or the user is not a member
+ */
+export async function markSpaceRead(spaceId: string, messageId?: string) {
+  const parsed = markSpaceReadSchema.safeParse({ spaceId, messageId });
+  if (!parsed.success) throw new Error("Invalid read marker payload");
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: {
+      lastReadMessageId: true,
+      space: { select: { readReceiptsEnabled: true } },
+    },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
+
+  const target = await prisma.message.findFirst({
+    where: messageId ? { id: BigInt(messageId), spaceId } : { spaceId },
+    orderBy: { id: "desc" },
+    select: { id: true },
+  });
+
+  const current = membership.lastReadMessageId;
+  if (!target || (current !== null && current >= target.id)) {
+    return {
+      spaceId,
+      lastReadMessageId: current !== null ? String(current) : null,
+    };
+  }
+
+  await prisma.spaceMember.update({
+    where: { spaceId_userId: { spaceId, userId } },
+    data: { lastReadMessageId: target.id, lastReadAt: new Date() },
+  });
+
+  const payload = { spaceId, lastReadMessageId: String(target.id) };
+
+  if (pusherServer && membership.space.readReceiptsEnabled) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:read", {
+      ...payload,
+      userId,
+    });
+  }
+
+  return payload;
+}
+
+/**
+ * Turns read receipts on or off for a space (admin only)
+ * Members' read positions are only shared while receipts are enabled
+ *
+ * @param spaceId - The ID of the space to update
+ * @param enabled - Whether read receipts should be shown
+ * @returns Object containing the new setting and current read positions
+ * @throws Error if validation fails or the user is not an admin
+ */
+export async function setReadReceipts(spaceId: string, enabled: boolean) {
+  const parsed = readReceiptsSchema.safeParse({ spaceId, enabled });
+  if (!parsed.success) throw new Error("Invalid read receipts payload");
+  const { id: actorId } = await requireAuth();
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) {
+    throw new Error("Forbidden: only admin can change read receipts");
+  }
+
+  await prisma.space.update({
+    where: { id: spaceId },
+    data: { readReceiptsEnabled: enabled },
+  });
+
+  const members = enabled
+    ? await prisma.spaceMember.findMany({
+        where: { spaceId },
+        select: { userId: true, lastReadMessageId: true },
+      })
+    : [];
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "READ_RECEIPTS_CHANGED",
+    payload: { enabled },
+  });
+
+  const payload = {
+    spaceId,
+    readReceiptsEnabled: enabled,
+    readPointers: toReadPointers(members),
+  };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${spaceId}`,
+      "space:read-receipts-updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Sets whether members may mention @here and @all (admin only)
+ * Admins can always mention everyone
+ *
+ * @param spaceId - The ID of the space to update
+ * @param enabled - Whether members may mention everyone
+ * @returns Object containing the new setting
+ * @throws Error if validation fails or the user is not an admin
+ */
+export async function setMembersCanMentionEveryone(
+  spaceId: string,
+  enabled: boolean
+) {
+  const parsed = everyoneMentionsSchema.safeParse({ spaceId, enabled });
+  if (!parsed.success) throw new Error("Invalid mention permission payload");
+  const { id: actorId } = await requireAuth();
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) {
+    throw new Error("Forbidden: only admin can change mention permissions");
+  }
+
+  await prisma.space.update({
+    where: { id: spaceId },
+    data: { membersCanMentionEveryone: enabled },
+  });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "MENTION_EVERYONE_CHANGED",
+    payload: { enabled },
+  });
+
+  const payload = { spaceId, membersCanMentionEveryone: enabled };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${spaceId}`,
+      "space:mentions-updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Sets the largest file members may attach to messages (admin only)
+ *
+ * @param spaceId - The ID of the space to update
+ * @param maxBytes - Per-file size limit, one of the offered size options
+ * @returns Object containing the new limit
+ * @throws Error if validation fails or the user is not an admin
+ */
+export async function setAttachmentLimit(spaceId: string, maxBytes: number) {
+  const parsed = attachmentLimitSchema.safeParse({ spaceId, maxBytes });
+  if (!parsed.success) throw new Error("Invalid attachment limit payload");
+  const { id: actorId } = await requireAuth();
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) {
+    throw new Error("Forbidden: only admin can change the attachment limit");
+  }
+
+  await prisma.space.update({
+    where: { id: spaceId },
+    data: { attachmentMaxBytes: maxBytes },
+  });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "ATTACHMENT_LIMIT_CHANGED",
+    payload: { maxBytes },
+  });
+
+  const payload = { spaceId, attachmentMaxBytes: maxBytes };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${spaceId}`,
+      "space:attachments-updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Sets how long the space keeps its messages (admin only)
+ * Older messages are deleted by the retention purge job unless the space
+ * is on legal hold
+ *
+ * @param spaceId - The ID of the space to update
+ * @param retentionDays - Days to keep messages, one of the offered options, or null to keep them forever
+ * @returns Object containing the new retention window and legal hold state
+ * @throws Error if validation fails or the user is not an admin
+ */
+export async function setRetentionPolicy(
+  spaceId: string,
+  retentionDays: number | null
+) {
+  const parsed = retentionPolicySchema.safeParse({ spaceId, retentionDays });
+  if (!parsed.success) throw new Error("Invalid retention policy payload");
+  const { id: actorId } = await requireAuth();
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) {
+    throw new Error("Forbidden: only admin can change message retention");
+  }
+
+  const space = await prisma.space.update({
+    where: { id: spaceId },
+    data: { retentionDays },
+    select: { legalHold: true },
+  });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "RETENTION_CHANGED",
+    payload: { retentionDays },
+  });
+
+  const payload = { spaceId, retentionDays, legalHold: space.legalHold };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${spaceId}`,
+      "space:retention-updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Places the space on legal hold or lifts it (admin only)
+ * While on hold no messages are purged, whatever the retention window
+ *
+ * @param spaceId - The ID of the space to update
+ * @param enabled - Whether purging is suspended
+ * @returns Object containing the retention window and new legal hold state
+ * @throws Error if validation fails or the user is not an admin
+ */
+export async function setLegalHold(spaceId: string, enabled: boolean) {
+  const parsed = legalHoldSchema.safeParse({ spaceId, enabled });
+  if (!parsed.success) throw new Error("Invalid legal hold payload");
+  const { id: actorId } = await requireAuth();
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) {
+    throw new Error("Forbidden: only admin can change the legal hold");
+  }
+
+  const space = await prisma.space.update({
+    where: { id: spaceId },
+    data: { legalHold: enabled },
+    select: { retentionDays: true },
+  });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "LEGAL_HOLD_CHANGED",
+    payload: { enabled },
+  });
+
+  const payload = {
+    spaceId,
+    retentionDays: space.retentionDays,
+    legalHold: enabled,
+  };
+
+  if (pusherServer) {
+    await pusherServer.trigger(
+      `space-${spaceId}`,
+      "space:retention-updated",
+      payload
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Pins a message to its space (admin only)
+ * Only top-level messages can be pinned; pinning a pinned message is a no-op
+ *
+ * @param messageId - The ID of the message to pin
+ * @returns Object containing the space ID and the pinned message
+ * @throws Error if validation fails, the message cannot be pinned, the space is at its pin limit, or the user is not an admin
+ */
+export async function pinMessage(messageId: string) {
+  const parsed = messageIdSchema.safeParse(messageId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: actorId } = await requireAuth();
+
+  const message = await prisma.message.findUnique({
+    where: { id: BigInt(messageId) },
+    select: {
+      id: true,
+      spaceId: true,
+      parentId: true,
+      activityKind: true,
+      deletedAt: true,
+    },
+  });
+  if (!message || message.deletedAt || message.activityKind) {
+    throw new Error("Message not found");
+  }
+  if (message.parentId !== null) {
+    throw new Error("Only messages in the main chat can be pinned");
+  }
+  const { spaceId } = message;
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) throw new Error("Forbidden: only admin can pin messages");
+
+  const existing = await prisma.messagePin.findUnique({
+    where: { messageId: message.id },
+    include: pinInclude,
+  });
+  if (existing) return { spaceId, pin: mapPinnedMessage(existing) };
+
+  const pinCount = await prisma.messagePin.count({ where: { spaceId } });
+  if (pinCount >= PINS.MAX_PER_SPACE) {
+    throw new Error(
+      `A space can have at most ${PINS.MAX_PER_SPACE} pinned messages`
+    );
+  }
+
+  const created = await prisma.messagePin.create({
+    data: { messageId: message.id, spaceId, pinnedById: actorId },
+    include: pinInclude,
+  });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "MESSAGE_PINNED",
+    targetId: messageId,
+  });
+
+  const payload = { spaceId, pin: mapPinnedMessage(created) };
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:pinned", payload);
+  }
+
+  return payload;
+}
+
+/**
+ * Unpins a message from its space (admin only)
+ *
+ * @param messageId - The ID of the message to unpin
+ * @returns Object containing the space ID and the unpinned message ID
+ * @throws Error if validation fails, the message is not pinned, or the user is not an admin
+ */
+export async function unpinMessage(messageId: string) {
+  const parsed = messageIdSchema.safeParse(messageId);
+  if (!parsed.success) throw new Error("Invalid message id");
+  const { id: actorId } = await requireAuth();
+
+  const pin = await prisma.messagePin.findUnique({
+    where: { messageId: BigInt(messageId) },
+    select: { spaceId: true },
+  });
+  if (!pin) throw new Error("Message is not pinned");
+  const { spaceId } = pin;
+
+  const isAdmin = await checkAdminPermission(spaceId, actorId);
+  if (!isAdmin) throw new Error("Forbidden: only admin can unpin messages");
+
+  await prisma.messagePin.delete({ where: { messageId: BigInt(messageId) } });
+
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "MESSAGE_UNPINNED",
+    targetId: messageId,
+  });
+
+  const payload = { spaceId, messageId };
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:unpinned", payload);
+  }
+
+  return payload;
+}
+
 /**
  * Gets detailed information about a specific space including messages and notes
+ * Only the newest page of messages is included; older pages are loaded
+ * with listMessages using olderMessagesCursor. The member's first unread
+ * message is returned so the client can mark where new messages start.
  *
  * @param spaceId - The ID of the space to retrieve
- * @returns Complete space data with messages, notes, and members
+ * @returns Space data with the latest messages, notes, members, and unread state
+ * @throws Error if validation fails, the space does not exist, or the user is not a member
  */
 export async function getSpaceDetail(spaceId: string) {
   const parsed = spaceIdSchema.safeParse(spaceId);
   if (!parsed.success) throw new Error("Invalid space id");
-  await requireAuth();
+  const { id: userId } = await requireAuth();
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+    select: { userId: true },
+  });
+  if (!membership) throw new Error("Forbidden: not a member of this space");
 
   const spaceBase = (await prisma.space.findUnique({
     where: { id: spaceId },
@@ -431,6 +818,7 @@ export async function getSpaceDetail(spaceId: string) {
           role: true,
           joinedAt: true,
           updatedAt: true,
+          lastReadMessageId: true,
           user: true,
         },
       },
@@ -438,11 +826,20 @@ export async function getSpaceDetail(spaceId: string) {
   })) as SpaceDetail | null;
   if (!spaceBase) throw new Error("Space not found");
 
-  const messages = (await prisma.message.findMany({
-    where: { spaceId },
-    orderBy: { createdAt: "asc" },
-    include: { user: true },
-  })) as MessageWithUser[];
+  const me = spaceBase.members.find((m) => m.userId === userId);
+  const members = spaceBase.members.map((m) => mapMemberData(m));
+  const [messagePage, firstUnread, counts, pinnedMessages] = await Promise.all([
+    fetchMessagePage(spaceId, {}, userId),
+    me
+      ? prisma.message.findFirst({
+          where: unreadMessagesWhere(me),
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          select: { id: true },
+        })
+      : null,
+    me ? countUnreadMessages(me) : { unreadCount: 0, mentionCount: 0 },
+    fetchPinnedMessages(spaceId),
+  ]);
 
   let notes: NoteFull[] = [];
   try {
@@ -495,21 +892,24 @@ export async function getSpaceDetail(spaceId: string) {
     name: spaceBase.name,
     icon: spaceBase.icon ?? undefined,
     description: spaceBase.description ?? undefined,
+    ...(spaceBase.isDirect ? describeDirectMessage(members, userId) : {}),
+    isDirect: spaceBase.isDirect,
     createdAt: spaceBase.createdAt.toISOString(),
-    members: spaceBase.members.map((m) => mapMemberData(m)),
-    messages: messages.map((msg) => {
-      const isAct = isActivityContent(msg.content);
-      const mapped = {
-        id: Number(msg.id),
-        content: isAct ? stripActivityPrefix(msg.content) : msg.content,
-        timestamp: msg.createdAt.toISOString(),
-        senderName: msg.user?.name,
-        username: msg.user?.username,
-        isRead: true,
-        type: isAct ? ("activity" as const) : ("text" as const),
-      };
-      return mapped;
-    }),
+    members,
+    messages: messagePage.messages,
+    olderMessagesCursor: messagePage.hasMore ? messagePage.startCursor : null,
+    firstUnreadMessageId: firstUnread ? String(firstUnread.id) : null,
+    readReceiptsEnabled: spaceBase.readReceiptsEnabled,
+    membersCanMentionEveryone: spaceBase.membersCanMentionEveryone,
+    attachmentMaxBytes: spaceBase.attachmentMaxBytes,
+    retentionDays: spaceBase.retentionDays,
+    legalHold: spaceBase.legalHold,
+    pinnedMessages,
+    readPointers: spaceBase.readReceiptsEnabled
+      ? toReadPointers(spaceBase.members)
+      : undefined,
+    unreadCount: counts.unreadCount,
+    mentionCount: counts.mentionCount,
     notes: (notes as NoteFull[]).map((n) => ({
       id: n.id,
       title: n.title,
@@ -607,10 +1007,7 @@ export async function leaveSpace(spaceId: string) {
         select: { name: true, email: true },
       });
       const displayName = me?.name || me?.email || "Someone";
-      await sendActivityMessage(
-        spaceId,
-        `<strong>${displayName}</strong> left the space`
-      );
+      await postActivity(spaceId, userId, { kind: "MEMBER_LEFT" });
 
       if (pusherServer) {
         await pusherServer.trigger(`space-${spaceId}`, "member:left", {
@@ -633,6 +1030,7 @@ export async function leaveSpace(spaceId: string) {
 
 /**
  * Creates a secure invite link for a space (admin only)
+ * Direct messages have no admin and cannot be joined by link
  *
  * @param spaceId - The ID of the space to create invite for
  * @param expiresInMinutes - Link expiration time in minutes (default: 60)
@@ -645,8 +1043,11 @@ export async function createInviteLink(spaceId: string, expiresInMinutes = 60) {
 
   const membership = await prisma.spaceMember.findUnique({
     where: { spaceId_userId: { spaceId, userId } },
-    select: { role: true },
+    select: { role: true, space: { select: { isDirect: true } } },
   });
+  if (membership?.space.isDirect) {
+    throw new Error("Direct messages don't have invite links");
+  }
   if (!membership || membership.role !== "ADMIN") {
     throw new Error("Forbidden: only admin can generate invite link");
   }
@@ -696,23 +1097,15 @@ export async function setMemberRole(
     orderBy: { joinedAt: "asc" },
   });
 
-  const actor = await prisma.user.findUnique({
-    where: { id: actorId },
-    select: { name: true, email: true },
-  });
   const target = await prisma.user.findUnique({
     where: { id: targetUserId },
     select: { name: true, email: true },
   });
-  const actorName = getUserDisplayName(actor);
-  const targetName = getUserDisplayName(target);
-
-  const message =
-    role === "ADMIN"
-      ? createMemberActivityMessage("made_admin", actorName, targetName)
-      : createMemberActivityMessage("role_changed", actorName, targetName);
-
-  await sendActivityMessageSafe(spaceId, message);
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "MEMBER_ROLE_CHANGED",
+    targetId: targetUserId,
+    payload: { targetName: getUserDisplayName(target), role },
+  });
 
   // Broadcast member role change via Pusher
   if (pusherServer) {
@@ -759,19 +1152,15 @@ export async function removeMember(spaceId: string, targetUserId: string) {
     orderBy: { joinedAt: "asc" },
   });
 
-  const actor = await prisma.user.findUnique({
-    where: { id: actorId },
-    select: { name: true, email: true },
-  });
   const target = await prisma.user.findUnique({
     where: { id: targetUserId },
     select: { name: true, email: true },
   });
-  const actorName = getUserDisplayName(actor);
-  const targetName = getUserDisplayName(target);
-
-  const message = createMemberActivityMessage("removed", actorName, targetName);
-  await sendActivityMessageSafe(spaceId, message);
+  await sendActivityMessageSafe(spaceId, actorId, {
+    kind: "MEMBER_REMOVED",
+    targetId: targetUserId,
+    payload: { targetName: getUserDisplayName(target) },
+  });
 
   if (pusherServer) {
     await pusherServer.trigger(`space-${spaceId}`, "member:removed", {
@@ -821,17 +1210,9 @@ export async function updateSpaceInfo(
     select: { id: true, name: true, description: true },
   });
 
-  try {
-    const me = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { name: true, email: true },
-    });
-    const displayName = me?.name || me?.email || "Someone";
-    await sendActivityMessage(
-      spaceId,
-      `<strong>${displayName}</strong> just updated the space info`
-    );
-  } catch {}
+  await sendActivityMessageSafe(spaceId, userId, {
+    kind: "SPACE_INFO_UPDATED",
+  });
 
   if (pusherServer) {
     await pusherServer.trigger(`space-${spaceId}`, "space:info-updated", {
@@ -844,50 +1225,20 @@ export async function updateSpaceInfo(
   return updated;
 }
 
-async function uploadIconToAzureIfAny(file: FormDataEntryValue | null) {
-  if (!file || typeof file === "string") return undefined as string | undefined;
-  const blobFile = file as File;
-  if (blobFile.size <= 0) return undefined;
-  if (blobFile.size > 5 * 1024 * 1024) throw new Error("Max file size is 5MB");
-  const contentType = blobFile.type || "application/octet-stream";
-  if (!/^image\//.test(contentType))
-    throw new Error("Only image files are allowed");
-
-  const conn = process.env.AZURE_STORAGE_CONNECTION_STRING;
-  const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
-  const accountKey = process.env.AZURE_STORAGE_ACCOUNT_KEY;
-  const containerName = process.env.AZURE_STORAGE_CONTAINER;
-  if (!containerName) throw new Error("Missing AZURE_STORAGE_CONTAINER env");
-
-  let blobService: BlobServiceLike | null = null;
-  if (conn && conn.length > 0) {
-    blobService = BlobServiceClient.fromConnectionString(
-      conn
-    ) as unknown as BlobServiceLike;
-  } else if (accountName && accountKey) {
-    const { StorageSharedKeyCredential } = await import("@azure/storage-blob");
-    const sharedKey = new StorageSharedKeyCredential(accountName, accountKey);
-    blobService = new BlobServiceClient(
-      `https://${accountName}.blob.core.windows.net`,
-      sharedKey
-    ) as unknown as BlobServiceLike;
-  } else {
-    throw new Error("Missing Azure Storage credentials");
-  }
-
-  const container = blobService.getContainerClient(containerName);
-  await container.createIfNotExists();
-
-  const ext = (blobFile.name.split(".").pop() || "png").toLowerCase();
-  const uniqueName = `${crypto.randomUUID()}.${ext}`;
-  const blockBlob = container.getBlockBlobClient(uniqueName);
-
-  const arrayBuffer = await blobFile.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  await blockBlob.uploadData(buffer, {
-    blobHTTPHeaders: { blobContentType: contentType },
+/**
+ * Uploads a space icon from form data, if one was provided
+ *
+ * @param file - Form entry for the icon
+ * @returns Public icon URL, or undefined when no file was chosen
+ * @throws Error if the file is too large, not an image, or storage is not configured
+ */
+async function uploadSpaceIcon(file: FormDataEntryValue | null) {
+  if (!file || typeof file === "string" || file.size <= 0) return undefined;
+  const uploaded = await uploadBlob(file, {
+    maxBytes: SPACE_ICONS.MAX_BYTES,
+    allowedTypes: SPACE_ICONS.ALLOWED_TYPES,
   });
-  return blockBlob.url as string;
+  return uploaded.url;
 }
 
 export type UpdateSpaceFormState = {
@@ -921,7 +1272,7 @@ export async function updateSpaceFromForm(
     if (!membership || membership.role !== "ADMIN")
       return { error: "Forbidden" };
 
-    const iconUrl = await uploadIconToAzureIfAny(formData.get("icon"));
+    const iconUrl = await uploadSpaceIcon(formData.get("icon"));
 
     const updated = await prisma.space.update({
       where: { id: parsedId.data },
@@ -933,17 +1284,9 @@ export async function updateSpaceFromForm(
       select: { name: true, description: true, icon: true },
     });
 
-    try {
-      const me = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { name: true, email: true },
-      });
-      const displayName = me?.name || me?.email || "Someone";
-      await sendActivityMessage(
-        parsedId.data,
-        `<strong>${displayName}</strong> just updated the space info`
-      );
-    } catch {}
+    await sendActivityMessageSafe(parsedId.data, userId, {
+      kind: "SPACE_INFO_UPDATED",
+    });
 
     if (pusherServer) {
       await pusherServer.trigger(
@@ -0,0 +1,29 @@
+/**
+ * Import Jobs Route
+ *
+ * Continues running Slack and Discord imports whose importer closed the app
+ * part-way. Meant to be called every few minutes by a scheduler (Vercel Cron,
+ * a system cron job, or similar) with `Authorization: Bearer <CRON_SECRET>`.
+ * The route is disabled when CRON_SECRET is not set.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { advanceRunningImportJobs } from "@/utils/importJobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Advances every running import once
+ *
+ * @param req - Incoming request, authorized with the cron secret
+ * @returns JSON with the number of jobs advanced and completed
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await advanceRunningImportJobs();
+  return NextResponse.json(result);
+}
@@ -0,0 +1,29 @@
+/**
+ * Message Retention Purge Route
+ *
+ * Deletes messages older than their space's retention window. Meant to be
+ * called every hour or so by a scheduler (Vercel Cron, a system cron job, or
+ * similar) with `Authorization: Bearer <CRON_SECRET>`. The route is disabled
+ * when CRON_SECRET is not set.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { purgeExpiredMessages } from "@/utils/retention";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Runs the purge once
+ *
+ * @param req - Incoming request, authorized with the cron secret
+ * @returns JSON with the number of spaces checked and messages removed
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await purgeExpiredMessages();
+  return NextResponse.json(result);
+}
@@ -0,0 +1,29 @@
+/**
+ * Scheduled Message Dispatcher Route
+ *
+ * Posts every scheduled message that is due. Meant to be called every
+ * minute by a scheduler (Vercel Cron, a system cron job, or similar) with
+ * `Authorization: Bearer <CRON_SECRET>`. The route is disabled when
+ * CRON_SECRET is not set.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { dispatchDueScheduledMessages } from "@/utils/scheduledMessages";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Runs the dispatcher once
+ *
+ * @param req - Incoming request, authorized with the cron secret
+ * @returns JSON with the number of due messages found and posted
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await dispatchDueScheduledMessages();
+  return NextResponse.json(result);
+}
@@ -0,0 +1,100 @@
+/**
+ * Transcript Export Route
+ *
+ * Streams a space's messages as a Markdown, HTML or JSON file for the
+ * signed-in member. Query parameters:
+ * - `format`: markdown, html or json
+ * - `from` / `to`: optional ISO 8601 range; `to` is exclusive
+ * - `timeZone`: IANA time zone used to split days and show times
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/utils/actionsAuth";
+import { transcriptExportSchema } from "@/utils/validation/actions";
+import { isValidTimeZone } from "@/utils/recurrence";
+import { describeDirectMessage } from "@/utils/directMessages";
+import { mapMemberData } from "@/utils/spaceUtils";
+import {
+  getTranscriptContentType,
+  getTranscriptFileName,
+  streamTranscript,
+} from "@/utils/transcripts";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Downloads a transcript of the space
+ *
+ * @param req - Incoming request with the export options
+ * @param context - Route parameters containing the space ID
+ * @returns Streamed file, or JSON with an error
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ spaceId: string }> }
+) {
+  const { spaceId } = await params;
+  const query = req.nextUrl.searchParams;
+  const parsed = transcriptExportSchema.safeParse({
+    spaceId,
+    format: query.get("format"),
+    from: query.get("from") ?? undefined,
+    to: query.get("to") ?? undefined,
+    timeZone: query.get("timeZone") ?? "UTC",
+  });
+  if (!parsed.success || !isValidTimeZone(parsed.data.timeZone)) {
+    return NextResponse.json(
+      { error: "Invalid export options" },
+      { status: 400 }
+    );
+  }
+
+  let userId: string;
+  try {
+    ({ id: userId } = await requireAuth());
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const space = await prisma.space.findFirst({
+    where: { id: spaceId, members: { some: { userId } } },
+    include: { members: { include: { user: true } } },
+  });
+  if (!space) {
+    return NextResponse.json(
+      { error: "Forbidden: not a member of this space" },
+      { status: 403 }
+    );
+  }
+
+  const { format, from, to, timeZone } = parsed.data;
+  const exportedAt = new Date();
+  const title = space.isDirect
+    ? describeDirectMessage(space.members.map(mapMemberData), userId).name
+    : space.name;
+  const fileName = getTranscriptFileName(title, format, exportedAt);
+
+  const stream = streamTranscript(
+    {
+      spaceId,
+      title,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      timeZone,
+      exportedAt,
+    },
+    format
+  );
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": getTranscriptContentType(format),
+      "Content-Disposition": `attachment; filename="${fileName.replace(
+        /[^\x20-\x7e]|"/g,
+        "_"
+      )}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
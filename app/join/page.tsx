@@ -12,10 +12,10 @@
 
 import { redirect } from "next/navigation";
 import crypto from "crypto";
-import { joinSpace, getSpaceDetail } from "@/app/actions/spaces";
+import { joinSpace } from "@/app/actions/spaces";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { sendActivityMessage } from "@/app/actions/messages";
+import { sendActivityMessageSafe } from "@/utils/spaceUtils";
 import { Avatar, Button, Heading } from "@/components";
 import Link from "next/link";
 import { prisma } from "@/lib/prisma";
@@ -81,7 +81,13 @@ export default async function JoinPage({
     redirect("/");
   }
 
-  const space = await getSpaceDetail(spaceId);
+  const space = await prisma.space.findUnique({
+    where: { id: spaceId },
+    select: { name: true, icon: true, _count: { select: { members: true } } },
+  });
+  if (!space) {
+    redirect("/");
+  }
 
   /**
    * Server action to confirm space joining
@@ -115,13 +121,7 @@ export default async function JoinPage({
     }
 
     await joinSpace(s);
-    const displayName = ses.user.name || ses.user.email || "Someone";
-    try {
-      await sendActivityMessage(
-        s,
-        `<strong>${displayName}</strong> joined the space`
-      );
-    } catch {}
+    await sendActivityMessageSafe(s, userId, { kind: "MEMBER_JOINED" });
     redirect("/");
   }
 
@@ -141,8 +141,8 @@ export default async function JoinPage({
             Join “{space.name}”?
           </Heading>
           <div className="text-sm text-gray-600 mt-1">
-            {space.members?.length || 0}{" "}
-            {space.members?.length === 1 ? "member" : "members"}
+            {space._count.members}{" "}
+            {space._count.members === 1 ? "member" : "members"}
           </div>
         </div>
         <form action={confirmJoin} className="mt-6 space-y-3">
@@ -17,12 +17,40 @@ import {
   createSpace,
   getSpaceDetail,
   joinSpace,
+  markSpaceRead,
+  pinMessage,
+  unpinMessage,
 } from "./actions/spaces";
 import {
   sendMessage,
   listMessages,
   sendActivityMessage,
+  editMessage,
+  deleteMessage,
+  sendReply,
+  listThread,
+  toggleReaction,
+  sendTypingSignal,
+  sendMessageWithAttachments,
+  forwardMessage,
+  dismissLinkPreview,
 } from "./actions/messages";
+import { searchMessages } from "./actions/search";
+import { searchPeople, startDirectMessage } from "./actions/directMessages";
+import {
+  previewImport,
+  runImport,
+  listImportJobs,
+  discardImportJob,
+} from "./actions/imports";
+import { saveItem, unsaveItem, listSavedItems } from "./actions/bookmarks";
+import {
+  scheduleMessage,
+  cancelScheduledMessage,
+  listScheduledMessages,
+} from "./actions/scheduled";
+import { createPoll, votePoll, closePoll } from "./actions/polls";
+import { listSlashCommands, runSlashCommand } from "./actions/commands";
 import {
   createNote,
   updateNote,
@@ -71,18 +99,45 @@ export default async function Home() {
           spaceId: string
         ) => Promise<SpaceWithNotes>,
         joinSpace,
+        markSpaceRead,
         leaveSpace: (await import("./actions/spaces")).leaveSpace,
+        searchPeople,
+        startDirectMessage,
+        previewImport,
+        runImport,
+        listImportJobs,
+        discardImportJob,
         sendMessage: sendMessage as unknown as (
           spaceId: string,
-          content: string
-        ) => Promise<Message>,
-        listMessages: listMessages as unknown as (
-          spaceId: string
-        ) => Promise<Message[]>,
-        sendActivityMessage: sendActivityMessage as unknown as (
-          spaceId: string,
-          htmlContent: string
+          content: string,
+          idempotencyKey?: string,
+          quotedMessageId?: string
         ) => Promise<Message>,
+        listMessages,
+        searchMessages,
+        sendMessageWithAttachments,
+        forwardMessage,
+        sendReply,
+        sendTypingSignal,
+        listThread,
+        editMessage,
+        deleteMessage,
+        dismissLinkPreview,
+        toggleReaction,
+        pinMessage,
+        unpinMessage,
+        scheduleMessage,
+        cancelScheduledMessage,
+        listScheduledMessages,
+        createPoll,
+        votePoll,
+        closePoll,
+        saveItem,
+        unsaveItem,
+        listSavedItems,
+        listSlashCommands,
+        runSlashCommand,
+        sendActivityMessage,
         createNote: createNote as (
           spaceId: string,
           title: string,
@@ -4,7 +4,7 @@ import Image from "next/image";
 interface AvatarProps {
   src?: string;
   alt?: string;
-  size?: "sm" | "md" | "lg" | "xl" | "xxl";
+  size?: "xs" | "sm" | "md" | "lg" | "xl" | "xxl";
   className?: string;
   children?: React.ReactNode;
 }
@@ -17,6 +17,7 @@ export const Avatar: React.FC<AvatarProps> = ({
   children,
 }) => {
   const sizeClasses = {
+    xs: "w-5 h-5 text-[10px]",
     sm: "w-8 h-8 text-xs",
     md: "w-10 h-10 text-sm",
     lg: "w-12 h-12 text-base",
@@ -33,7 +34,9 @@ export const Avatar: React.FC<AvatarProps> = ({
         src={src}
         alt={alt}
         width={
-          size === "sm"
+          size === "xs"
+            ? 20
+            : size === "sm"
             ? 32
             : size === "md"
             ? 40
@@ -44,7 +47,9 @@ export const Avatar: React.FC<AvatarProps> = ({
             : 80
         }
         height={
-          size === "sm"
+          size === "xs"
+            ? 20
+            : size === "sm"
             ? 32
             : size === "md"
             ? 40
@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * ImageLightbox Component
+ *
+ * Full-screen viewer for image attachments with:
+ * - Image scaled to fit the viewport
+ * - File name and a link to the original
+ * - Closing by Escape, the close button, or a click on the backdrop
+ */
+
+import React, { memo, useEffect } from "react";
+import Image from "next/image";
+import { CloseIcon } from "../Icons";
+
+/**
+ * Props interface for ImageLightbox component
+ */
+interface ImageLightboxProps {
+  src: string;
+  name: string;
+  onClose: () => void;
+}
+
+/**
+ * ImageLightbox Component Implementation
+ *
+ * @param src - Image URL
+ * @param name - File name shown as caption and alt text
+ * @param onClose - Handler for closing the viewer
+ */
+const ImageLightboxComponent: React.FC<ImageLightboxProps> = ({
+  src,
+  name,
+  onClose,
+}) => {
+  /**
+   * Closes the viewer on Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={name}
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-3 p-6 bg-black/80"
+      onClick={onClose}
+    >
+      <button
+        type="button"
+        onClick={onClose}
+        aria-label="Close"
+        className="absolute top-4 right-4 text-white/80 hover:text-white"
+      >
+        <CloseIcon />
+      </button>
+      <Image
+        src={src}
+        alt={name}
+        width={1600}
+        height={1200}
+        className="max-w-full max-h-[85vh] w-auto h-auto object-contain rounded"
+        onClick={(e) => e.stopPropagation()}
+      />
+      <a
+        href={src}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-white/80 hover:text-white underline"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {name}
+      </a>
+    </div>
+  );
+};
+
+export const ImageLightbox = memo(ImageLightboxComponent);
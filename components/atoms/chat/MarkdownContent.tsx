@@ -0,0 +1,192 @@
+"use client";
+
+/**
+ * MarkdownContent Component
+ *
+ * Renders chat message Markdown as React elements with:
+ * - Bold, italic, strikethrough, and inline code
+ * - Fenced code blocks with syntax highlighting
+ * - Block quotes, bulleted and numbered lists
+ * - Autolinked URLs opening in a new tab
+ * - Highlighted @mentions
+ *
+ * Content is parsed into a syntax tree and rendered as text nodes only;
+ * raw HTML in messages is shown as typed and never interpreted.
+ */
+
+import React, { memo, useMemo } from "react";
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@/utils/markdown";
+import { highlightCode, type CodeTokenType } from "@/utils/syntaxHighlight";
+import { splitMentions } from "@/utils/messageUtils";
+
+/**
+ * Props interface for MarkdownContent component
+ */
+interface MarkdownContentProps {
+  content: string;
+  variant?: "sent" | "received";
+  mentionUsernames?: string[];
+  className?: string;
+}
+
+/**
+ * Styles for highlighted code tokens on the dark code block background
+ */
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: "",
+  comment: "text-gray-400 italic",
+  string: "text-emerald-300",
+  number: "text-amber-300",
+  keyword: "text-sky-300 font-semibold",
+};
+
+/**
+ * Styles that depend on the bubble variant
+ */
+const VARIANT_CLASSES = {
+  sent: {
+    code: "bg-blue-600/70",
+    link: "underline text-white hover:text-blue-100",
+    quote: "border-blue-200",
+    mention: "bg-blue-400",
+  },
+  received: {
+    code: "bg-gray-200 text-gray-800",
+    link: "underline text-indigo-600 hover:text-indigo-800",
+    quote: "border-gray-300 text-gray-600",
+    mention: "bg-indigo-100 text-indigo-700",
+  },
+} as const;
+
+/**
+ * MarkdownContent Component Implementation
+ *
+ * @param content - Raw message content
+ * @param variant - Bubble variant the content is shown in
+ * @param mentionUsernames - Resolved mentions to highlight
+ * @param className - Additional CSS classes
+ */
+const MarkdownContentComponent: React.FC<MarkdownContentProps> = ({
+  content,
+  variant = "received",
+  mentionUsernames = [],
+  className = "",
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const styles = VARIANT_CLASSES[variant];
+
+  /**
+   * Renders plain text with resolved mentions highlighted
+   */
+  const renderText = (text: string, key: React.Key) => (
+    <React.Fragment key={key}>
+      {splitMentions(text, mentionUsernames).map((segment, index) =>
+        segment.isMention ? (
+          <span
+            key={index}
+            className={`font-semibold rounded px-0.5 ${styles.mention}`}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </React.Fragment>
+  );
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return renderText(node.text, index);
+        case "break":
+          return <br key={index} />;
+        case "code":
+          return (
+            <code
+              key={index}
+              className={`px-1 rounded font-mono text-[0.85em] ${styles.code}`}
+            >
+              {node.text}
+            </code>
+          );
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className={`break-all ${styles.link}`}
+            >
+              {node.text}
+            </a>
+          );
+        case "strong":
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case "em":
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case "strike":
+          return <s key={index}>{renderInline(node.children)}</s>;
+      }
+    });
+
+  const renderBlocks = (items: MarkdownBlock[]): React.ReactNode[] =>
+    items.map((block, index) => {
+      switch (block.type) {
+        case "paragraph":
+          return <p key={index}>{renderInline(block.children)}</p>;
+        case "codeBlock":
+          return (
+            <pre
+              key={index}
+              className="p-2 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto whitespace-pre"
+            >
+              <code>
+                {highlightCode(block.text, block.lang).map((token, i) => (
+                  <span key={i} className={TOKEN_CLASSES[token.type]}>
+                    {token.text}
+                  </span>
+                ))}
+              </code>
+            </pre>
+          );
+        case "quote":
+          return (
+            <blockquote
+              key={index}
+              className={`pl-2 border-l-4 space-y-1 ${styles.quote}`}
+            >
+              {renderBlocks(block.children)}
+            </blockquote>
+          );
+        case "list":
+          return block.ordered ? (
+            <ol key={index} start={block.start} className="pl-5 list-decimal">
+              {block.items.map((item, i) => (
+                <li key={i}>{renderInline(item)}</li>
+              ))}
+            </ol>
+          ) : (
+            <ul key={index} className="pl-5 list-disc">
+              {block.items.map((item, i) => (
+                <li key={i}>{renderInline(item)}</li>
+              ))}
+            </ul>
+          );
+      }
+    });
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+};
+
+export const MarkdownContent = memo(MarkdownContentComponent);
@@ -1,24 +1,45 @@
 import React from "react";
 import { Heading } from "../Heading";
+import { ForwardIcon } from "../Icons";
+import { MarkdownContent } from "./MarkdownContent";
+import type { MessageReference } from "@/types";
 
 interface MessageBubbleProps {
   variant?: "sent" | "received";
-  children: React.ReactNode;
+  children?: React.ReactNode;
+  content?: string;
+  mentionUsernames?: string[];
   timestamp?: string;
   senderName?: string;
+  isEdited?: boolean;
+  isDeleted?: boolean;
+  isHighlighted?: boolean;
+  quote?: MessageReference;
+  forwardedFrom?: MessageReference;
+  onOpenReference?: (reference: MessageReference) => void;
   className?: string;
 }
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({
   variant = "received",
   children,
+  content,
+  mentionUsernames,
   timestamp,
   senderName,
+  isEdited = false,
+  isDeleted = false,
+  isHighlighted = false,
+  quote,
+  forwardedFrom,
+  onOpenReference,
   className = "",
 }) => {
   const variantClasses = {
     sent: "bg-blue-500 text-white ml-auto",
-    received: "bg-gray-100 text-gray-900 mr-auto",
+    received: isHighlighted
+      ? "bg-amber-50 text-gray-900 mr-auto ring-1 ring-amber-300"
+      : "bg-gray-100 text-gray-900 mr-auto",
   } as const;
 
   const timestampClasses = {
@@ -26,26 +47,87 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     received: "text-gray-400",
   } as const;
 
+  const referenceClasses = {
+    sent: {
+      label: "text-blue-100",
+      quote: "border-blue-200 bg-blue-400/40 text-blue-50",
+    },
+    received: {
+      label: "text-gray-500",
+      quote: "border-gray-400 bg-white/70 text-gray-700",
+    },
+  } as const;
+
+  const canOpen = (reference: MessageReference) =>
+    !!onOpenReference && !!reference.messageId && !!reference.spaceId;
+
   return (
     <div className={`relative ${className}`}>
       <div
         className={`
-          max-w-xs px-4 py-2 rounded-xl relative break-words whitespace-pre-wrap
+          max-w-xs px-4 py-2 rounded-xl relative break-words
           ${variantClasses[variant]}
         `}
       >
-        <div className="pr-12 break-words whitespace-pre-wrap">
+        <div
+          className={`${
+            isEdited && !isDeleted ? "pr-24" : "pr-12"
+          } break-words`}
+        >
           {senderName && (
             <Heading level={6} className="text-gray-600">
               {senderName}
             </Heading>
           )}
-          {children}
+          {!isDeleted && forwardedFrom && (
+            <button
+              type="button"
+              onClick={() => onOpenReference?.(forwardedFrom)}
+              disabled={!canOpen(forwardedFrom)}
+              title="Go to original message"
+              className={`flex items-center gap-1 mb-1 text-xs text-left enabled:hover:underline ${referenceClasses[variant].label}`}
+            >
+              <ForwardIcon className="w-3 h-3 flex-shrink-0" />
+              <span>
+                Forwarded from <strong>{forwardedFrom.senderName}</strong>
+                {forwardedFrom.spaceName && (
+                  <>
+                    {" "}
+                    in <strong>{forwardedFrom.spaceName}</strong>
+                  </>
+                )}
+              </span>
+            </button>
+          )}
+          {!isDeleted && quote && (
+            <button
+              type="button"
+              onClick={() => onOpenReference?.(quote)}
+              disabled={!canOpen(quote)}
+              title="Go to quoted message"
+              className={`block w-full mb-1 px-2 py-1 text-left text-xs border-l-2 rounded ${referenceClasses[variant].quote}`}
+            >
+              <span className="block font-semibold">{quote.senderName}</span>
+              <span className="block line-clamp-2">{quote.excerpt}</span>
+            </button>
+          )}
+          {isDeleted ? (
+            <span className="italic opacity-70">message deleted</span>
+          ) : content !== undefined ? (
+            <MarkdownContent
+              content={content}
+              variant={variant}
+              mentionUsernames={mentionUsernames}
+            />
+          ) : (
+            children
+          )}
         </div>
         {timestamp && (
           <div
             className={`absolute bottom-1 right-2 text-xs ${timestampClasses[variant]}`}
           >
+            {isEdited && !isDeleted && <span className="mr-1">edited</span>}
             {timestamp}
           </div>
         )}
@@ -57,6 +139,8 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
           ${
             variant === "sent"
               ? "right-[-8px] border-t-blue-500"
+              : isHighlighted
+              ? "left-[-8px] border-t-amber-50"
               : "left-[-8px] border-t-gray-100"
           }
         `}
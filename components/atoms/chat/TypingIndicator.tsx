@@ -0,0 +1,62 @@
+"use client";
+
+/**
+ * TypingIndicator Component
+ *
+ * Shows who is composing a message with:
+ * - One or two names spelled out
+ * - "Several people are typing" for three or more
+ * - Animated dots
+ * - Reserved height so the input does not jump
+ */
+
+import React, { memo } from "react";
+
+/**
+ * Props interface for TypingIndicator component
+ */
+interface TypingIndicatorProps {
+  names: string[];
+  className?: string;
+}
+
+/**
+ * Builds the indicator text for the given typers
+ *
+ * @param names - Names of members who are typing
+ * @returns Text such as "Alice is typing…"
+ */
+const formatTypingText = (names: string[]): string => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return "Several people are typing…";
+};
+
+/**
+ * TypingIndicator Component Implementation
+ *
+ * @param names - Names of members who are typing
+ * @param className - Additional CSS classes
+ */
+const TypingIndicatorComponent: React.FC<TypingIndicatorProps> = ({
+  names,
+  className = "",
+}) => (
+  <div
+    className={`h-5 px-5 text-xs text-gray-500 flex items-center gap-1.5 ${className}`}
+    aria-live="polite"
+  >
+    {names.length > 0 && (
+      <>
+        <span className="flex gap-0.5">
+          <span className="w-1 h-1 rounded-full bg-gray-400 animate-bounce" />
+          <span className="w-1 h-1 rounded-full bg-gray-400 animate-bounce [animation-delay:150ms]" />
+          <span className="w-1 h-1 rounded-full bg-gray-400 animate-bounce [animation-delay:300ms]" />
+        </span>
+        <span className="truncate">{formatTypingText(names)}</span>
+      </>
+    )}
+  </div>
+);
+
+export const TypingIndicator = memo(TypingIndicatorComponent);
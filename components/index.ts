@@ -27,6 +27,9 @@ export * from "./atoms/Icons";
 
 export { AuthIllustration } from "./atoms/auth/AuthIllustration";
 export { MessageBubble } from "./atoms/chat/MessageBubble";
+export { MarkdownContent } from "./atoms/chat/MarkdownContent";
+export { TypingIndicator } from "./atoms/chat/TypingIndicator";
+export { ImageLightbox } from "./atoms/chat/ImageLightbox";
 
 // ===== MOLECULES =====
 export { FormField } from "./molecules/FormField";
@@ -37,10 +40,31 @@ export { SpaceItem } from "./molecules/space/SpaceItem";
 export { SpaceListHeader } from "./molecules/space/SpaceListHeader";
 export { SpaceList } from "./molecules/space/SpaceList";
 export { SpaceForm } from "./molecules/space/SpaceForm";
+export { NewDirectMessageForm } from "./molecules/space/NewDirectMessageForm";
+export { ImportArchiveForm } from "./molecules/space/ImportArchiveForm";
 export { ProfileDetail } from "./molecules/profile/ProfileDetail";
+export { SavedItemCard } from "./molecules/saved/SavedItemCard";
+export { SavedItemList } from "./molecules/saved/SavedItemList";
+export { ActivityMessage } from "./molecules/chat/ActivityMessage";
 export { ChatHeader } from "./molecules/chat/ChatHeader";
 export { ChatInput } from "./molecules/chat/ChatInput";
+export { CreatePollMenu } from "./molecules/chat/CreatePollMenu";
+export { EphemeralReply } from "./molecules/chat/EphemeralReply";
+export { FormattingToolbar } from "./molecules/chat/FormattingToolbar";
+export { ForwardMessageMenu } from "./molecules/chat/ForwardMessageMenu";
+export { LinkPreviewCard } from "./molecules/chat/LinkPreviewCard";
+export { MentionSuggestions } from "./molecules/chat/MentionSuggestions";
+export { MessageAttachments } from "./molecules/chat/MessageAttachments";
 export { MessageItem } from "./molecules/chat/MessageItem";
+export { MessageSearchResults } from "./molecules/chat/MessageSearchResults";
+export { PinnedMessageList } from "./molecules/chat/PinnedMessageList";
+export { PollCard } from "./molecules/chat/PollCard";
+export { ReactionBar } from "./molecules/chat/ReactionBar";
+export { ReactionPicker } from "./molecules/chat/ReactionPicker";
+export { ScheduleMessageMenu } from "./molecules/chat/ScheduleMessageMenu";
+export { ScheduledMessageList } from "./molecules/chat/ScheduledMessageList";
+export { SeenBy } from "./molecules/chat/SeenBy";
+export { SlashCommandPalette } from "./molecules/chat/SlashCommandPalette";
 export { NoteList } from "./molecules/note/NoteList";
 export { NoteEditor } from "./molecules/note/NoteEditor";
 export { NoteHeader } from "./molecules/note/NoteHeader";
@@ -62,4 +86,5 @@ export { SpaceManager } from "./organisms/space/SpaceManager";
 export { SpaceInfoPanel } from "./organisms/space/SpaceInfoPanel";
 export { ChatArea } from "./organisms/chat/ChatArea";
 export { MessageList } from "./organisms/chat/MessageList";
+export { ThreadPanel } from "./organisms/chat/ThreadPanel";
 export { NotesPanel } from "./organisms/note/NotesPanel";
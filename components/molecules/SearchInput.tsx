@@ -6,6 +6,7 @@ interface SearchInputProps {
   className?: string;
   value?: string;
   onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
 }
 
 export const SearchInput: React.FC<SearchInputProps> = ({
@@ -13,6 +14,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
   className = "",
   value,
   onChange,
+  onKeyDown,
 }) => {
   return (
     <div className={`relative ${className}`}>
@@ -22,6 +24,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
         className="pl-10"
         value={value}
         onChange={onChange}
+        onKeyDown={onKeyDown}
       />
       <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
         <SearchIcon className="h-4 w-4 text-gray-400" />
@@ -0,0 +1,84 @@
+"use client";
+
+/**
+ * ActivityMessage Component
+ *
+ * Centered pill describing an activity event in the chat timeline with:
+ * - Icon for the kind of event (members, space settings, pins, notes)
+ * - Actor, other member and note titles emphasized
+ * - Names rendered as text, never as HTML
+ */
+
+import React, { memo, useMemo } from "react";
+import { NoteIcon, PencilIcon, PinIcon, UserIcon } from "../../atoms/Icons";
+import { getActivitySegments } from "@/utils/activity";
+import type { ActivityKind, MessageActivity } from "@/types";
+
+/**
+ * Icon shown for each kind of activity
+ */
+const ACTIVITY_ICONS: Record<ActivityKind, React.FC<{ className?: string }>> = {
+  MEMBER_JOINED: UserIcon,
+  MEMBER_LEFT: UserIcon,
+  MEMBER_REMOVED: UserIcon,
+  MEMBER_ROLE_CHANGED: UserIcon,
+  SPACE_INFO_UPDATED: PencilIcon,
+  READ_RECEIPTS_CHANGED: PencilIcon,
+  MENTION_EVERYONE_CHANGED: PencilIcon,
+  ATTACHMENT_LIMIT_CHANGED: PencilIcon,
+  RETENTION_CHANGED: PencilIcon,
+  LEGAL_HOLD_CHANGED: PencilIcon,
+  MESSAGE_PINNED: PinIcon,
+  MESSAGE_UNPINNED: PinIcon,
+  NOTE_CREATED: NoteIcon,
+  NOTE_UPDATED: NoteIcon,
+  NOTE_DELETED: NoteIcon,
+  LEGACY: NoteIcon,
+};
+
+/**
+ * Props interface for ActivityMessage component
+ */
+interface ActivityMessageProps {
+  activity: MessageActivity;
+  className?: string;
+}
+
+/**
+ * ActivityMessage Component Implementation
+ *
+ * @param activity - Activity event with the actor's name
+ * @param className - Additional CSS classes
+ */
+const ActivityMessageComponent: React.FC<ActivityMessageProps> = ({
+  activity,
+  className = "",
+}) => {
+  // ===== COMPUTED VALUES =====
+
+  /**
+   * Description split into plain and emphasized parts
+   */
+  const segments = useMemo(() => getActivitySegments(activity), [activity]);
+
+  const Icon = ACTIVITY_ICONS[activity.kind];
+
+  return (
+    <div className={`flex items-center justify-center my-2 ${className}`}>
+      <div className="flex items-center gap-1.5 bg-[#efeaff] text-[#6b61c4] text-xs px-2.5 py-1 rounded-full shadow-sm">
+        <Icon className="w-4 h-4" />
+        <span>
+          {segments.map((segment, index) =>
+            segment.strong ? (
+              <strong key={index}>{segment.text}</strong>
+            ) : (
+              <React.Fragment key={index}>{segment.text}</React.Fragment>
+            )
+          )}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const ActivityMessage = memo(ActivityMessageComponent);
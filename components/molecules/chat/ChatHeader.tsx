@@ -8,15 +8,19 @@
  * - Space avatar with fallback to first letter
  * - Toggle notes functionality
  * - Space info access button
+ * - Pinned messages button with a popover list
  * - Clean, professional layout
  * - Accessibility features with titles
  * - Responsive design
  */
 
+import { useEffect, useRef, useState } from "react";
 import { Button } from "../../atoms/Button";
 import { Heading } from "../../atoms/Heading";
 import { Avatar } from "../../atoms/Avatar";
-import { NoteIcon } from "../../atoms/Icons";
+import { NoteIcon, PinIcon } from "../../atoms/Icons";
+import { PinnedMessageList } from "./PinnedMessageList";
+import type { PinnedMessage } from "@/types";
 
 /**
  * Props interface for ChatHeader component
@@ -27,6 +31,9 @@ interface ChatHeaderProps {
   className?: string;
   onToggleNotes?: () => void;
   onOpenSpaceInfo?: () => void;
+  pinnedMessages?: PinnedMessage[];
+  onSelectPinnedMessage?: (messageId: string) => void;
+  onUnpinMessage?: (messageId: string) => void;
 }
 
 /**
@@ -40,6 +47,9 @@ interface ChatHeaderProps {
  * @param className - Additional CSS classes for styling
  * @param onToggleNotes - Callback function for toggling notes panel
  * @param onOpenSpaceInfo - Callback function for opening space information
+ * @param pinnedMessages - Messages pinned to the space, newest pin first
+ * @param onSelectPinnedMessage - Callback function for jumping to a pinned message
+ * @param onUnpinMessage - Callback function for unpinning; omitted for non-admins
  */
 export const ChatHeader: React.FC<ChatHeaderProps> = ({
   spaceName,
@@ -47,7 +57,31 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
   className = "",
   onToggleNotes,
   onOpenSpaceInfo,
+  pinnedMessages = [],
+  onSelectPinnedMessage,
+  onUnpinMessage,
 }) => {
+  /**
+   * Controls visibility of the pinned messages popover
+   */
+  const [showPins, setShowPins] = useState(false);
+
+  const pinsRef = useRef<HTMLDivElement | null>(null);
+
+  /**
+   * Closes the pinned messages popover when clicking outside of it
+   */
+  useEffect(() => {
+    if (!showPins) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!pinsRef.current?.contains(e.target as Node)) {
+        setShowPins(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [showPins]);
+
   return (
     <div className={`p-4 border-b border-gray-200 bg-gray-50 ${className}`}>
       <div className="flex justify-between items-center">
@@ -70,14 +104,49 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
             {spaceName}
           </Heading>
         </div>
-        <Button
-          variant="icon"
-          size="sm"
-          onClick={onToggleNotes}
-          title="Toggle notes"
-        >
-          <NoteIcon className="w-7 h-7" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <div ref={pinsRef} className="relative">
+            <Button
+              variant="icon"
+              size="sm"
+              onClick={() => setShowPins((v) => !v)}
+              title="Pinned messages"
+            >
+              <span className="relative flex">
+                <PinIcon className="w-6 h-6" />
+                {pinnedMessages.length > 0 && (
+                  <span className="absolute -top-1 -right-2 min-w-4 h-4 px-1 rounded-full bg-indigo-600 text-white text-[10px] leading-4 text-center">
+                    {pinnedMessages.length}
+                  </span>
+                )}
+              </span>
+            </Button>
+            {showPins && (
+              <div className="absolute right-0 top-full mt-2 z-20 w-80 max-h-96 overflow-y-auto p-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+                <p className="px-3 py-1 text-xs font-semibold text-gray-500 uppercase">
+                  Pinned messages
+                </p>
+                <PinnedMessageList
+                  pins={pinnedMessages}
+                  onSelect={(messageId) => {
+                    setShowPins(false);
+                    onSelectPinnedMessage?.(messageId);
+                  }}
+                  onUnpin={onUnpinMessage}
+                  className="px-1"
+                />
+              </div>
+            )}
+          </div>
+          <Button
+            variant="icon"
+            size="sm"
+            onClick={onToggleNotes}
+            title="Toggle notes"
+          >
+            <NoteIcon className="w-7 h-7" />
+          </Button>
+        </div>
       </div>
     </div>
   );
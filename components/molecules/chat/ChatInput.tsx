@@ -4,19 +4,56 @@
  * ChatInput Component
  *
  * Input component for sending chat messages with:
- * - Text input with placeholder
+ * - Multi-line text input with placeholder
  * - Send button with icon
- * - Enter key support for sending messages
+ * - Enter key support for sending messages (Shift+Enter for a new line)
+ * - Markdown formatting toolbar and preview toggle
+ * - @mention autocomplete with keyboard navigation
+ * - Slash command palette when the message starts with `/`
+ * - File picker with removable chips for pending attachments
+ * - Quoted message preview that can be cancelled
+ * - Schedule button for sending the draft later
+ * - Poll button for posting a poll
  * - Disabled state handling
  * - Performance optimization with memoization
  * - Keyboard accessibility
  * - Responsive design
  */
 
-import React, { memo, useCallback, useMemo } from "react";
-import { Input } from "../../atoms/Input";
+import React, {
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AutoResizeTextarea } from "../../atoms/AutoResizeTextarea";
 import { Button } from "../../atoms/Button";
-import { SendIcon } from "../../atoms/Icons";
+import {
+  ClockIcon,
+  CloseIcon,
+  PaperclipIcon,
+  PollIcon,
+  QuoteIcon,
+  SendIcon,
+} from "../../atoms/Icons";
+import { MarkdownContent } from "../../atoms/chat/MarkdownContent";
+import { CreatePollMenu } from "./CreatePollMenu";
+import { FormattingToolbar } from "./FormattingToolbar";
+import { MentionSuggestions } from "./MentionSuggestions";
+import { SlashCommandPalette } from "./SlashCommandPalette";
+import { ScheduleMessageMenu } from "./ScheduleMessageMenu";
+import { useAutoResize } from "@/hooks/useAutoResize";
+import { ATTACHMENTS, MENTIONS } from "@/utils/constants";
+import { formatFileSize } from "@/utils/formatters";
+import { applyMarkdownFormat, type MarkdownFormat } from "@/utils/markdown";
+import type {
+  MentionCandidate,
+  MessageReference,
+  PollInput,
+  SlashCommandInfo,
+} from "@/types";
 
 /**
  * Props interface for ChatInput component
@@ -24,11 +61,45 @@ import { SendIcon } from "../../atoms/Icons";
 interface ChatInputProps {
   className?: string;
   value?: string;
-  onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onChange?: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  onValueChange?: (value: string) => void;
   onSend?: () => void;
   disabled?: boolean;
+  placeholder?: string;
+  mentionCandidates?: MentionCandidate[];
+  commands?: SlashCommandInfo[];
+  attachments?: File[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (index: number) => void;
+  quote?: MessageReference;
+  onCancelQuote?: () => void;
+  onSchedule?: (sendAt: Date, rrule?: string) => Promise<void>;
+  onCreatePoll?: (poll: PollInput) => Promise<void>;
 }
 
+/**
+ * Mention being typed: position of its `@` and the text after it
+ */
+type MentionQuery = {
+  start: number;
+  query: string;
+};
+
+/**
+ * Finds the mention being typed right before the caret
+ *
+ * @param text - Current input value
+ * @param caret - Caret position
+ * @returns Mention query, or null if the caret is not in a mention
+ */
+const findMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(?:^|[^A-Za-z0-9_])@([A-Za-z0-9_]*)$/.exec(
+    text.slice(0, caret)
+  );
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+};
+
 /**
  * ChatInput Component Implementation
  *
@@ -38,42 +109,507 @@ interface ChatInputProps {
  * @param className - Additional CSS classes for styling
  * @param value - Controlled input value
  * @param onChange - Change event handler for input
+ * @param onValueChange - Handler for value changes made by the input itself, such as formatting or inserting a mention
  * @param onSend - Callback function when send button is clicked
  * @param disabled - Whether the input is disabled
+ * @param placeholder - Placeholder text for the input
+ * @param mentionCandidates - Members (and keywords) offered when typing `@`
+ * @param commands - Slash commands offered when the message starts with `/`
+ * @param attachments - Files waiting to be sent with the message
+ * @param onAttachFiles - Handler for files chosen with the file picker
+ * @param onRemoveAttachment - Handler for removing a pending file by index
+ * @param quote - Message the draft quotes, if any
+ * @param onCancelQuote - Handler for dropping the quote
+ * @param onSchedule - Handler for scheduling the draft; rejects with a message to show
+ * @param onCreatePoll - Handler for posting a poll; rejects with a message to show
  */
 const ChatInputComponent: React.FC<ChatInputProps> = ({
   className = "",
   value,
   onChange,
+  onValueChange,
   onSend,
   disabled,
+  placeholder = "Type a message...",
+  mentionCandidates,
+  commands,
+  attachments = [],
+  onAttachFiles,
+  onRemoveAttachment,
+  quote,
+  onCancelQuote,
+  onSchedule,
+  onCreatePoll,
 }) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Mention being typed, or null when the suggestion list is closed
+   */
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+
+  /**
+   * Highlighted suggestion index
+   */
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  /**
+   * Whether the rendered preview is shown instead of the text area
+   */
+  const [isPreview, setIsPreview] = useState(false);
+
+  /**
+   * Draft for which the command palette was closed with Escape
+   */
+  const [dismissedCommand, setDismissedCommand] = useState<string | null>(null);
+
+  /**
+   * Whether the schedule popover is open
+   */
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  /**
+   * Whether the poll popover is open
+   */
+  const [showPoll, setShowPoll] = useState(false);
+
+  const scheduleRef = useRef<HTMLDivElement | null>(null);
+  const pollRef = useRef<HTMLDivElement | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { autoResize } = useAutoResize();
+
+  /**
+   * Fits the text area to its content, including changes made outside
+   * of typing such as clearing after send
+   */
+  useEffect(() => {
+    autoResize(inputRef.current);
+  }, [value, isPreview, autoResize]);
+
+  /**
+   * Moves focus to the text area when a message is quoted
+   */
+  useEffect(() => {
+    if (quote?.messageId) inputRef.current?.focus();
+  }, [quote?.messageId]);
+
+  /**
+   * Returns to writing mode once the draft is sent or cleared
+   */
+  useEffect(() => {
+    if (!value) setIsPreview(false);
+  }, [value]);
+
+  /**
+   * Closes the schedule popover when clicking outside of it
+   */
+  useEffect(() => {
+    if (!showSchedule) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!scheduleRef.current?.contains(e.target as Node)) {
+        setShowSchedule(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [showSchedule]);
+
+  /**
+   * Closes the poll popover when clicking outside of it
+   */
+  useEffect(() => {
+    if (!showPoll) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!pollRef.current?.contains(e.target as Node)) {
+        setShowPoll(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [showPoll]);
+
+  /**
+   * Whether there is text or a pending file to send
+   */
   const canSend = useMemo(
-    () => !!value && value.trim().length > 0 && !disabled,
-    [value, disabled]
+    () =>
+      ((!!value && value.trim().length > 0) || attachments.length > 0) &&
+      !disabled,
+    [value, attachments.length, disabled]
+  );
+
+  /**
+   * Candidates matching the mention being typed
+   * Matches usernames and names by prefix, case-insensitively
+   */
+  const suggestions = useMemo(() => {
+    if (!mentionQuery || !mentionCandidates) return [];
+    const q = mentionQuery.query.toLowerCase();
+    return mentionCandidates
+      .filter(
+        (c) =>
+          c.username.toLowerCase().startsWith(q) ||
+          c.name
+            .toLowerCase()
+            .split(/\s+/)
+            .some((part) => part.startsWith(q))
+      )
+      .slice(0, MENTIONS.MAX_SUGGESTIONS);
+  }, [mentionQuery, mentionCandidates]);
+
+  /**
+   * Whether the draft can be scheduled; files are only sent right away
+   */
+  const canSchedule = useMemo(
+    () =>
+      !!value &&
+      value.trim().length > 0 &&
+      attachments.length === 0 &&
+      !disabled,
+    [value, attachments.length, disabled]
+  );
+
+  /**
+   * Commands matching the `/name` being typed as the whole draft
+   */
+  const commandMatches = useMemo(() => {
+    if (!commands || value === undefined || value === dismissedCommand) {
+      return [];
+    }
+    const match = /^\/([a-z]*)$/i.exec(value);
+    if (!match) return [];
+    const q = match[1].toLowerCase();
+    return commands.filter((c) => c.name.startsWith(q));
+  }, [commands, value, dismissedCommand]);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Forwards input changes and tracks the mention being typed
+   */
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      onChange?.(e);
+      setActiveIndex(0);
+      if (!mentionCandidates) return;
+      const caret = e.target.selectionStart ?? e.target.value.length;
+      setMentionQuery(findMentionQuery(e.target.value, caret));
+    },
+    [onChange, mentionCandidates]
+  );
+
+  /**
+   * Replaces the mention being typed with the chosen candidate
+   * @param candidate - Member or keyword to mention
+   */
+  const handleSelectMention = useCallback(
+    (candidate: MentionCandidate) => {
+      if (!mentionQuery || value === undefined) return;
+      const end = mentionQuery.start + mentionQuery.query.length + 1;
+      const inserted = `@${candidate.username} `;
+      const next =
+        value.slice(0, mentionQuery.start) + inserted + value.slice(end);
+      onValueChange?.(next);
+      setMentionQuery(null);
+
+      const caret = mentionQuery.start + inserted.length;
+      requestAnimationFrame(() => {
+        inputRef.current?.focus();
+        inputRef.current?.setSelectionRange(caret, caret);
+      });
+    },
+    [mentionQuery, value, onValueChange]
+  );
+
+  /**
+   * Completes the draft with the chosen command, ready for its arguments
+   * @param command - Command to insert
+   */
+  const handleSelectCommand = useCallback(
+    (command: SlashCommandInfo) => {
+      onValueChange?.(`/${command.name} `);
+      requestAnimationFrame(() => inputRef.current?.focus());
+    },
+    [onValueChange]
+  );
+
+  /**
+   * Applies a toolbar format to the current selection
+   * @param format - Markdown format to apply
+   */
+  const handleFormat = useCallback(
+    (format: MarkdownFormat) => {
+      const el = inputRef.current;
+      if (!el || value === undefined) return;
+      const next = applyMarkdownFormat(
+        value,
+        el.selectionStart,
+        el.selectionEnd,
+        format
+      );
+      onValueChange?.(next.value);
+      requestAnimationFrame(() => {
+        el.focus();
+        el.setSelectionRange(next.start, next.end);
+      });
+    },
+    [value, onValueChange]
+  );
+
+  /**
+   * Passes picked files on and resets the picker so the same file can be
+   * picked again
+   */
+  const handleFilesPicked = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+      e.target.value = "";
+      if (files.length > 0) onAttachFiles?.(files);
+    },
+    [onAttachFiles]
+  );
+
+  /**
+   * Schedules the draft and closes the popover once it is accepted
+   * @param sendAt - First send time
+   * @param rrule - Optional recurrence rule
+   */
+  const handleSchedule = useCallback(
+    async (sendAt: Date, rrule?: string) => {
+      if (!onSchedule) return;
+      await onSchedule(sendAt, rrule);
+      setShowSchedule(false);
+    },
+    [onSchedule]
+  );
+
+  /**
+   * Posts a poll and closes the popover once it is accepted
+   * @param poll - Question, options and voting settings
+   */
+  const handleCreatePoll = useCallback(
+    async (poll: PollInput) => {
+      if (!onCreatePoll) return;
+      await onCreatePoll(poll);
+      setShowPoll(false);
+    },
+    [onCreatePoll]
   );
 
   const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLInputElement>) => {
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setActiveIndex(
+            (i) => (i + step + suggestions.length) % suggestions.length
+          );
+          return;
+        }
+        if (e.key === "Enter" || e.key === "Tab") {
+          e.preventDefault();
+          handleSelectMention(suggestions[activeIndex] ?? suggestions[0]);
+          return;
+        }
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setMentionQuery(null);
+          return;
+        }
+      }
+      if (commandMatches.length > 0) {
+        const active = commandMatches[activeIndex] ?? commandMatches[0];
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setActiveIndex(
+            (i) => (i + step + commandMatches.length) % commandMatches.length
+          );
+          return;
+        }
+        // Enter on a fully typed command sends it as is
+        if (
+          e.key === "Tab" ||
+          (e.key === "Enter" && value !== `/${active.name}`)
+        ) {
+          e.preventDefault();
+          handleSelectCommand(active);
+          return;
+        }
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setDismissedCommand(value ?? null);
+          return;
+        }
+      }
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
         if (canSend) onSend?.();
       }
     },
-    [canSend, onSend]
+    [
+      suggestions,
+      activeIndex,
+      handleSelectMention,
+      commandMatches,
+      value,
+      handleSelectCommand,
+      canSend,
+      onSend,
+    ]
   );
 
   return (
-    <div className={`p-4 border-t border-gray-200 ${className}`}>
-      <div className="flex items-center space-x-2">
-        <Input
-          type="text"
-          placeholder="Type a message..."
-          className="flex-1"
-          value={value}
-          onChange={onChange}
-          onKeyDown={handleKeyDown}
+    <div className={`px-4 pb-4 pt-2 border-t border-gray-200 ${className}`}>
+      {onValueChange && (
+        <FormattingToolbar
+          onFormat={handleFormat}
+          isPreview={isPreview}
+          onTogglePreview={() => setIsPreview((v) => !v)}
+          disabled={disabled}
+          className="mb-1"
+        />
+      )}
+      {quote && (
+        <div className="flex items-start gap-2 mb-2 pl-3 pr-1 py-1.5 border-l-2 border-indigo-400 rounded bg-gray-50 text-xs text-gray-700">
+          <QuoteIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-gray-400" />
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold">Replying to {quote.senderName}</p>
+            <p className="truncate text-gray-500">{quote.excerpt}</p>
+          </div>
+          {onCancelQuote && (
+            <button
+              type="button"
+              onClick={onCancelQuote}
+              aria-label="Cancel quote"
+              className="p-0.5 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-200"
+            >
+              <CloseIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+      {attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mb-2">
+          {attachments.map((file, index) => (
+            <li
+              key={`${file.name}-${file.size}-${file.lastModified}`}
+              className="flex items-center gap-2 max-w-[16rem] pl-3 pr-1 py-1 rounded-full bg-gray-100 text-xs text-gray-700"
+            >
+              <span className="truncate">{file.name}</span>
+              <span className="text-gray-400 shrink-0">
+                {formatFileSize(file.size)}
+              </span>
+              {onRemoveAttachment && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveAttachment(index)}
+                  disabled={disabled}
+                  aria-label={`Remove ${file.name}`}
+                  className="p-0.5 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-200"
+                >
+                  <CloseIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="relative flex items-end space-x-2">
+        {onAttachFiles && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENTS.ALLOWED_TYPES.join(",")}
+              className="hidden"
+              onChange={handleFilesPicked}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              title="Attach files"
+              aria-label="Attach files"
+              className="p-2 rounded-full text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40 flex-shrink-0"
+            >
+              <PaperclipIcon />
+            </button>
+          </>
+        )}
+        <MentionSuggestions
+          suggestions={suggestions}
+          activeIndex={activeIndex}
+          onSelect={handleSelectMention}
+          onHover={setActiveIndex}
+        />
+        <SlashCommandPalette
+          commands={commandMatches}
+          activeIndex={activeIndex}
+          onSelect={handleSelectCommand}
+          onHover={setActiveIndex}
         />
+        {isPreview ? (
+          <div className="flex-1 min-h-[2.75rem] max-h-64 overflow-y-auto py-2 text-sm text-gray-900 border-b-2 border-gray-300">
+            <MarkdownContent content={value ?? ""} />
+          </div>
+        ) : (
+          <AutoResizeTextarea
+            ref={inputRef}
+            rows={1}
+            placeholder={placeholder}
+            className="flex-1 px-0 py-2 border-0 border-b-2 border-gray-300 bg-transparent focus:ring-0 focus:border-blue-500 focus:outline-none text-gray-900 placeholder:text-gray-400"
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setMentionQuery(null)}
+          />
+        )}
+        {onCreatePoll && (
+          <div ref={pollRef} className="relative flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setShowPoll((v) => !v)}
+              disabled={disabled}
+              title="Create poll"
+              aria-label="Create poll"
+              aria-expanded={showPoll}
+              className="p-2 rounded-full text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <PollIcon />
+            </button>
+            {showPoll && !disabled && (
+              <CreatePollMenu
+                onCreate={handleCreatePoll}
+                className="absolute bottom-full right-0 mb-2 z-20"
+              />
+            )}
+          </div>
+        )}
+        {onSchedule && (
+          <div ref={scheduleRef} className="relative flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setShowSchedule((v) => !v)}
+              disabled={!canSchedule}
+              title="Schedule message"
+              aria-label="Schedule message"
+              aria-expanded={showSchedule}
+              className="p-2 rounded-full text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ClockIcon />
+            </button>
+            {showSchedule && canSchedule && (
+              <ScheduleMessageMenu
+                onSchedule={handleSchedule}
+                className="absolute bottom-full right-0 mb-2 z-20"
+              />
+            )}
+          </div>
+        )}
         <Button
           variant="send"
           size="sm"
@@ -0,0 +1,218 @@
+"use client";
+
+/**
+ * CreatePollMenu Component
+ *
+ * Popover form for posting a poll with:
+ * - Question and a list of options that can grow and shrink
+ * - Single or multiple choice and anonymous voting toggles
+ * - Optional close time in the browser's time zone
+ * - Inline errors from the server, such as duplicate options
+ */
+
+import React, { memo, useCallback, useState } from "react";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { CloseIcon, PlusIcon } from "../../atoms/Icons";
+import { POLLS } from "@/utils/constants";
+import { toDateTimeInputValue } from "@/utils/dateUtils";
+import type { PollInput } from "@/types";
+
+/**
+ * Props interface for CreatePollMenu component
+ */
+interface CreatePollMenuProps {
+  onCreate: (poll: PollInput) => Promise<void>;
+  className?: string;
+}
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * CreatePollMenu Component Implementation
+ *
+ * @param onCreate - Posts the poll; rejects with a message to show
+ * @param className - Additional CSS classes
+ */
+const CreatePollMenuComponent: React.FC<CreatePollMenuProps> = ({
+  onCreate,
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  const [question, setQuestion] = useState("");
+
+  /**
+   * Option texts in display order, starting with the minimum number
+   */
+  const [options, setOptions] = useState<string[]>(() =>
+    Array(POLLS.MIN_OPTIONS).fill("")
+  );
+
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+
+  /**
+   * Close time as a datetime-local value, empty for a poll without one
+   */
+  const [closesAt, setClosesAt] = useState("");
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Updates the text of one option
+   */
+  const handleOptionChange = useCallback((index: number, text: string) => {
+    setOptions((prev) => prev.map((o, i) => (i === index ? text : o)));
+  }, []);
+
+  const handleAddOption = useCallback(() => {
+    setOptions((prev) =>
+      prev.length < POLLS.MAX_OPTIONS ? [...prev, ""] : prev
+    );
+  }, []);
+
+  const handleRemoveOption = useCallback((index: number) => {
+    setOptions((prev) =>
+      prev.length > POLLS.MIN_OPTIONS
+        ? prev.filter((_, i) => i !== index)
+        : prev
+    );
+  }, []);
+
+  /**
+   * Posts the poll, leaving out blank options
+   */
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      const filled = options.map((o) => o.trim()).filter(Boolean);
+      if (filled.length < POLLS.MIN_OPTIONS) {
+        setError(`Add at least ${POLLS.MIN_OPTIONS} options`);
+        return;
+      }
+      const closeDate = closesAt ? new Date(closesAt) : undefined;
+      if (closeDate && Number.isNaN(closeDate.getTime())) {
+        setError("Pick a date and time");
+        return;
+      }
+      setIsSaving(true);
+      setError(null);
+      try {
+        await onCreate({
+          question: question.trim(),
+          options: filled,
+          multipleChoice,
+          anonymous,
+          closesAt: closeDate?.toISOString(),
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create poll");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [question, options, multipleChoice, anonymous, closesAt, onCreate]
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`w-80 p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg ${className}`}
+    >
+      <p className="text-sm font-semibold text-gray-900">Create poll</p>
+      <label className="block text-xs font-medium text-gray-600">
+        Question
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={POLLS.MAX_QUESTION_LENGTH}
+          required
+          autoFocus
+          className={`mt-1 ${INPUT_CLASS}`}
+        />
+      </label>
+      <fieldset className="space-y-1.5">
+        <legend className="mb-1 text-xs font-medium text-gray-600">
+          Options
+        </legend>
+        {options.map((option, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={option}
+              onChange={(e) => handleOptionChange(index, e.target.value)}
+              maxLength={POLLS.MAX_OPTION_LENGTH}
+              placeholder={`Option ${index + 1}`}
+              aria-label={`Option ${index + 1}`}
+              className={INPUT_CLASS}
+            />
+            {options.length > POLLS.MIN_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => handleRemoveOption(index)}
+                className="p-1 text-gray-400 rounded hover:text-gray-600 hover:bg-gray-100"
+                aria-label={`Remove option ${index + 1}`}
+              >
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {options.length < POLLS.MAX_OPTIONS && (
+          <button
+            type="button"
+            onClick={handleAddOption}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            <PlusIcon className="w-3.5 h-3.5" />
+            Add option
+          </button>
+        )}
+      </fieldset>
+      <div className="space-y-1">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={multipleChoice}
+            onChange={(e) => setMultipleChoice(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Allow multiple choices
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={anonymous}
+            onChange={(e) => setAnonymous(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Anonymous votes
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-gray-600">
+        Closes at (optional)
+        <input
+          type="datetime-local"
+          value={closesAt}
+          min={toDateTimeInputValue(new Date())}
+          onChange={(e) => setClosesAt(e.target.value)}
+          className={`mt-1 ${INPUT_CLASS}`}
+        />
+      </label>
+      <ErrorMessage message={error ?? undefined} />
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" disabled={isSaving}>
+          {isSaving ? "Posting..." : "Post poll"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const CreatePollMenu = memo(CreatePollMenuComponent);
@@ -0,0 +1,64 @@
+"use client";
+
+/**
+ * EphemeralReply Component
+ *
+ * Reply to a slash command that only the current user sees with:
+ * - Markdown content, so links and lists render
+ * - "Only visible to you" label and time
+ * - Dismiss button
+ */
+
+import React, { memo } from "react";
+import { CloseIcon } from "../../atoms/Icons";
+import { MarkdownContent } from "../../atoms/chat/MarkdownContent";
+
+/**
+ * Props interface for EphemeralReply component
+ */
+interface EphemeralReplyProps {
+  id: string;
+  content: string;
+  timestamp: string;
+  onDismiss?: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * EphemeralReply Component Implementation
+ *
+ * @param id - ID of the reply, passed to onDismiss
+ * @param content - Reply text as markdown
+ * @param timestamp - Formatted time the command ran
+ * @param onDismiss - Handler for removing the reply
+ * @param className - Additional CSS classes
+ */
+const EphemeralReplyComponent: React.FC<EphemeralReplyProps> = ({
+  id,
+  content,
+  timestamp,
+  onDismiss,
+  className = "",
+}) => (
+  <div
+    className={`relative my-2 mx-2 px-3 py-2 pr-8 rounded-lg border border-indigo-100 bg-indigo-50/60 text-sm text-gray-900 ${className}`}
+  >
+    <p className="mb-1 text-xs text-gray-500">
+      Only visible to you · {timestamp}
+    </p>
+    <MarkdownContent content={content} />
+    {onDismiss && (
+      <button
+        type="button"
+        onClick={() => onDismiss(id)}
+        aria-label="Dismiss"
+        title="Dismiss"
+        className="absolute top-2 right-2 p-0.5 rounded text-gray-400 hover:text-gray-700"
+      >
+        <CloseIcon className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+export const EphemeralReply = memo(EphemeralReplyComponent);
@@ -0,0 +1,111 @@
+"use client";
+
+/**
+ * FormattingToolbar Component
+ *
+ * Compact Markdown toolbar for the chat composer with:
+ * - Bold, italic, strikethrough, and inline code buttons
+ * - Code block, quote, and list buttons
+ * - Preview toggle for the rendered message
+ * - Buttons that keep focus in the composer
+ */
+
+import React, { memo } from "react";
+import type { MarkdownFormat } from "@/utils/markdown";
+
+/**
+ * Toolbar buttons in display order
+ */
+const FORMAT_BUTTONS: {
+  format: MarkdownFormat;
+  label: string;
+  title: string;
+  className?: string;
+}[] = [
+  { format: "bold", label: "B", title: "Bold", className: "font-bold" },
+  { format: "italic", label: "I", title: "Italic", className: "italic" },
+  {
+    format: "strike",
+    label: "S",
+    title: "Strikethrough",
+    className: "line-through",
+  },
+  {
+    format: "code",
+    label: "</>",
+    title: "Inline code",
+    className: "font-mono",
+  },
+  {
+    format: "codeBlock",
+    label: "{ }",
+    title: "Code block",
+    className: "font-mono",
+  },
+  { format: "quote", label: "❝", title: "Quote" },
+  { format: "list", label: "•", title: "Bulleted list" },
+];
+
+/**
+ * Props interface for FormattingToolbar component
+ */
+interface FormattingToolbarProps {
+  onFormat: (format: MarkdownFormat) => void;
+  isPreview?: boolean;
+  onTogglePreview?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * FormattingToolbar Component Implementation
+ *
+ * @param onFormat - Handler called with the chosen format
+ * @param isPreview - Whether the composer is showing the preview
+ * @param onTogglePreview - Handler for switching between writing and preview
+ * @param disabled - Whether formatting is disabled
+ * @param className - Additional CSS classes
+ */
+const FormattingToolbarComponent: React.FC<FormattingToolbarProps> = ({
+  onFormat,
+  isPreview = false,
+  onTogglePreview,
+  disabled = false,
+  className = "",
+}) => (
+  <div className={`flex items-center gap-0.5 ${className}`}>
+    {FORMAT_BUTTONS.map(({ format, label, title, className: labelClass }) => (
+      <button
+        key={format}
+        type="button"
+        title={title}
+        aria-label={title}
+        disabled={disabled || isPreview}
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onFormat(format)}
+        className={`min-w-7 h-7 px-1.5 rounded text-xs text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-40 disabled:hover:bg-transparent ${
+          labelClass ?? ""
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+    {onTogglePreview && (
+      <button
+        type="button"
+        onClick={onTogglePreview}
+        disabled={disabled}
+        aria-pressed={isPreview}
+        className={`ml-auto h-7 px-2 rounded text-xs ${
+          isPreview
+            ? "bg-indigo-50 text-indigo-700"
+            : "text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+        }`}
+      >
+        {isPreview ? "Edit" : "Preview"}
+      </button>
+    )}
+  </div>
+);
+
+export const FormattingToolbar = memo(FormattingToolbarComponent);
@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * ForwardMessageMenu Component
+ *
+ * Compact space picker for message hover actions with:
+ * - Toggle button with forward icon
+ * - Popover listing the user's spaces, filterable by name
+ * - Inline error when forwarding fails
+ * - Closes after forwarding or when clicking outside
+ */
+
+import React, { memo, useCallback, useEffect, useRef, useState } from "react";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { ForwardIcon } from "../../atoms/Icons";
+import type { Space } from "@/types";
+
+/**
+ * Props interface for ForwardMessageMenu component
+ */
+interface ForwardMessageMenuProps {
+  targets: Pick<Space, "id" | "name">[];
+  onForward: (spaceId: string) => Promise<void>;
+  align?: "left" | "right";
+  className?: string;
+}
+
+/**
+ * ForwardMessageMenu Component Implementation
+ *
+ * @param targets - Spaces the user belongs to
+ * @param onForward - Forwards the message; rejects with a message to show
+ * @param align - Which edge of the button the popover aligns to
+ * @param className - Additional CSS classes
+ */
+const ForwardMessageMenuComponent: React.FC<ForwardMessageMenuProps> = ({
+  targets,
+  onForward,
+  align = "left",
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Controls visibility of the space popover
+   */
+  const [isOpen, setIsOpen] = useState(false);
+
+  const [filter, setFilter] = useState("");
+
+  /**
+   * Space the message is being forwarded to
+   */
+  const [forwardingTo, setForwardingTo] = useState<string | null>(null);
+
+  const [error, setError] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  /**
+   * Closes the popover when clicking outside of it
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  // ===== COMPUTED VALUES =====
+
+  const query = filter.trim().toLowerCase();
+  const matches = query
+    ? targets.filter((t) => t.name.toLowerCase().includes(query))
+    : targets;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Opens or closes the popover, starting each visit with a clear filter
+   */
+  const handleToggle = useCallback(() => {
+    setIsOpen((v) => !v);
+    setFilter("");
+    setError(null);
+  }, []);
+
+  /**
+   * Forwards the message and closes the popover once it is posted
+   */
+  const handleForward = useCallback(
+    async (spaceId: string) => {
+      setForwardingTo(spaceId);
+      setError(null);
+      try {
+        await onForward(spaceId);
+        setIsOpen(false);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to forward message"
+        );
+      } finally {
+        setForwardingTo(null);
+      }
+    },
+    [onForward]
+  );
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="p-1 text-gray-400 hover:text-gray-600"
+        title="Forward message"
+        aria-expanded={isOpen}
+      >
+        <ForwardIcon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div
+          className={`absolute bottom-full mb-1 z-10 w-60 p-2 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg ${
+            align === "right" ? "right-0" : "left-0"
+          }`}
+        >
+          <p className="text-xs font-semibold text-gray-900">Forward to</p>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Find a space"
+            aria-label="Find a space"
+            autoFocus
+            className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <ul className="max-h-48 overflow-y-auto">
+            {matches.map((target) => (
+              <li key={target.id}>
+                <button
+                  type="button"
+                  onClick={() => handleForward(target.id)}
+                  disabled={forwardingTo !== null}
+                  className="w-full px-2 py-1 text-left text-sm text-gray-800 truncate rounded hover:bg-gray-100 disabled:opacity-60"
+                >
+                  {forwardingTo === target.id
+                    ? `Forwarding to ${target.name}...`
+                    : target.name}
+                </button>
+              </li>
+            ))}
+            {matches.length === 0 && (
+              <li className="px-2 py-1 text-xs text-gray-500">
+                No matching spaces
+              </li>
+            )}
+          </ul>
+          <ErrorMessage message={error ?? undefined} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ForwardMessageMenu = memo(ForwardMessageMenuComponent);
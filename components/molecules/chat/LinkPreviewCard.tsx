@@ -0,0 +1,84 @@
+"use client";
+
+/**
+ * LinkPreviewCard Component
+ *
+ * Preview of a URL posted in chat with:
+ * - Site name, linked title, and a short description
+ * - Thumbnail from the page's card image
+ * - Dismiss button on the user's own messages
+ */
+
+import React, { memo } from "react";
+import Image from "next/image";
+import { CloseIcon } from "../../atoms/Icons";
+import type { LinkPreview } from "@/types";
+
+/**
+ * Props interface for LinkPreviewCard component
+ */
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+/**
+ * LinkPreviewCard Component Implementation
+ *
+ * @param preview - Metadata fetched for the linked page
+ * @param onDismiss - Handler for hiding the preview; omitted on others' messages
+ * @param className - Additional CSS classes
+ */
+const LinkPreviewCardComponent: React.FC<LinkPreviewCardProps> = ({
+  preview,
+  onDismiss,
+  className = "",
+}) => (
+  <div
+    className={`group/preview relative flex gap-3 w-80 max-w-full p-3 rounded-lg border border-gray-200 border-l-4 border-l-indigo-300 bg-white ${className}`}
+  >
+    <div className="min-w-0 flex-1">
+      {preview.siteName && (
+        <p className="text-xs text-gray-500 truncate">{preview.siteName}</p>
+      )}
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="block text-sm font-semibold text-indigo-700 hover:underline line-clamp-2"
+      >
+        {preview.title || preview.url}
+      </a>
+      {preview.description && (
+        <p className="mt-0.5 text-xs text-gray-600 line-clamp-3">
+          {preview.description}
+        </p>
+      )}
+    </div>
+    {preview.imageUrl && (
+      <Image
+        src={preview.imageUrl}
+        alt=""
+        width={64}
+        height={64}
+        unoptimized
+        referrerPolicy="no-referrer"
+        className="w-16 h-16 rounded object-cover shrink-0"
+      />
+    )}
+    {onDismiss && (
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label="Remove preview"
+        title="Remove preview"
+        className="absolute -top-2 -right-2 hidden group-hover/preview:flex items-center justify-center w-5 h-5 rounded-full bg-white border border-gray-200 text-gray-500 hover:text-gray-800 shadow-sm"
+      >
+        <CloseIcon className="w-3 h-3" />
+      </button>
+    )}
+  </div>
+);
+
+export const LinkPreviewCard = memo(LinkPreviewCardComponent);
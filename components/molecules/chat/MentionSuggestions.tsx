@@ -0,0 +1,96 @@
+"use client";
+
+/**
+ * MentionSuggestions Component
+ *
+ * Autocomplete list shown above the chat input while typing an @mention with:
+ * - Member avatar, name, and username
+ * - `@here`/`@all` entries when the user may notify everyone
+ * - Keyboard-highlighted active row
+ * - Selection by click without stealing input focus
+ */
+
+import React, { memo } from "react";
+import { Avatar } from "../../atoms/Avatar";
+import type { MentionCandidate } from "@/types";
+
+/**
+ * Props interface for MentionSuggestions component
+ */
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+  onHover?: (index: number) => void;
+  className?: string;
+}
+
+/**
+ * MentionSuggestions Component Implementation
+ *
+ * @param suggestions - Candidates matching the typed query
+ * @param activeIndex - Index of the highlighted candidate
+ * @param onSelect - Handler called with the chosen candidate
+ * @param onHover - Handler for highlighting a candidate with the mouse
+ * @param className - Additional CSS classes
+ */
+const MentionSuggestionsComponent: React.FC<MentionSuggestionsProps> = ({
+  suggestions,
+  activeIndex,
+  onSelect,
+  onHover,
+  className = "",
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className={`absolute bottom-full left-0 mb-2 w-72 max-h-64 overflow-y-auto z-20 py-1 bg-white border border-gray-200 rounded-lg shadow-lg ${className}`}
+    >
+      {suggestions.map((candidate, index) => (
+        <li
+          key={candidate.username}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(candidate);
+          }}
+          onMouseEnter={() => onHover?.(index)}
+          className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${
+            index === activeIndex ? "bg-indigo-50" : "hover:bg-gray-50"
+          }`}
+        >
+          {candidate.isBroadcast ? (
+            <span className="w-6 h-6 flex items-center justify-center rounded-full bg-amber-100 text-amber-700 text-xs font-semibold">
+              @
+            </span>
+          ) : (
+            <Avatar
+              size="xs"
+              alt={candidate.name}
+              src={
+                candidate.avatar && candidate.avatar.length > 0
+                  ? candidate.avatar
+                  : undefined
+              }
+            >
+              {candidate.name.charAt(0).toUpperCase()}
+            </Avatar>
+          )}
+          <span className="text-sm text-gray-900 truncate">
+            {candidate.isBroadcast ? `@${candidate.username}` : candidate.name}
+          </span>
+          <span className="ml-auto text-xs text-gray-500 truncate">
+            {candidate.isBroadcast
+              ? "Notify everyone"
+              : `@${candidate.username}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const MentionSuggestions = memo(MentionSuggestionsComponent);
@@ -0,0 +1,123 @@
+"use client";
+
+/**
+ * MessageAttachments Component
+ *
+ * Files attached to a chat message with:
+ * - Image thumbnails that open in a lightbox
+ * - Download cards with file name and size for other files
+ * - Alignment that follows the message bubble
+ */
+
+import React, { memo, useMemo, useState } from "react";
+import Image from "next/image";
+import { FileIcon } from "../../atoms/Icons";
+import { ImageLightbox } from "../../atoms/chat/ImageLightbox";
+import { isImageAttachment } from "@/utils/attachments";
+import { formatFileSize } from "@/utils/formatters";
+import type { MessageAttachment } from "@/types";
+
+/**
+ * Props interface for MessageAttachments component
+ */
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isSent?: boolean;
+  className?: string;
+}
+
+/**
+ * MessageAttachments Component Implementation
+ *
+ * @param attachments - Files attached to the message, in upload order
+ * @param isSent - Whether the message was sent by the current user
+ * @param className - Additional CSS classes
+ */
+const MessageAttachmentsComponent: React.FC<MessageAttachmentsProps> = ({
+  attachments,
+  isSent = false,
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Image shown in the lightbox, or null when it is closed
+   */
+  const [openImage, setOpenImage] = useState<MessageAttachment | null>(null);
+
+  // ===== COMPUTED VALUES =====
+
+  const images = useMemo(
+    () => attachments.filter((a) => isImageAttachment(a.contentType)),
+    [attachments]
+  );
+  const files = useMemo(
+    () => attachments.filter((a) => !isImageAttachment(a.contentType)),
+    [attachments]
+  );
+
+  return (
+    <div
+      className={`flex flex-col gap-2 ${
+        isSent ? "items-end" : "items-start"
+      } ${className}`}
+    >
+      {images.length > 0 && (
+        <div
+          className={`flex flex-wrap gap-2 max-w-md ${
+            isSent ? "justify-end" : ""
+          }`}
+        >
+          {images.map((image) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setOpenImage(image)}
+              title={image.name}
+              className="overflow-hidden rounded-lg border border-gray-200 hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <Image
+                src={image.url}
+                alt={image.name}
+                width={200}
+                height={150}
+                className="w-[200px] h-[150px] object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={file.url}
+          download={file.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-3 w-64 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50"
+        >
+          <span className="flex items-center justify-center w-9 h-9 rounded bg-indigo-50 text-indigo-600 shrink-0">
+            <FileIcon />
+          </span>
+          <span className="min-w-0">
+            <span className="block text-sm text-gray-900 truncate">
+              {file.name}
+            </span>
+            <span className="block text-xs text-gray-500">
+              {formatFileSize(file.size)}
+            </span>
+          </span>
+        </a>
+      ))}
+      {openImage && (
+        <ImageLightbox
+          src={openImage.url}
+          name={openImage.name}
+          onClose={() => setOpenImage(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export const MessageAttachments = memo(MessageAttachmentsComponent);
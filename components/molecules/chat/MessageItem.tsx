@@ -8,13 +8,42 @@
  * - Avatar display for received messages
  * - Sent vs received message styling
  * - Sender name display
+ * - Hover actions for editing and deleting messages
+ * - Inline editing with keyboard shortcuts
+ * - Thread reply count with the latest repliers
+ * - Emoji reaction chips and a hover reaction picker
+ * - Markdown content with highlighted @mentions
+ * - Highlighted bubble when the current user is mentioned
+ * - Image thumbnails and file cards for attachments
+ * - Link preview card, dismissible on the user's own messages
+ * - Pinned label and a pin toggle for admins
+ * - Poll card with live results in place of the bubble for polls
+ * - Quote and forward actions, and a header linking to the quoted or
+ *   forwarded original
+ * - Sending and failed states with retry and discard for unsent messages
  * - Performance optimization with memoization
  */
 
-import React, { memo } from "react";
+import React, { memo, useCallback, useMemo, useState } from "react";
 import { MessageBubble } from "../../atoms/chat/MessageBubble";
 import { Avatar } from "../../atoms/Avatar";
-import type { Message } from "@/types";
+import { AutoResizeTextarea } from "../../atoms/AutoResizeTextarea";
+import { ForwardMessageMenu } from "./ForwardMessageMenu";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import { MessageAttachments } from "./MessageAttachments";
+import { PollCard } from "./PollCard";
+import { ReactionBar } from "./ReactionBar";
+import { ReactionPicker } from "./ReactionPicker";
+import {
+  BookmarkIcon,
+  PencilIcon,
+  PinIcon,
+  QuoteIcon,
+  ReplyIcon,
+  TrashIcon,
+} from "../../atoms/Icons";
+import { MENTIONS } from "@/utils/constants";
+import type { Message, MessageReference, Space } from "@/types";
 
 /**
  * Props interface for MessageItem component
@@ -22,6 +51,27 @@ import type { Message } from "@/types";
  */
 interface MessageItemProps extends Message {
   className?: string;
+  canEdit?: boolean;
+  canDelete?: boolean;
+  onEdit?: (messageId: string, content: string) => Promise<void>;
+  onDelete?: (messageId: string) => Promise<void>;
+  onOpenThread?: (messageId: string) => void;
+  currentUsername?: string;
+  onToggleReaction?: (messageId: string, emoji: string) => Promise<void>;
+  onDismissLinkPreview?: (messageId: string) => Promise<void>;
+  isPinned?: boolean;
+  onTogglePin?: (messageId: string, pinned: boolean) => Promise<void>;
+  isSaved?: boolean;
+  onToggleSave?: (messageId: string, saved: boolean) => Promise<void>;
+  canClosePoll?: boolean;
+  onVotePoll?: (messageId: string, optionIds: string[]) => Promise<void>;
+  onClosePoll?: (messageId: string) => Promise<void>;
+  onQuote?: (messageId: string) => void;
+  forwardTargets?: Pick<Space, "id" | "name">[];
+  onForward?: (messageId: string, spaceId: string) => Promise<void>;
+  onOpenReference?: (reference: MessageReference) => void;
+  onRetry?: (clientId: string) => void;
+  onDiscard?: (clientId: string) => void;
 }
 
 /**
@@ -30,22 +80,311 @@ interface MessageItemProps extends Message {
  * Renders an individual message with appropriate styling and layout.
  * Handles both sent and received messages with different layouts.
  *
+ * @param id - Message identifier
  * @param content - Message content text
  * @param timestamp - Message timestamp
  * @param isSent - Whether this is a sent message (default: false)
  * @param senderName - Name of the message sender
+ * @param editedAt - When the message was last edited, if ever
+ * @param isDeleted - Whether the message was deleted
+ * @param replyCount - Number of replies in the message's thread
+ * @param latestRepliers - Names of the most recent repliers
+ * @param reactions - Aggregated emoji reactions
+ * @param mentions - Members mentioned in the message
+ * @param mentionsEveryone - Whether the message mentions @here or @all
+ * @param attachments - Files attached to the message
+ * @param linkPreview - Preview of the first URL in the message
+ * @param poll - Poll posted with the message, if any
+ * @param quote - Snapshot of the message this one quotes
+ * @param forwardedFrom - Snapshot of the message this one was forwarded from
  * @param className - Additional CSS classes for styling
+ * @param canEdit - Whether the current user may edit this message
+ * @param canDelete - Whether the current user may delete this message
+ * @param onEdit - Handler for saving edited content
+ * @param onDelete - Handler for deleting the message
+ * @param onOpenThread - Handler for opening the message's thread
+ * @param currentUsername - Username of the current user, for own reactions
+ * @param onToggleReaction - Handler for toggling a reaction
+ * @param onDismissLinkPreview - Handler for hiding the link preview
+ * @param isPinned - Whether the message is pinned to the space
+ * @param onTogglePin - Handler for pinning or unpinning; omitted for non-admins
+ * @param isSaved - Whether the current user saved the message
+ * @param onToggleSave - Handler for saving or unsaving the message
+ * @param canClosePoll - Whether the current user may close the poll
+ * @param onVotePoll - Handler for setting the current user's poll choices
+ * @param onClosePoll - Handler for closing the poll
+ * @param onQuote - Handler for quoting the message in the composer
+ * @param forwardTargets - Spaces the message can be forwarded to
+ * @param onForward - Handler for forwarding the message to a space
+ * @param onOpenReference - Handler for jumping to a quoted or forwarded original
+ * @param status - Set while the message is unsent: "pending" or "failed"
+ * @param onRetry - Handler for resending a failed message
+ * @param onDiscard - Handler for dropping a failed message
  */
 const MessageItemComponent: React.FC<MessageItemProps> = ({
+  id,
   content,
   timestamp,
   isSent = false,
   senderName,
+  editedAt,
+  isDeleted = false,
+  replyCount = 0,
+  latestRepliers = [],
+  reactions = [],
+  mentions = [],
+  mentionsEveryone = false,
+  attachments = [],
+  linkPreview,
+  poll,
+  quote,
+  forwardedFrom,
   className = "",
+  canEdit = false,
+  canDelete = false,
+  onEdit,
+  onDelete,
+  onOpenThread,
+  currentUsername,
+  onToggleReaction,
+  onDismissLinkPreview,
+  isPinned = false,
+  onTogglePin,
+  isSaved = false,
+  onToggleSave,
+  canClosePoll = false,
+  onVotePoll,
+  onClosePoll,
+  onQuote,
+  forwardTargets = [],
+  onForward,
+  onOpenReference,
+  status,
+  onRetry,
+  onDiscard,
 }) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Controls inline editing mode
+   */
+  const [isEditing, setIsEditing] = useState(false);
+
+  /**
+   * Draft content while editing
+   */
+  const [draft, setDraft] = useState(content);
+
+  /**
+   * Tracks an in-flight edit or delete request
+   */
+  const [isBusy, setIsBusy] = useState(false);
+
+  // ===== COMPUTED VALUES =====
+
+  /**
+   * Whether the current user is mentioned, directly or through @here/@all
+   */
+  const isMentioned = useMemo(
+    () =>
+      !isSent &&
+      (mentionsEveryone ||
+        mentions.some(
+          (m) => m.username.toLowerCase() === currentUsername?.toLowerCase()
+        )),
+    [isSent, mentionsEveryone, mentions, currentUsername]
+  );
+
+  /**
+   * Resolved mentions to highlight in the message content
+   */
+  const mentionUsernames = useMemo(
+    () => [
+      ...mentions.map((m) => m.username),
+      ...(mentionsEveryone ? MENTIONS.BROADCAST_KEYWORDS : []),
+    ],
+    [mentions, mentionsEveryone]
+  );
+
+  const isUnsent = status !== undefined;
+
+  /**
+   * Polls are shown as a card and cannot be edited
+   */
+  const showPoll = !!poll && !isDeleted;
+  const canEditContent = canEdit && !poll;
+
+  /**
+   * Polls cannot be forwarded, since votes belong to the original
+   */
+  const canForward = !!onForward && !poll && forwardTargets.length > 0;
+
+  const showActions =
+    !isDeleted &&
+    !isEditing &&
+    !isUnsent &&
+    ((canEditContent && onEdit) ||
+      (canDelete && onDelete) ||
+      onOpenThread ||
+      onToggleReaction ||
+      onQuote ||
+      canForward ||
+      onTogglePin ||
+      onToggleSave);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Enters editing mode with the current content
+   */
+  const handleStartEdit = useCallback(() => {
+    setDraft(content);
+    setIsEditing(true);
+  }, [content]);
+
+  /**
+   * Saves the edited content
+   * Leaves editing mode without a request when nothing changed
+   */
+  const handleSaveEdit = useCallback(async () => {
+    const trimmed = draft.trim();
+    if (!trimmed || trimmed === content.trim() || !onEdit) {
+      setIsEditing(false);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await onEdit(id, trimmed);
+      setIsEditing(false);
+    } catch (error) {
+      console.error("Failed to edit message:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [draft, content, onEdit, id]);
+
+  /**
+   * Deletes the message after confirmation
+   */
+  const handleDelete = useCallback(async () => {
+    if (!onDelete) return;
+    if (!window.confirm("Delete this message?")) return;
+    setIsBusy(true);
+    try {
+      await onDelete(id);
+    } catch (error) {
+      console.error("Failed to delete message:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onDelete, id]);
+
+  /**
+   * Toggles the current user's reaction with the given emoji
+   */
+  const handleToggleReaction = useCallback(
+    async (emoji: string) => {
+      if (!onToggleReaction) return;
+      try {
+        await onToggleReaction(id, emoji);
+      } catch (error) {
+        console.error("Failed to toggle reaction:", error);
+      }
+    },
+    [onToggleReaction, id]
+  );
+
+  /**
+   * Hides the link preview on the user's own message
+   */
+  const handleDismissLinkPreview = useCallback(async () => {
+    if (!onDismissLinkPreview) return;
+    try {
+      await onDismissLinkPreview(id);
+    } catch (error) {
+      console.error("Failed to dismiss link preview:", error);
+    }
+  }, [onDismissLinkPreview, id]);
+
+  /**
+   * Pins the message, or unpins it when it is already pinned
+   */
+  const handleTogglePin = useCallback(async () => {
+    if (!onTogglePin) return;
+    setIsBusy(true);
+    try {
+      await onTogglePin(id, !isPinned);
+    } catch (error) {
+      console.error("Failed to update pin:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onTogglePin, id, isPinned]);
+
+  /**
+   * Saves the message for later, or removes it from saved items
+   */
+  const handleToggleSave = useCallback(async () => {
+    if (!onToggleSave) return;
+    setIsBusy(true);
+    try {
+      await onToggleSave(id, !isSaved);
+    } catch (error) {
+      console.error("Failed to update saved message:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onToggleSave, id, isSaved]);
+
+  /**
+   * Forwards the message to another space
+   * Rejections are shown by the forward menu
+   */
+  const handleForward = useCallback(
+    async (spaceId: string) => {
+      if (!onForward) return;
+      await onForward(id, spaceId);
+    },
+    [onForward, id]
+  );
+
+  /**
+   * Sets the current user's choices in the poll
+   */
+  const handleVotePoll = useCallback(
+    async (optionIds: string[]) => {
+      if (!onVotePoll) return;
+      await onVotePoll(id, optionIds);
+    },
+    [onVotePoll, id]
+  );
+
+  /**
+   * Closes the poll
+   */
+  const handleClosePoll = useCallback(async () => {
+    if (!onClosePoll) return;
+    await onClosePoll(id);
+  }, [onClosePoll, id]);
+
+  /**
+   * Saves on Enter and cancels on Escape while editing
+   */
+  const handleEditKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        handleSaveEdit();
+      } else if (e.key === "Escape") {
+        setIsEditing(false);
+      }
+    },
+    [handleSaveEdit]
+  );
+
   return (
     <div
-      className={`flex mb-4 ${
+      className={`group flex mb-4 ${
         isSent ? "items-end justify-end" : "items-start"
       } ${className}`}
     >
@@ -57,15 +396,290 @@ const MessageItemComponent: React.FC<MessageItemProps> = ({
           className="mr-2 flex-shrink-0"
         />
       )}
+      {showActions && isSent && (
+        <div className="hidden group-hover:flex items-center gap-1 mr-2 self-center">
+          {onToggleReaction && (
+            <ReactionPicker onPick={handleToggleReaction} align="right" />
+          )}
+          {onOpenThread && (
+            <button
+              type="button"
+              onClick={() => onOpenThread(id)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Reply in thread"
+            >
+              <ReplyIcon className="w-4 h-4" />
+            </button>
+          )}
+          {onQuote && (
+            <button
+              type="button"
+              onClick={() => onQuote(id)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Quote in reply"
+            >
+              <QuoteIcon className="w-4 h-4" />
+            </button>
+          )}
+          {canForward && (
+            <ForwardMessageMenu
+              targets={forwardTargets}
+              onForward={handleForward}
+              align="right"
+            />
+          )}
+          {onTogglePin && (
+            <button
+              type="button"
+              onClick={handleTogglePin}
+              disabled={isBusy}
+              className={`p-1 hover:text-gray-600 disabled:opacity-60 ${
+                isPinned ? "text-indigo-500" : "text-gray-400"
+              }`}
+              title={isPinned ? "Unpin message" : "Pin message"}
+            >
+              <PinIcon className="w-4 h-4" />
+            </button>
+          )}
+          {onToggleSave && (
+            <button
+              type="button"
+              onClick={handleToggleSave}
+              disabled={isBusy}
+              className={`p-1 hover:text-gray-600 disabled:opacity-60 ${
+                isSaved ? "text-indigo-500" : "text-gray-400"
+              }`}
+              title={isSaved ? "Remove from saved" : "Save message"}
+            >
+              <BookmarkIcon
+                className={`w-4 h-4 ${isSaved ? "fill-current" : ""}`}
+              />
+            </button>
+          )}
+          {canEditContent && onEdit && (
+            <button
+              type="button"
+              onClick={handleStartEdit}
+              disabled={isBusy}
+              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-60"
+              title="Edit message"
+            >
+              <PencilIcon className="w-4 h-4" />
+            </button>
+          )}
+          {canDelete && onDelete && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-60"
+              title="Delete message"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
       <div className={`flex flex-col ${isSent ? "items-end" : "items-start"}`}>
-        <MessageBubble
-          variant={isSent ? "sent" : "received"}
-          timestamp={timestamp}
-          senderName={!isSent ? senderName : undefined}
-        >
-          {content}
-        </MessageBubble>
+        {isPinned && !isDeleted && (
+          <span className="flex items-center gap-1 mb-0.5 text-xs text-indigo-500">
+            <PinIcon className="w-3 h-3" />
+            Pinned
+          </span>
+        )}
+        {isEditing ? (
+          <div className="w-72 border border-gray-300 rounded-xl px-3 py-2 bg-white">
+            <AutoResizeTextarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              rows={1}
+              autoFocus
+              disabled={isBusy}
+              className="w-full text-sm text-gray-900 bg-transparent outline-none"
+            />
+            <div className="flex justify-end gap-3 mt-1 text-xs">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveEdit}
+                disabled={isBusy}
+                className="text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : showPoll && poll ? (
+          <PollCard
+            poll={poll}
+            question={content}
+            timestamp={timestamp}
+            senderName={senderName}
+            isSent={isSent}
+            onVote={onVotePoll ? handleVotePoll : undefined}
+            onClose={canClosePoll && onClosePoll ? handleClosePoll : undefined}
+          />
+        ) : (
+          <MessageBubble
+            className={status === "pending" ? "opacity-60" : ""}
+            variant={isSent ? "sent" : "received"}
+            timestamp={timestamp}
+            senderName={!isSent ? senderName : undefined}
+            isEdited={!!editedAt}
+            isDeleted={isDeleted}
+            isHighlighted={isMentioned}
+            quote={quote}
+            forwardedFrom={forwardedFrom}
+            onOpenReference={onOpenReference}
+            content={content}
+            mentionUsernames={mentionUsernames}
+          />
+        )}
+        {!isDeleted && !isEditing && linkPreview && (
+          <LinkPreviewCard
+            preview={linkPreview}
+            onDismiss={
+              isSent && onDismissLinkPreview
+                ? handleDismissLinkPreview
+                : undefined
+            }
+            className="mt-1"
+          />
+        )}
+        {!isDeleted && attachments.length > 0 && (
+          <MessageAttachments
+            attachments={attachments}
+            isSent={isSent}
+            className="mt-1"
+          />
+        )}
+        {status === "pending" && (
+          <span className="mt-1 text-xs text-gray-400">Sending…</span>
+        )}
+        {status === "failed" && (
+          <span className="mt-1 flex items-center gap-2 text-xs">
+            <span className="text-red-600">Not sent</span>
+            {onRetry && (
+              <button
+                type="button"
+                onClick={() => onRetry(id)}
+                className="text-indigo-600 hover:text-indigo-800"
+              >
+                Retry
+              </button>
+            )}
+            {onDiscard && (
+              <button
+                type="button"
+                onClick={() => onDiscard(id)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                Discard
+              </button>
+            )}
+          </span>
+        )}
+        {!isDeleted && !isUnsent && (
+          <ReactionBar
+            reactions={reactions}
+            currentUsername={currentUsername}
+            onToggle={onToggleReaction ? handleToggleReaction : undefined}
+            className={isSent ? "justify-end" : ""}
+          />
+        )}
+        {replyCount > 0 && onOpenThread && (
+          <button
+            type="button"
+            onClick={() => onOpenThread(id)}
+            className="mt-1 text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            {replyCount === 1 ? "1 reply" : `${replyCount} replies`}
+            {latestRepliers.length > 0 && (
+              <span className="text-gray-500">
+                {" "}
+                · {latestRepliers.join(", ")}
+              </span>
+            )}
+          </button>
+        )}
       </div>
+      {showActions && !isSent && (
+        <div className="hidden group-hover:flex items-center gap-1 ml-2 self-center">
+          {onToggleReaction && <ReactionPicker onPick={handleToggleReaction} />}
+          {onOpenThread && (
+            <button
+              type="button"
+              onClick={() => onOpenThread(id)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Reply in thread"
+            >
+              <ReplyIcon className="w-4 h-4" />
+            </button>
+          )}
+          {onQuote && (
+            <button
+              type="button"
+              onClick={() => onQuote(id)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Quote in reply"
+            >
+              <QuoteIcon className="w-4 h-4" />
+            </button>
+          )}
+          {canForward && (
+            <ForwardMessageMenu
+              targets={forwardTargets}
+              onForward={handleForward}
+            />
+          )}
+          {onTogglePin && (
+            <button
+              type="button"
+              onClick={handleTogglePin}
+              disabled={isBusy}
+              className={`p-1 hover:text-gray-600 disabled:opacity-60 ${
+                isPinned ? "text-indigo-500" : "text-gray-400"
+              }`}
+              title={isPinned ? "Unpin message" : "Pin message"}
+            >
+              <PinIcon className="w-4 h-4" />
+            </button>
+          )}
+          {onToggleSave && (
+            <button
+              type="button"
+              onClick={handleToggleSave}
+              disabled={isBusy}
+              className={`p-1 hover:text-gray-600 disabled:opacity-60 ${
+                isSaved ? "text-indigo-500" : "text-gray-400"
+              }`}
+              title={isSaved ? "Remove from saved" : "Save message"}
+            >
+              <BookmarkIcon
+                className={`w-4 h-4 ${isSaved ? "fill-current" : ""}`}
+              />
+            </button>
+          )}
+          {canDelete && onDelete && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-60"
+              title="Delete message"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
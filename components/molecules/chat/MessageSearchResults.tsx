@@ -0,0 +1,114 @@
+"use client";
+
+/**
+ * MessageSearchResults Component
+ *
+ * Message search results for the sidebar with:
+ * - Space name, sender, and time for each result
+ * - Snippet with the matched words highlighted
+ * - Click to jump to the message in its space
+ * - Loading, error, and empty states with a "Load more" button
+ */
+
+import React, { memo } from "react";
+import { LoadingSpinner } from "../../atoms/LoadingSpinner";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { formatRelativeTime } from "@/utils/formatters";
+import type { MessageSearchResult } from "@/types";
+
+/**
+ * Props interface for MessageSearchResults component
+ */
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  isLoading?: boolean;
+  error?: string | null;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  onSelect?: (result: MessageSearchResult) => void;
+  className?: string;
+}
+
+/**
+ * MessageSearchResults Component Implementation
+ *
+ * @param results - Matching messages, newest first
+ * @param isLoading - Whether a search request is in flight
+ * @param error - Why the last search failed, if it did
+ * @param hasMore - Whether another page of results exists
+ * @param onLoadMore - Handler for loading the next page
+ * @param onSelect - Handler for jumping to a result
+ * @param className - Additional CSS classes
+ */
+const MessageSearchResultsComponent: React.FC<MessageSearchResultsProps> = ({
+  results,
+  isLoading = false,
+  error = null,
+  hasMore = false,
+  onLoadMore,
+  onSelect,
+  className = "",
+}) => (
+  <div className={`p-2 ${className}`}>
+    <ErrorMessage message={error ?? undefined} className="px-2" />
+    {!isLoading && !error && results.length === 0 && (
+      <p className="px-2 py-4 text-sm text-gray-500 text-center">
+        No messages found
+      </p>
+    )}
+    <ul className="space-y-1">
+      {results.map((result) => (
+        <li key={result.message.id}>
+          <button
+            type="button"
+            onClick={() => onSelect?.(result)}
+            className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-50"
+          >
+            <span className="flex items-baseline justify-between gap-2 text-xs text-gray-500">
+              <span className="truncate">
+                <span className="font-semibold text-gray-700">
+                  {result.message.senderName}
+                </span>{" "}
+                in {result.spaceName}
+                {result.message.parentId && " · thread"}
+              </span>
+              <span className="shrink-0">
+                {formatRelativeTime(result.message.timestamp)}
+              </span>
+            </span>
+            <span className="block mt-0.5 text-sm text-gray-900 line-clamp-3 break-words">
+              {result.snippet.map((part, i) =>
+                part.highlighted ? (
+                  <mark key={i} className="bg-yellow-200 rounded-sm px-0.5">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{part.text}</span>
+                )
+              )}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+    {isLoading ? (
+      <div className="flex justify-center py-3">
+        <LoadingSpinner size="sm" />
+      </div>
+    ) : (
+      hasMore && (
+        <div className="flex justify-center py-2">
+          <button
+            type="button"
+            onClick={onLoadMore}
+            className="text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            Load more results
+          </button>
+        </div>
+      )
+    )}
+  </div>
+);
+
+export const MessageSearchResults = memo(MessageSearchResultsComponent);
@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * PinnedMessageList Component
+ *
+ * Messages pinned to a space with:
+ * - Sender, a short preview, and who pinned it and when
+ * - Click to jump to the original message in the chat
+ * - Unpin button for admins
+ * - Empty state when nothing is pinned
+ */
+
+import React, { memo } from "react";
+import { CloseIcon } from "../../atoms/Icons";
+import { formatRelativeTime } from "@/utils/formatters";
+import { getMessagePreview } from "@/utils/messageUtils";
+import type { PinnedMessage } from "@/types";
+
+/**
+ * Props interface for PinnedMessageList component
+ */
+interface PinnedMessageListProps {
+  pins: PinnedMessage[];
+  onSelect?: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void;
+  className?: string;
+}
+
+/**
+ * PinnedMessageList Component Implementation
+ *
+ * @param pins - Pinned messages, newest pin first
+ * @param onSelect - Handler for jumping to a pinned message
+ * @param onUnpin - Handler for unpinning a message; omitted for non-admins
+ * @param className - Additional CSS classes
+ */
+const PinnedMessageListComponent: React.FC<PinnedMessageListProps> = ({
+  pins,
+  onSelect,
+  onUnpin,
+  className = "",
+}) => {
+  if (pins.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 ${className}`}>
+        No pinned messages yet
+      </p>
+    );
+  }
+
+  return (
+    <ul className={`space-y-1 ${className}`}>
+      {pins.map((pin) => (
+        <li
+          key={pin.message.id}
+          className="group/pin relative rounded-lg hover:bg-gray-50"
+        >
+          <button
+            type="button"
+            onClick={() => onSelect?.(pin.message.id)}
+            className="w-full text-left px-3 py-2 pr-8"
+          >
+            <span className="block text-xs font-semibold text-gray-700 truncate">
+              {pin.message.senderName}
+            </span>
+            <span className="block text-sm text-gray-900 line-clamp-2 break-words">
+              {getMessagePreview(pin.message)}
+            </span>
+            <span className="block mt-0.5 text-xs text-gray-500">
+              Pinned by {pin.pinnedByName} · {formatRelativeTime(pin.pinnedAt)}
+            </span>
+          </button>
+          {onUnpin && (
+            <button
+              type="button"
+              onClick={() => onUnpin(pin.message.id)}
+              aria-label="Unpin message"
+              title="Unpin message"
+              className="absolute top-2 right-2 hidden group-hover/pin:flex items-center justify-center w-5 h-5 rounded text-gray-400 hover:text-gray-700"
+            >
+              <CloseIcon className="w-3 h-3" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const PinnedMessageList = memo(PinnedMessageListComponent);
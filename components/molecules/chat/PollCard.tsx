@@ -0,0 +1,241 @@
+"use client";
+
+/**
+ * PollCard Component
+ *
+ * Poll shown in place of a message bubble with:
+ * - Question, sender name, and voting mode badges
+ * - One row per option with a progress bar and vote count
+ * - Check mark on the current user's choices
+ * - Voter names on hover unless the poll is anonymous
+ * - Click to vote, change, or withdraw a vote while the poll is open
+ * - Close time or closed state, and a close button for the author and admins
+ */
+
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { ProgressBar } from "../../atoms/ProgressBar";
+import { CheckIcon } from "../../atoms/Icons";
+import { formatDateTime } from "@/utils/dateUtils";
+import type { Poll, PollOption } from "@/types";
+
+/**
+ * Longest delay setTimeout accepts; later close times are not watched
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Props interface for PollCard component
+ */
+interface PollCardProps {
+  poll: Poll;
+  question: string;
+  timestamp?: string;
+  senderName?: string;
+  isSent?: boolean;
+  onVote?: (optionIds: string[]) => Promise<void>;
+  onClose?: () => Promise<void>;
+  className?: string;
+}
+
+/**
+ * Builds the tooltip text for an option
+ *
+ * @param option - Option with its voters
+ * @returns Voter names, or undefined when there are none to show
+ */
+const describeVoters = (option: PollOption): string | undefined =>
+  option.voters && option.voters.length > 0
+    ? option.voters.map((v) => v.name).join(", ")
+    : undefined;
+
+/**
+ * PollCard Component Implementation
+ *
+ * @param poll - Poll with its options, tallies, and the current user's votes
+ * @param question - Poll question, stored as the message content
+ * @param timestamp - Formatted time the poll was posted
+ * @param senderName - Name of the poll's author, shown on received polls
+ * @param isSent - Whether the current user posted the poll
+ * @param onVote - Handler for setting the current user's choices
+ * @param onClose - Handler for closing the poll; omitted unless allowed
+ * @param className - Additional CSS classes
+ */
+const PollCardComponent: React.FC<PollCardProps> = ({
+  poll,
+  question,
+  timestamp,
+  senderName,
+  isSent = false,
+  onVote,
+  onClose,
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Whether the close time has passed
+   */
+  const [isExpired, setIsExpired] = useState(
+    () => !!poll.closesAt && Date.parse(poll.closesAt) <= Date.now()
+  );
+
+  /**
+   * Tracks an in-flight vote or close request
+   */
+  const [isBusy, setIsBusy] = useState(false);
+
+  /**
+   * Marks the poll as expired once its close time passes
+   */
+  useEffect(() => {
+    if (!poll.closesAt) return;
+    const delay = Date.parse(poll.closesAt) - Date.now();
+    if (delay <= 0) {
+      setIsExpired(true);
+      return;
+    }
+    if (delay > MAX_TIMER_DELAY) return;
+    const timer = setTimeout(() => setIsExpired(true), delay);
+    return () => clearTimeout(timer);
+  }, [poll.closesAt]);
+
+  // ===== COMPUTED VALUES =====
+
+  const isClosed = !!poll.closedAt || isExpired;
+
+  /**
+   * Options the current user voted for
+   */
+  const myVotes = useMemo(() => new Set(poll.myVotes ?? []), [poll.myVotes]);
+
+  const canVote = !isClosed && !!onVote;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Votes for an option
+   * Single choice polls switch to the option, or withdraw the vote when it
+   * is already chosen; multiple choice polls toggle it
+   */
+  const handleVote = useCallback(
+    async (optionId: string) => {
+      if (!onVote) return;
+      const next = poll.multipleChoice
+        ? myVotes.has(optionId)
+          ? [...myVotes].filter((id) => id !== optionId)
+          : [...myVotes, optionId]
+        : myVotes.has(optionId)
+        ? []
+        : [optionId];
+      setIsBusy(true);
+      try {
+        await onVote(next);
+      } catch (error) {
+        console.error("Failed to vote:", error);
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [onVote, poll.multipleChoice, myVotes]
+  );
+
+  /**
+   * Closes the poll after confirmation
+   */
+  const handleClose = useCallback(async () => {
+    if (!onClose) return;
+    if (!window.confirm("Close this poll? No more votes will be accepted."))
+      return;
+    setIsBusy(true);
+    try {
+      await onClose();
+    } catch (error) {
+      console.error("Failed to close poll:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onClose]);
+
+  return (
+    <div
+      className={`w-80 max-w-full p-3 rounded-xl border bg-white ${
+        isSent ? "border-blue-200" : "border-gray-200"
+      } ${className}`}
+    >
+      {senderName && !isSent && (
+        <p className="text-xs font-semibold text-gray-600">{senderName}</p>
+      )}
+      <p className="text-sm font-semibold text-gray-900 break-words">
+        {question}
+      </p>
+      <p className="mt-0.5 text-xs text-gray-500">
+        {poll.multipleChoice ? "Choose any" : "Choose one"}
+        {poll.anonymous && " · Anonymous"}
+      </p>
+      <ul className="mt-2 space-y-1.5">
+        {poll.options.map((option) => {
+          const isChosen = myVotes.has(option.id);
+          return (
+            <li key={option.id}>
+              <button
+                type="button"
+                onClick={() => handleVote(option.id)}
+                disabled={!canVote || isBusy}
+                aria-pressed={isChosen}
+                title={poll.anonymous ? undefined : describeVoters(option)}
+                className={`w-full px-2 py-1.5 text-left rounded-md border transition-colors disabled:cursor-default ${
+                  isChosen
+                    ? "border-blue-400 bg-blue-50"
+                    : "border-gray-200 enabled:hover:bg-gray-50"
+                }`}
+              >
+                <span className="flex items-center justify-between gap-2 text-sm text-gray-900">
+                  <span className="flex items-center gap-1 min-w-0 break-words">
+                    {isChosen && (
+                      <CheckIcon className="w-3.5 h-3.5 flex-shrink-0 text-blue-600" />
+                    )}
+                    {option.text}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {option.voteCount}
+                  </span>
+                </span>
+                <ProgressBar
+                  completed={option.voteCount}
+                  total={poll.voterCount}
+                  className="mt-1"
+                />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+        <span>
+          {poll.voterCount === 1 ? "1 voter" : `${poll.voterCount} voters`}
+          {" · "}
+          {isClosed
+            ? "Closed"
+            : poll.closesAt
+            ? `Closes ${formatDateTime(poll.closesAt)}`
+            : "Open"}
+        </span>
+        <span className="flex items-center gap-2">
+          {onClose && !isClosed && (
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isBusy}
+              className="text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+            >
+              Close poll
+            </button>
+          )}
+          {timestamp && <span className="text-gray-400">{timestamp}</span>}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const PollCard = memo(PollCardComponent);
@@ -0,0 +1,96 @@
+"use client";
+
+/**
+ * ReactionBar Component
+ *
+ * Row of reaction chips shown under a message with:
+ * - One chip per emoji with its count
+ * - Highlighting for reactions by the current user
+ * - Tooltip listing who reacted
+ * - Click to toggle the current user's reaction
+ */
+
+import React, { memo } from "react";
+import { Tooltip } from "../../atoms/Tooltip";
+import type { ReactionSummary } from "@/types";
+
+/**
+ * Props interface for ReactionBar component
+ */
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  currentUsername?: string;
+  onToggle?: (emoji: string) => void;
+  className?: string;
+}
+
+/**
+ * Builds the tooltip text for a reaction chip
+ *
+ * @param reaction - Reaction summary to describe
+ * @param currentUsername - Username of the current user
+ * @returns Text such as "You and Alice reacted with 👍"
+ */
+const describeReaction = (
+  reaction: ReactionSummary,
+  currentUsername?: string
+): string => {
+  const names = reaction.users.map((u) =>
+    u.username === currentUsername ? "You" : u.name
+  );
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : names[0] ?? "";
+  return `${list} reacted with ${reaction.emoji}`;
+};
+
+/**
+ * ReactionBar Component Implementation
+ *
+ * @param reactions - Aggregated reactions for the message
+ * @param currentUsername - Username of the current user
+ * @param onToggle - Handler for toggling a reaction
+ * @param className - Additional CSS classes
+ */
+const ReactionBarComponent: React.FC<ReactionBarProps> = ({
+  reactions,
+  currentUsername,
+  onToggle,
+  className = "",
+}) => {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${className}`}>
+      {reactions.map((reaction) => {
+        const isMine = reaction.users.some(
+          (u) => u.username === currentUsername
+        );
+        return (
+          <Tooltip
+            key={reaction.emoji}
+            content={describeReaction(reaction, currentUsername)}
+            position="bottom"
+          >
+            <button
+              type="button"
+              onClick={() => onToggle?.(reaction.emoji)}
+              disabled={!onToggle}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${
+                isMine
+                  ? "bg-indigo-50 border-indigo-300 text-indigo-700"
+                  : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              <span>{reaction.emoji}</span>
+              <span>{reaction.count}</span>
+            </button>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
+
+export const ReactionBar = memo(ReactionBarComponent);
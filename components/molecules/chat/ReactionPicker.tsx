@@ -0,0 +1,95 @@
+"use client";
+
+/**
+ * ReactionPicker Component
+ *
+ * Compact emoji picker for message hover actions with:
+ * - Toggle button with smiley icon
+ * - Popover of quick-pick emoji
+ * - Closes after picking or when clicking outside
+ */
+
+import React, { memo, useEffect, useRef, useState } from "react";
+import { SmileIcon } from "../../atoms/Icons";
+import { REACTIONS } from "@/utils/constants";
+
+/**
+ * Props interface for ReactionPicker component
+ */
+interface ReactionPickerProps {
+  onPick: (emoji: string) => void;
+  align?: "left" | "right";
+  className?: string;
+}
+
+/**
+ * ReactionPicker Component Implementation
+ *
+ * @param onPick - Handler called with the chosen emoji
+ * @param align - Which edge of the button the popover aligns to
+ * @param className - Additional CSS classes
+ */
+const ReactionPickerComponent: React.FC<ReactionPickerProps> = ({
+  onPick,
+  align = "left",
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Controls visibility of the emoji popover
+   */
+  const [isOpen, setIsOpen] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  /**
+   * Closes the popover when clicking outside of it
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((v) => !v)}
+        className="p-1 text-gray-400 hover:text-gray-600"
+        title="Add reaction"
+      >
+        <SmileIcon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div
+          className={`absolute bottom-full mb-1 z-10 flex gap-1 p-1 bg-white border border-gray-200 rounded-full shadow-lg ${
+            align === "right" ? "right-0" : "left-0"
+          }`}
+        >
+          {REACTIONS.QUICK_PICKS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onPick(emoji);
+                setIsOpen(false);
+              }}
+              className="w-8 h-8 flex items-center justify-center rounded-full text-lg hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ReactionPicker = memo(ReactionPickerComponent);
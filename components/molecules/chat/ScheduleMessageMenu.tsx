@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * ScheduleMessageMenu Component
+ *
+ * Popover form for sending the current draft later with:
+ * - Date and time picker in the browser's time zone, defaulting to the next full hour
+ * - Repeat presets (daily, weekdays, weekly, monthly)
+ * - Inline errors from the server, such as a time in the past
+ */
+
+import React, { memo, useCallback, useState } from "react";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { SCHEDULED_MESSAGES } from "@/utils/constants";
+import { toDateTimeInputValue } from "@/utils/dateUtils";
+
+/**
+ * Props interface for ScheduleMessageMenu component
+ */
+interface ScheduleMessageMenuProps {
+  onSchedule: (sendAt: Date, rrule?: string) => Promise<void>;
+  className?: string;
+}
+
+/**
+ * Start of the next full hour
+ *
+ * @returns Date on the next hour boundary
+ */
+const nextFullHour = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+/**
+ * ScheduleMessageMenu Component Implementation
+ *
+ * @param onSchedule - Schedules the draft; rejects with a message to show
+ * @param className - Additional CSS classes
+ */
+const ScheduleMessageMenuComponent: React.FC<ScheduleMessageMenuProps> = ({
+  onSchedule,
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Chosen send time as a datetime-local value
+   */
+  const [sendAt, setSendAt] = useState(() =>
+    toDateTimeInputValue(nextFullHour())
+  );
+
+  /**
+   * Chosen recurrence rule, empty for a one-off message
+   */
+  const [rule, setRule] = useState("");
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Schedules the draft for the chosen time
+   */
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      const date = new Date(sendAt);
+      if (Number.isNaN(date.getTime())) {
+        setError("Pick a date and time");
+        return;
+      }
+      setIsSaving(true);
+      setError(null);
+      try {
+        await onSchedule(date, rule || undefined);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to schedule message"
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [sendAt, rule, onSchedule]
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`w-72 p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg ${className}`}
+    >
+      <p className="text-sm font-semibold text-gray-900">Schedule message</p>
+      <label className="block text-xs font-medium text-gray-600">
+        Send at
+        <input
+          type="datetime-local"
+          value={sendAt}
+          min={toDateTimeInputValue(new Date())}
+          onChange={(e) => setSendAt(e.target.value)}
+          required
+          className="mt-1 w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <label className="block text-xs font-medium text-gray-600">
+        Repeat
+        <select
+          value={rule}
+          onChange={(e) => setRule(e.target.value)}
+          className="mt-1 w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {SCHEDULED_MESSAGES.REPEAT_OPTIONS.map((option) => (
+            <option key={option.rule} value={option.rule}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <ErrorMessage message={error ?? undefined} />
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" disabled={isSaving}>
+          {isSaving ? "Scheduling..." : "Schedule"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const ScheduleMessageMenu = memo(ScheduleMessageMenuComponent);
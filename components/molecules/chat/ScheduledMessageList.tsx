@@ -0,0 +1,105 @@
+"use client";
+
+/**
+ * ScheduledMessageList Component
+ *
+ * The current user's pending scheduled messages for the composer with:
+ * - Collapsible summary line with the number of scheduled messages
+ * - Next send time, repeat rule, and a short preview for each message
+ * - Cancel button per message
+ * - Hidden entirely when nothing is scheduled
+ */
+
+import React, { memo, useState } from "react";
+import { ChevronDownIcon, ClockIcon, CloseIcon } from "../../atoms/Icons";
+import { formatDateTime } from "@/utils/dateUtils";
+import { describeRecurrenceRule } from "@/utils/recurrence";
+import type { ScheduledMessage } from "@/types";
+
+/**
+ * Props interface for ScheduledMessageList component
+ */
+interface ScheduledMessageListProps {
+  messages: ScheduledMessage[];
+  onCancel?: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * ScheduledMessageList Component Implementation
+ *
+ * @param messages - Pending scheduled messages, soonest first
+ * @param onCancel - Handler for cancelling a scheduled message
+ * @param className - Additional CSS classes
+ */
+const ScheduledMessageListComponent: React.FC<ScheduledMessageListProps> = ({
+  messages,
+  onCancel,
+  className = "",
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Whether the list is expanded below the summary line
+   */
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div className={`px-4 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((v) => !v)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1.5 py-1 text-xs text-gray-600 hover:text-gray-900"
+      >
+        <ClockIcon className="w-3.5 h-3.5" />
+        {messages.length === 1
+          ? "1 scheduled message"
+          : `${messages.length} scheduled messages`}
+        <ChevronDownIcon
+          className={`w-3.5 h-3.5 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+      {isOpen && (
+        <ul className="mb-1 max-h-48 overflow-y-auto space-y-1">
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className="flex items-start gap-2 px-3 py-2 rounded-lg bg-gray-50"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-gray-500">
+                  <span className="font-semibold text-gray-700">
+                    {formatDateTime(message.nextRunAt)}
+                  </span>
+                  {message.rrule &&
+                    ` · ${describeRecurrenceRule(message.rrule)}`}
+                </p>
+                <p className="text-sm text-gray-900 truncate">
+                  {message.content}
+                </p>
+              </div>
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={() => onCancel(message.id)}
+                  aria-label="Cancel scheduled message"
+                  title="Cancel scheduled message"
+                  className="p-0.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 shrink-0"
+                >
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const ScheduledMessageList = memo(ScheduledMessageListComponent);
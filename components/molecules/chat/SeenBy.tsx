@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * SeenBy Component
+ *
+ * Read receipt indicator shown under the newest message with:
+ * - Overlapping stack of small member avatars
+ * - Overflow counter when many members have read the message
+ * - Tooltip listing everyone who has seen the message
+ */
+
+import React, { memo } from "react";
+import { Avatar } from "../../atoms/Avatar";
+import { Tooltip } from "../../atoms/Tooltip";
+import type { SpaceMemberUser } from "@/types";
+
+/**
+ * Maximum number of avatars drawn before collapsing into a counter
+ */
+const MAX_VISIBLE_READERS = 5;
+
+/**
+ * Props interface for SeenBy component
+ */
+interface SeenByProps {
+  readers: SpaceMemberUser[];
+  align?: "left" | "right";
+  className?: string;
+}
+
+/**
+ * SeenBy Component Implementation
+ *
+ * @param readers - Members who have read the message
+ * @param align - Which side of the message list the stack sits on
+ * @param className - Additional CSS classes
+ */
+const SeenByComponent: React.FC<SeenByProps> = ({
+  readers,
+  align = "right",
+  className = "",
+}) => {
+  if (readers.length === 0) return null;
+
+  const visible = readers.slice(0, MAX_VISIBLE_READERS);
+  const overflow = readers.length - visible.length;
+
+  return (
+    <div
+      className={`flex ${
+        align === "right" ? "justify-end" : "justify-start"
+      } -mt-2 mb-2 ${className}`}
+    >
+      <Tooltip
+        content={`Seen by ${readers.map((r) => r.name).join(", ")}`}
+        position="left"
+      >
+        <div className="flex items-center -space-x-1.5">
+          {visible.map((reader) => (
+            <Avatar
+              key={reader.id}
+              size="xs"
+              alt={reader.name}
+              src={
+                reader.avatar && reader.avatar.length > 0
+                  ? reader.avatar
+                  : undefined
+              }
+              className="ring-2 ring-white"
+            >
+              {reader.name.charAt(0).toUpperCase()}
+            </Avatar>
+          ))}
+          {overflow > 0 && (
+            <span className="pl-2.5 text-[10px] text-gray-500">
+              +{overflow}
+            </span>
+          )}
+        </div>
+      </Tooltip>
+    </div>
+  );
+};
+
+export const SeenBy = memo(SeenByComponent);
@@ -0,0 +1,83 @@
+"use client";
+
+/**
+ * SlashCommandPalette Component
+ *
+ * Command list shown above the chat input while typing a `/command` with:
+ * - Command usage and a short description
+ * - Admin badge for commands limited to admins
+ * - Keyboard-highlighted active row
+ * - Selection by click without stealing input focus
+ */
+
+import React, { memo } from "react";
+import type { SlashCommandInfo } from "@/types";
+
+/**
+ * Props interface for SlashCommandPalette component
+ */
+interface SlashCommandPaletteProps {
+  commands: SlashCommandInfo[];
+  activeIndex: number;
+  onSelect: (command: SlashCommandInfo) => void;
+  onHover?: (index: number) => void;
+  className?: string;
+}
+
+/**
+ * SlashCommandPalette Component Implementation
+ *
+ * @param commands - Commands matching the typed name
+ * @param activeIndex - Index of the highlighted command
+ * @param onSelect - Handler called with the chosen command
+ * @param onHover - Handler for highlighting a command with the mouse
+ * @param className - Additional CSS classes
+ */
+const SlashCommandPaletteComponent: React.FC<SlashCommandPaletteProps> = ({
+  commands,
+  activeIndex,
+  onSelect,
+  onHover,
+  className = "",
+}) => {
+  if (commands.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className={`absolute bottom-full left-0 mb-2 w-80 max-h-64 overflow-y-auto z-20 py-1 bg-white border border-gray-200 rounded-lg shadow-lg ${className}`}
+    >
+      {commands.map((command, index) => (
+        <li
+          key={command.name}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(command);
+          }}
+          onMouseEnter={() => onHover?.(index)}
+          className={`px-3 py-1.5 cursor-pointer ${
+            index === activeIndex ? "bg-indigo-50" : "hover:bg-gray-50"
+          }`}
+        >
+          <span className="flex items-center gap-2">
+            <span className="text-sm font-mono text-gray-900 truncate">
+              {command.usage}
+            </span>
+            {command.adminOnly && (
+              <span className="ml-auto text-[10px] font-semibold uppercase text-amber-700 bg-amber-100 rounded px-1">
+                Admin
+              </span>
+            )}
+          </span>
+          <span className="block text-xs text-gray-500 truncate">
+            {command.description}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const SlashCommandPalette = memo(SlashCommandPaletteComponent);
@@ -68,6 +68,7 @@ import { NoteBlockRow } from "./NoteBlockRow";
 import { AddBlockMenu } from "./AddBlockMenu";
 import { SaveButton } from "./SaveButton";
 import {
+  BookmarkIcon,
   DragDotsIcon,
   TrashIcon,
   PlusIcon,
@@ -100,6 +101,8 @@ interface NoteEditorProps {
   note?: Note;
   onSave: (draft: { title: string; blocks: NoteBlock[] }) => void;
   onDeleteNote: () => void;
+  savedBlockIndexes?: number[];
+  onToggleSaveBlock?: (blockIndex: number, saved: boolean) => Promise<void>;
 }
 
 /**
@@ -111,11 +114,15 @@ interface NoteEditorProps {
  * @param note - Optional note data to edit (undefined for new notes)
  * @param onSave - Callback function called when note is saved with title and blocks
  * @param onDeleteNote - Callback function called when note is deleted
+ * @param savedBlockIndexes - Positions of the blocks the current user saved
+ * @param onToggleSaveBlock - Saves or unsaves the block at a position
  */
 const NoteEditorComponent: React.FC<NoteEditorProps> = ({
   note,
   onSave,
   onDeleteNote,
+  savedBlockIndexes = [],
+  onToggleSaveBlock,
 }) => {
   // ===== STATE MANAGEMENT =====
 
@@ -177,6 +184,11 @@ const NoteEditorComponent: React.FC<NoteEditorProps> = ({
    */
   const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
 
+  /**
+   * Position of the block whose saved state is being changed
+   */
+  const [savingBlockIndex, setSavingBlockIndex] = useState<number | null>(null);
+
   // ===== REFS =====
 
   /**
@@ -350,8 +362,37 @@ const NoteEditorComponent: React.FC<NoteEditorProps> = ({
     THROTTLE_MS,
   ]);
 
+  /**
+   * Saves a block for later, or removes it from saved items
+   * @param blockIndex - Position of the block in the saved note
+   */
+  const handleToggleSaveBlock = useCallback(
+    async (blockIndex: number) => {
+      if (!onToggleSaveBlock) return;
+      setSavingBlockIndex(blockIndex);
+      try {
+        await onToggleSaveBlock(
+          blockIndex,
+          !savedBlockIndexes.includes(blockIndex)
+        );
+      } catch (error) {
+        console.error("Failed to update saved block:", error);
+      } finally {
+        setSavingBlockIndex(null);
+      }
+    },
+    [onToggleSaveBlock, savedBlockIndexes]
+  );
+
   // ===== COMPUTED VALUES =====
 
+  /**
+   * Blocks can only be saved by position once the note on screen matches
+   * the stored one
+   */
+  const canSaveBlocks =
+    !!onToggleSaveBlock && !isEditing && !hasChanges && note?.id !== "draft";
+
   /**
    * Array of block IDs for drag-and-drop sorting
    * Used by @dnd-kit SortableContext
@@ -595,12 +636,37 @@ const NoteEditorComponent: React.FC<NoteEditorProps> = ({
             </DragOverlay>
           </DndContext>
         ) : (
-          blocks.map((block) => (
+          blocks.map((block, blockIndex) => (
             <div
               key={String(block.id)}
               className="group rounded relative pl-4 pr-4 mb-1.5"
             >
               <div className="absolute -left-3 -top-1.5 opacity-0 pointer-events-none" />
+              {canSaveBlocks && (
+                <button
+                  type="button"
+                  onClick={() => handleToggleSaveBlock(blockIndex)}
+                  disabled={savingBlockIndex !== null}
+                  className={`absolute right-0 top-1 z-10 p-0 hover:text-gray-600 disabled:opacity-60 ${
+                    savedBlockIndexes.includes(blockIndex)
+                      ? "text-indigo-500"
+                      : "text-gray-400 opacity-0 group-hover:opacity-100"
+                  }`}
+                  title={
+                    savedBlockIndexes.includes(blockIndex)
+                      ? "Remove from saved"
+                      : "Save block"
+                  }
+                >
+                  <BookmarkIcon
+                    className={`w-4 h-4 ${
+                      savedBlockIndexes.includes(blockIndex)
+                        ? "fill-current"
+                        : ""
+                    }`}
+                  />
+                </button>
+              )}
               {block.type === "todo" ? (
                 <div className="space-y-2 rounded-md border border-gray-200 bg-gray-50 p-3">
                   <div className="flex items-start gap-2">
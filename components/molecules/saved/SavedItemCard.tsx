@@ -0,0 +1,273 @@
+"use client";
+
+/**
+ * SavedItemCard Component
+ *
+ * One saved message or note block with:
+ * - Where it was saved from, and when
+ * - Current message text, or the block's saved text
+ * - A tombstone once the original is deleted or out of reach
+ * - Private note and reminder, editable inline
+ * - Open and remove actions
+ */
+
+import React, { memo, useCallback, useState } from "react";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { BookmarkIcon, ClockIcon } from "../../atoms/Icons";
+import { BOOKMARKS } from "@/utils/constants";
+import { formatDateTime, toDateTimeInputValue } from "@/utils/dateUtils";
+import { formatRelativeTime } from "@/utils/formatters";
+import { getMessagePreview } from "@/utils/messageUtils";
+import type { SavedItem } from "@/types";
+
+/**
+ * Props interface for SavedItemCard component
+ */
+interface SavedItemCardProps {
+  item: SavedItem;
+  isDue?: boolean;
+  onOpen?: (item: SavedItem) => void;
+  onUpdate?: (
+    savedItemId: string,
+    details: { privateNote: string | null; remindAt: string | null }
+  ) => Promise<void>;
+  onRemove?: (savedItemId: string) => Promise<void>;
+}
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * SavedItemCard Component Implementation
+ *
+ * @param item - Saved message or note block
+ * @param isDue - Whether the item's reminder time has passed
+ * @param onOpen - Handler for jumping to the original in its space
+ * @param onUpdate - Saves the private note and reminder; rejects with a message to show
+ * @param onRemove - Removes the item from saved items
+ */
+const SavedItemCardComponent: React.FC<SavedItemCardProps> = ({
+  item,
+  isDue = false,
+  onOpen,
+  onUpdate,
+  onRemove,
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [privateNote, setPrivateNote] = useState("");
+
+  /**
+   * Reminder as a datetime-local value, empty for no reminder
+   */
+  const [remindAt, setRemindAt] = useState("");
+
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ===== COMPUTED VALUES =====
+
+  const canOpen = !item.isDeleted && !!onOpen;
+  const source =
+    item.kind === "message"
+      ? item.message?.senderName
+      : item.noteTitle ?? "Note";
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Starts editing with the item's current note and reminder
+   */
+  const handleStartEdit = useCallback(() => {
+    setPrivateNote(item.privateNote ?? "");
+    setRemindAt(
+      item.remindAt ? toDateTimeInputValue(new Date(item.remindAt)) : ""
+    );
+    setError(null);
+    setIsEditing(true);
+  }, [item.privateNote, item.remindAt]);
+
+  /**
+   * Saves the edited note and reminder; empty fields clear them
+   */
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!onUpdate) return;
+      const remindDate = remindAt ? new Date(remindAt) : null;
+      if (remindDate && Number.isNaN(remindDate.getTime())) {
+        setError("Pick a date and time");
+        return;
+      }
+      setIsBusy(true);
+      setError(null);
+      try {
+        await onUpdate(item.id, {
+          privateNote: privateNote.trim() || null,
+          remindAt: remindDate?.toISOString() ?? null,
+        });
+        setIsEditing(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save changes");
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [onUpdate, item.id, privateNote, remindAt]
+  );
+
+  const handleRemove = useCallback(async () => {
+    if (!onRemove) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onRemove(item.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove item");
+      setIsBusy(false);
+    }
+  }, [onRemove, item.id]);
+
+  return (
+    <li
+      className={`rounded-lg border px-3 py-2 ${
+        isDue ? "border-red-200 bg-red-50" : "border-gray-200 bg-white"
+      }`}
+    >
+      <button
+        type="button"
+        onClick={() => onOpen?.(item)}
+        disabled={!canOpen}
+        className="w-full text-left disabled:cursor-default"
+      >
+        <span className="flex items-baseline justify-between gap-2 text-xs text-gray-500">
+          <span className="truncate">
+            {item.isDeleted ? (
+              item.kind === "message" ? (
+                "Message"
+              ) : (
+                "Note block"
+              )
+            ) : (
+              <>
+                <span className="font-semibold text-gray-700">{source}</span> in{" "}
+                {item.spaceName}
+                {item.message?.parentId && " · thread"}
+              </>
+            )}
+          </span>
+          <span className="shrink-0">
+            Saved {formatRelativeTime(item.createdAt)}
+          </span>
+        </span>
+        {item.isDeleted ? (
+          <span className="block mt-0.5 text-sm italic text-gray-500">
+            {item.kind === "message"
+              ? "This message was deleted or is no longer available"
+              : "This note was deleted or is no longer available"}
+          </span>
+        ) : (
+          <span className="block mt-0.5 text-sm text-gray-900 line-clamp-3 break-words">
+            {item.message ? getMessagePreview(item.message) : item.excerpt}
+          </span>
+        )}
+      </button>
+      {!isEditing && (item.privateNote || item.remindAt) && (
+        <div className="mt-1.5 space-y-1">
+          {item.privateNote && (
+            <p className="text-xs text-gray-600 whitespace-pre-wrap break-words">
+              {item.privateNote}
+            </p>
+          )}
+          {item.remindAt && (
+            <span
+              className={`inline-flex items-center gap-1 text-xs ${
+                isDue ? "font-medium text-red-600" : "text-gray-500"
+              }`}
+            >
+              <ClockIcon className="w-3.5 h-3.5" />
+              {isDue ? "Reminder due" : "Remind me"}{" "}
+              {formatDateTime(item.remindAt)}
+            </span>
+          )}
+        </div>
+      )}
+      {isEditing ? (
+        <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+          <textarea
+            value={privateNote}
+            onChange={(e) => setPrivateNote(e.target.value)}
+            maxLength={BOOKMARKS.MAX_NOTE_LENGTH}
+            rows={2}
+            placeholder="Private note"
+            aria-label="Private note"
+            autoFocus
+            className={`resize-none ${INPUT_CLASS}`}
+          />
+          <label className="block text-xs font-medium text-gray-600">
+            Remind me (optional)
+            <input
+              type="datetime-local"
+              value={remindAt}
+              onChange={(e) => setRemindAt(e.target.value)}
+              className={`mt-1 ${INPUT_CLASS}`}
+            />
+          </label>
+          <ErrorMessage message={error ?? undefined} />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="text"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={isBusy}>
+              {isBusy ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <ErrorMessage message={error ?? undefined} />
+          <div className="flex items-center justify-end gap-3 mt-1.5 text-xs">
+            {canOpen && (
+              <button
+                type="button"
+                onClick={() => onOpen?.(item)}
+                className="text-indigo-600 hover:text-indigo-800"
+              >
+                Open
+              </button>
+            )}
+            {onUpdate && !item.isDeleted && (
+              <button
+                type="button"
+                onClick={handleStartEdit}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                {item.privateNote || item.remindAt ? "Edit note" : "Add note"}
+              </button>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                disabled={isBusy}
+                className="inline-flex items-center gap-1 text-gray-500 hover:text-red-600 disabled:opacity-60"
+              >
+                <BookmarkIcon className="w-3.5 h-3.5" />
+                Remove
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </li>
+  );
+};
+
+export const SavedItemCard = memo(SavedItemCardComponent);
@@ -0,0 +1,157 @@
+"use client";
+
+/**
+ * SavedItemList Component
+ *
+ * Sidebar view of the user's saved items with:
+ * - Items whose reminder is due listed first
+ * - Everything else, most recently saved first
+ * - Loading, error, and empty states
+ * - Back button to the space list
+ */
+
+import React, { memo, useEffect, useMemo, useState } from "react";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { LoadingSpinner } from "../../atoms/LoadingSpinner";
+import { BackArrowIcon } from "../../atoms/Icons";
+import { SavedItemCard } from "./SavedItemCard";
+import type { SavedItem } from "@/types";
+
+/**
+ * Props interface for SavedItemList component
+ */
+interface SavedItemListProps {
+  items: SavedItem[];
+  isLoading?: boolean;
+  error?: string | null;
+  onBack?: () => void;
+  onOpen?: (item: SavedItem) => void;
+  onUpdate?: (
+    savedItemId: string,
+    details: { privateNote: string | null; remindAt: string | null }
+  ) => Promise<void>;
+  onRemove?: (savedItemId: string) => Promise<void>;
+}
+
+/**
+ * How often due reminders are re-checked while the list is open
+ */
+const REMINDER_CHECK_MS = 60 * 1000;
+
+/**
+ * SavedItemList Component Implementation
+ *
+ * @param items - Saved items, most recently saved first
+ * @param isLoading - Whether the items are being loaded
+ * @param error - Why loading failed, if it did
+ * @param onBack - Returns to the space list
+ * @param onOpen - Handler for jumping to an item in its space
+ * @param onUpdate - Handler for changing an item's private note and reminder
+ * @param onRemove - Handler for removing an item
+ */
+const SavedItemListComponent: React.FC<SavedItemListProps> = ({
+  items,
+  isLoading = false,
+  error = null,
+  onBack,
+  onOpen,
+  onUpdate,
+  onRemove,
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Current time, refreshed so reminders move to the due section on time
+   */
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // ===== COMPUTED VALUES =====
+
+  /**
+   * Items with a passed reminder, oldest reminder first, and the rest
+   */
+  const { due, rest } = useMemo(() => {
+    const isDue = (item: SavedItem) =>
+      !!item.remindAt && new Date(item.remindAt).getTime() <= now;
+    return {
+      due: items
+        .filter(isDue)
+        .sort(
+          (a, b) =>
+            new Date(a.remindAt as string).getTime() -
+            new Date(b.remindAt as string).getTime()
+        ),
+      rest: items.filter((item) => !isDue(item)),
+    };
+  }, [items, now]);
+
+  const renderItems = (list: SavedItem[], isDue: boolean) => (
+    <ul className="space-y-2">
+      {list.map((item) => (
+        <SavedItemCard
+          key={item.id}
+          item={item}
+          isDue={isDue}
+          onOpen={onOpen}
+          onUpdate={onUpdate}
+          onRemove={onRemove}
+        />
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button
+        type="button"
+        variant="text"
+        size="sm"
+        onClick={onBack}
+        className="flex items-center gap-2 !p-0"
+      >
+        <BackArrowIcon className="flex-shrink-0" />
+        Space List
+      </Button>
+      <h2 className="text-lg font-semibold text-gray-900">Saved items</h2>
+      <ErrorMessage message={error ?? undefined} />
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-3">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        !error &&
+        items.length === 0 && (
+          <p className="py-4 text-sm text-gray-500 text-center">
+            Save messages and note blocks to find them here
+          </p>
+        )
+      )}
+      {due.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-red-600">
+            Reminders due
+          </h3>
+          {renderItems(due, true)}
+        </section>
+      )}
+      {rest.length > 0 && (
+        <section className="space-y-2">
+          {due.length > 0 && (
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Saved
+            </h3>
+          )}
+          {renderItems(rest, false)}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export const SavedItemList = memo(SavedItemListComponent);
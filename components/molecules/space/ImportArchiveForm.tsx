@@ -0,0 +1,415 @@
+"use client";
+
+/**
+ * ImportArchiveForm Component
+ *
+ * Sidebar form for importing a Slack or Discord export with:
+ * - Upload of a Slack export zip or a Discord JSON export
+ * - Dry-run report of the channels, the importer's own messages and the
+ *   other authors before anything is imported
+ * - Progress while the import runs a batch at a time
+ * - Resume and discard for imports that did not finish
+ */
+
+import React, { memo, useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { FormLabel } from "../../atoms/FormLabel";
+import { BackArrowIcon } from "../../atoms/Icons";
+import { formatDateTime } from "@/utils/dateUtils";
+import { formatRelativeTime } from "@/utils/formatters";
+import type { ImportJobSummary } from "@/types";
+
+/**
+ * Props interface for ImportArchiveForm component
+ */
+interface ImportArchiveFormProps {
+  onPreview: (formData: FormData) => Promise<ImportJobSummary>;
+  onRun: (jobId: string) => Promise<ImportJobSummary>;
+  onList?: () => Promise<ImportJobSummary[]>;
+  onDiscard?: (jobId: string) => Promise<void>;
+  onBack?: () => void;
+}
+
+/**
+ * How long to wait before asking again when another run holds the import
+ */
+const BUSY_RETRY_MS = 2000;
+
+/**
+ * Lists up to a few names, noting how many more there are
+ *
+ * @param names - Names to show
+ * @param count - Total number of names
+ * @returns Comma-separated names
+ */
+const formatNames = (names: string[], count: number) => {
+  const shown = names.slice(0, 5);
+  const more = count - shown.length;
+  return more > 0 ? `${shown.join(", ")} and ${more} more` : shown.join(", ");
+};
+
+/**
+ * ImportArchiveForm Component Implementation
+ *
+ * @param onPreview - Uploads an export and returns its staged job; rejects with a message to show
+ * @param onRun - Runs the next batches of a job and returns its progress
+ * @param onList - Loads the user's earlier imports
+ * @param onDiscard - Discards an import that did not finish
+ * @param onBack - Returns to the space list
+ */
+const ImportArchiveFormComponent: React.FC<ImportArchiveFormProps> = ({
+  onPreview,
+  onRun,
+  onList,
+  onDiscard,
+  onBack,
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  const [file, setFile] = useState<File | null>(null);
+
+  /**
+   * Job being previewed or run
+   */
+  const [job, setJob] = useState<ImportJobSummary | null>(null);
+
+  /**
+   * Earlier imports that did not finish
+   */
+  const [unfinished, setUnfinished] = useState<ImportJobSummary[]>([]);
+
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Cleared on unmount so a running loop stops; the scheduled run
+   * finishes the import
+   */
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  /**
+   * Loads earlier imports that can be resumed
+   */
+  useEffect(() => {
+    if (!onList) return;
+    let cancelled = false;
+    onList()
+      .then((jobs) => {
+        if (!cancelled) {
+          setUnfinished(jobs.filter((j) => j.status !== "completed"));
+        }
+      })
+      .catch((err) => console.error("Failed to load imports:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [onList]);
+
+  // ===== COMPUTED VALUES =====
+
+  const report = job?.report;
+  const isRunning = isBusy && job?.status !== "pending";
+  const isFinished = job?.status === "completed";
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Uploads the chosen export and shows its dry-run report
+   */
+  const handlePreview = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!file) return;
+      const formData = new FormData();
+      formData.append("file", file);
+      setIsBusy(true);
+      setError(null);
+      try {
+        setJob(await onPreview(formData));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to read export");
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [file, onPreview]
+  );
+
+  /**
+   * Runs an import until it completes or fails
+   * @param target - Job to start or resume
+   */
+  const handleRun = useCallback(
+    async (target: ImportJobSummary) => {
+      setJob({ ...target, status: "running", error: undefined });
+      setUnfinished((prev) => prev.filter((j) => j.id !== target.id));
+      setIsBusy(true);
+      setError(null);
+      try {
+        let current = target;
+        do {
+          const previous = current.importedMessages;
+          current = await onRun(current.id);
+          if (!isMountedRef.current) return;
+          setJob(current);
+          if (
+            current.status === "running" &&
+            current.importedMessages === previous
+          ) {
+            await new Promise((r) => setTimeout(r, BUSY_RETRY_MS));
+          }
+        } while (current.status === "running");
+        if (current.status === "failed") {
+          setError(current.error ?? "The import failed");
+        }
+      } catch (err) {
+        if (isMountedRef.current) {
+          setError(err instanceof Error ? err.message : "The import failed");
+        }
+      } finally {
+        if (isMountedRef.current) setIsBusy(false);
+      }
+    },
+    [onRun]
+  );
+
+  /**
+   * Discards an import and removes it from the list
+   * @param jobId - ID of the import job
+   */
+  const handleDiscard = useCallback(
+    async (jobId: string) => {
+      if (!onDiscard) return;
+      setError(null);
+      try {
+        await onDiscard(jobId);
+        setUnfinished((prev) => prev.filter((j) => j.id !== jobId));
+        setJob((prev) => (prev?.id === jobId ? null : prev));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to discard import"
+        );
+      }
+    },
+    [onDiscard]
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button
+        type="button"
+        variant="text"
+        size="sm"
+        onClick={onBack}
+        className="flex items-center gap-2 !p-0"
+      >
+        <BackArrowIcon className="flex-shrink-0" />
+        Space List
+      </Button>
+
+      {!job && (
+        <form onSubmit={handlePreview} className="space-y-3">
+          <FormLabel htmlFor="importFile">
+            Import from Slack or Discord
+          </FormLabel>
+          <input
+            id="importFile"
+            type="file"
+            accept=".zip,.json,application/zip,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-700"
+          />
+          <p className="text-xs text-gray-500">
+            Upload a Slack workspace export zip or a Discord channel export in
+            JSON. You will see what will be imported before anything is created.
+          </p>
+          <ErrorMessage message={error ?? undefined} />
+          <Button
+            type="submit"
+            variant="send"
+            size="md"
+            className="w-full rounded-full"
+            disabled={!file || isBusy}
+          >
+            {isBusy ? "Reading..." : "Preview import"}
+          </Button>
+        </form>
+      )}
+
+      {job && report && (
+        <div className="space-y-3 text-sm text-gray-700">
+          <h3 className="font-semibold text-gray-900">
+            {job.fileName} · {report.source === "slack" ? "Slack" : "Discord"}
+          </h3>
+          <ul className="space-y-1">
+            {report.channels.map((channel, index) => (
+              <li
+                key={`${channel.name}-${index}`}
+                className="flex justify-between gap-2"
+              >
+                <span className="truncate"># {channel.name}</span>
+                <span className="shrink-0 text-xs text-gray-500">
+                  {channel.messageCount} messages
+                  {channel.replyCount > 0 && `, ${channel.replyCount} replies`}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500">
+            Each channel becomes a new space you administer. Messages keep their
+            original times.
+          </p>
+          {report.importerAuthor && (
+            <p>
+              Messages by{" "}
+              <span className="font-medium">{report.importerAuthor}</span> are
+              imported as yours
+            </p>
+          )}
+          <p>
+            <span className="font-medium">
+              {report.otherAuthors.count} other authors
+            </span>
+            {report.otherAuthors.count > 0 &&
+              `: ${formatNames(
+                report.otherAuthors.names,
+                report.otherAuthors.count
+              )}`}
+          </p>
+          {(report.skipped.systemEvents > 0 ||
+            report.skipped.botMessages > 0 ||
+            report.skipped.emptyMessages > 0 ||
+            report.skipped.directMessages > 0) && (
+            <p className="text-xs text-gray-500">
+              Skipped {report.skipped.systemEvents} system events,{" "}
+              {report.skipped.botMessages} bot messages,{" "}
+              {report.skipped.emptyMessages} empty messages and{" "}
+              {report.skipped.directMessages} direct conversations
+            </p>
+          )}
+          {report.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-700">
+              {warning}
+            </p>
+          ))}
+
+          {job.status !== "pending" && (
+            <div className="space-y-1">
+              <div className="h-2 overflow-hidden bg-gray-100 rounded-full">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{
+                    width: `${
+                      job.totalMessages
+                        ? (job.importedMessages / job.totalMessages) * 100
+                        : 100
+                    }%`,
+                  }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {isFinished
+                  ? `Finished ${formatDateTime(
+                      job.finishedAt ?? job.createdAt
+                    )}`
+                  : `Imported ${job.importedMessages} of ${job.totalMessages} messages`}
+              </p>
+            </div>
+          )}
+
+          <ErrorMessage message={error ?? undefined} />
+          {isFinished ? (
+            <Button
+              type="button"
+              variant="send"
+              size="md"
+              className="w-full rounded-full"
+              onClick={onBack}
+            >
+              Done
+            </Button>
+          ) : (
+            <div className="flex justify-end gap-2">
+              {onDiscard && !isBusy && (
+                <Button
+                  type="button"
+                  variant="text"
+                  size="sm"
+                  onClick={() => handleDiscard(job.id)}
+                >
+                  Discard
+                </Button>
+              )}
+              <Button
+                type="button"
+                size="sm"
+                disabled={isBusy}
+                onClick={() => handleRun(job)}
+              >
+                {isRunning
+                  ? "Importing..."
+                  : job.status === "pending"
+                  ? "Start import"
+                  : "Resume import"}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!job && unfinished.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold tracking-wide text-gray-500 uppercase">
+            Unfinished imports
+          </h3>
+          <ul className="space-y-2">
+            {unfinished.map((item) => (
+              <li
+                key={item.id}
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+              >
+                <span className="block truncate font-medium text-gray-900">
+                  {item.fileName}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {item.status === "failed"
+                    ? `Failed: ${item.error ?? "unknown error"}`
+                    : `${item.importedMessages} of ${item.totalMessages} messages`}{" "}
+                  · {formatRelativeTime(item.createdAt)}
+                </span>
+                <div className="flex justify-end gap-3 mt-1.5 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setJob(item)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    {item.status === "pending" ? "Review" : "Resume"}
+                  </button>
+                  {onDiscard && (
+                    <button
+                      type="button"
+                      onClick={() => handleDiscard(item.id)}
+                      className="text-gray-500 hover:text-red-600"
+                    >
+                      Discard
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ImportArchiveForm = memo(ImportArchiveFormComponent);
@@ -0,0 +1,243 @@
+"use client";
+
+/**
+ * NewDirectMessageForm Component
+ *
+ * Sidebar form for starting a direct message with:
+ * - People search by name or username as the user types
+ * - Chips for the chosen people, removable before starting
+ * - 1:1 or small-group conversations up to the participant limit
+ * - Inline errors from the server
+ */
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import { Avatar } from "../../atoms/Avatar";
+import { Button } from "../../atoms/Button";
+import { ErrorMessage } from "../../atoms/ErrorMessage";
+import { FormLabel } from "../../atoms/FormLabel";
+import { Input } from "../../atoms/Input";
+import { BackArrowIcon, CloseIcon } from "../../atoms/Icons";
+import { DIRECT_MESSAGES } from "@/utils/constants";
+import type { UserSummary } from "@/types";
+
+/**
+ * Props interface for NewDirectMessageForm component
+ */
+interface NewDirectMessageFormProps {
+  onSearch: (query: string) => Promise<UserSummary[]>;
+  onStart: (userIds: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * NewDirectMessageForm Component Implementation
+ *
+ * @param onSearch - Finds people matching a query
+ * @param onStart - Opens the conversation; rejects with a message to show
+ * @param onCancel - Returns to the space list
+ */
+const NewDirectMessageFormComponent: React.FC<NewDirectMessageFormProps> = ({
+  onSearch,
+  onStart,
+  onCancel,
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  const [query, setQuery] = useState("");
+
+  /**
+   * People matching the current query
+   */
+  const [results, setResults] = useState<UserSummary[]>([]);
+
+  /**
+   * People chosen for the conversation, in the order they were picked
+   */
+  const [selected, setSelected] = useState<UserSummary[]>([]);
+
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Searches shortly after the user stops typing, ignoring stale responses
+   */
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await onSearch(trimmed);
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Search failed");
+        }
+      }
+    }, DIRECT_MESSAGES.SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, onSearch]);
+
+  // ===== COMPUTED VALUES =====
+
+  const isFull = selected.length >= DIRECT_MESSAGES.MAX_PARTICIPANTS - 1;
+  const choices = results.filter(
+    (person) => !selected.some((s) => s.id === person.id)
+  );
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Adds a person to the conversation and clears the search
+   */
+  const handleAdd = useCallback((person: UserSummary) => {
+    setSelected((prev) =>
+      prev.some((s) => s.id === person.id) ? prev : [...prev, person]
+    );
+    setQuery("");
+    setError(null);
+  }, []);
+
+  const handleRemove = useCallback((userId: string) => {
+    setSelected((prev) => prev.filter((s) => s.id !== userId));
+  }, []);
+
+  /**
+   * Opens the conversation with everyone chosen
+   */
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (selected.length === 0) return;
+      setIsStarting(true);
+      setError(null);
+      try {
+        await onStart(selected.map((s) => s.id));
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to start conversation"
+        );
+      } finally {
+        setIsStarting(false);
+      }
+    },
+    [selected, onStart]
+  );
+
+  return (
+    <div className="p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="space-y-4"
+        aria-busy={isStarting}
+      >
+        <Button
+          type="button"
+          variant="text"
+          size="sm"
+          onClick={onCancel}
+          className="flex items-center gap-2 !p-0"
+        >
+          <BackArrowIcon className="flex-shrink-0" />
+          Space List
+        </Button>
+        <div>
+          <FormLabel htmlFor="directMessagePeople">New message to</FormLabel>
+          {selected.length > 0 && (
+            <ul className="flex flex-wrap gap-1 mb-2">
+              {selected.map((person) => (
+                <li
+                  key={person.id}
+                  className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-indigo-50 text-xs text-indigo-700"
+                >
+                  {person.name || person.username}
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(person.id)}
+                    className="p-0.5 rounded-full hover:bg-indigo-100"
+                    aria-label={`Remove ${person.name || person.username}`}
+                  >
+                    <CloseIcon className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Input
+            id="directMessagePeople"
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={
+              isFull ? "Conversation is full" : "Search by name or username"
+            }
+            maxLength={DIRECT_MESSAGES.MAX_QUERY_LENGTH}
+            disabled={isFull}
+            autoFocus
+            className="w-full"
+          />
+        </div>
+        {query.trim() && !isFull && (
+          <ul className="max-h-64 overflow-y-auto">
+            {choices.map((person) => (
+              <li key={person.id}>
+                <button
+                  type="button"
+                  onClick={() => handleAdd(person)}
+                  className="w-full flex items-center gap-3 px-2 py-2 text-left rounded hover:bg-gray-50"
+                >
+                  <Avatar
+                    size="sm"
+                    src={
+                      person.avatar && person.avatar.length > 0
+                        ? person.avatar
+                        : undefined
+                    }
+                  >
+                    {(!person.avatar || person.avatar.length === 0) &&
+                      (person.name || person.username).charAt(0).toUpperCase()}
+                  </Avatar>
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-900 truncate">
+                      {person.name || person.username}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      @{person.username}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+            {choices.length === 0 && (
+              <li className="px-2 py-1 text-xs text-gray-500">
+                No matching people
+              </li>
+            )}
+          </ul>
+        )}
+        <ErrorMessage message={error ?? undefined} />
+        <Button
+          type="submit"
+          variant="send"
+          size="md"
+          className="w-full rounded-full"
+          disabled={selected.length === 0 || isStarting}
+        >
+          {isStarting
+            ? "Opening..."
+            : selected.length > 1
+            ? "Start group message"
+            : "Start message"}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export const NewDirectMessageForm = memo(NewDirectMessageFormComponent);
@@ -9,6 +9,7 @@
  * - File handling with proper cleanup
  * - Server action integration for space creation
  * - Form state management with useActionState
+ * - Link to importing spaces from Slack or Discord instead
  */
 
 import React, { useEffect, useState, useTransition } from "react";
@@ -29,6 +30,7 @@ import type { SpaceWithNotes } from "@/types";
 interface SpaceFormProps {
   onCancel?: () => void;
   onCreated?: (space: SpaceWithNotes) => void;
+  onImport?: () => void;
 }
 
 /**
@@ -39,10 +41,12 @@ interface SpaceFormProps {
  *
  * @param onCancel - Callback when form is cancelled
  * @param onCreated - Callback when space is successfully created
+ * @param onImport - Opens the Slack and Discord importer
  */
 export const SpaceForm: React.FC<SpaceFormProps> = ({
   onCancel,
   onCreated,
+  onImport,
 }) => {
   const [spaceName, setSpaceName] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -211,6 +215,15 @@ export const SpaceForm: React.FC<SpaceFormProps> = ({
           >
             {isPending ? "Creating..." : "Create Space"}
           </Button>
+          {onImport && (
+            <button
+              type="button"
+              onClick={onImport}
+              className="block mx-auto mt-3 text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Import from Slack or Discord
+            </button>
+          )}
         </div>
       </form>
     </div>
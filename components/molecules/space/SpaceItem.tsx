@@ -5,8 +5,9 @@
  *
  * Individual space item component with:
  * - Space avatar with fallback to first letter
- * - Space name and last message display
+ * - Space name and last message display (Markdown shown as plain text)
  * - Active state highlighting
+ * - Unread and mention count badges
  * - Click and keyboard interaction
  * - Accessibility support with ARIA roles
  * - Performance optimization with memoization
@@ -14,6 +15,8 @@
 
 import React, { memo, useCallback } from "react";
 import { Avatar } from "../../atoms/Avatar";
+import { formatBadgeCount } from "@/utils/formatters";
+import { markdownToPlainText } from "@/utils/markdown";
 
 /**
  * Props interface for SpaceItem component
@@ -23,6 +26,8 @@ interface SpaceItemProps {
   icon?: string;
   lastMessage?: string;
   lastMessageSender?: string;
+  unreadCount?: number;
+  mentionCount?: number;
   isActive?: boolean;
   className?: string;
   onClick?: () => void;
@@ -38,6 +43,8 @@ interface SpaceItemProps {
  * @param icon - Optional icon URL for the space
  * @param lastMessage - Last message content
  * @param lastMessageSender - Sender of the last message
+ * @param unreadCount - Number of unread messages
+ * @param mentionCount - Number of unread messages mentioning the user
  * @param isActive - Whether this space is currently active
  * @param className - Additional CSS classes
  * @param onClick - Click handler for space selection
@@ -47,6 +54,8 @@ const SpaceItemComponent: React.FC<SpaceItemProps> = ({
   icon,
   lastMessage,
   lastMessageSender,
+  unreadCount = 0,
+  mentionCount = 0,
   isActive = false,
   className = "",
   onClick,
@@ -80,13 +89,43 @@ const SpaceItemComponent: React.FC<SpaceItemProps> = ({
       </Avatar>
       <div className="flex-1 min-w-0">
         <div className="flex items-center justify-between">
-          <h3 className="text-sm font-medium text-gray-900 truncate">{name}</h3>
+          <h3
+            className={`text-sm text-gray-900 truncate ${
+              unreadCount > 0 ? "font-semibold" : "font-medium"
+            }`}
+          >
+            {name}
+          </h3>
+          {(mentionCount > 0 || unreadCount > 0) && (
+            <div className="flex items-center gap-1 ml-2 flex-shrink-0">
+              {mentionCount > 0 && (
+                <span
+                  className="min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-[10px] font-semibold text-center"
+                  title={`${mentionCount} unread mentions`}
+                >
+                  @{formatBadgeCount(mentionCount)}
+                </span>
+              )}
+              {unreadCount > 0 && (
+                <span
+                  className="min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-indigo-600 text-white text-[10px] font-semibold text-center"
+                  title={`${unreadCount} unread messages`}
+                >
+                  {formatBadgeCount(unreadCount)}
+                </span>
+              )}
+            </div>
+          )}
         </div>
         {lastMessage && (
-          <p className="text-xs text-gray-500 truncate mt-1">
+          <p
+            className={`text-xs truncate mt-1 ${
+              unreadCount > 0 ? "text-gray-800" : "text-gray-500"
+            }`}
+          >
             {lastMessageSender
-              ? `${lastMessageSender}: ${lastMessage}`
-              : lastMessage}
+              ? `${lastMessageSender}: ${markdownToPlainText(lastMessage)}`
+              : markdownToPlainText(lastMessage)}
           </p>
         )}
       </div>
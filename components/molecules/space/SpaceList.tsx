@@ -4,14 +4,15 @@
  * SpaceList Component
  *
  * Renders a list of spaces with:
- * - Individual space items with avatars and last messages
+ * - Individual space items with avatars, last messages, and unread badges
+ * - Separate sections for spaces and direct messages
  * - Active state highlighting
  * - Click handling for space selection
  * - Performance optimization with memoization
  * - Keyboard accessibility support
  */
 
-import React, { memo, useCallback } from "react";
+import React, { memo, useCallback, useMemo } from "react";
 import { SpaceItem } from "./SpaceItem";
 import type { Space } from "@/types";
 
@@ -45,19 +46,50 @@ const SpaceListComponent: React.FC<SpaceListProps> = ({
     },
     [onSelectSpace]
   );
+
+  /**
+   * Spaces and direct messages, each keeping the incoming order
+   */
+  const sections = useMemo(
+    () => [
+      { title: "Spaces", items: spaces.filter((s) => !s.isDirect) },
+      { title: "Direct messages", items: spaces.filter((s) => s.isDirect) },
+    ],
+    [spaces]
+  );
+
+  const renderItems = (items: Space[]) =>
+    items.map((space, index) => (
+      <SpaceItem
+        key={`${space.id}-${index}`}
+        name={space.name}
+        icon={space.icon}
+        lastMessage={space.lastMessage}
+        lastMessageSender={space.lastMessageSender}
+        unreadCount={space.unreadCount}
+        mentionCount={space.mentionCount}
+        isActive={activeSpaceId === space.id}
+        onClick={() => handleSelect(space.id)}
+      />
+    ));
+
+  if (sections[1].items.length === 0) {
+    return <>{renderItems(spaces)}</>;
+  }
+
   return (
     <>
-      {spaces.map((space, index) => (
-        <SpaceItem
-          key={`${space.id}-${index}`}
-          name={space.name}
-          icon={space.icon}
-          lastMessage={space.lastMessage}
-          lastMessageSender={space.lastMessageSender}
-          isActive={activeSpaceId === space.id}
-          onClick={() => handleSelect(space.id)}
-        />
-      ))}
+      {sections.map(
+        (section) =>
+          section.items.length > 0 && (
+            <section key={section.title} aria-label={section.title}>
+              <h2 className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {section.title}
+              </h2>
+              {renderItems(section.items)}
+            </section>
+          )
+      )}
     </>
   );
 };
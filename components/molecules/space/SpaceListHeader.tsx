@@ -4,20 +4,22 @@
  * Header component for the space list with:
  * - Application branding (Binder logo/title)
  * - Create space button with icon
+ * - New direct message button
  * - Consistent styling and layout
- * - Optional create space functionality
+ * - Optional create space and direct message functionality
  */
 
 import React from "react";
 import { Heading } from "../../atoms/Heading";
 import { Button } from "../../atoms/Button";
-import { PlusIcon } from "../../atoms/Icons";
+import { ChatIcon, PlusIcon } from "../../atoms/Icons";
 
 /**
  * Props interface for SpaceListHeader component
  */
 interface SpaceListHeaderProps {
   onCreateSpace?: () => void;
+  onNewDirectMessage?: () => void;
   className?: string;
 }
 
@@ -27,10 +29,12 @@ interface SpaceListHeaderProps {
  * Renders the header for the space list with branding and create button.
  *
  * @param onCreateSpace - Optional callback for creating a new space
+ * @param onNewDirectMessage - Optional callback for starting a direct message
  * @param className - Additional CSS classes for styling
  */
 export const SpaceListHeader: React.FC<SpaceListHeaderProps> = ({
   onCreateSpace,
+  onNewDirectMessage,
   className = "",
 }) => {
   return (
@@ -38,17 +42,30 @@ export const SpaceListHeader: React.FC<SpaceListHeaderProps> = ({
       <Heading level={3} className="text-[#4D46E4]">
         Binder
       </Heading>
-      {onCreateSpace && (
-        <Button
-          variant="icon"
-          size="sm"
-          onClick={onCreateSpace}
-          className="text-[#4F45E4] hover:text-[#4339D1]"
-          title="Create a space"
-        >
-          <PlusIcon size={20} />
-        </Button>
-      )}
+      <div className="flex items-center gap-1">
+        {onNewDirectMessage && (
+          <Button
+            variant="icon"
+            size="sm"
+            onClick={onNewDirectMessage}
+            className="text-[#4F45E4] hover:text-[#4339D1]"
+            title="New direct message"
+          >
+            <ChatIcon />
+          </Button>
+        )}
+        {onCreateSpace && (
+          <Button
+            variant="icon"
+            size="sm"
+            onClick={onCreateSpace}
+            className="text-[#4F45E4] hover:text-[#4339D1]"
+            title="Create a space"
+          >
+            <PlusIcon size={20} />
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
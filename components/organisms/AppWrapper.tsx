@@ -1,22 +1,47 @@
 "use client";
 
-import React, { useEffect, useMemo, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useCallback,
+} from "react";
 import { SpaceManager, ChatArea } from "@/components";
 import { useProfileStore } from "@/stores/profileStore";
 import {
-  createActivityMessage,
-  createGenericActivityMessage,
+  applyThreadSummary,
+  updateThreadMessage,
+  updatePinnedMessage,
+  isMentioned,
+  getMessagePreview,
 } from "@/utils/messageUtils";
+import { describeDirectMessage } from "@/utils/directMessages";
 import type {
   User,
+  Message,
+  MessageReference,
+  MessageThread,
+  ReactionSummary,
+  ThreadSummary,
   SpaceWithNotes,
   Note,
   NoteBlock,
+  MessageSearchResult,
+  PinnedMessage,
+  Poll,
+  PollInput,
+  SavedItem,
   Space,
   SpaceMember,
 } from "@/types";
 import type { AppActions, NoteBlockPayload } from "@/types/app";
 import { pusherClient } from "@/lib/pusher-client";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { useMessageOutbox } from "@/hooks/useMessageOutbox";
+import { useScheduledMessages } from "@/hooks/useScheduledMessages";
+import { useSlashCommands } from "@/hooks/useSlashCommands";
+import { useSavedItems } from "@/hooks/useSavedItems";
 
 /**
  * AppWrapper Component - Main Application State Manager
@@ -63,6 +88,207 @@ export const AppWrapper: React.FC<{
     Record<string, { title: string; blocks: NoteBlock[] } | undefined>
   >({});
 
+  /**
+   * ID of the message whose thread is open in the side panel
+   */
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  /**
+   * Thread shown in the side panel - null while it is loading
+   * Updated in real-time through Pusher events
+   */
+  const [activeThread, setActiveThread] = useState<MessageThread | null>(null);
+
+  /**
+   * Latest requested thread ID, used to drop responses for threads
+   * that were closed or replaced before they finished loading
+   */
+  const threadRequestRef = useRef<string | null>(null);
+
+  /**
+   * Message in the active space to scroll to, set by a search result
+   */
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+
+  /**
+   * Note in the active space to show in the notes panel, set by a saved item
+   */
+  const [jumpToNoteId, setJumpToNoteId] = useState<string | null>(null);
+
+  /**
+   * Members typing in the active space and a throttled typing notifier
+   */
+  const { typingNames, notifyTyping } = useTypingIndicator(
+    activeSpaceId,
+    user.username,
+    actions.sendTypingSignal
+  );
+
+  /**
+   * Current user's scheduled messages in the active space
+   */
+  const { scheduledMessages, scheduleMessage, cancelScheduledMessage } =
+    useScheduledMessages(activeSpaceId, user.id, actions);
+
+  /**
+   * Registered slash commands and their replies in the active space
+   */
+  const { commands, commandReplies, runCommand, dismissCommandReply } =
+    useSlashCommands(
+      activeSpaceId,
+      activeSpaceId ? activeNoteIdBySpace[activeSpaceId] : undefined,
+      actions
+    );
+
+  /**
+   * Current user's saved messages and note blocks
+   */
+  const {
+    savedItems,
+    savedMessageIds,
+    savedBlockIndexes,
+    loadSavedItems,
+    toggleSaveMessage,
+    toggleSaveBlock,
+    updateSavedItem,
+    unsaveItem,
+  } = useSavedItems(
+    activeSpaceId ? activeNoteIdBySpace[activeSpaceId] : undefined,
+    actions
+  );
+
+  /**
+   * Replaces a message's reactions wherever it is shown
+   * @param messageId - The ID of the reacted message
+   * @param reactions - Aggregated reactions for the message
+   */
+  const applyReactions = useCallback(
+    (messageId: string, reactions: ReactionSummary[]) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.messages.some((m) => m.id === messageId)
+            ? {
+                ...s,
+                messages: s.messages.map((m) =>
+                  m.id === messageId ? { ...m, reactions } : m
+                ),
+              }
+            : s
+        )
+      );
+      setActiveThread((prev) =>
+        prev ? updateThreadMessage(prev, messageId, { reactions }) : prev
+      );
+    },
+    []
+  );
+
+  /**
+   * Replaces a poll's tallies wherever it is shown
+   * Keeps the current user's known choices when the update carries none,
+   * as broadcasts are shared by all members
+   * @param messageId - The ID of the poll message
+   * @param poll - Updated poll
+   */
+  const applyPoll = useCallback((messageId: string, poll: Poll) => {
+    setSpaces((prev) =>
+      prev.map((s) =>
+        s.messages.some((m) => m.id === messageId)
+          ? {
+              ...s,
+              messages: s.messages.map((m) =>
+                m.id === messageId
+                  ? {
+                      ...m,
+                      poll: {
+                        ...poll,
+                        myVotes: poll.myVotes ?? m.poll?.myVotes,
+                      },
+                    }
+                  : m
+              ),
+            }
+          : s
+      )
+    );
+  }, []);
+
+  /**
+   * Replaces a space's member list, retitling direct messages to match
+   * @param space - Space whose members changed
+   * @param members - Current members
+   * @returns Updated space
+   */
+  const withMembers = useCallback(
+    (space: SpaceWithNotes, members: SpaceMember[]): SpaceWithNotes =>
+      space.isDirect
+        ? { ...space, members, ...describeDirectMessage(members, user.id) }
+        : { ...space, members },
+    [user.id]
+  );
+
+  /**
+   * Merges a server-updated message into every list that shows it
+   * @param updated - Message returned by a server action
+   */
+  const applyMessageUpdate = useCallback((updated: Message) => {
+    setSpaces((prev) =>
+      prev.map((s) => ({
+        ...s,
+        messages: s.messages.map((m) =>
+          m.id === updated.id ? { ...m, ...updated } : m
+        ),
+        pinnedMessages: updatePinnedMessage(
+          s.pinnedMessages,
+          updated.id,
+          updated
+        ),
+      }))
+    );
+    setActiveThread((prev) =>
+      prev ? updateThreadMessage(prev, updated.id, updated) : prev
+    );
+  }, []);
+
+  /**
+   * Appends a stored message to a space unless it is already listed
+   * and refreshes the space's last-message preview
+   * @param spaceId - The ID of the message's space
+   * @param message - Message returned by the server or broadcast by Pusher
+   */
+  const addMessageToSpace = useCallback((spaceId: string, message: Message) => {
+    setSpaces((prev) =>
+      prev.map((s) => {
+        if (s.id !== spaceId) return s;
+        const isActivity = message.type === "activity";
+        return {
+          ...s,
+          messages: s.messages.some((m) => m.id === message.id)
+            ? s.messages
+            : [...s.messages, message],
+          lastMessage: isActivity ? s.lastMessage : getMessagePreview(message),
+          lastMessageSender: isActivity
+            ? s.lastMessageSender
+            : message.senderName,
+          lastMessageTimestamp: isActivity
+            ? s.lastMessageTimestamp
+            : message.timestamp,
+        };
+      })
+    );
+  }, []);
+
+  /**
+   * Messages the current user has sent that the server has not stored yet
+   */
+  const {
+    outbox,
+    enqueue: enqueueMessage,
+    retry: retryMessage,
+    discard: discardMessage,
+    reconcile: reconcileMessage,
+  } = useMessageOutbox(user.id, actions.sendMessage, addMessageToSpace);
+
   /**
    * Initializes user profile in the global store
    * Sets user information from props into the Zustand profile store
@@ -91,7 +317,7 @@ export const AppWrapper: React.FC<{
 
   /**
    * Listens for custom space-updated events from other components
-   * Updates space information and adds activity messages when space is modified
+   * Updates space information when space is modified
    */
   useEffect(() => {
     const handler = (e: Event) => {
@@ -101,7 +327,12 @@ export const AppWrapper: React.FC<{
             name?: string;
             description?: string;
             icon?: string;
-            activityContent?: string;
+            readReceiptsEnabled?: boolean;
+            readPointers?: Record<string, string>;
+            membersCanMentionEveryone?: boolean;
+            attachmentMaxBytes?: number;
+            retentionDays?: number | null;
+            legalHold?: boolean;
           }
         | undefined;
       if (!detail) return;
@@ -113,12 +344,19 @@ export const AppWrapper: React.FC<{
                 name: detail.name ?? s.name,
                 description: detail.description ?? s.description,
                 icon: detail.icon ?? s.icon,
-                messages: detail.activityContent
-                  ? [
-                      ...s.messages,
-                      createGenericActivityMessage(detail.activityContent),
-                    ]
-                  : s.messages,
+                readReceiptsEnabled:
+                  detail.readReceiptsEnabled ?? s.readReceiptsEnabled,
+                readPointers: detail.readPointers ?? s.readPointers,
+                membersCanMentionEveryone:
+                  detail.membersCanMentionEveryone ??
+                  s.membersCanMentionEveryone,
+                attachmentMaxBytes:
+                  detail.attachmentMaxBytes ?? s.attachmentMaxBytes,
+                retentionDays:
+                  detail.retentionDays !== undefined
+                    ? detail.retentionDays
+                    : s.retentionDays,
+                legalHold: detail.legalHold ?? s.legalHold,
               }
             : s
         )
@@ -157,8 +395,10 @@ export const AppWrapper: React.FC<{
   }, []);
 
   /**
-   * Sets up global Pusher channel for space-level events
-   * Handles space creation and deletion events across the application
+   * Sets up the global and personal Pusher channels for space-level events
+   * Handles space creation and deletion events across the application;
+   * direct messages and imported spaces are only sent to the user's own
+   * channel
    */
   useEffect(() => {
     if (!pusherClient) {
@@ -167,10 +407,12 @@ export const AppWrapper: React.FC<{
     }
 
     const globalChannel = pusherClient.subscribe("global");
+    const userChannel = pusherClient.subscribe(`user-${user.id}`);
 
     /**
-     * Handles space creation events from global channel
-     * Adds new spaces to the spaces list only if the current user is a member
+     * Handles space creation events from the global and personal channels
+     * Adds new spaces to the spaces list only if the current user is a member,
+     * titling direct messages from the current user's point of view
      * @param data - Object containing the new space data
      */
     const onSpaceCreated = (data: { space: SpaceWithNotes }) => {
@@ -184,7 +426,13 @@ export const AppWrapper: React.FC<{
 
         if (!isUserMember) return prev;
 
-        return [data.space, ...prev];
+        const space = data.space.isDirect
+          ? {
+              ...data.space,
+              ...describeDirectMessage(data.space.members ?? [], user.id),
+            }
+          : data.space;
+        return [space, ...prev];
       });
     };
 
@@ -202,11 +450,14 @@ export const AppWrapper: React.FC<{
 
     globalChannel.bind("space:created", onSpaceCreated);
     globalChannel.bind("space:deleted", onSpaceDeleted);
+    userChannel.bind("space:created", onSpaceCreated);
 
     return () => {
       globalChannel.unbind("space:created", onSpaceCreated);
       globalChannel.unbind("space:deleted", onSpaceDeleted);
+      userChannel.unbind("space:created", onSpaceCreated);
       pusherClient?.unsubscribe("global");
+      pusherClient?.unsubscribe(`user-${user.id}`);
     };
   }, [activeSpaceId, user.id]);
 
@@ -220,14 +471,22 @@ export const AppWrapper: React.FC<{
 
         const handleGlobalMessage = (message: import("@/types").Message) => {
           if (message.type !== "activity") {
+            const isOwn = message.username === user.username;
+            const isMention = !isOwn && isMentioned(message, user.id);
             setSpaces((prev) =>
               prev.map((s) =>
                 s.id === space.id
                   ? {
                       ...s,
-                      lastMessage: message.content,
+                      lastMessage: getMessagePreview(message),
                       lastMessageSender: message.senderName,
                       lastMessageTimestamp: message.timestamp,
+                      unreadCount: isOwn
+                        ? s.unreadCount
+                        : (s.unreadCount ?? 0) + 1,
+                      mentionCount: isMention
+                        ? (s.mentionCount ?? 0) + 1
+                        : s.mentionCount,
                     }
                   : s
               )
@@ -246,43 +505,44 @@ export const AppWrapper: React.FC<{
     return () => {
       subscriptions.forEach((cleanup) => cleanup());
     };
-  }, [spaces, activeSpaceId]);
+  }, [spaces, activeSpaceId, user.id, user.username]);
 
   useEffect(() => {
     if (!activeSpaceId || !pusherClient) return;
 
     const channel = pusherClient.subscribe(`space-${activeSpaceId}`);
 
+    /**
+     * Applies a thread summary to the parent message in the active space
+     * and to the open thread's parent
+     * @param summary - Latest reply count and repliers for the thread
+     */
+    const applySummary = (summary: ThreadSummary) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? { ...s, messages: applyThreadSummary(s.messages, summary) }
+            : s
+        )
+      );
+      setActiveThread((prev) =>
+        prev
+          ? {
+              ...prev,
+              parent: applyThreadSummary([prev.parent], summary)[0],
+            }
+          : prev
+      );
+    };
+
     /**
      * Handles new message events from Pusher
      * Adds new messages to the active space's message list and updates lastMessage
      * @param message - The new message received
      */
     const onNewMessage = (message: import("@/types").Message) => {
-      setSpaces((prev) =>
-        prev.map((s) => {
-          if (s.id === activeSpaceId) {
-            return {
-              ...s,
-              messages: s.messages.find((m) => m.id === message.id)
-                ? s.messages
-                : [...s.messages, message],
-              // Update lastMessage for the active space
-              lastMessage:
-                message.type !== "activity" ? message.content : s.lastMessage,
-              lastMessageSender:
-                message.type !== "activity"
-                  ? message.senderName
-                  : s.lastMessageSender,
-              lastMessageTimestamp:
-                message.type !== "activity"
-                  ? message.timestamp
-                  : s.lastMessageTimestamp,
-            };
-          }
-          return s;
-        })
-      );
+      if (message.clientId) reconcileMessage(message.clientId);
+      addMessageToSpace(activeSpaceId, message);
     };
 
     /**
@@ -305,6 +565,284 @@ export const AppWrapper: React.FC<{
       );
     };
 
+    /**
+     * Handles message edit events from Pusher
+     * Replaces the edited message in the active space's message list
+     * @param message - The updated message
+     */
+    const onMessageUpdated = (message: import("@/types").Message) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                messages: s.messages.map((m) =>
+                  m.id === message.id ? { ...m, ...message } : m
+                ),
+                pinnedMessages: updatePinnedMessage(
+                  s.pinnedMessages,
+                  message.id,
+                  message
+                ),
+              }
+            : s
+        )
+      );
+      setActiveThread((prev) =>
+        prev ? updateThreadMessage(prev, message.id, message) : prev
+      );
+    };
+
+    /**
+     * Handles pin events from Pusher
+     * Adds the message to the top of the active space's pinned list
+     * @param data - Object containing the space ID and the pinned message
+     */
+    const onMessagePinned = (data: { spaceId: string; pin: PinnedMessage }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === data.spaceId
+            ? {
+                ...s,
+                pinnedMessages: [
+                  data.pin,
+                  ...(s.pinnedMessages ?? []).filter(
+                    (p) => p.message.id !== data.pin.message.id
+                  ),
+                ],
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles unpin events from Pusher
+     * Removes the message from the active space's pinned list
+     * @param data - Object containing the space ID and the unpinned message ID
+     */
+    const onMessageUnpinned = (data: {
+      spaceId: string;
+      messageId: string;
+    }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === data.spaceId
+            ? {
+                ...s,
+                pinnedMessages: s.pinnedMessages?.filter(
+                  (p) => p.message.id !== data.messageId
+                ),
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles message deletion events from Pusher
+     * Turns the deleted message into a tombstone in the active space
+     * @param data - Object containing the space ID and message ID
+     */
+    const onMessageDeleted = (data: { spaceId: string; id: string }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                messages: s.messages.map((m) =>
+                  m.id === data.id ? { ...m, content: "", isDeleted: true } : m
+                ),
+              }
+            : s
+        )
+      );
+      setActiveThread((prev) =>
+        prev
+          ? updateThreadMessage(prev, data.id, { content: "", isDeleted: true })
+          : prev
+      );
+    };
+
+    /**
+     * Handles retention purges from Pusher
+     * Drops the purged messages and pins from the space and closes the
+     * thread panel if its parent was purged
+     * @param data - Object containing the space ID and purged message IDs
+     */
+    const onMessagesPurged = (data: {
+      spaceId: string;
+      messageIds: string[];
+    }) => {
+      const purged = new Set(data.messageIds);
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === data.spaceId
+            ? {
+                ...s,
+                messages: s.messages.filter((m) => !purged.has(m.id)),
+                pinnedMessages: s.pinnedMessages?.filter(
+                  (p) => !purged.has(p.message.id)
+                ),
+              }
+            : s
+        )
+      );
+      if (threadRequestRef.current && purged.has(threadRequestRef.current)) {
+        threadRequestRef.current = null;
+      }
+      setActiveThreadId((prev) => (prev && purged.has(prev) ? null : prev));
+      setActiveThread((prev) =>
+        prev && purged.has(prev.parent.id) ? null : prev
+      );
+    };
+
+    /**
+     * Handles reaction changes from Pusher
+     * Replaces the message's reactions in the active space and open thread
+     * @param data - Object containing the message ID and aggregated reactions
+     */
+    const onReactionUpdated = (data: {
+      messageId: string;
+      reactions: ReactionSummary[];
+    }) => {
+      applyReactions(data.messageId, data.reactions);
+    };
+
+    /**
+     * Handles poll vote and close events from Pusher
+     * @param data - Object containing the message ID and current tallies
+     */
+    const onPollUpdated = (data: { messageId: string; poll: Poll }) => {
+      applyPoll(data.messageId, data.poll);
+    };
+
+    /**
+     * Handles read receipt events from Pusher
+     * Moves the member's read pointer in the active space
+     * @param data - Object containing the reader's user ID and last-read message ID
+     */
+    const onMessageRead = (data: {
+      userId: string;
+      lastReadMessageId: string;
+    }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                readPointers: {
+                  ...s.readPointers,
+                  [data.userId]: data.lastReadMessageId,
+                },
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles read receipt setting changes from Pusher
+     * @param data - Object containing the new setting and current read positions
+     */
+    const onReadReceiptsUpdated = (data: {
+      readReceiptsEnabled: boolean;
+      readPointers: Record<string, string>;
+    }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                readReceiptsEnabled: data.readReceiptsEnabled,
+                readPointers: data.readPointers,
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles @here/@all permission changes from Pusher
+     * @param data - Object containing the new setting
+     */
+    const onMentionsUpdated = (data: {
+      membersCanMentionEveryone: boolean;
+    }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                membersCanMentionEveryone: data.membersCanMentionEveryone,
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles attachment size limit changes from Pusher
+     * @param data - Object containing the new limit
+     */
+    const onAttachmentsUpdated = (data: { attachmentMaxBytes: number }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? { ...s, attachmentMaxBytes: data.attachmentMaxBytes }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles retention window and legal hold changes from Pusher
+     * @param data - Object containing the retention window and legal hold state
+     */
+    const onRetentionUpdated = (data: {
+      retentionDays: number | null;
+      legalHold: boolean;
+    }) => {
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === activeSpaceId
+            ? {
+                ...s,
+                retentionDays: data.retentionDays,
+                legalHold: data.legalHold,
+              }
+            : s
+        )
+      );
+    };
+
+    /**
+     * Handles thread reply events from Pusher
+     * Updates the parent's reply summary and appends the reply to the open thread
+     * @param data - Object containing the new reply and the thread summary
+     */
+    const onThreadReply = (data: {
+      reply: Message;
+      summary: ThreadSummary;
+    }) => {
+      applySummary(data.summary);
+      setActiveThread((prev) =>
+        prev &&
+        prev.parent.id === data.summary.parentId &&
+        !prev.replies.some((m) => m.id === data.reply.id)
+          ? { ...prev, replies: [...prev.replies, data.reply] }
+          : prev
+      );
+    };
+
+    /**
+     * Handles thread summary changes from Pusher (e.g. a deleted reply)
+     * @param data - Object containing the thread summary
+     */
+    const onThreadUpdated = (data: { summary: ThreadSummary }) => {
+      applySummary(data.summary);
+    };
+
     /**
      * Handles note creation events from Pusher
      * Adds new notes to the active space's note list
@@ -397,10 +935,7 @@ export const AppWrapper: React.FC<{
       setSpaces((prev) =>
         prev.map((s) =>
           s.id === activeSpaceId
-            ? {
-                ...s,
-                members: [...(s.members || []), data.member],
-              }
+            ? withMembers(s, [...(s.members || []), data.member])
             : s
         )
       );
@@ -419,12 +954,10 @@ export const AppWrapper: React.FC<{
       setSpaces((prev) =>
         prev.map((s) =>
           s.id === activeSpaceId
-            ? {
-                ...s,
-                members: (s.members || []).filter(
-                  (m) => m.userId !== data.userId
-                ),
-              }
+            ? withMembers(
+                s,
+                (s.members || []).filter((m) => m.userId !== data.userId)
+              )
             : s
         )
       );
@@ -502,6 +1035,20 @@ export const AppWrapper: React.FC<{
 
     channel.bind("message:new", onNewMessage);
     channel.bind("activity:new", onNewActivity);
+    channel.bind("message:updated", onMessageUpdated);
+    channel.bind("message:deleted", onMessageDeleted);
+    channel.bind("messages:purged", onMessagesPurged);
+    channel.bind("message:pinned", onMessagePinned);
+    channel.bind("message:unpinned", onMessageUnpinned);
+    channel.bind("thread:reply", onThreadReply);
+    channel.bind("reaction:updated", onReactionUpdated);
+    channel.bind("poll:updated", onPollUpdated);
+    channel.bind("message:read", onMessageRead);
+    channel.bind("space:read-receipts-updated", onReadReceiptsUpdated);
+    channel.bind("space:mentions-updated", onMentionsUpdated);
+    channel.bind("space:attachments-updated", onAttachmentsUpdated);
+    channel.bind("space:retention-updated", onRetentionUpdated);
+    channel.bind("thread:updated", onThreadUpdated);
     channel.bind("note:created", onNoteCreated);
     channel.bind("note:updated", onNoteUpdated);
     channel.bind("note:deleted", onNoteDeleted);
@@ -515,6 +1062,20 @@ export const AppWrapper: React.FC<{
     return () => {
       channel.unbind("message:new", onNewMessage);
       channel.unbind("activity:new", onNewActivity);
+      channel.unbind("message:updated", onMessageUpdated);
+      channel.unbind("message:deleted", onMessageDeleted);
+      channel.unbind("messages:purged", onMessagesPurged);
+      channel.unbind("message:pinned", onMessagePinned);
+      channel.unbind("message:unpinned", onMessageUnpinned);
+      channel.unbind("thread:reply", onThreadReply);
+      channel.unbind("reaction:updated", onReactionUpdated);
+      channel.unbind("poll:updated", onPollUpdated);
+      channel.unbind("message:read", onMessageRead);
+      channel.unbind("space:read-receipts-updated", onReadReceiptsUpdated);
+      channel.unbind("space:mentions-updated", onMentionsUpdated);
+      channel.unbind("space:attachments-updated", onAttachmentsUpdated);
+      channel.unbind("space:retention-updated", onRetentionUpdated);
+      channel.unbind("thread:updated", onThreadUpdated);
       channel.unbind("note:created", onNoteCreated);
       channel.unbind("note:updated", onNoteUpdated);
       channel.unbind("note:deleted", onNoteDeleted);
@@ -526,7 +1087,14 @@ export const AppWrapper: React.FC<{
       channel.unbind("member:removed", onMemberRemoved);
       pusherClient?.unsubscribe(`space-${activeSpaceId}`);
     };
-  }, [activeSpaceId]);
+  }, [
+    activeSpaceId,
+    applyReactions,
+    applyPoll,
+    addMessageToSpace,
+    reconcileMessage,
+    withMembers,
+  ]);
 
   /**
    * Spaces sorted by most recent activity (last message or creation time)
@@ -573,7 +1141,8 @@ export const AppWrapper: React.FC<{
         .find((m) => m.type !== "activity");
       return {
         ...space,
-        lastMessage: space.lastMessage ?? derivedLast?.content,
+        lastMessage:
+          space.lastMessage ?? (derivedLast && getMessagePreview(derivedLast)),
         lastMessageSender: space.lastMessageSender ?? derivedLast?.senderName,
       };
     });
@@ -597,13 +1166,345 @@ export const AppWrapper: React.FC<{
 
   /**
    * Handles sending a new message to the active space
+   * The message shows up as pending right away and stays in the outbox
+   * until the server stores it
    * @param content - The message content to send
+   * @param quote - Message being quoted, if any
    */
-  const handleSendMessage = async (content: string) => {
+  const handleSendMessage = (content: string, quote?: MessageReference) => {
     if (!activeSpaceId) return;
-    await actions.sendMessage(activeSpaceId, content);
+    enqueueMessage(activeSpaceId, content, quote);
   };
 
+  /**
+   * Active space's messages with slash command replies placed by time,
+   * followed by its unsent messages
+   */
+  const activeMessages = useMemo<Message[]>(() => {
+    if (!activeSpace) return [];
+    const unsent = outbox.filter((e) => e.spaceId === activeSpace.id);
+    const messages =
+      commandReplies.length === 0
+        ? activeSpace.messages
+        : [...activeSpace.messages, ...commandReplies].sort((a, b) =>
+            a.timestamp.localeCompare(b.timestamp)
+          );
+    if (unsent.length === 0) return messages;
+    return [
+      ...messages,
+      ...unsent.map((e) => ({
+        id: e.clientId,
+        clientId: e.clientId,
+        content: e.content,
+        timestamp: e.createdAt,
+        isSent: true,
+        senderName: user.name,
+        username: user.username,
+        type: "text" as const,
+        status: e.status,
+        quote: e.quote,
+      })),
+    ];
+  }, [activeSpace, commandReplies, outbox, user.name, user.username]);
+
+  /**
+   * Runs a slash command in the active space
+   * Opens the note the command created or changed, and drops the space
+   * from the list when the command left it
+   * @param input - Command text, e.g. `/note Sprint goals`
+   * @returns Command result, or undefined if the command failed
+   */
+  const handleRunCommand = async (input: string) => {
+    if (!activeSpaceId || !runCommand) return undefined;
+    const currId = activeSpaceId;
+    const result = await runCommand(input);
+    if (result?.openNoteId) setActiveNoteForSpace(currId, result.openNoteId);
+    if (result?.leftSpace) {
+      setSpaces((prev) => prev.filter((s) => s.id !== currId));
+      setActiveSpaceId((prev) => (prev === currId ? null : prev));
+    }
+    return result;
+  };
+
+  /**
+   * Handles sending files, with an optional caption, to the active space
+   * The message arrives through Pusher like any other new message
+   * @param content - Caption for the files, may be empty
+   * @param files - Files to upload
+   * @param quote - Message being quoted, if any
+   */
+  const handleSendAttachments = async (
+    content: string,
+    files: File[],
+    quote?: MessageReference
+  ) => {
+    if (!activeSpaceId || !actions.sendMessageWithAttachments) return;
+    const formData = new FormData();
+    formData.append("spaceId", activeSpaceId);
+    formData.append("content", content);
+    if (quote?.messageId) formData.append("quotedMessageId", quote.messageId);
+    files.forEach((file) => formData.append("files", file));
+    await actions.sendMessageWithAttachments(formData);
+  };
+
+  /**
+   * Spaces the current user can forward messages to
+   */
+  const forwardTargets = useMemo(
+    () => spaces.map(({ id, name }) => ({ id, name })),
+    [spaces]
+  );
+
+  /**
+   * Forwards a message to one of the user's spaces
+   * The copy is added to the target space right away; rejections are shown
+   * by the forward menu
+   * @param messageId - The ID of the message to forward
+   * @param spaceId - The ID of the space to forward it to
+   */
+  const handleForwardMessage = useCallback(
+    async (messageId: string, spaceId: string) => {
+      if (!actions.forwardMessage) return;
+      const message = await actions.forwardMessage(messageId, spaceId);
+      addMessageToSpace(spaceId, message);
+    },
+    [actions, addMessageToSpace]
+  );
+
+  /**
+   * Handles editing a message in the active space
+   * Applies the server result immediately; Pusher keeps other members in sync
+   * @param messageId - The ID of the message to edit
+   * @param content - The new message content
+   */
+  const handleEditMessage = useCallback(
+    async (messageId: string, content: string) => {
+      if (!actions.editMessage) return;
+      const updated = await actions.editMessage(messageId, content);
+      applyMessageUpdate(updated);
+    },
+    [actions, applyMessageUpdate]
+  );
+
+  /**
+   * Hides the link preview on one of the user's own messages
+   * @param messageId - The ID of the message whose preview is dismissed
+   */
+  const handleDismissLinkPreview = useCallback(
+    async (messageId: string) => {
+      if (!actions.dismissLinkPreview) return;
+      const updated = await actions.dismissLinkPreview(messageId);
+      applyMessageUpdate(updated);
+    },
+    [actions, applyMessageUpdate]
+  );
+
+  /**
+   * Handles deleting a message in the active space
+   * @param messageId - The ID of the message to delete
+   */
+  const handleDeleteMessage = useCallback(
+    async (messageId: string) => {
+      if (!actions.deleteMessage) return;
+      const { spaceId } = await actions.deleteMessage(messageId);
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === spaceId
+            ? {
+                ...s,
+                messages: s.messages.map((m) =>
+                  m.id === messageId
+                    ? { ...m, content: "", isDeleted: true }
+                    : m
+                ),
+                pinnedMessages: s.pinnedMessages?.filter(
+                  (p) => p.message.id !== messageId
+                ),
+              }
+            : s
+        )
+      );
+      setActiveThread((prev) =>
+        prev
+          ? updateThreadMessage(prev, messageId, {
+              content: "",
+              isDeleted: true,
+            })
+          : prev
+      );
+    },
+    [actions]
+  );
+
+  /**
+   * Pins a message to the active space (admin only)
+   * Applies the server result immediately; Pusher keeps other members in sync
+   * @param messageId - The ID of the message to pin
+   */
+  const handlePinMessage = useCallback(
+    async (messageId: string) => {
+      if (!actions.pinMessage) return;
+      const { spaceId, pin } = await actions.pinMessage(messageId);
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === spaceId
+            ? {
+                ...s,
+                pinnedMessages: [
+                  pin,
+                  ...(s.pinnedMessages ?? []).filter(
+                    (p) => p.message.id !== messageId
+                  ),
+                ],
+              }
+            : s
+        )
+      );
+    },
+    [actions]
+  );
+
+  /**
+   * Unpins a message from the active space (admin only)
+   * @param messageId - The ID of the message to unpin
+   */
+  const handleUnpinMessage = useCallback(
+    async (messageId: string) => {
+      if (!actions.unpinMessage) return;
+      const { spaceId } = await actions.unpinMessage(messageId);
+      setSpaces((prev) =>
+        prev.map((s) =>
+          s.id === spaceId
+            ? {
+                ...s,
+                pinnedMessages: s.pinnedMessages?.filter(
+                  (p) => p.message.id !== messageId
+                ),
+              }
+            : s
+        )
+      );
+    },
+    [actions]
+  );
+
+  /**
+   * Toggles the current user's reaction on a message
+   * Applies the aggregated result immediately; Pusher keeps others in sync
+   * @param messageId - The ID of the message to react to
+   * @param emoji - The reaction emoji
+   */
+  const handleToggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!actions.toggleReaction) return;
+      const result = await actions.toggleReaction(messageId, emoji);
+      applyReactions(result.messageId, result.reactions);
+    },
+    [actions, applyReactions]
+  );
+
+  /**
+   * Posts a poll to the active space
+   * Rejections are shown by the poll form
+   * @param poll - Question, options and voting settings
+   */
+  const handleCreatePoll = useCallback(
+    async (poll: PollInput) => {
+      if (!actions.createPoll || !activeSpaceId) return;
+      const message = await actions.createPoll(activeSpaceId, poll);
+      addMessageToSpace(activeSpaceId, message);
+    },
+    [actions, activeSpaceId, addMessageToSpace]
+  );
+
+  /**
+   * Sets the current user's choices in a poll
+   * Applies the result immediately; Pusher keeps others in sync
+   * @param messageId - The ID of the poll message
+   * @param optionIds - Chosen options; empty to withdraw the vote
+   */
+  const handleVotePoll = useCallback(
+    async (messageId: string, optionIds: string[]) => {
+      if (!actions.votePoll) return;
+      const result = await actions.votePoll(messageId, optionIds);
+      applyPoll(result.messageId, result.poll);
+    },
+    [actions, applyPoll]
+  );
+
+  /**
+   * Closes a poll so it no longer accepts votes
+   * @param messageId - The ID of the poll message
+   */
+  const handleClosePoll = useCallback(
+    async (messageId: string) => {
+      if (!actions.closePoll) return;
+      const result = await actions.closePoll(messageId);
+      applyPoll(result.messageId, result.poll);
+    },
+    [actions, applyPoll]
+  );
+
+  /**
+   * Opens a message's thread in the side panel and loads its replies
+   * @param messageId - The ID of the thread's parent message
+   */
+  const handleOpenThread = useCallback(
+    async (messageId: string) => {
+      if (!actions.listThread) return;
+      threadRequestRef.current = messageId;
+      setActiveThreadId(messageId);
+      setActiveThread(null);
+      try {
+        const thread = await actions.listThread(messageId);
+        if (threadRequestRef.current === messageId) setActiveThread(thread);
+      } catch (error) {
+        console.error("Failed to load thread:", error);
+        if (threadRequestRef.current === messageId) {
+          threadRequestRef.current = null;
+          setActiveThreadId(null);
+        }
+      }
+    },
+    [actions]
+  );
+
+  /**
+   * Closes the thread side panel
+   */
+  const handleCloseThread = useCallback(() => {
+    threadRequestRef.current = null;
+    setActiveThreadId(null);
+    setActiveThread(null);
+  }, []);
+
+  /**
+   * Sends a reply to the open thread
+   * Appends the reply right away; Pusher updates the parent's summary
+   * @param content - The reply content
+   */
+  const handleSendReply = useCallback(
+    async (content: string) => {
+      if (!activeThreadId || !actions.sendReply) return;
+      const reply = await actions.sendReply(activeThreadId, content);
+      setActiveThread((prev) =>
+        prev &&
+        prev.parent.id === reply.parentId &&
+        !prev.replies.some((m) => m.id === reply.id)
+          ? { ...prev, replies: [...prev.replies, reply] }
+          : prev
+      );
+    },
+    [activeThreadId, actions]
+  );
+
+  /**
+   * Closes the open thread whenever the active space changes
+   */
+  useEffect(() => {
+    handleCloseThread();
+  }, [activeSpaceId, handleCloseThread]);
+
   /**
    * Handles space selection - fetches detailed space data and sets as active
    * @param spaceId - The ID of the space to select
@@ -618,6 +1519,136 @@ export const AppWrapper: React.FC<{
     });
   };
 
+  /**
+   * Opens a message in another space, such as the original of a forward
+   * Ignored for spaces the user no longer belongs to
+   * @param spaceId - The ID of the message's space
+   * @param messageId - The ID of the message to scroll to
+   */
+  const handleOpenMessage = async (spaceId: string, messageId: string) => {
+    if (!spaces.some((s) => s.id === spaceId)) return;
+    await handleSelectSpace(spaceId);
+    setJumpToMessageId(messageId);
+  };
+
+  /**
+   * Opens the direct message with the given people, starting it if needed
+   * @param userIds - IDs of the other participants
+   */
+  const handleStartDirectMessage = async (userIds: string[]) => {
+    if (!actions.startDirectMessage) return;
+    const space = await actions.startDirectMessage(userIds);
+    setSpaces((prev) =>
+      prev.some((s) => s.id === space.id) ? prev : [space, ...prev]
+    );
+    await handleSelectSpace(space.id);
+  };
+
+  /**
+   * Opens a message search result in context
+   * Switches to the result's space, opens the thread for replies, and
+   * scrolls the chat to the message or its thread parent
+   * @param result - The selected search result
+   */
+  const handleSelectSearchResult = async (result: MessageSearchResult) => {
+    if (result.spaceId !== activeSpaceId) {
+      await handleSelectSpace(result.spaceId);
+    }
+    const { id, parentId } = result.message;
+    if (parentId) handleOpenThread(parentId);
+    setJumpToMessageId(parentId ?? id);
+  };
+
+  /**
+   * Opens a saved item in context
+   * Messages are shown like search results; note blocks open their note
+   * in the notes panel
+   * @param item - The selected saved item
+   */
+  const handleOpenSavedItem = async (item: SavedItem) => {
+    if (item.isDeleted || !item.spaceId) return;
+    if (item.spaceId !== activeSpaceId) {
+      await handleSelectSpace(item.spaceId);
+    }
+    if (item.message) {
+      const { id, parentId } = item.message;
+      if (parentId) handleOpenThread(parentId);
+      setJumpToMessageId(parentId ?? id);
+    } else if (item.noteId) {
+      setActiveNoteForSpace(item.spaceId, item.noteId);
+      setJumpToNoteId(item.noteId);
+    }
+  };
+
+  /**
+   * Newest message in the active space - changes when messages arrive
+   */
+  const activeLastMessageId =
+    activeSpace?.messages[activeSpace.messages.length - 1]?.id;
+
+  /**
+   * Marks the active space as read and clears its badges
+   * Skipped while the tab is hidden so messages arriving in the background
+   * stay unread
+   */
+  const markActiveSpaceRead = useCallback(() => {
+    if (!activeSpaceId || !activeLastMessageId || !actions.markSpaceRead) {
+      return;
+    }
+    if (document.visibilityState !== "visible") return;
+    setSpaces((prev) =>
+      prev.some(
+        (s) => s.id === activeSpaceId && (s.unreadCount || s.mentionCount)
+      )
+        ? prev.map((s) =>
+            s.id === activeSpaceId
+              ? { ...s, unreadCount: 0, mentionCount: 0 }
+              : s
+          )
+        : prev
+    );
+    actions.markSpaceRead(activeSpaceId).catch(console.error);
+  }, [activeSpaceId, activeLastMessageId, actions]);
+
+  /**
+   * Advances the read pointer when the active space gets new messages
+   * or when the tab becomes visible again
+   */
+  useEffect(() => {
+    markActiveSpaceRead();
+    document.addEventListener("visibilitychange", markActiveSpaceRead);
+    return () =>
+      document.removeEventListener("visibilitychange", markActiveSpaceRead);
+  }, [markActiveSpaceRead]);
+
+  /**
+   * Loads the previous page of messages for the active space
+   * Prepends older messages and advances the space's older-messages cursor
+   */
+  const handleLoadOlderMessages = useCallback(async () => {
+    if (!activeSpaceId) return;
+    const cursor = spaces.find(
+      (s) => s.id === activeSpaceId
+    )?.olderMessagesCursor;
+    if (!cursor) return;
+
+    const page = await actions.listMessages(activeSpaceId, { before: cursor });
+    setSpaces((prev) =>
+      prev.map((s) => {
+        if (s.id !== activeSpaceId) return s;
+        const known = new Set(s.messages.map((m) => m.id));
+        return {
+          ...s,
+          messages: [
+            ...page.messages.filter((m) => !known.has(m.id)),
+            ...s.messages,
+          ],
+          olderMessagesCursor: page.hasMore ? page.startCursor : null,
+        };
+      })
+    );
+  }, [activeSpaceId, spaces, actions]);
+
   /**
    * Currently active note ID for the active space
    */
@@ -696,14 +1727,12 @@ export const AppWrapper: React.FC<{
       await actions.updateNote(activeNoteId, finalTitle, blocksPayload);
 
       // Send activity message - Pusher will handle the broadcast
-      const { user } = useProfileStore.getState();
-      const activityMessage = createActivityMessage(
-        "edited",
-        finalTitle,
-        user?.name
-      );
       actions
-        .sendActivityMessage?.(activeSpaceId, activityMessage.content)
+        .sendActivityMessage?.(activeSpaceId, {
+          kind: "NOTE_UPDATED",
+          targetId: activeNoteId,
+          payload: { title: finalTitle },
+        })
         .catch(() => {});
 
       // Don't manually update state - let Pusher handle it
@@ -721,16 +1750,18 @@ export const AppWrapper: React.FC<{
     await actions.deleteNote(activeNoteId);
 
     // Send activity message - Pusher will handle the broadcast
-    const { user } = useProfileStore.getState();
     const targetSpace = spaces.find((s) => s.id === activeSpaceId);
     const deletedNote = targetSpace?.notes.find((n) => n.id === activeNoteId);
-    const activityMessage = createActivityMessage(
-      "deleted",
-      deletedNote?.title || "Untitled",
-      user?.name
-    );
     actions
-      .sendActivityMessage?.(activeSpaceId, activityMessage.content)
+      .sendActivityMessage?.(
+        activeSpaceId,
+        {
+          kind: "NOTE_DELETED",
+          targetId: activeNoteId,
+          payload: { title: deletedNote?.title || "Untitled" },
+        },
+        `note-deleted-${activeNoteId}`
+      )
       .catch(() => {});
 
     // Clear active note - Pusher will handle the note removal
@@ -742,16 +1773,43 @@ export const AppWrapper: React.FC<{
       <div className="w-80 flex-shrink-0">
         <SpaceManager
           spaces={spacesWithLastMessage.map(
-            ({ id, name, icon, lastMessage, lastMessageSender }) => ({
+            ({
               id,
               name,
               icon,
               lastMessage,
               lastMessageSender,
+              unreadCount,
+              mentionCount,
+              isDirect,
+            }) => ({
+              id,
+              name,
+              icon,
+              lastMessage,
+              lastMessageSender,
+              unreadCount,
+              mentionCount,
+              isDirect,
             })
           )}
           activeSpaceId={activeSpaceId ?? undefined}
           onSelectSpace={handleSelectSpace}
+          onSearchPeople={actions.searchPeople}
+          onStartDirectMessage={
+            actions.startDirectMessage ? handleStartDirectMessage : undefined
+          }
+          onPreviewImport={actions.previewImport}
+          onRunImport={actions.runImport}
+          onListImports={actions.listImportJobs}
+          onDiscardImport={actions.discardImportJob}
+          onSearchMessages={actions.searchMessages}
+          onSelectSearchResult={handleSelectSearchResult}
+          savedItems={savedItems}
+          onLoadSavedItems={loadSavedItems}
+          onOpenSavedItem={handleOpenSavedItem}
+          onUpdateSavedItem={updateSavedItem}
+          onUnsaveItem={unsaveItem}
           onSpaceCreated={
             handleSpaceCreated as unknown as (space: Space) => void
           }
@@ -763,16 +1821,74 @@ export const AppWrapper: React.FC<{
             spaceId={activeSpace.id}
             spaceName={activeSpace.name}
             spaceIcon={activeSpace.icon}
+            isDirect={activeSpace.isDirect}
             spaceMembers={activeSpace.members}
+            readReceiptsEnabled={activeSpace.readReceiptsEnabled}
+            readPointers={activeSpace.readPointers}
+            membersCanMentionEveryone={activeSpace.membersCanMentionEveryone}
+            attachmentMaxBytes={activeSpace.attachmentMaxBytes}
+            retentionDays={activeSpace.retentionDays}
+            legalHold={activeSpace.legalHold}
             spaceDescription={activeSpace.description}
-            messages={activeSpace.messages}
+            messages={activeMessages}
+            onRetryMessage={retryMessage}
+            onDiscardMessage={discardMessage}
+            slashCommands={commands}
+            onRunCommand={runCommand ? handleRunCommand : undefined}
+            onDismissCommandReply={dismissCommandReply}
+            hasOlderMessages={Boolean(activeSpace.olderMessagesCursor)}
+            firstUnreadMessageId={activeSpace.firstUnreadMessageId}
+            onLoadOlderMessages={handleLoadOlderMessages}
             onSendMessage={handleSendMessage}
+            onSendAttachments={
+              actions.sendMessageWithAttachments
+                ? handleSendAttachments
+                : undefined
+            }
+            forwardTargets={forwardTargets}
+            onForwardMessage={
+              actions.forwardMessage ? handleForwardMessage : undefined
+            }
+            onOpenMessage={handleOpenMessage}
+            onStartDirectMessage={
+              actions.startDirectMessage ? handleStartDirectMessage : undefined
+            }
+            scheduledMessages={scheduledMessages}
+            onScheduleMessage={scheduleMessage}
+            onCancelScheduledMessage={cancelScheduledMessage}
+            onCreatePoll={actions.createPoll ? handleCreatePoll : undefined}
+            onVotePoll={actions.votePoll ? handleVotePoll : undefined}
+            onClosePoll={actions.closePoll ? handleClosePoll : undefined}
+            onEditMessage={handleEditMessage}
+            onDeleteMessage={handleDeleteMessage}
+            onToggleReaction={handleToggleReaction}
+            onDismissLinkPreview={handleDismissLinkPreview}
+            pinnedMessages={activeSpace.pinnedMessages}
+            onPinMessage={actions.pinMessage ? handlePinMessage : undefined}
+            onUnpinMessage={
+              actions.unpinMessage ? handleUnpinMessage : undefined
+            }
+            jumpToMessageId={jumpToMessageId}
+            onJumpHandled={() => setJumpToMessageId(null)}
+            savedMessageIds={savedMessageIds}
+            onToggleSaveMessage={toggleSaveMessage}
+            typingNames={typingNames}
+            onTyping={notifyTyping}
+            isThreadOpen={activeThreadId !== null}
+            activeThread={activeThread}
+            onOpenThread={handleOpenThread}
+            onCloseThread={handleCloseThread}
+            onSendReply={handleSendReply}
             notes={activeSpace.notes}
             activeNoteId={activeNoteId}
             onAddNote={handleAddNote}
             onSelectNote={handleSelectNote}
             onSaveNote={handleSaveNote}
             onDeleteNote={handleDeleteNote}
+            savedBlockIndexes={savedBlockIndexes}
+            onToggleSaveBlock={toggleSaveBlock}
+            jumpToNoteId={jumpToNoteId}
+            onNoteJumpHandled={() => setJumpToNoteId(null)}
             onReorderNotes={(orderedIds) => {
               // Call server action - Pusher will handle the realtime update
               actions
@@ -815,16 +1931,15 @@ export const AppWrapper: React.FC<{
                 .createNote(activeSpace.id, finalTitle, blocksPayload)
                 .then((newNote) => {
                   // Send activity message - Pusher will handle the broadcast
-                  const { user } = useProfileStore.getState();
-                  const activityMessage = createActivityMessage(
-                    "added",
-                    finalTitle,
-                    user?.name
-                  );
                   actions
                     .sendActivityMessage?.(
                       activeSpace.id,
-                      activityMessage.content
+                      {
+                        kind: "NOTE_CREATED",
+                        targetId: String(newNote.id),
+                        payload: { title: finalTitle },
+                      },
+                      `note-added-${newNote.id}`
                     )
                     .catch(() => {});
 
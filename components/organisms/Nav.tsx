@@ -6,13 +6,15 @@
  * Main navigation component with responsive design:
  * - Logo display with consistent branding
  * - User avatar with profile access
+ * - Saved items access
  * - Responsive layout (horizontal on mobile, vertical on desktop)
- * - Profile trigger functionality
+ * - Profile and saved items trigger functionality
  * - Clean, minimal design
  */
 
 import Image from "next/image";
 import { usePathname } from "next/navigation";
+import { BookmarkIcon } from "../atoms/Icons";
 
 /**
  * Props interface for Nav component
@@ -24,7 +26,7 @@ interface NavProps {
 /**
  * Navigation Component Implementation
  *
- * Renders the main navigation with logo and user avatar.
+ * Renders the main navigation with logo, saved items button, and user avatar.
  * Handles responsive design and profile access.
  *
  * @param className - Additional CSS classes for styling
@@ -37,6 +39,10 @@ export const Nav: React.FC<NavProps> = ({ className = "" }) => {
     window.dispatchEvent(new CustomEvent("profileTrigger"));
   };
 
+  const handleSavedClick = () => {
+    window.dispatchEvent(new CustomEvent("savedTrigger"));
+  };
+
   return (
     <div
       className={`
@@ -55,7 +61,14 @@ export const Nav: React.FC<NavProps> = ({ className = "" }) => {
       />
 
       {isHomePage && (
-        <div className="md:absolute md:bottom-6">
+        <div className="flex items-center gap-3 md:absolute md:bottom-6 md:flex-col">
+          <button
+            onClick={handleSavedClick}
+            className="w-8 h-8 flex items-center justify-center rounded-full text-gray-500 hover:text-indigo-600 hover:bg-gray-100 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            title="Saved Items"
+          >
+            <BookmarkIcon className="w-5 h-5" />
+          </button>
           <button
             onClick={handleAvatarClick}
             className="w-8 h-8 rounded-full overflow-hidden hover:ring-2 hover:ring-blue-500 hover:ring-offset-2 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
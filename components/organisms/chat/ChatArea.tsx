@@ -4,19 +4,44 @@
  * ChatArea Component - Main Chat Interface Hub
  *
  * Central chat interface that orchestrates messages, notes, and space management.
- * Features responsive layout with collapsible side panels for notes and space info.
- * Handles real-time updates, draft management, and user interactions.
+ * Features responsive layout with collapsible side panels for notes, space info,
+ * and message threads.
+ * Handles real-time updates, draft management, and user interactions,
+ * including files dropped onto the chat or picked in the composer.
+ * Drafts that start with a registered `/command` run the command instead
+ * of being sent.
  */
 
-import React, { memo, useCallback, useState } from "react";
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
 import {
+  ErrorMessage,
   MessageList,
   ChatHeader,
   ChatInput,
+  TypingIndicator,
   NotesPanel,
   SpaceInfoPanel,
+  ThreadPanel,
+  ScheduledMessageList,
 } from "@/components";
-import type { Message, Note, NoteBlock } from "@/types";
+import { useProfileStore } from "@/stores/profileStore";
+import { ATTACHMENTS, MENTIONS } from "@/utils/constants";
+import { validateAttachments } from "@/utils/attachments";
+import { toQuoteExcerpt } from "@/utils/messageUtils";
+import type {
+  MentionCandidate,
+  Message,
+  MessageReference,
+  MessageThread,
+  Note,
+  NoteBlock,
+  PinnedMessage,
+  PollInput,
+  ScheduledMessage,
+  SlashCommandInfo,
+  SlashCommandResult,
+  Space,
+} from "@/types";
 
 /**
  * Props interface for ChatArea component
@@ -27,12 +52,66 @@ interface ChatAreaProps {
   spaceName?: string;
   spaceIcon?: string;
   spaceDescription?: string;
+  isDirect?: boolean;
   spaceMembers?: import("@/types").SpaceMember[];
+  readReceiptsEnabled?: boolean;
+  readPointers?: Record<string, string>;
+  membersCanMentionEveryone?: boolean;
+  attachmentMaxBytes?: number;
+  retentionDays?: number | null;
+  legalHold?: boolean;
 
   // ===== MESSAGE FUNCTIONALITY =====
   messages: Message[];
+  hasOlderMessages?: boolean;
+  onLoadOlderMessages?: () => Promise<void>;
+  firstUnreadMessageId?: string | null;
   className?: string;
-  onSendMessage?: (content: string) => void;
+  onSendMessage?: (content: string, quote?: MessageReference) => void;
+  onSendAttachments?: (
+    content: string,
+    files: File[],
+    quote?: MessageReference
+  ) => Promise<void>;
+  forwardTargets?: Pick<Space, "id" | "name">[];
+  onForwardMessage?: (messageId: string, spaceId: string) => Promise<void>;
+  onOpenMessage?: (spaceId: string, messageId: string) => void;
+  onStartDirectMessage?: (userIds: string[]) => Promise<void>;
+  scheduledMessages?: ScheduledMessage[];
+  onScheduleMessage?: (
+    content: string,
+    sendAt: Date,
+    rrule?: string
+  ) => Promise<void>;
+  onCancelScheduledMessage?: (id: string) => Promise<void>;
+  onCreatePoll?: (poll: PollInput) => Promise<void>;
+  onVotePoll?: (messageId: string, optionIds: string[]) => Promise<void>;
+  onClosePoll?: (messageId: string) => Promise<void>;
+  onEditMessage?: (messageId: string, content: string) => Promise<void>;
+  onDeleteMessage?: (messageId: string) => Promise<void>;
+  onToggleReaction?: (messageId: string, emoji: string) => Promise<void>;
+  onDismissLinkPreview?: (messageId: string) => Promise<void>;
+  onRetryMessage?: (clientId: string) => void;
+  onDiscardMessage?: (clientId: string) => void;
+  slashCommands?: SlashCommandInfo[];
+  onRunCommand?: (input: string) => Promise<SlashCommandResult | undefined>;
+  onDismissCommandReply?: (id: string) => void;
+  pinnedMessages?: PinnedMessage[];
+  onPinMessage?: (messageId: string) => Promise<void>;
+  onUnpinMessage?: (messageId: string) => Promise<void>;
+  jumpToMessageId?: string | null;
+  onJumpHandled?: () => void;
+  savedMessageIds?: Set<string>;
+  onToggleSaveMessage?: (messageId: string, saved: boolean) => Promise<void>;
+  typingNames?: string[];
+  onTyping?: () => void;
+
+  // ===== THREAD FUNCTIONALITY =====
+  isThreadOpen?: boolean;
+  activeThread?: MessageThread | null;
+  onOpenThread?: (messageId: string) => void;
+  onCloseThread?: () => void;
+  onSendReply?: (content: string) => Promise<void>;
 
   // ===== NOTES FUNCTIONALITY =====
   notes?: Note[];
@@ -42,6 +121,10 @@ interface ChatAreaProps {
   onSaveNote?: (draft: { title: string; blocks: NoteBlock[] }) => void;
   onDeleteNote?: () => void;
   onReorderNotes?: (orderedIds: string[]) => void;
+  savedBlockIndexes?: number[];
+  onToggleSaveBlock?: (blockIndex: number, saved: boolean) => Promise<void>;
+  jumpToNoteId?: string | null;
+  onNoteJumpHandled?: () => void;
 
   // ===== DRAFT MANAGEMENT =====
   draftNote?: { title: string; blocks: NoteBlock[] };
@@ -62,10 +145,54 @@ interface ChatAreaProps {
  * @param spaceName - Space display name
  * @param spaceIcon - Optional space icon URL
  * @param spaceDescription - Optional space description
+ * @param isDirect - Whether the space is a direct message
  * @param spaceMembers - Array of space members
+ * @param readReceiptsEnabled - Whether the space shows read receipts
+ * @param readPointers - Members' last-read message IDs
+ * @param membersCanMentionEveryone - Whether members may mention @here and @all
+ * @param attachmentMaxBytes - Largest file members may attach
+ * @param retentionDays - Days messages are kept, or null to keep them forever
+ * @param legalHold - Whether purging of old messages is suspended
  * @param messages - Array of messages to display
+ * @param hasOlderMessages - Whether older messages can still be loaded
+ * @param onLoadOlderMessages - Handler for loading the previous page of messages
+ * @param firstUnreadMessageId - First unread message when the space was opened
  * @param className - Additional CSS classes
- * @param onSendMessage - Handler for sending new messages
+ * @param onSendMessage - Handler for sending new messages, optionally quoting one
+ * @param onSendAttachments - Handler for sending files with an optional caption and quote
+ * @param forwardTargets - Spaces messages can be forwarded to
+ * @param onForwardMessage - Handler for forwarding a message to a space
+ * @param onOpenMessage - Handler for opening a message in another space
+ * @param onStartDirectMessage - Handler for messaging a member directly
+ * @param scheduledMessages - Current user's pending scheduled messages in the space
+ * @param onScheduleMessage - Handler for scheduling a message to be sent later
+ * @param onCancelScheduledMessage - Handler for cancelling a scheduled message
+ * @param onCreatePoll - Handler for posting a poll
+ * @param onVotePoll - Handler for voting in a poll
+ * @param onClosePoll - Handler for closing a poll
+ * @param onEditMessage - Handler for editing a message
+ * @param onDeleteMessage - Handler for deleting a message
+ * @param onToggleReaction - Handler for toggling a reaction on a message
+ * @param onDismissLinkPreview - Handler for hiding the link preview on an own message
+ * @param onRetryMessage - Handler for resending a message that failed to send
+ * @param onDiscardMessage - Handler for dropping a message that failed to send
+ * @param slashCommands - Commands offered by the composer's command palette
+ * @param onRunCommand - Handler for running a slash command
+ * @param onDismissCommandReply - Handler for removing a slash command reply
+ * @param pinnedMessages - Messages pinned to the space, newest pin first
+ * @param onPinMessage - Handler for pinning a message (admin only)
+ * @param onUnpinMessage - Handler for unpinning a message (admin only)
+ * @param jumpToMessageId - Message to scroll to, requested from outside the chat
+ * @param onJumpHandled - Called once the jump request has been taken over
+ * @param savedMessageIds - IDs of messages the current user saved
+ * @param onToggleSaveMessage - Handler for saving or unsaving a message
+ * @param typingNames - Names of other members who are typing
+ * @param onTyping - Handler called while the current user is composing
+ * @param isThreadOpen - Whether the thread panel is open
+ * @param activeThread - Currently open thread, or null while it loads
+ * @param onOpenThread - Handler for opening a message's thread
+ * @param onCloseThread - Handler for closing the thread panel
+ * @param onSendReply - Handler for replying in the open thread
  * @param notes - Array of notes for the space
  * @param activeNoteId - Currently selected note ID
  * @param onAddNote - Handler for adding new notes
@@ -73,6 +200,10 @@ interface ChatAreaProps {
  * @param onSaveNote - Handler for saving note changes
  * @param onDeleteNote - Handler for deleting notes
  * @param onReorderNotes - Handler for reordering notes
+ * @param savedBlockIndexes - Positions of the active note's blocks the current user saved
+ * @param onToggleSaveBlock - Handler for saving or unsaving a block of the active note
+ * @param jumpToNoteId - Note to show in the notes panel, requested from outside the chat
+ * @param onNoteJumpHandled - Called once the note request has been taken over
  * @param draftNote - Current note draft data
  * @param onCommitDraft - Handler for committing note drafts
  * @param onCancelDraft - Handler for canceling note drafts
@@ -83,10 +214,54 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
   spaceName,
   spaceIcon,
   spaceDescription,
+  isDirect = false,
   spaceMembers,
+  readReceiptsEnabled = true,
+  readPointers,
+  membersCanMentionEveryone = false,
+  attachmentMaxBytes = ATTACHMENTS.DEFAULT_MAX_BYTES,
+  retentionDays,
+  legalHold,
   messages,
+  hasOlderMessages = false,
+  onLoadOlderMessages,
+  firstUnreadMessageId,
   className = "",
   onSendMessage,
+  onSendAttachments,
+  forwardTargets,
+  onForwardMessage,
+  onOpenMessage,
+  onStartDirectMessage,
+  scheduledMessages = [],
+  onScheduleMessage,
+  onCancelScheduledMessage,
+  onCreatePoll,
+  onVotePoll,
+  onClosePoll,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
+  onDismissLinkPreview,
+  onRetryMessage,
+  onDiscardMessage,
+  slashCommands = [],
+  onRunCommand,
+  onDismissCommandReply,
+  pinnedMessages = [],
+  onPinMessage,
+  onUnpinMessage,
+  jumpToMessageId = null,
+  onJumpHandled,
+  savedMessageIds,
+  onToggleSaveMessage,
+  typingNames = [],
+  onTyping,
+  isThreadOpen = false,
+  activeThread = null,
+  onOpenThread,
+  onCloseThread,
+  onSendReply,
   notes = [],
   activeNoteId,
   onAddNote,
@@ -94,6 +269,10 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
   onSaveNote,
   onDeleteNote,
   onReorderNotes,
+  savedBlockIndexes,
+  onToggleSaveBlock,
+  jumpToNoteId = null,
+  onNoteJumpHandled,
   draftNote,
   onCommitDraft,
   onCancelDraft,
@@ -107,6 +286,31 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
    */
   const [draft, setDraft] = useState("");
 
+  /**
+   * Message the next send quotes
+   */
+  const [quote, setQuote] = useState<MessageReference | null>(null);
+
+  /**
+   * Files waiting to be sent with the next message
+   */
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+
+  /**
+   * Why the last files were rejected or failed to upload
+   */
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+
+  /**
+   * Whether files are being dragged over the chat
+   */
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  /**
+   * Whether pending files are being uploaded
+   */
+  const [isUploading, setIsUploading] = useState(false);
+
   /**
    * Controls visibility of the notes panel
    * When true, shows the notes editing interface
@@ -119,21 +323,343 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
    */
   const [showSpaceInfo, setShowSpaceInfo] = useState(false);
 
+  /**
+   * Message the list should scroll to, set when a pin is selected
+   */
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+
+  /**
+   * Current user from profile store
+   */
+  const { user } = useProfileStore();
+
+  /**
+   * Drops pending files when switching spaces so they are never sent to
+   * the wrong space
+   */
+  useEffect(() => {
+    setPendingFiles([]);
+    setAttachmentError(null);
+    setScrollTargetId(null);
+    setQuote(null);
+  }, [spaceId]);
+
+  /**
+   * Takes over jump requests, such as a selected search result, as the
+   * message list's scroll target
+   */
+  useEffect(() => {
+    if (!jumpToMessageId) return;
+    setScrollTargetId(jumpToMessageId);
+    onJumpHandled?.();
+  }, [jumpToMessageId, onJumpHandled]);
+
+  /**
+   * Opens the notes panel for note requests, such as a selected saved block;
+   * the note itself is selected by the caller
+   */
+  useEffect(() => {
+    if (!jumpToNoteId) return;
+    setShowNotes(true);
+    setShowSpaceInfo(false);
+    onCloseThread?.();
+    onNoteJumpHandled?.();
+  }, [jumpToNoteId, onNoteJumpHandled, onCloseThread]);
+
+  // ===== COMPUTED VALUES =====
+
+  /**
+   * Determines if current user is admin of the space
+   * Admins may delete any member's messages and manage pins
+   */
+  const isAdmin = useMemo(() => {
+    if (!user?.id) return false;
+    const me = spaceMembers?.find((m) => m.user.id === user.id);
+    return me?.role === "ADMIN";
+  }, [spaceMembers, user?.id]);
+
+  /**
+   * Members offered by @mention autocomplete
+   * Includes @here and @all when the current user may notify everyone
+   */
+  const mentionCandidates = useMemo<MentionCandidate[]>(() => {
+    const members = (spaceMembers ?? [])
+      .filter((m) => m.user.id !== user?.id)
+      .map((m) => ({
+        username: m.user.username,
+        name: m.user.name,
+        avatar: m.user.avatar,
+      }));
+    if (!isAdmin && !membersCanMentionEveryone) return members;
+    return [
+      ...members,
+      ...MENTIONS.BROADCAST_KEYWORDS.map((keyword) => ({
+        username: keyword,
+        name: keyword,
+        isBroadcast: true,
+      })),
+    ];
+  }, [spaceMembers, user?.id, isAdmin, membersCanMentionEveryone]);
+
+  /**
+   * IDs of pinned messages, for marking them in the list
+   */
+  const pinnedMessageIds = useMemo(
+    () => new Set(pinnedMessages.map((p) => p.message.id)),
+    [pinnedMessages]
+  );
+
+  /**
+   * Names of the commands the draft can run
+   */
+  const commandNames = useMemo(
+    () => new Set(slashCommands.map((c) => c.name)),
+    [slashCommands]
+  );
+
   // ===== EVENT HANDLERS =====
 
+  /**
+   * Runs a slash command typed in the draft
+   * Opens the notes panel when the command created or changed a note
+   * @param input - Command text
+   */
+  const runCommand = useCallback(
+    async (input: string) => {
+      if (!onRunCommand) return;
+      setDraft("");
+      const result = await onRunCommand(input);
+      if (result?.openNoteId) {
+        setShowNotes(true);
+        setShowSpaceInfo(false);
+        onCloseThread?.();
+      }
+    },
+    [onRunCommand, onCloseThread]
+  );
+
   /**
    * Handles sending a new message
-   * Trims whitespace and calls the onSendMessage callback
+   * Trims whitespace and calls the onSendMessage callback, or runs the
+   * draft as a command when it starts with a registered `/command`
    */
-  const handleSend = useCallback(() => {
+  const handleSend = useCallback(async () => {
     const trimmed = draft.trim();
+    const command = /^\/([a-z]+)(?:\s|$)/i.exec(trimmed);
+    if (
+      command &&
+      commandNames.has(command[1].toLowerCase()) &&
+      pendingFiles.length === 0
+    ) {
+      await runCommand(trimmed);
+      return;
+    }
+    if (pendingFiles.length > 0 && onSendAttachments) {
+      setIsUploading(true);
+      setAttachmentError(null);
+      try {
+        await onSendAttachments(trimmed, pendingFiles, quote ?? undefined);
+        setPendingFiles([]);
+        setDraft("");
+        setQuote(null);
+      } catch (err) {
+        setAttachmentError(
+          err instanceof Error ? err.message : "Failed to upload files"
+        );
+      } finally {
+        setIsUploading(false);
+      }
+      return;
+    }
     if (!trimmed) return;
-    onSendMessage?.(trimmed);
+    onSendMessage?.(trimmed, quote ?? undefined);
     setDraft("");
-  }, [draft, onSendMessage]);
+    setQuote(null);
+  }, [
+    draft,
+    quote,
+    commandNames,
+    runCommand,
+    pendingFiles,
+    onSendAttachments,
+    onSendMessage,
+  ]);
+
+  /**
+   * Quotes a message in the next send
+   * @param messageId - The ID of the message to quote
+   */
+  const handleQuoteMessage = useCallback(
+    (messageId: string) => {
+      const message = messages.find((m) => m.id === messageId);
+      if (!message || !spaceId) return;
+      setQuote({
+        messageId,
+        spaceId,
+        senderName: message.senderName || "Someone",
+        excerpt: toQuoteExcerpt(message),
+      });
+    },
+    [messages, spaceId]
+  );
+
+  /**
+   * Scrolls to a quoted or forwarded original, switching spaces when it
+   * was posted elsewhere
+   * @param reference - Snapshot pointing at the original message
+   */
+  const handleOpenReference = useCallback(
+    (reference: MessageReference) => {
+      const { messageId, spaceId: originSpaceId } = reference;
+      if (!messageId || !originSpaceId) return;
+      if (originSpaceId === spaceId) {
+        setScrollTargetId(messageId);
+      } else {
+        onOpenMessage?.(originSpaceId, messageId);
+      }
+    },
+    [spaceId, onOpenMessage]
+  );
+
+  /**
+   * Schedules the draft and clears it once the server accepts it
+   * @param sendAt - First send time
+   * @param rrule - Optional recurrence rule
+   */
+  const handleSchedule = useCallback(
+    async (sendAt: Date, rrule?: string) => {
+      const trimmed = draft.trim();
+      if (!trimmed || !onScheduleMessage) return;
+      await onScheduleMessage(trimmed, sendAt, rrule);
+      setDraft("");
+    },
+    [draft, onScheduleMessage]
+  );
+
+  /**
+   * Adds files to the pending list if they fit the space's limits
+   * @param files - Files picked or dropped by the user
+   */
+  const handleAddFiles = useCallback(
+    (files: File[]) => {
+      const next = [...pendingFiles, ...files];
+      const error = validateAttachments(next, attachmentMaxBytes);
+      setAttachmentError(error);
+      if (!error) setPendingFiles(next);
+    },
+    [pendingFiles, attachmentMaxBytes]
+  );
+
+  /**
+   * Removes a pending file
+   * @param index - Position of the file in the pending list
+   */
+  const handleRemoveFile = useCallback((index: number) => {
+    setPendingFiles((prev) => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  }, []);
+
+  /**
+   * Shows the drop overlay while files are dragged over the chat
+   */
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  }, []);
+
+  /**
+   * Hides the drop overlay once the drag leaves the chat entirely
+   */
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  }, []);
+
+  /**
+   * Adds dropped files to the pending list
+   */
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      handleAddFiles(Array.from(e.dataTransfer.files));
+    },
+    [handleAddFiles]
+  );
+
+  /**
+   * Updates the message draft and signals that the user is typing
+   * Clearing the input does not count as typing
+   */
+  const handleDraftChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      setDraft(e.target.value);
+      if (e.target.value.trim()) onTyping?.();
+    },
+    [onTyping]
+  );
+
+  /**
+   * Opens a message's thread, closing the other side panels
+   * @param messageId - ID of the thread's parent message
+   */
+  const handleOpenThread = useCallback(
+    (messageId: string) => {
+      setShowNotes(false);
+      setShowSpaceInfo(false);
+      onOpenThread?.(messageId);
+    },
+    [onOpenThread]
+  );
+
+  /**
+   * Pins or unpins a message from its hover actions
+   * @param messageId - ID of the message
+   * @param pinned - Whether the message should end up pinned
+   */
+  const handleTogglePin = useCallback(
+    async (messageId: string, pinned: boolean) => {
+      await (pinned ? onPinMessage : onUnpinMessage)?.(messageId);
+    },
+    [onPinMessage, onUnpinMessage]
+  );
+
+  /**
+   * Unpins a message from a pinned list, logging failures
+   * @param messageId - ID of the message to unpin
+   */
+  const handleUnpinFromList = useCallback(
+    (messageId: string) => {
+      onUnpinMessage?.(messageId).catch((error) =>
+        console.error("Failed to unpin message:", error)
+      );
+    },
+    [onUnpinMessage]
+  );
+
+  /**
+   * Clears the scroll request once the list has handled it
+   */
+  const handleScrolledToMessage = useCallback(() => {
+    setScrollTargetId(null);
+  }, []);
+
+  const showThread = isThreadOpen && !showNotes && !showSpaceInfo;
   return (
     <div className="flex h-full ">
-      <div className={`flex-1 flex flex-col bg-white ${className}`}>
+      <div
+        className={`relative flex-1 flex flex-col bg-white ${className}`}
+        onDragOver={onSendAttachments ? handleDragOver : undefined}
+        onDragLeave={onSendAttachments ? handleDragLeave : undefined}
+        onDrop={onSendAttachments ? handleDrop : undefined}
+      >
+        {isDraggingFiles && (
+          <div className="pointer-events-none absolute inset-2 z-30 flex items-center justify-center rounded-xl border-2 border-dashed border-indigo-400 bg-indigo-50/80 text-sm font-medium text-indigo-700">
+            Drop files to attach them
+          </div>
+        )}
         {spaceName && (
           <ChatHeader
             spaceName={spaceName}
@@ -144,34 +670,127 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
                 if (next) setShowSpaceInfo(false);
                 return next;
               });
+              onCloseThread?.();
             }}
             onOpenSpaceInfo={() => {
               setShowSpaceInfo(true);
               setShowNotes(false);
+              onCloseThread?.();
             }}
+            pinnedMessages={pinnedMessages}
+            onSelectPinnedMessage={setScrollTargetId}
+            onUnpinMessage={
+              isAdmin && onUnpinMessage ? handleUnpinFromList : undefined
+            }
           />
         )}
-        <MessageList messages={messages} />
+        <MessageList
+          messages={messages}
+          hasOlderMessages={hasOlderMessages}
+          onLoadOlder={onLoadOlderMessages}
+          firstUnreadMessageId={firstUnreadMessageId}
+          members={spaceMembers}
+          readPointers={readReceiptsEnabled ? readPointers : undefined}
+          canModerate={isAdmin}
+          onEditMessage={onEditMessage}
+          onDeleteMessage={onDeleteMessage}
+          onOpenThread={onOpenThread ? handleOpenThread : undefined}
+          onToggleReaction={onToggleReaction}
+          onDismissLinkPreview={onDismissLinkPreview}
+          onRetryMessage={onRetryMessage}
+          onDiscardMessage={onDiscardMessage}
+          onDismissEphemeral={onDismissCommandReply}
+          pinnedMessageIds={pinnedMessageIds}
+          onTogglePin={
+            isAdmin && onPinMessage && onUnpinMessage
+              ? handleTogglePin
+              : undefined
+          }
+          savedMessageIds={savedMessageIds}
+          onToggleSaveMessage={onToggleSaveMessage}
+          scrollToMessageId={scrollTargetId}
+          onVotePoll={onVotePoll}
+          onClosePoll={onClosePoll}
+          onQuoteMessage={onSendMessage ? handleQuoteMessage : undefined}
+          forwardTargets={forwardTargets}
+          onForwardMessage={onForwardMessage}
+          onOpenReference={handleOpenReference}
+          onScrolledToMessage={handleScrolledToMessage}
+        />
+        <TypingIndicator names={typingNames} />
+        <ScheduledMessageList
+          messages={scheduledMessages}
+          onCancel={
+            onCancelScheduledMessage
+              ? (id) => onCancelScheduledMessage(id).catch(console.error)
+              : undefined
+          }
+        />
+        <ErrorMessage message={attachmentError ?? undefined} className="px-4" />
         <ChatInput
           value={draft}
-          onChange={(e) => setDraft(e.target.value)}
+          onChange={handleDraftChange}
+          onValueChange={setDraft}
+          mentionCandidates={mentionCandidates}
+          commands={onRunCommand ? slashCommands : undefined}
           onSend={handleSend}
+          disabled={isUploading}
+          attachments={pendingFiles}
+          onAttachFiles={onSendAttachments ? handleAddFiles : undefined}
+          onRemoveAttachment={handleRemoveFile}
+          quote={quote ?? undefined}
+          onCancelQuote={() => setQuote(null)}
+          onSchedule={onScheduleMessage ? handleSchedule : undefined}
+          onCreatePoll={onCreatePoll}
         />
       </div>
-      {(showNotes || showSpaceInfo) && (
+      {(showNotes || showSpaceInfo || showThread) && (
         <div
           className={`${
-            showSpaceInfo ? "w-[26rem]" : "w-[40rem]"
+            showNotes ? "w-[40rem]" : "w-[26rem]"
           } shrink-0 h-full border-l bg-white`}
         >
-          {showSpaceInfo ? (
+          {showThread ? (
+            <ThreadPanel
+              thread={activeThread}
+              canModerate={isAdmin}
+              onClose={onCloseThread}
+              onSendReply={onSendReply}
+              onEditMessage={onEditMessage}
+              onDeleteMessage={onDeleteMessage}
+              onToggleReaction={onToggleReaction}
+              onDismissLinkPreview={onDismissLinkPreview}
+              savedMessageIds={savedMessageIds}
+              onToggleSaveMessage={onToggleSaveMessage}
+              mentionCandidates={mentionCandidates}
+            />
+          ) : showSpaceInfo ? (
             <SpaceInfoPanel
               spaceId={spaceId}
               name={spaceName || ""}
               icon={spaceIcon}
               description={spaceDescription}
+              isDirect={isDirect}
               members={spaceMembers}
+              readReceiptsEnabled={readReceiptsEnabled}
+              membersCanMentionEveryone={membersCanMentionEveryone}
+              attachmentMaxBytes={attachmentMaxBytes}
+              retentionDays={retentionDays}
+              legalHold={legalHold}
+              pinnedMessages={pinnedMessages}
+              onSelectPinnedMessage={setScrollTargetId}
+              onUnpinMessage={
+                isAdmin && onUnpinMessage ? handleUnpinFromList : undefined
+              }
               onClose={() => setShowSpaceInfo(false)}
+              onStartDirectMessage={
+                onStartDirectMessage
+                  ? async (userId) => {
+                      await onStartDirectMessage([userId]);
+                      setShowSpaceInfo(false);
+                    }
+                  : undefined
+              }
               onLeaveSpace={() => {
                 onLeaveSpace?.();
                 setShowSpaceInfo(false);
@@ -189,6 +808,8 @@ const ChatAreaComponent: React.FC<ChatAreaProps> = ({
               draftNote={draftNote}
               onCommitDraft={onCommitDraft}
               onCancelDraft={onCancelDraft}
+              savedBlockIndexes={savedBlockIndexes}
+              onToggleSaveBlock={onToggleSaveBlock}
             />
           )}
         </div>
@@ -7,24 +7,72 @@
  * - Message grouping by date with visual separators
  * - Activity message rendering with icons
  * - Auto-scroll to latest messages
+ * - Loading older pages on scroll-up with a steady scroll position
+ * - "New messages" divider with a jump-to-first-unread button
+ * - "Seen by" read receipts under the newest message
  * - Empty state handling
  * - Performance optimization with memoization
  * - Message type differentiation (text vs activity)
+ * - Thread reply summaries that open the thread panel
+ * - Emoji reactions on messages
+ * - Pending and failed states for messages that have not been stored yet
+ * - Pinned markers and scrolling to a requested message with a brief highlight
+ * - Slash command replies visible only to the current user
  */
 
-import React, { memo, useEffect, useMemo, useRef } from "react";
-import { NoteIcon, UserIcon, PencilIcon } from "../../atoms/Icons";
+import React, {
+  Fragment,
+  memo,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { MessageItem } from "../../molecules/chat/MessageItem";
+import { SeenBy } from "../../molecules/chat/SeenBy";
+import { ActivityMessage } from "../../molecules/chat/ActivityMessage";
+import { EphemeralReply } from "../../molecules/chat/EphemeralReply";
 import { EmptyState } from "../../atoms/EmptyState";
+import { LoadingSpinner } from "../../atoms/LoadingSpinner";
 import { formatDate, formatTime, groupMessagesByDate } from "@/utils/dateUtils";
+import { MESSAGE_PAGINATION, PINS } from "@/utils/constants";
+import { hasReadMessage } from "@/utils/messageUtils";
 import { useProfileStore } from "@/stores/profileStore";
-import type { Message } from "@/types";
+import type { Message, MessageReference, Space, SpaceMember } from "@/types";
 
 /**
  * Props interface for MessageList component
  */
 interface MessageListProps {
   messages: Message[];
+  hasOlderMessages?: boolean;
+  onLoadOlder?: () => Promise<void>;
+  firstUnreadMessageId?: string | null;
+  members?: SpaceMember[];
+  readPointers?: Record<string, string>;
+  canModerate?: boolean;
+  onEditMessage?: (messageId: string, content: string) => Promise<void>;
+  onDeleteMessage?: (messageId: string) => Promise<void>;
+  onOpenThread?: (messageId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => Promise<void>;
+  onDismissLinkPreview?: (messageId: string) => Promise<void>;
+  onRetryMessage?: (clientId: string) => void;
+  onDiscardMessage?: (clientId: string) => void;
+  onDismissEphemeral?: (id: string) => void;
+  pinnedMessageIds?: Set<string>;
+  onTogglePin?: (messageId: string, pinned: boolean) => Promise<void>;
+  savedMessageIds?: Set<string>;
+  onToggleSaveMessage?: (messageId: string, saved: boolean) => Promise<void>;
+  onVotePoll?: (messageId: string, optionIds: string[]) => Promise<void>;
+  onClosePoll?: (messageId: string) => Promise<void>;
+  onQuoteMessage?: (messageId: string) => void;
+  forwardTargets?: Pick<Space, "id" | "name">[];
+  onForwardMessage?: (messageId: string, spaceId: string) => Promise<void>;
+  onOpenReference?: (reference: MessageReference) => void;
+  scrollToMessageId?: string | null;
+  onScrolledToMessage?: () => void;
   className?: string;
 }
 
@@ -35,14 +83,94 @@ interface MessageListProps {
  * Handles both regular messages and activity messages with different styling.
  *
  * @param messages - Array of messages to display
+ * @param hasOlderMessages - Whether an older page can be requested
+ * @param onLoadOlder - Loads the previous page of messages
+ * @param firstUnreadMessageId - First message the user had not read when opening the space
+ * @param members - Space members, used for read receipts
+ * @param readPointers - Members' last-read message IDs (omitted when receipts are off)
+ * @param canModerate - Whether the current user may delete others' messages
+ * @param onEditMessage - Handler for editing a message
+ * @param onDeleteMessage - Handler for deleting a message
+ * @param onOpenThread - Handler for opening a message's thread
+ * @param onToggleReaction - Handler for toggling a reaction on a message
+ * @param onDismissLinkPreview - Handler for hiding the link preview on an own message
+ * @param onRetryMessage - Handler for resending a message that failed to send
+ * @param onDiscardMessage - Handler for dropping a message that failed to send
+ * @param onDismissEphemeral - Handler for removing a slash command reply
+ * @param pinnedMessageIds - IDs of messages pinned to the space
+ * @param onTogglePin - Handler for pinning or unpinning a message; omitted for non-admins
+ * @param savedMessageIds - IDs of messages the current user saved
+ * @param onToggleSaveMessage - Handler for saving or unsaving a message
+ * @param onVotePoll - Handler for voting in a poll
+ * @param onClosePoll - Handler for closing a poll; offered to its author and moderators
+ * @param onQuoteMessage - Handler for quoting a message in the composer
+ * @param forwardTargets - Spaces messages can be forwarded to
+ * @param onForwardMessage - Handler for forwarding a message to a space
+ * @param onOpenReference - Handler for jumping to a quoted or forwarded original
+ * @param scrollToMessageId - Message to scroll to, loading older pages as needed
+ * @param onScrolledToMessage - Called once the scroll request has been handled
  * @param className - Additional CSS classes for styling
  */
 const MessageListComponent: React.FC<MessageListProps> = ({
   messages,
+  hasOlderMessages = false,
+  onLoadOlder,
+  firstUnreadMessageId = null,
+  members = [],
+  readPointers,
+  canModerate = false,
+  onEditMessage,
+  onDeleteMessage,
+  onOpenThread,
+  onToggleReaction,
+  onDismissLinkPreview,
+  onRetryMessage,
+  onDiscardMessage,
+  onDismissEphemeral,
+  pinnedMessageIds,
+  onTogglePin,
+  savedMessageIds,
+  onToggleSaveMessage,
+  onVotePoll,
+  onClosePoll,
+  onQuoteMessage,
+  forwardTargets,
+  onForwardMessage,
+  onOpenReference,
+  scrollToMessageId = null,
+  onScrolledToMessage,
   className = "",
 }) => {
   const { user } = useProfileStore();
   const listRef = useRef<HTMLDivElement | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const unreadDividerRef = useRef<HTMLDivElement | null>(null);
+
+  /**
+   * Whether the jump-to-first-unread button is still offered
+   * Hidden once the divider has been reached
+   */
+  const [showJumpToUnread, setShowJumpToUnread] = useState(false);
+
+  /**
+   * Set while older pages are being loaded to reach the first unread message
+   */
+  const [isJumpingToUnread, setIsJumpingToUnread] = useState(false);
+
+  /**
+   * Message briefly highlighted after being scrolled to
+   */
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+
+  /**
+   * Scroll height captured before an older page is prepended
+   * Used to restore the visual scroll position afterwards
+   */
+  const heightBeforeLoadRef = useRef<number | null>(null);
+  const firstMessageIdRef = useRef<string | undefined>(undefined);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
   const groupedMessages = useMemo(
     () => groupMessagesByDate(messages),
     [messages]
@@ -55,19 +183,212 @@ const MessageListComponent: React.FC<MessageListProps> = ({
     [groupedMessages]
   );
 
-  useEffect(() => {
+  /**
+   * Newest stored regular message, which carries the read receipts
+   */
+  const newestMessage = useMemo(
+    () =>
+      [...messages]
+        .reverse()
+        .find(
+          (m) => (m.type ?? "text") === "text" && !m.isDeleted && !m.status
+        ),
+    [messages]
+  );
+
+  /**
+   * Members other than the viewer and the author who have read the newest message
+   */
+  const seenBy = useMemo(() => {
+    if (!readPointers || !newestMessage) return [];
+    return members
+      .filter((m) => {
+        const pointer = readPointers[m.userId];
+        return (
+          pointer &&
+          m.user.username !== user?.username &&
+          m.user.username !== newestMessage.username &&
+          hasReadMessage(pointer, newestMessage.id)
+        );
+      })
+      .map((m) => m.user);
+  }, [readPointers, newestMessage, members, user?.username]);
+
+  /**
+   * Determines whether a message was sent by the current user
+   * @param message - Message to check
+   */
+  const isOwnMessage = (message: Message) =>
+    message.username ? message.username === user?.username : !!message.isSent;
+
+  /**
+   * Keeps the viewport steady when older messages are prepended and
+   * scrolls to the bottom when a new message is appended
+   */
+  useLayoutEffect(() => {
     const el = listRef.current;
     if (!el) return;
-    requestAnimationFrame(() => {
-      el.scrollTop = el.scrollHeight;
-    });
+    const firstId = messages[0]?.id;
+    const lastId = messages[messages.length - 1]?.id;
+
+    if (
+      heightBeforeLoadRef.current !== null &&
+      firstId !== firstMessageIdRef.current
+    ) {
+      el.scrollTop += el.scrollHeight - heightBeforeLoadRef.current;
+      heightBeforeLoadRef.current = null;
+    } else if (lastId !== lastMessageIdRef.current) {
+      requestAnimationFrame(() => {
+        el.scrollTop = el.scrollHeight;
+      });
+    }
+
+    firstMessageIdRef.current = firstId;
+    lastMessageIdRef.current = lastId;
   }, [messages]);
 
+  /**
+   * Requests the previous page of messages
+   * Ignored while a request is in flight or when nothing older exists
+   */
+  const loadOlder = useCallback(async () => {
+    const el = listRef.current;
+    if (!el || !onLoadOlder || !hasOlderMessages || isLoadingOlder) return;
+    heightBeforeLoadRef.current = el.scrollHeight;
+    setIsLoadingOlder(true);
+    try {
+      await onLoadOlder();
+    } catch (error) {
+      heightBeforeLoadRef.current = null;
+      console.error("Failed to load older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [onLoadOlder, hasOlderMessages, isLoadingOlder]);
+
+  /**
+   * Offers the jump button again whenever a new unread position is set
+   */
+  useEffect(() => {
+    setShowJumpToUnread(Boolean(firstUnreadMessageId));
+    setIsJumpingToUnread(false);
+  }, [firstUnreadMessageId]);
+
+  /**
+   * Scrolls to the "New messages" divider, loading older pages until
+   * the first unread message is part of the list
+   */
+  useEffect(() => {
+    if (!isJumpingToUnread) return;
+    if (unreadDividerRef.current) {
+      unreadDividerRef.current.scrollIntoView({ block: "center" });
+      setIsJumpingToUnread(false);
+      setShowJumpToUnread(false);
+    } else if (!hasOlderMessages) {
+      setIsJumpingToUnread(false);
+      setShowJumpToUnread(false);
+    } else if (!isLoadingOlder) {
+      loadOlder();
+    }
+  }, [
+    isJumpingToUnread,
+    messages,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlder,
+  ]);
+
+  /**
+   * Scrolls to the requested message, loading older pages until it is
+   * part of the list, then highlights it briefly
+   */
+  useEffect(() => {
+    if (!scrollToMessageId) return;
+    const target = listRef.current?.querySelector(
+      `[data-message-id="${scrollToMessageId}"]`
+    );
+    if (target) {
+      target.scrollIntoView({ block: "center", behavior: "smooth" });
+      setHighlightedMessageId(scrollToMessageId);
+      onScrolledToMessage?.();
+    } else if (!hasOlderMessages) {
+      onScrolledToMessage?.();
+    } else if (!isLoadingOlder) {
+      loadOlder();
+    }
+  }, [
+    scrollToMessageId,
+    messages,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlder,
+    onScrolledToMessage,
+  ]);
+
+  /**
+   * Clears the highlight after a short delay
+   */
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(
+      () => setHighlightedMessageId(null),
+      PINS.HIGHLIGHT_MS
+    );
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  /**
+   * Loads older messages when the user scrolls near the top and
+   * hides the jump button once the unread divider is on screen
+   */
+  const handleScroll = useCallback(() => {
+    const el = listRef.current;
+    if (!el) return;
+    if (el.scrollTop <= MESSAGE_PAGINATION.LOAD_OLDER_THRESHOLD_PX) {
+      loadOlder();
+    }
+    const divider = unreadDividerRef.current;
+    if (
+      divider &&
+      divider.getBoundingClientRect().top >= el.getBoundingClientRect().top
+    ) {
+      setShowJumpToUnread(false);
+    }
+  }, [loadOlder]);
+
   return (
     <div
       ref={listRef}
+      onScroll={handleScroll}
       className={`flex-1 overflow-y-auto p-4 px-5 space-y-1 ${className}`}
     >
+      {showJumpToUnread && (
+        <div className="sticky top-0 z-10 flex justify-center">
+          <button
+            type="button"
+            onClick={() => setIsJumpingToUnread(true)}
+            disabled={isJumpingToUnread}
+            className="px-3 py-1 rounded-full bg-indigo-600 text-white text-xs shadow hover:bg-indigo-700 disabled:opacity-60"
+          >
+            Jump to first unread
+          </button>
+        </div>
+      )}
+      {hasOlderMessages && (
+        <div className="flex justify-center py-2">
+          {isLoadingOlder ? (
+            <LoadingSpinner size="sm" />
+          ) : (
+            <button
+              type="button"
+              onClick={loadOlder}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Load earlier messages
+            </button>
+          )}
+        </div>
+      )}
       {messages.length === 0 ? (
         <EmptyState
           title="No messages yet"
@@ -82,44 +403,87 @@ const MessageListComponent: React.FC<MessageListProps> = ({
               <div className="text-gray-600 text-xs">{formatDate(date)}</div>
               <div className="flex-1 h-px bg-gray-300/60 rounded-full" />
             </div>
-            {groupedMessages[date].map((message) =>
-              message.type === "activity" ? (
-                <div
-                  key={message.id}
-                  className="flex items-center justify-center my-2"
-                >
-                  <div className="flex items-center gap-1.5 bg-[#efeaff] text-[#6b61c4] text-xs px-2.5 py-1 rounded-full shadow-sm">
-                    {/(joined the space|joined\s+the\s+space|left the space|left\s+the\s+space)/i.test(
-                      message.content || ""
-                    ) ? (
-                      <UserIcon className="w-4 h-4" />
-                    ) : /updated the space info/i.test(
-                        message.content || ""
-                      ) ? (
-                      <PencilIcon className="w-4 h-4" />
-                    ) : (
-                      <NoteIcon className="w-4 h-4" />
-                    )}
-                    <span
-                      dangerouslySetInnerHTML={{ __html: message.content }}
+            {groupedMessages[date].map((message) => (
+              <Fragment key={message.id}>
+                {message.id === firstUnreadMessageId && (
+                  <div
+                    ref={unreadDividerRef}
+                    className="flex items-center gap-3 my-4 px-2 select-none"
+                  >
+                    <div className="flex-1 h-px bg-red-400 rounded-full" />
+                    <div className="text-red-500 text-xs font-medium">
+                      New messages
+                    </div>
+                    <div className="flex-1 h-px bg-red-400 rounded-full" />
+                  </div>
+                )}
+                {message.type === "ephemeral" ? (
+                  <EphemeralReply
+                    id={message.id}
+                    content={message.content}
+                    timestamp={formatTime(message.timestamp)}
+                    onDismiss={onDismissEphemeral}
+                  />
+                ) : message.activity ? (
+                  <ActivityMessage activity={message.activity} />
+                ) : (
+                  <div
+                    data-message-id={message.id}
+                    className={`rounded-lg transition-colors duration-500 ${
+                      message.id === highlightedMessageId ? "bg-yellow-100" : ""
+                    }`}
+                  >
+                    <MessageItem
+                      id={message.id}
+                      content={message.content}
+                      timestamp={formatTime(message.timestamp)}
+                      isSent={isOwnMessage(message)}
+                      senderName={message.senderName}
+                      editedAt={message.editedAt}
+                      isDeleted={message.isDeleted}
+                      replyCount={message.replyCount}
+                      latestRepliers={message.latestRepliers}
+                      reactions={message.reactions}
+                      mentions={message.mentions}
+                      mentionsEveryone={message.mentionsEveryone}
+                      attachments={message.attachments}
+                      linkPreview={message.linkPreview}
+                      poll={message.poll}
+                      quote={message.quote}
+                      forwardedFrom={message.forwardedFrom}
+                      currentUsername={user?.username}
+                      canEdit={isOwnMessage(message)}
+                      canDelete={isOwnMessage(message) || canModerate}
+                      onEdit={onEditMessage}
+                      onDelete={onDeleteMessage}
+                      onOpenThread={onOpenThread}
+                      onToggleReaction={onToggleReaction}
+                      onDismissLinkPreview={onDismissLinkPreview}
+                      isPinned={pinnedMessageIds?.has(message.id)}
+                      onTogglePin={onTogglePin}
+                      isSaved={savedMessageIds?.has(message.id)}
+                      onToggleSave={onToggleSaveMessage}
+                      canClosePoll={isOwnMessage(message) || canModerate}
+                      onVotePoll={onVotePoll}
+                      onClosePoll={onClosePoll}
+                      onQuote={onQuoteMessage}
+                      forwardTargets={forwardTargets}
+                      onForward={onForwardMessage}
+                      onOpenReference={onOpenReference}
+                      status={message.status}
+                      onRetry={onRetryMessage}
+                      onDiscard={onDiscardMessage}
                     />
                   </div>
-                </div>
-              ) : (
-                <MessageItem
-                  key={message.id}
-                  id={message.id}
-                  content={message.content}
-                  timestamp={formatTime(message.timestamp)}
-                  isSent={
-                    message.username
-                      ? message.username === user?.username
-                      : !!message.isSent
-                  }
-                  senderName={message.senderName}
-                />
-              )
-            )}
+                )}
+                {message.id === newestMessage?.id && (
+                  <SeenBy
+                    readers={seenBy}
+                    align={isOwnMessage(message) ? "right" : "left"}
+                  />
+                )}
+              </Fragment>
+            ))}
           </div>
         ))
       )}
@@ -0,0 +1,217 @@
+"use client";
+
+/**
+ * ThreadPanel Component
+ *
+ * Side panel for a message thread with:
+ * - Parent message display
+ * - Chronological list of replies
+ * - Reply composer
+ * - Editing, deleting, and reacting with the same rules as the main timeline
+ * - Auto-scroll to the newest reply
+ */
+
+import React, { memo, useCallback, useEffect, useRef, useState } from "react";
+import { Heading } from "../../atoms/Heading";
+import { CloseIcon } from "../../atoms/Icons";
+import { LoadingSpinner } from "../../atoms/LoadingSpinner";
+import { MessageItem } from "../../molecules/chat/MessageItem";
+import { ChatInput } from "../../molecules/chat/ChatInput";
+import { formatTime } from "@/utils/dateUtils";
+import { useProfileStore } from "@/stores/profileStore";
+import type { MentionCandidate, Message, MessageThread } from "@/types";
+
+/**
+ * Props interface for ThreadPanel component
+ */
+interface ThreadPanelProps {
+  thread: MessageThread | null;
+  className?: string;
+  canModerate?: boolean;
+  onClose?: () => void;
+  onSendReply?: (content: string) => Promise<void>;
+  onEditMessage?: (messageId: string, content: string) => Promise<void>;
+  onDeleteMessage?: (messageId: string) => Promise<void>;
+  onToggleReaction?: (messageId: string, emoji: string) => Promise<void>;
+  onDismissLinkPreview?: (messageId: string) => Promise<void>;
+  savedMessageIds?: Set<string>;
+  onToggleSaveMessage?: (messageId: string, saved: boolean) => Promise<void>;
+  mentionCandidates?: MentionCandidate[];
+}
+
+/**
+ * ThreadPanel Component Implementation
+ *
+ * Renders the parent message followed by its replies and a composer.
+ * Shows a spinner while the thread is being loaded.
+ *
+ * @param thread - Loaded thread, or null while loading
+ * @param className - Additional CSS classes
+ * @param canModerate - Whether the current user may delete others' replies
+ * @param onClose - Handler for closing the panel
+ * @param onSendReply - Handler for sending a reply to the thread
+ * @param onEditMessage - Handler for editing a message in the thread
+ * @param onDeleteMessage - Handler for deleting a message in the thread
+ * @param onToggleReaction - Handler for toggling a reaction in the thread
+ * @param onDismissLinkPreview - Handler for hiding the link preview on an own message
+ * @param savedMessageIds - IDs of messages the current user saved
+ * @param onToggleSaveMessage - Handler for saving or unsaving a message
+ * @param mentionCandidates - Members offered when typing `@` in the composer
+ */
+const ThreadPanelComponent: React.FC<ThreadPanelProps> = ({
+  thread,
+  className = "",
+  canModerate = false,
+  onClose,
+  onSendReply,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
+  onDismissLinkPreview,
+  savedMessageIds,
+  onToggleSaveMessage,
+  mentionCandidates,
+}) => {
+  // ===== STATE MANAGEMENT =====
+
+  /**
+   * Draft state for the reply composer
+   */
+  const [draft, setDraft] = useState("");
+
+  /**
+   * Tracks an in-flight reply request
+   */
+  const [isSending, setIsSending] = useState(false);
+
+  /**
+   * Current user from profile store
+   */
+  const { user } = useProfileStore();
+
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const replyCount = thread?.replies.length ?? 0;
+  const visibleReplyCount =
+    thread?.replies.filter((m) => !m.isDeleted).length ?? 0;
+
+  /**
+   * Scrolls to the newest reply when replies are added
+   */
+  useEffect(() => {
+    const el = listRef.current;
+    if (!el) return;
+    requestAnimationFrame(() => {
+      el.scrollTop = el.scrollHeight;
+    });
+  }, [replyCount]);
+
+  /**
+   * Determines whether a message was sent by the current user
+   * @param message - Message to check
+   */
+  const isOwnMessage = (message: Message) =>
+    message.username ? message.username === user?.username : !!message.isSent;
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Sends the drafted reply
+   * Keeps the draft when the request fails so it can be retried
+   */
+  const handleSend = useCallback(async () => {
+    const trimmed = draft.trim();
+    if (!trimmed || !onSendReply) return;
+    setIsSending(true);
+    try {
+      await onSendReply(trimmed);
+      setDraft("");
+    } catch (error) {
+      console.error("Failed to send reply:", error);
+    } finally {
+      setIsSending(false);
+    }
+  }, [draft, onSendReply]);
+
+  /**
+   * Renders a thread message with ownership-based permissions
+   * @param message - Message to render
+   */
+  const renderMessage = (message: Message) => (
+    <MessageItem
+      key={message.id}
+      id={message.id}
+      content={message.content}
+      timestamp={formatTime(message.timestamp)}
+      isSent={isOwnMessage(message)}
+      senderName={message.senderName}
+      editedAt={message.editedAt}
+      isDeleted={message.isDeleted}
+      reactions={message.reactions}
+      mentions={message.mentions}
+      mentionsEveryone={message.mentionsEveryone}
+      attachments={message.attachments}
+      linkPreview={message.linkPreview}
+      currentUsername={user?.username}
+      canEdit={isOwnMessage(message)}
+      canDelete={isOwnMessage(message) || canModerate}
+      onEdit={onEditMessage}
+      onDelete={onDeleteMessage}
+      onToggleReaction={onToggleReaction}
+      onDismissLinkPreview={onDismissLinkPreview}
+      isSaved={savedMessageIds?.has(message.id)}
+      onToggleSave={onToggleSaveMessage}
+    />
+  );
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      <div className="flex items-center gap-2 p-4 border-b border-gray-200">
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close thread"
+            className="text-gray-600 hover:text-gray-800"
+            title="Close"
+          >
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        )}
+        <Heading level={6} className="text-gray-900">
+          Thread
+        </Heading>
+      </div>
+      {thread ? (
+        <>
+          <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-1">
+            {renderMessage(thread.parent)}
+            <div className="flex items-center gap-3 my-4 px-2 select-none">
+              <div className="text-gray-600 text-xs">
+                {visibleReplyCount === 1
+                  ? "1 reply"
+                  : `${visibleReplyCount} replies`}
+              </div>
+              <div className="flex-1 h-px bg-gray-300/60 rounded-full" />
+            </div>
+            {thread.replies.map(renderMessage)}
+          </div>
+          <ChatInput
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onValueChange={setDraft}
+            onSend={handleSend}
+            disabled={isSending || thread.parent.isDeleted}
+            placeholder="Reply..."
+            mentionCandidates={mentionCandidates}
+          />
+        </>
+      ) : (
+        <div className="flex-1 flex items-center justify-center">
+          <LoadingSpinner size="sm" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ThreadPanel = memo(ThreadPanelComponent);
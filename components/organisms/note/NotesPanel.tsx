@@ -31,6 +31,8 @@ interface NotesPanelProps {
   draftNote?: { title: string; blocks: NoteBlock[] };
   onCommitDraft?: (draft: { title: string; blocks: NoteBlock[] }) => void;
   onCancelDraft?: () => void;
+  savedBlockIndexes?: number[];
+  onToggleSaveBlock?: (blockIndex: number, saved: boolean) => Promise<void>;
 }
 
 /**
@@ -49,6 +51,8 @@ interface NotesPanelProps {
  * @param draftNote - Current note draft data
  * @param onCommitDraft - Handler for committing note drafts
  * @param onCancelDraft - Handler for canceling note drafts
+ * @param savedBlockIndexes - Positions of the active note's blocks the current user saved
+ * @param onToggleSaveBlock - Handler for saving or unsaving a block of the active note
  */
 const NotesPanelComponent: React.FC<NotesPanelProps> = ({
   notes,
@@ -61,6 +65,8 @@ const NotesPanelComponent: React.FC<NotesPanelProps> = ({
   draftNote,
   onCommitDraft,
   onCancelDraft,
+  savedBlockIndexes,
+  onToggleSaveBlock,
 }) => {
   // ===== COMPUTED VALUES =====
 
@@ -99,6 +105,8 @@ const NotesPanelComponent: React.FC<NotesPanelProps> = ({
             note={activeNote}
             onSave={onSave}
             onDeleteNote={onDeleteNote}
+            savedBlockIndexes={savedBlockIndexes}
+            onToggleSaveBlock={onToggleSaveBlock}
           />
         )}
       </div>
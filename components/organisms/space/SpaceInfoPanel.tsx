@@ -9,6 +9,14 @@
  * - Invite link generation and sharing
  * - Space icon upload and preview
  * - Admin-only functionality for member management
+ * - Admin-only read receipt privacy setting
+ * - Admin-only @here/@all mention permission
+ * - Admin-only attachment size limit
+ * - Message retention window and legal hold, changed by admins in edit mode
+ * - Pinned messages that jump to the original message
+ * - Transcript download as Markdown, HTML or JSON for a date range
+ * - Messaging a member directly
+ * - Direct messages listing participants without roles or invite links
  * - Real-time updates via custom events
  * - Leave space functionality
  * - Responsive design with proper state management
@@ -29,17 +37,26 @@ import {
 } from "../../atoms/Icons";
 import { Button } from "../../atoms/Button";
 import { LogoutIcon } from "../../atoms/Icons";
-import type { SpaceMember } from "@/types";
+import { PinnedMessageList } from "../../molecules/chat/PinnedMessageList";
+import type { PinnedMessage, SpaceMember, TranscriptFormat } from "@/types";
 import {
   createInviteLink,
   updateSpaceInfo,
   updateSpaceFromForm,
   setMemberRole,
   removeMember,
+  setReadReceipts,
+  setMembersCanMentionEveryone,
+  setAttachmentLimit,
+  setRetentionPolicy,
+  setLegalHold,
 } from "@/app/actions/spaces";
 import { useProfileStore } from "@/stores/profileStore";
 import { Input } from "../../atoms/Input";
 import { AutoResizeTextarea } from "../../atoms/AutoResizeTextarea";
+import { Checkbox } from "../../atoms/Checkbox";
+import { ATTACHMENTS, RETENTION, TRANSCRIPTS } from "@/utils/constants";
+import { formatFileSize } from "@/utils/formatters";
 
 /**
  * Props interface for SpaceInfoPanel component
@@ -48,9 +65,19 @@ interface SpaceInfoPanelProps {
   name: string;
   icon?: string;
   description?: string;
+  isDirect?: boolean;
   className?: string;
   onClose?: () => void;
   members?: SpaceMember[];
+  readReceiptsEnabled?: boolean;
+  membersCanMentionEveryone?: boolean;
+  attachmentMaxBytes?: number;
+  retentionDays?: number | null;
+  legalHold?: boolean;
+  pinnedMessages?: PinnedMessage[];
+  onSelectPinnedMessage?: (messageId: string) => void;
+  onUnpinMessage?: (messageId: string) => void;
+  onStartDirectMessage?: (userId: string) => Promise<void>;
   onLeaveSpace?: () => void;
   spaceId?: string;
 }
@@ -64,9 +91,19 @@ interface SpaceInfoPanelProps {
  * @param name - Space display name
  * @param icon - Optional space icon URL
  * @param description - Optional space description
+ * @param isDirect - Whether the space is a direct message
  * @param className - Additional CSS classes
  * @param onClose - Handler for closing the panel
  * @param members - Array of space members
+ * @param readReceiptsEnabled - Whether the space shows read receipts
+ * @param membersCanMentionEveryone - Whether members may mention @here and @all
+ * @param attachmentMaxBytes - Largest file members may attach
+ * @param retentionDays - Days messages are kept, or null to keep them forever
+ * @param legalHold - Whether purging of old messages is suspended
+ * @param pinnedMessages - Messages pinned to the space, newest pin first
+ * @param onSelectPinnedMessage - Handler for jumping to a pinned message
+ * @param onUnpinMessage - Handler for unpinning; omitted for non-admins
+ * @param onStartDirectMessage - Handler for opening a direct message with a member
  * @param onLeaveSpace - Handler for leaving the space
  * @param spaceId - Space identifier for operations
  */
@@ -74,9 +111,19 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
   name,
   icon,
   description,
+  isDirect = false,
   className = "",
   onClose,
   members = [],
+  readReceiptsEnabled = true,
+  membersCanMentionEveryone = false,
+  attachmentMaxBytes = ATTACHMENTS.DEFAULT_MAX_BYTES,
+  retentionDays = null,
+  legalHold = false,
+  pinnedMessages = [],
+  onSelectPinnedMessage,
+  onUnpinMessage,
+  onStartDirectMessage,
   onLeaveSpace,
   spaceId,
 }) => {
@@ -132,6 +179,34 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
    */
   const { user } = useProfileStore();
 
+  /**
+   * Loading state for the read receipts setting
+   */
+  const [isUpdatingReceipts, setIsUpdatingReceipts] = useState(false);
+
+  /**
+   * Loading state for the @here/@all mention permission
+   */
+  const [isUpdatingMentions, setIsUpdatingMentions] = useState(false);
+
+  /**
+   * Loading state for the attachment size limit
+   */
+  const [isUpdatingAttachments, setIsUpdatingAttachments] = useState(false);
+
+  /**
+   * Loading state for the retention window and legal hold
+   */
+  const [isUpdatingRetention, setIsUpdatingRetention] = useState(false);
+
+  /**
+   * Transcript export options; empty dates leave that end of the range open
+   */
+  const [exportFormat, setExportFormat] =
+    useState<TranscriptFormat>("markdown");
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+
   /**
    * Controls which member dropdown is open
    */
@@ -156,6 +231,28 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
     return me?.role === "ADMIN";
   }, [members, user?.id]);
 
+  /**
+   * Download link for the transcript, or null if the range is backwards
+   * Dates are whole local days; the end date is included
+   */
+  const exportUrl = useMemo(() => {
+    if (!spaceId) return null;
+    if (exportFrom && exportTo && exportFrom > exportTo) return null;
+    const query = new URLSearchParams({
+      format: exportFormat,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    if (exportFrom) {
+      query.set("from", new Date(`${exportFrom}T00:00`).toISOString());
+    }
+    if (exportTo) {
+      const end = new Date(`${exportTo}T00:00`);
+      end.setDate(end.getDate() + 1);
+      query.set("to", end.toISOString());
+    }
+    return `/api/spaces/${encodeURIComponent(spaceId)}/export?${query}`;
+  }, [spaceId, exportFormat, exportFrom, exportTo]);
+
   /**
    * Converts role string to display-friendly format
    * @param role - Role string (ADMIN, MEMBER, etc.)
@@ -185,6 +282,13 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
     }
   }, [inviteUrl]);
 
+  /**
+   * Whether members can be messaged from the list; in a 1:1 conversation
+   * that would only reopen the same one
+   */
+  const canMessageMembers =
+    !!onStartDirectMessage && !(isDirect && members.length <= 2);
+
   // ===== EVENT HANDLERS =====
 
   /**
@@ -291,6 +395,144 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
     [spaceId, handleMembersUpdatedEvent]
   );
 
+  /**
+   * Opens a direct message with a member
+   * @param targetUserId - ID of the user to message
+   */
+  const handleMessageMember = useCallback(
+    async (targetUserId: string) => {
+      if (!onStartDirectMessage) return;
+      setIsActingOnMemberId(targetUserId);
+      try {
+        await onStartDirectMessage(targetUserId);
+      } catch (error) {
+        console.error("Failed to start direct message:", error);
+      } finally {
+        setIsActingOnMemberId(null);
+      }
+    },
+    [onStartDirectMessage]
+  );
+
+  /**
+   * Turns read receipts on or off for the space
+   * Notifies other components so the message list updates immediately
+   * @param enabled - Whether read receipts should be shown
+   */
+  const handleToggleReadReceipts = useCallback(
+    async (enabled: boolean) => {
+      if (!spaceId || !isAdmin) return;
+      setIsUpdatingReceipts(true);
+      try {
+        const res = await setReadReceipts(spaceId, enabled);
+        if (typeof window !== "undefined") {
+          window.dispatchEvent(
+            new CustomEvent("space-updated", {
+              detail: {
+                spaceId,
+                readReceiptsEnabled: res.readReceiptsEnabled,
+                readPointers: res.readPointers,
+              },
+            })
+          );
+        }
+      } finally {
+        setIsUpdatingReceipts(false);
+      }
+    },
+    [spaceId, isAdmin]
+  );
+
+  /**
+   * Sets whether members may mention @here and @all
+   * Notifies other components so the mention suggestions update immediately
+   * @param enabled - Whether members may mention everyone
+   */
+  const handleToggleEveryoneMentions = useCallback(
+    async (enabled: boolean) => {
+      if (!spaceId || !isAdmin) return;
+      setIsUpdatingMentions(true);
+      try {
+        const res = await setMembersCanMentionEveryone(spaceId, enabled);
+        if (typeof window !== "undefined") {
+          window.dispatchEvent(
+            new CustomEvent("space-updated", {
+              detail: {
+                spaceId,
+                membersCanMentionEveryone: res.membersCanMentionEveryone,
+              },
+            })
+          );
+        }
+      } finally {
+        setIsUpdatingMentions(false);
+      }
+    },
+    [spaceId, isAdmin]
+  );
+
+  /**
+   * Sets the largest file members may attach
+   * Notifies other components so the composer checks files against the new limit
+   * @param maxBytes - Per-file size limit
+   */
+  const handleChangeAttachmentLimit = useCallback(
+    async (maxBytes: number) => {
+      if (!spaceId || !isAdmin) return;
+      setIsUpdatingAttachments(true);
+      try {
+        const res = await setAttachmentLimit(spaceId, maxBytes);
+        if (typeof window !== "undefined") {
+          window.dispatchEvent(
+            new CustomEvent("space-updated", {
+              detail: {
+                spaceId,
+                attachmentMaxBytes: res.attachmentMaxBytes,
+              },
+            })
+          );
+        }
+      } finally {
+        setIsUpdatingAttachments(false);
+      }
+    },
+    [spaceId, isAdmin]
+  );
+
+  /**
+   * Sets how long the space keeps its messages, or the legal hold
+   * Notifies other components so the panel reflects the new policy
+   * @param change - New retention window (null for forever) or legal hold state
+   */
+  const handleChangeRetention = useCallback(
+    async (
+      change: { retentionDays: number | null } | { legalHold: boolean }
+    ) => {
+      if (!spaceId || !isAdmin) return;
+      setIsUpdatingRetention(true);
+      try {
+        const res =
+          "legalHold" in change
+            ? await setLegalHold(spaceId, change.legalHold)
+            : await setRetentionPolicy(spaceId, change.retentionDays);
+        if (typeof window !== "undefined") {
+          window.dispatchEvent(
+            new CustomEvent("space-updated", {
+              detail: {
+                spaceId,
+                retentionDays: res.retentionDays,
+                legalHold: res.legalHold,
+              },
+            })
+          );
+        }
+      } finally {
+        setIsUpdatingRetention(false);
+      }
+    },
+    [spaceId, isAdmin]
+  );
+
   /**
    * Toggles editing mode for space information
    * Handles both entering edit mode and saving changes
@@ -414,12 +656,12 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
           </button>
         )}
         <Heading level={6} className="text-gray-900">
-          Manage your space
+          {isDirect ? "Conversation details" : "Manage your space"}
         </Heading>
       </div>
       <div className="flex items-center justify-between mb-2">
         <Heading level={6} className="text-gray-900">
-          Space info
+          {isDirect ? "Direct message" : "Space info"}
         </Heading>
         {isAdmin && (
           <Button
@@ -474,23 +716,214 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
             className="text-center text-xl font-semibold disabled:opacity-70 border-b-0 border-transparent focus:border-transparent disabled:border-transparent py-0"
             placeholder="Space name"
           />
-          <div className="mt-0">
-            <AutoResizeTextarea
-              value={isEditing ? draftDescription : description ?? ""}
-              onChange={(e) => setDraftDescription(e.target.value)}
-              disabled={!isEditing}
-              rows={2}
-              className="w-full text-center text-gray-600 bg-transparent border-none outline-none focus:outline-none focus:ring-0 placeholder-gray-400 disabled:opacity-70"
-              placeholder="No description"
+          {!isDirect && (
+            <div className="mt-0">
+              <AutoResizeTextarea
+                value={isEditing ? draftDescription : description ?? ""}
+                onChange={(e) => setDraftDescription(e.target.value)}
+                disabled={!isEditing}
+                rows={2}
+                className="w-full text-center text-gray-600 bg-transparent border-none outline-none focus:outline-none focus:ring-0 placeholder-gray-400 disabled:opacity-70"
+                placeholder="No description"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+      {isAdmin && (
+        <>
+          <div className="my-6 border-t border-gray-200" />
+          <div>
+            <Heading level={6} className="text-gray-900 mb-2">
+              Privacy
+            </Heading>
+            <Checkbox
+              label="Show read receipts"
+              checked={readReceiptsEnabled}
+              disabled={!spaceId || isUpdatingReceipts}
+              onChange={(e) => handleToggleReadReceipts(e.target.checked)}
+            />
+            <p className="mt-1 ml-7 text-xs text-gray-500">
+              Members can see who has read the latest message.
+            </p>
+          </div>
+          <div className="mt-4">
+            <Heading level={6} className="text-gray-900 mb-2">
+              Permissions
+            </Heading>
+            <Checkbox
+              label="Members can mention @here and @all"
+              checked={membersCanMentionEveryone}
+              disabled={!spaceId || isUpdatingMentions}
+              onChange={(e) => handleToggleEveryoneMentions(e.target.checked)}
             />
+            <p className="mt-1 ml-7 text-xs text-gray-500">
+              Admins can always notify everyone in the space.
+            </p>
+          </div>
+          <div className="mt-4">
+            <Heading level={6} className="text-gray-900 mb-2">
+              Attachments
+            </Heading>
+            <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+              Largest file members can attach
+              <select
+                value={attachmentMaxBytes}
+                disabled={!spaceId || isUpdatingAttachments}
+                onChange={(e) =>
+                  handleChangeAttachmentLimit(Number(e.target.value))
+                }
+                className="px-2 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+              >
+                {ATTACHMENTS.SIZE_LIMIT_OPTIONS.map((bytes) => (
+                  <option key={bytes} value={bytes}>
+                    {formatFileSize(bytes)}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
+        </>
+      )}
+      {!isDirect && (
+        <>
+          <div className="my-6 border-t border-gray-200" />
+          <div>
+            <Heading level={6} className="text-gray-900 mb-2">
+              Message retention
+            </Heading>
+            {isAdmin && isEditing ? (
+              <>
+                <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                  Delete messages older than
+                  <select
+                    value={retentionDays ?? ""}
+                    disabled={!spaceId || isUpdatingRetention}
+                    onChange={(e) =>
+                      handleChangeRetention({
+                        retentionDays: e.target.value
+                          ? Number(e.target.value)
+                          : null,
+                      })
+                    }
+                    className="px-2 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                  >
+                    <option value="">Keep forever</option>
+                    {RETENTION.DAY_OPTIONS.map((days) => (
+                      <option key={days} value={days}>
+                        {days} days
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="mt-3">
+                  <Checkbox
+                    label="Legal hold"
+                    checked={legalHold}
+                    disabled={!spaceId || isUpdatingRetention}
+                    onChange={(e) =>
+                      handleChangeRetention({ legalHold: e.target.checked })
+                    }
+                  />
+                  <p className="mt-1 ml-7 text-xs text-gray-500">
+                    Nothing is deleted while the space is on hold.
+                  </p>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {retentionDays
+                  ? `Messages are deleted after ${retentionDays} days.`
+                  : "Messages are kept forever."}
+                {legalHold && " Deletion is paused by a legal hold."}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+      <div className="my-6 border-t border-gray-200" />
+      <div>
+        <Heading level={6} className="text-gray-900 mb-2">
+          Pinned
+        </Heading>
+        <PinnedMessageList
+          pins={pinnedMessages}
+          onSelect={onSelectPinnedMessage}
+          onUnpin={onUnpinMessage}
+        />
+      </div>
+      <div className="my-6 border-t border-gray-200" />
+      <div>
+        <Heading level={6} className="text-gray-900 mb-2">
+          Export
+        </Heading>
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center justify-between gap-3">
+            Format
+            <select
+              value={exportFormat}
+              onChange={(e) =>
+                setExportFormat(e.target.value as TranscriptFormat)
+              }
+              className="px-2 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {TRANSCRIPTS.FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            From
+            <input
+              type="date"
+              value={exportFrom}
+              max={exportTo || undefined}
+              onChange={(e) => setExportFrom(e.target.value)}
+              className="px-2 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            To
+            <input
+              type="date"
+              value={exportTo}
+              min={exportFrom || undefined}
+              onChange={(e) => setExportTo(e.target.value)}
+              className="px-2 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          {exportUrl ? (
+            <a
+              href={exportUrl}
+              download
+              className="inline-block text-indigo-600 hover:text-indigo-800"
+            >
+              Download transcript
+            </a>
+          ) : (
+            <p className="text-xs text-red-600">
+              The start date must be on or before the end date.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Leave the dates empty to export every message.
+          </p>
         </div>
       </div>
       <div className="my-6 border-t border-gray-200" />
       <div>
         <div className="flex items-center justify-between mb-2">
           <Heading level={6} className="text-gray-900">
-            {members.length} {members.length === 1 ? "Member" : "Members"}
+            {members.length}{" "}
+            {isDirect
+              ? members.length === 1
+                ? "Participant"
+                : "Participants"
+              : members.length === 1
+              ? "Member"
+              : "Members"}
           </Heading>
         </div>
         <ul className="space-y-1">
@@ -559,9 +992,21 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
                 </div>
               </div>
               <div className="flex items-center gap-1">
-                <span className="text-xs text-indigo-600 bg-indigo-50 px-2 py-1 rounded">
-                  {mapRole(m.role)}
-                </span>
+                {canMessageMembers && user?.id !== m.user.id && (
+                  <button
+                    type="button"
+                    className="hidden group-hover:inline-flex text-xs text-indigo-600 hover:text-indigo-800 px-2 py-1 disabled:opacity-60"
+                    onClick={() => handleMessageMember(m.user.id)}
+                    disabled={isActingOnMemberId === m.user.id}
+                  >
+                    Message
+                  </button>
+                )}
+                {!isDirect && (
+                  <span className="text-xs text-indigo-600 bg-indigo-50 px-2 py-1 rounded">
+                    {mapRole(m.role)}
+                  </span>
+                )}
                 {isAdmin && user?.id !== m.user.id && (
                   <div className="relative">
                     <button
@@ -627,7 +1072,7 @@ const SpaceInfoPanelComponent: React.FC<SpaceInfoPanelProps> = ({
             onClick={() => onLeaveSpace?.()}
           >
             <LogoutIcon className="w-4 h-4" />
-            Leave space
+            {isDirect ? "Leave conversation" : "Leave space"}
           </Button>
         </div>
       </div>
@@ -4,17 +4,31 @@
  * SpaceManager Component - Main Space Sidebar Controller
  *
  * Primary sidebar component managing space navigation, creation, and user profile.
- * Features real-time search filtering, view state management, and global event handling.
+ * Features real-time search filtering, message search on Enter, starting
+ * direct messages, importing from Slack or Discord, saved items, view state
+ * management, and global event handling.
  */
 
 import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { SpaceList } from "../../molecules/space/SpaceList";
 import { SpaceForm } from "../../molecules/space/SpaceForm";
+import { NewDirectMessageForm } from "../../molecules/space/NewDirectMessageForm";
+import { ImportArchiveForm } from "../../molecules/space/ImportArchiveForm";
 import { ProfileDetail } from "../../molecules/profile/ProfileDetail";
 import { SpaceListHeader } from "../../molecules/space/SpaceListHeader";
 import { SearchInput } from "../../molecules/SearchInput";
+import { MessageSearchResults } from "../../molecules/chat/MessageSearchResults";
+import { SavedItemList } from "../../molecules/saved/SavedItemList";
 import { useProfileStore } from "@/stores/profileStore";
-import type { Space, SpaceWithNotes } from "@/types";
+import type {
+  ImportJobSummary,
+  MessageSearchPage,
+  MessageSearchResult,
+  SavedItem,
+  Space,
+  SpaceWithNotes,
+  UserSummary,
+} from "@/types";
 
 /**
  * Props interface for SpaceManager component
@@ -25,6 +39,25 @@ interface SpaceManagerProps {
   className?: string;
   onSpaceCreated?: (space: SpaceWithNotes) => void;
   onSelectSpace?: (spaceId: string) => void;
+  onSearchMessages?: (
+    query: string,
+    cursor?: string
+  ) => Promise<MessageSearchPage>;
+  onSelectSearchResult?: (result: MessageSearchResult) => void;
+  onSearchPeople?: (query: string) => Promise<UserSummary[]>;
+  onStartDirectMessage?: (userIds: string[]) => Promise<void>;
+  onPreviewImport?: (formData: FormData) => Promise<ImportJobSummary>;
+  onRunImport?: (jobId: string) => Promise<ImportJobSummary>;
+  onListImports?: () => Promise<ImportJobSummary[]>;
+  onDiscardImport?: (jobId: string) => Promise<void>;
+  savedItems?: SavedItem[];
+  onLoadSavedItems?: () => Promise<void>;
+  onOpenSavedItem?: (item: SavedItem) => void;
+  onUpdateSavedItem?: (
+    savedItemId: string,
+    details: { privateNote: string | null; remindAt: string | null }
+  ) => Promise<void>;
+  onUnsaveItem?: (savedItemId: string) => Promise<void>;
 }
 
 /**
@@ -38,6 +71,19 @@ interface SpaceManagerProps {
  * @param className - Additional CSS classes
  * @param onSpaceCreated - Handler for when a new space is created
  * @param onSelectSpace - Handler for space selection
+ * @param onSearchMessages - Searches messages in the user's spaces
+ * @param onSelectSearchResult - Handler for jumping to a message search result
+ * @param onSearchPeople - Finds people to start a direct message with
+ * @param onStartDirectMessage - Handler for opening a direct message
+ * @param onPreviewImport - Uploads a Slack or Discord export for a dry run
+ * @param onRunImport - Runs the next batches of an import
+ * @param onListImports - Loads the user's earlier imports
+ * @param onDiscardImport - Discards an import that did not finish
+ * @param savedItems - The user's saved messages and note blocks
+ * @param onLoadSavedItems - Refreshes saved items when the saved view opens
+ * @param onOpenSavedItem - Handler for jumping to a saved item in its space
+ * @param onUpdateSavedItem - Handler for changing a saved item's note and reminder
+ * @param onUnsaveItem - Handler for removing a saved item
  */
 export const SpaceManager: React.FC<SpaceManagerProps> = ({
   spaces,
@@ -45,6 +91,19 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
   className = "",
   onSpaceCreated,
   onSelectSpace,
+  onSearchMessages,
+  onSelectSearchResult,
+  onSearchPeople,
+  onStartDirectMessage,
+  onPreviewImport,
+  onRunImport,
+  onListImports,
+  onDiscardImport,
+  savedItems = [],
+  onLoadSavedItems,
+  onOpenSavedItem,
+  onUpdateSavedItem,
+  onUnsaveItem,
 }) => {
   // ===== STATE MANAGEMENT =====
 
@@ -54,12 +113,59 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
    */
   const [isCreatingSpace, setIsCreatingSpace] = useState(false);
 
+  /**
+   * Controls visibility of the new direct message form
+   * When true, shows NewDirectMessageForm instead of SpaceList
+   */
+  const [isStartingDirect, setIsStartingDirect] = useState(false);
+
+  /**
+   * Controls visibility of the Slack and Discord importer
+   * When true, shows ImportArchiveForm instead of SpaceList
+   */
+  const [isImporting, setIsImporting] = useState(false);
+
+  /**
+   * Controls visibility of the saved items view
+   * When true, shows SavedItemList instead of SpaceList
+   */
+  const [isViewingSaved, setIsViewingSaved] = useState(false);
+
+  /**
+   * Whether saved items are being refreshed
+   */
+  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
+
+  /**
+   * Why the last saved items refresh failed, if it did
+   */
+  const [savedError, setSavedError] = useState<string | null>(null);
+
   /**
    * Search query for filtering spaces
    * Used for real-time space filtering
    */
   const [searchQuery, setSearchQuery] = useState("");
 
+  /**
+   * Results of the last submitted message search
+   * Null while the sidebar shows the space list
+   */
+  const [messageResults, setMessageResults] =
+    useState<MessageSearchPage | null>(null);
+
+  /**
+   * Whether a message search request is in flight
+   */
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+
+  /**
+   * Why the last message search failed, if it did
+   */
+  const [messageSearchError, setMessageSearchError] = useState<string | null>(
+    null
+  );
+
   /**
    * Profile store state and methods
    * Manages current view and user profile information
@@ -68,6 +174,16 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
 
   // ===== COMPUTED VALUES =====
 
+  /**
+   * Whether the sidebar shows the space list, with its search and actions
+   */
+  const isListView =
+    !isCreatingSpace &&
+    !isStartingDirect &&
+    !isImporting &&
+    !isViewingSaved &&
+    currentView !== "profile";
+
   /**
    * Filtered spaces based on search query
    * Performs case-insensitive name matching
@@ -87,9 +203,31 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
    * Shows the space creation form
    */
   const handleCreateSpace = useCallback(() => {
+    setIsStartingDirect(false);
     setIsCreatingSpace(true);
   }, []);
 
+  /**
+   * Shows the new direct message form
+   */
+  const handleNewDirectMessage = useCallback(() => {
+    setIsCreatingSpace(false);
+    setIsStartingDirect(true);
+  }, []);
+
+  /**
+   * Opens the direct message and returns to the space list
+   * @param userIds - IDs of the other participants
+   */
+  const handleStartDirectMessage = useCallback(
+    async (userIds: string[]) => {
+      if (!onStartDirectMessage) return;
+      await onStartDirectMessage(userIds);
+      setIsStartingDirect(false);
+    },
+    [onStartDirectMessage]
+  );
+
   /**
    * Cancels space creation and returns to space list
    * Hides the space creation form
@@ -98,6 +236,14 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
     setIsCreatingSpace(false);
   }, []);
 
+  /**
+   * Swaps the space creation form for the importer
+   */
+  const handleStartImport = useCallback(() => {
+    setIsCreatingSpace(false);
+    setIsImporting(true);
+  }, []);
+
   /**
    * Handles successful space creation
    * Calls parent callback and exits creation mode
@@ -113,6 +259,67 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
     [onSpaceCreated]
   );
 
+  /**
+   * Runs a message search, or loads its next page when a cursor is given
+   * @param cursor - Cursor of the next page of the current results
+   */
+  const runMessageSearch = useCallback(
+    async (cursor?: string) => {
+      const query = searchQuery.trim();
+      if (!onSearchMessages || !query) return;
+      setIsSearchingMessages(true);
+      setMessageSearchError(null);
+      if (!cursor) setMessageResults({ results: [], nextCursor: null });
+      try {
+        const page = await onSearchMessages(query, cursor);
+        setMessageResults((prev) =>
+          cursor && prev
+            ? {
+                results: [...prev.results, ...page.results],
+                nextCursor: page.nextCursor,
+              }
+            : page
+        );
+      } catch (err) {
+        setMessageSearchError(
+          err instanceof Error ? err.message : "Search failed"
+        );
+      } finally {
+        setIsSearchingMessages(false);
+      }
+    },
+    [onSearchMessages, searchQuery]
+  );
+
+  /**
+   * Filters spaces as the user types and drops stale message results
+   */
+  const handleSearchChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setSearchQuery(e.target.value);
+      setMessageResults(null);
+      setMessageSearchError(null);
+    },
+    []
+  );
+
+  /**
+   * Searches messages on Enter and returns to the space list on Escape
+   */
+  const handleSearchKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        runMessageSearch();
+      } else if (e.key === "Escape") {
+        setSearchQuery("");
+        setMessageResults(null);
+        setMessageSearchError(null);
+      }
+    },
+    [runMessageSearch]
+  );
+
   /**
    * Returns to spaces view from profile
    * Hides profile and shows space list
@@ -131,6 +338,9 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
   useEffect(() => {
     const handleProfileTrigger = () => {
       setIsCreatingSpace(false);
+      setIsStartingDirect(false);
+      setIsImporting(false);
+      setIsViewingSaved(false);
       showProfile();
     };
 
@@ -141,24 +351,71 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
     };
   }, [showProfile]);
 
+  /**
+   * Sets up global event listener for the saved items trigger
+   * Closes other views and refreshes saved items, which may have changed
+   * in another tab
+   */
+  useEffect(() => {
+    const handleSavedTrigger = async () => {
+      setIsCreatingSpace(false);
+      setIsStartingDirect(false);
+      setIsImporting(false);
+      hideProfile();
+      setIsViewingSaved(true);
+      if (!onLoadSavedItems) return;
+      setIsLoadingSaved(true);
+      setSavedError(null);
+      try {
+        await onLoadSavedItems();
+      } catch (err) {
+        setSavedError(
+          err instanceof Error ? err.message : "Failed to load saved items"
+        );
+      } finally {
+        setIsLoadingSaved(false);
+      }
+    };
+
+    window.addEventListener("savedTrigger", handleSavedTrigger);
+
+    return () => {
+      window.removeEventListener("savedTrigger", handleSavedTrigger);
+    };
+  }, [hideProfile, onLoadSavedItems]);
+
   return (
     <div
       className={`flex flex-col h-full bg-white border-r border-gray-200 ${className}`}
     >
       <div className="p-4 border-b border-gray-200">
         <SpaceListHeader
-          onCreateSpace={
-            !isCreatingSpace && currentView !== "profile"
-              ? handleCreateSpace
+          onCreateSpace={isListView ? handleCreateSpace : undefined}
+          onNewDirectMessage={
+            onSearchPeople && onStartDirectMessage && isListView
+              ? handleNewDirectMessage
               : undefined
           }
         />
-        {!isCreatingSpace && currentView !== "profile" && (
-          <SearchInput
-            placeholder="Search spaces..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
+        {isListView && (
+          <>
+            <SearchInput
+              placeholder={
+                onSearchMessages
+                  ? "Search spaces and messages..."
+                  : "Search spaces..."
+              }
+              value={searchQuery}
+              onChange={handleSearchChange}
+              onKeyDown={onSearchMessages ? handleSearchKeyDown : undefined}
+            />
+            {onSearchMessages && searchQuery.trim() && !messageResults && (
+              <p className="mt-1 text-xs text-gray-500">
+                Press Enter to search messages. Filter with from:, in:, before:,
+                after: or has:link
+              </p>
+            )}
+          </>
         )}
       </div>
       <div className="flex-1 overflow-y-auto">
@@ -169,10 +426,48 @@ export const SpaceManager: React.FC<SpaceManagerProps> = ({
             username={user.username}
             onBack={handleBackToSpaces}
           />
+        ) : isViewingSaved ? (
+          <SavedItemList
+            items={savedItems}
+            isLoading={isLoadingSaved}
+            error={savedError}
+            onBack={() => setIsViewingSaved(false)}
+            onOpen={onOpenSavedItem}
+            onUpdate={onUpdateSavedItem}
+            onRemove={onUnsaveItem}
+          />
         ) : isCreatingSpace ? (
           <SpaceForm
             onCancel={handleCancelCreate}
             onCreated={handleSpaceCreated}
+            onImport={
+              onPreviewImport && onRunImport ? handleStartImport : undefined
+            }
+          />
+        ) : isImporting && onPreviewImport && onRunImport ? (
+          <ImportArchiveForm
+            onPreview={onPreviewImport}
+            onRun={onRunImport}
+            onList={onListImports}
+            onDiscard={onDiscardImport}
+            onBack={() => setIsImporting(false)}
+          />
+        ) : isStartingDirect && onSearchPeople ? (
+          <NewDirectMessageForm
+            onSearch={onSearchPeople}
+            onStart={handleStartDirectMessage}
+            onCancel={() => setIsStartingDirect(false)}
+          />
+        ) : messageResults ? (
+          <MessageSearchResults
+            results={messageResults.results}
+            isLoading={isSearchingMessages}
+            error={messageSearchError}
+            hasMore={Boolean(messageResults.nextCursor)}
+            onLoadMore={() =>
+              runMessageSearch(messageResults.nextCursor ?? undefined)
+            }
+            onSelect={onSelectSearchResult}
           />
         ) : (
           <SpaceList
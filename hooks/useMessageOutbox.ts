@@ -0,0 +1,220 @@
+/**
+ * Message Outbox Hook
+ *
+ * Custom hook for sending messages optimistically.
+ * Messages get a client-generated ID and show up right away as pending;
+ * failed sends stay in the outbox as failed and are retried when the
+ * browser or the realtime connection comes back. The outbox is mirrored
+ * to IndexedDB so unsent messages survive a page reload.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { pusherClient } from "@/lib/pusher-client";
+import {
+  deleteOutboxEntry,
+  loadOutbox,
+  saveOutboxEntry,
+  type OutboxEntry,
+} from "@/lib/messageOutbox";
+import { OUTBOX } from "@/utils/constants";
+import type { Message, MessageReference } from "@/types";
+
+/**
+ * Custom hook that queues, sends, and retries the current user's messages
+ *
+ * @param userId - ID of the current user, who owns the outbox
+ * @param sendMessage - Server action that stores a message, using its client ID as the idempotency key and passing the quoted message
+ * @param onSent - Called with the stored message once a send succeeds
+ * @returns Outbox entries and handlers to enqueue, retry, discard, and reconcile them
+ */
+export const useMessageOutbox = (
+  userId: string,
+  sendMessage: (
+    spaceId: string,
+    content: string,
+    idempotencyKey?: string,
+    quotedMessageId?: string
+  ) => Promise<Message>,
+  onSent: (spaceId: string, message: Message) => void
+) => {
+  /**
+   * Unsent messages, oldest first
+   */
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  /**
+   * Latest entries, read by retry handlers outside of render
+   */
+  const entriesRef = useRef<OutboxEntry[]>([]);
+
+  /**
+   * Client IDs with a send request in flight
+   */
+  const inFlightRef = useRef(new Set<string>());
+
+  const onSentRef = useRef(onSent);
+
+  useEffect(() => {
+    entriesRef.current = entries;
+  }, [entries]);
+
+  useEffect(() => {
+    onSentRef.current = onSent;
+  }, [onSent]);
+
+  /**
+   * Replaces an entry in state and storage, if it is still queued
+   * @param entry - Updated entry
+   */
+  const updateEntry = useCallback((entry: OutboxEntry) => {
+    setEntries((prev) =>
+      prev.map((e) => (e.clientId === entry.clientId ? entry : e))
+    );
+    saveOutboxEntry(entry);
+  }, []);
+
+  /**
+   * Removes an entry from state and storage
+   * @param clientId - Client ID of the entry
+   */
+  const removeEntry = useCallback((clientId: string) => {
+    setEntries((prev) => prev.filter((e) => e.clientId !== clientId));
+    deleteOutboxEntry(clientId);
+  }, []);
+
+  /**
+   * Sends one entry, marking it failed if the request does not succeed
+   * Ignored while the same entry is already being sent
+   * @param entry - Entry to send
+   */
+  const deliver = useCallback(
+    async (entry: OutboxEntry) => {
+      if (inFlightRef.current.has(entry.clientId)) return;
+      inFlightRef.current.add(entry.clientId);
+      const pending: OutboxEntry = {
+        ...entry,
+        status: "pending",
+        attempts: entry.attempts + 1,
+      };
+      updateEntry(pending);
+      try {
+        const message = await sendMessage(
+          entry.spaceId,
+          entry.content,
+          entry.clientId,
+          entry.quote?.messageId
+        );
+        removeEntry(entry.clientId);
+        onSentRef.current(entry.spaceId, message);
+      } catch (error) {
+        console.error("Failed to send message:", error);
+        if (entriesRef.current.some((e) => e.clientId === entry.clientId)) {
+          updateEntry({ ...pending, status: "failed" });
+        }
+      } finally {
+        inFlightRef.current.delete(entry.clientId);
+      }
+    },
+    [sendMessage, updateEntry, removeEntry]
+  );
+
+  /**
+   * Resends failed entries that are still under the automatic retry limit
+   */
+  const retryFailed = useCallback(() => {
+    entriesRef.current
+      .filter(
+        (e) => e.status === "failed" && e.attempts < OUTBOX.MAX_AUTO_RETRIES
+      )
+      .forEach(deliver);
+  }, [deliver]);
+
+  /**
+   * Restores the user's outbox after a reload and resends what it can
+   * Entries left pending by a closed tab are marked failed first, so those
+   * past the retry limit can still be retried by hand
+   */
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    loadOutbox(userId).then((loaded) => {
+      if (cancelled || loaded.length === 0) return;
+      const restored = loaded.map((e) =>
+        e.status === "pending" ? { ...e, status: "failed" as const } : e
+      );
+      restored.filter((e, i) => e !== loaded[i]).forEach(saveOutboxEntry);
+      entriesRef.current = restored;
+      setEntries(restored);
+      restored
+        .filter((e) => e.attempts < OUTBOX.MAX_AUTO_RETRIES)
+        .forEach(deliver);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, deliver]);
+
+  /**
+   * Retries failed messages when the browser goes back online or the
+   * realtime connection is re-established
+   */
+  useEffect(() => {
+    const onStateChange = (states: { previous: string; current: string }) => {
+      if (states.current === "connected" && states.previous !== "connected") {
+        retryFailed();
+      }
+    };
+    window.addEventListener("online", retryFailed);
+    pusherClient?.connection.bind("state_change", onStateChange);
+    return () => {
+      window.removeEventListener("online", retryFailed);
+      pusherClient?.connection.unbind("state_change", onStateChange);
+    };
+  }, [retryFailed]);
+
+  /**
+   * Queues a new message and starts sending it
+   * @param spaceId - Space to send the message to
+   * @param content - Message content
+   * @param quote - Message being quoted, if any
+   */
+  const enqueue = useCallback(
+    (spaceId: string, content: string, quote?: MessageReference) => {
+      const entry: OutboxEntry = {
+        clientId: crypto.randomUUID(),
+        userId,
+        spaceId,
+        content,
+        quote,
+        createdAt: new Date().toISOString(),
+        status: "pending",
+        attempts: 0,
+      };
+      entriesRef.current = [...entriesRef.current, entry];
+      setEntries((prev) => [...prev, entry]);
+      saveOutboxEntry(entry);
+      deliver(entry);
+    },
+    [userId, deliver]
+  );
+
+  /**
+   * Resends a failed message on request
+   * @param clientId - Client ID of the message
+   */
+  const retry = useCallback(
+    (clientId: string) => {
+      const entry = entriesRef.current.find((e) => e.clientId === clientId);
+      if (entry) deliver(entry);
+    },
+    [deliver]
+  );
+
+  return {
+    outbox: entries,
+    enqueue,
+    retry,
+    discard: removeEntry,
+    reconcile: removeEntry,
+  };
+};
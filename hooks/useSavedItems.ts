@@ -0,0 +1,175 @@
+/**
+ * Saved Items Hook
+ *
+ * Custom hook for the current user's saved messages and note blocks.
+ * Loads the saved items once, keeps them in step with saves and removals
+ * made in this tab, and exposes which messages and blocks of the active
+ * note are saved for their bookmark buttons.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { SavedItem, SaveItemInput } from "@/types";
+import type { AppActions } from "@/types/app";
+
+/**
+ * Custom hook that tracks the current user's saved items
+ *
+ * @param noteId - Note open in the notes panel, if any
+ * @param actions - Server actions for listing, saving and removing items
+ * @returns Saved items, lookups for bookmark buttons, and handlers to change them
+ */
+export const useSavedItems = (
+  noteId: string | undefined,
+  actions: Pick<AppActions, "listSavedItems" | "saveItem" | "unsaveItem">
+) => {
+  const { listSavedItems, saveItem, unsaveItem } = actions;
+
+  /**
+   * Saved items, most recently saved first
+   */
+  const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+
+  /**
+   * Loads the saved items so bookmark buttons show their state
+   */
+  useEffect(() => {
+    if (!listSavedItems) return;
+    let cancelled = false;
+    listSavedItems()
+      .then((loaded) => {
+        if (!cancelled) setSavedItems(loaded);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [listSavedItems]);
+
+  /**
+   * IDs of saved messages that are still available
+   */
+  const savedMessageIds = useMemo(
+    () =>
+      new Set(
+        savedItems.flatMap((item) => (item.message ? [item.message.id] : []))
+      ),
+    [savedItems]
+  );
+
+  /**
+   * Positions of the saved blocks in the active note
+   */
+  const savedBlockIndexes = useMemo(
+    () =>
+      savedItems.flatMap((item) =>
+        noteId && item.noteId === noteId && item.blockIndex !== undefined
+          ? [item.blockIndex]
+          : []
+      ),
+    [savedItems, noteId]
+  );
+
+  /**
+   * Reloads the saved items, e.g. when the saved view opens
+   */
+  const load = useCallback(async () => {
+    if (!listSavedItems) return;
+    setSavedItems(await listSavedItems());
+  }, [listSavedItems]);
+
+  /**
+   * Saves an item and shows it first, replacing its previous version
+   * @param input - Item to save, with optional private note and reminder
+   */
+  const save = useCallback(
+    async (input: SaveItemInput) => {
+      if (!saveItem) return;
+      const saved = await saveItem(input);
+      setSavedItems((prev) => {
+        const existing = prev.findIndex((item) => item.id === saved.id);
+        return existing === -1
+          ? [saved, ...prev]
+          : prev.map((item) => (item.id === saved.id ? saved : item));
+      });
+    },
+    [saveItem]
+  );
+
+  /**
+   * Removes a saved item
+   * @param savedItemId - ID of the saved item
+   */
+  const remove = useCallback(
+    async (savedItemId: string) => {
+      if (!unsaveItem) return;
+      await unsaveItem(savedItemId);
+      setSavedItems((prev) => prev.filter((item) => item.id !== savedItemId));
+    },
+    [unsaveItem]
+  );
+
+  /**
+   * Saves or unsaves a message from its hover actions
+   * @param messageId - ID of the message
+   * @param saved - Whether the message should end up saved
+   */
+  const toggleSaveMessage = useCallback(
+    async (messageId: string, saved: boolean) => {
+      if (saved) return save({ messageId });
+      const item = savedItems.find((i) => i.message?.id === messageId);
+      if (item) await remove(item.id);
+    },
+    [save, remove, savedItems]
+  );
+
+  /**
+   * Saves or unsaves a block of the active note
+   * @param blockIndex - Position of the block in the note
+   * @param saved - Whether the block should end up saved
+   */
+  const toggleSaveBlock = useCallback(
+    async (blockIndex: number, saved: boolean) => {
+      if (!noteId) return;
+      if (saved) return save({ noteId, blockIndex });
+      const item = savedItems.find(
+        (i) => i.noteId === noteId && i.blockIndex === blockIndex
+      );
+      if (item) await remove(item.id);
+    },
+    [save, remove, savedItems, noteId]
+  );
+
+  /**
+   * Changes the private note and reminder of a saved item
+   * @param savedItemId - ID of the saved item
+   * @param details - New private note and reminder; null clears them
+   */
+  const updateSavedItem = useCallback(
+    async (
+      savedItemId: string,
+      details: { privateNote: string | null; remindAt: string | null }
+    ) => {
+      const item = savedItems.find((i) => i.id === savedItemId);
+      if (!item || item.isDeleted) return;
+      await save(
+        item.message
+          ? { messageId: item.message.id, ...details }
+          : { noteId: item.noteId, blockIndex: item.blockIndex, ...details }
+      );
+    },
+    [save, savedItems]
+  );
+
+  const canSave = !!saveItem && !!unsaveItem;
+
+  return {
+    savedItems,
+    savedMessageIds,
+    savedBlockIndexes,
+    loadSavedItems: listSavedItems ? load : undefined,
+    toggleSaveMessage: canSave ? toggleSaveMessage : undefined,
+    toggleSaveBlock: canSave ? toggleSaveBlock : undefined,
+    updateSavedItem: saveItem ? updateSavedItem : undefined,
+    unsaveItem: unsaveItem ? remove : undefined,
+  };
+};
@@ -0,0 +1,146 @@
+/**
+ * Scheduled Messages Hook
+ *
+ * Custom hook for the current user's scheduled messages in a space.
+ * Loads the pending messages when the space changes, schedules and cancels
+ * messages, and follows dispatcher runs on the space channel so sent
+ * one-off messages disappear and repeating ones show their next run.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { pusherClient } from "@/lib/pusher-client";
+import type { ScheduledMessage } from "@/types";
+import type { AppActions } from "@/types/app";
+
+/**
+ * Sorts scheduled messages soonest first
+ *
+ * @param messages - Scheduled messages
+ * @returns Sorted copy
+ */
+const bySendTime = (messages: ScheduledMessage[]) =>
+  [...messages].sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+
+/**
+ * Custom hook that tracks the current user's scheduled messages
+ *
+ * @param spaceId - Active space ID, or null when no space is open
+ * @param userId - ID of the current user
+ * @param actions - Server actions for listing, scheduling and cancelling
+ * @returns Pending scheduled messages and handlers to schedule and cancel them
+ */
+export const useScheduledMessages = (
+  spaceId: string | null,
+  userId: string,
+  actions: Pick<
+    AppActions,
+    "listScheduledMessages" | "scheduleMessage" | "cancelScheduledMessage"
+  >
+) => {
+  const { listScheduledMessages, scheduleMessage, cancelScheduledMessage } =
+    actions;
+
+  /**
+   * Pending scheduled messages in the active space, soonest first
+   */
+  const [scheduledMessages, setScheduledMessages] = useState<
+    ScheduledMessage[]
+  >([]);
+
+  /**
+   * Active space ID, read when a schedule request finishes
+   */
+  const spaceIdRef = useRef(spaceId);
+
+  /**
+   * Loads the pending messages whenever the space changes
+   */
+  useEffect(() => {
+    spaceIdRef.current = spaceId;
+    setScheduledMessages([]);
+    if (!spaceId || !listScheduledMessages) return;
+    let cancelled = false;
+    listScheduledMessages(spaceId)
+      .then((loaded) => {
+        if (!cancelled) setScheduledMessages(loaded);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [spaceId, listScheduledMessages]);
+
+  /**
+   * Applies dispatcher runs for the current user's messages
+   * The channel subscription itself is owned by AppWrapper, so only the
+   * handler is removed on cleanup
+   */
+  useEffect(() => {
+    if (!spaceId || !pusherClient) return;
+    const channel = pusherClient.subscribe(`space-${spaceId}`);
+
+    const onDispatched = (data: {
+      id: string;
+      userId: string;
+      nextRunAt: string | null;
+    }) => {
+      if (data.userId !== userId) return;
+      setScheduledMessages((prev) =>
+        bySendTime(
+          data.nextRunAt
+            ? prev.map((m) =>
+                m.id === data.id ? { ...m, nextRunAt: data.nextRunAt! } : m
+              )
+            : prev.filter((m) => m.id !== data.id)
+        )
+      );
+    };
+
+    channel.bind("scheduled:dispatched", onDispatched);
+    return () => {
+      channel.unbind("scheduled:dispatched", onDispatched);
+    };
+  }, [spaceId, userId]);
+
+  /**
+   * Schedules a message in the active space
+   * Repeats keep the local time of day of the browser's time zone
+   * @param content - Message content
+   * @param sendAt - First send time
+   * @param rrule - Optional recurrence rule
+   */
+  const schedule = useCallback(
+    async (content: string, sendAt: Date, rrule?: string) => {
+      if (!spaceId || !scheduleMessage) return;
+      const created = await scheduleMessage(
+        spaceId,
+        content,
+        sendAt.toISOString(),
+        rrule,
+        Intl.DateTimeFormat().resolvedOptions().timeZone
+      );
+      if (created.spaceId !== spaceIdRef.current) return;
+      setScheduledMessages((prev) => bySendTime([...prev, created]));
+    },
+    [spaceId, scheduleMessage]
+  );
+
+  /**
+   * Cancels a scheduled message
+   * @param id - ID of the scheduled message
+   */
+  const cancel = useCallback(
+    async (id: string) => {
+      if (!cancelScheduledMessage) return;
+      await cancelScheduledMessage(id);
+      setScheduledMessages((prev) => prev.filter((m) => m.id !== id));
+    },
+    [cancelScheduledMessage]
+  );
+
+  return {
+    scheduledMessages,
+    scheduleMessage: scheduleMessage ? schedule : undefined,
+    cancelScheduledMessage: cancelScheduledMessage ? cancel : undefined,
+  };
+};
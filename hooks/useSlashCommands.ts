@@ -0,0 +1,130 @@
+/**
+ * Slash Commands Hook
+ *
+ * Custom hook for running slash commands from the composer.
+ * Loads the registered commands once, runs typed commands in the active
+ * space, and keeps their replies per space. Replies exist only in this
+ * browser tab and disappear when dismissed or when the page reloads.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { Message, SlashCommandInfo, SlashCommandResult } from "@/types";
+import type { AppActions } from "@/types/app";
+
+/**
+ * Shared empty list, so spaces without replies keep a stable value
+ */
+const NO_REPLIES: Message[] = [];
+
+/**
+ * Custom hook that runs slash commands and tracks their replies
+ *
+ * @param spaceId - Active space ID, or null when no space is open
+ * @param noteId - Note open in the notes panel, used by `/todo`
+ * @param actions - Server actions for listing and running commands
+ * @returns Registered commands, replies for the active space, and handlers to run and dismiss
+ */
+export const useSlashCommands = (
+  spaceId: string | null,
+  noteId: string | undefined,
+  actions: Pick<AppActions, "listSlashCommands" | "runSlashCommand">
+) => {
+  const { listSlashCommands, runSlashCommand } = actions;
+
+  /**
+   * Commands offered by the command palette
+   */
+  const [commands, setCommands] = useState<SlashCommandInfo[]>([]);
+
+  /**
+   * Command replies for each space, oldest first
+   * Key: spaceId, Value: reply messages
+   */
+  const [repliesBySpace, setRepliesBySpace] = useState<
+    Record<string, Message[]>
+  >({});
+
+  /**
+   * Loads the registered commands once
+   */
+  useEffect(() => {
+    if (!listSlashCommands) return;
+    let cancelled = false;
+    listSlashCommands()
+      .then((loaded) => {
+        if (!cancelled) setCommands(loaded);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [listSlashCommands]);
+
+  /**
+   * Adds a reply to a space
+   * @param targetSpaceId - Space the command ran in
+   * @param content - Reply text as markdown
+   */
+  const addReply = useCallback((targetSpaceId: string, content: string) => {
+    const id = `ephemeral-${crypto.randomUUID()}`;
+    setRepliesBySpace((prev) => ({
+      ...prev,
+      [targetSpaceId]: [
+        ...(prev[targetSpaceId] ?? []),
+        {
+          id,
+          content,
+          timestamp: new Date().toISOString(),
+          isSent: false,
+          type: "ephemeral",
+        },
+      ],
+    }));
+  }, []);
+
+  /**
+   * Runs a command in the active space and shows its reply
+   * Failures are shown as the reply instead of being thrown
+   * @param input - Command text, e.g. `/note Sprint goals`
+   * @returns Command result, or undefined if the command failed
+   */
+  const run = useCallback(
+    async (input: string): Promise<SlashCommandResult | undefined> => {
+      if (!spaceId || !runSlashCommand) return undefined;
+      try {
+        const result = await runSlashCommand(spaceId, input, noteId);
+        if (!result.leftSpace) addReply(spaceId, result.reply);
+        return result;
+      } catch (error) {
+        addReply(
+          spaceId,
+          error instanceof Error ? error.message : "Command failed"
+        );
+        return undefined;
+      }
+    },
+    [spaceId, noteId, runSlashCommand, addReply]
+  );
+
+  /**
+   * Removes a reply from the active space
+   * @param id - ID of the reply
+   */
+  const dismiss = useCallback(
+    (id: string) => {
+      if (!spaceId) return;
+      setRepliesBySpace((prev) => ({
+        ...prev,
+        [spaceId]: (prev[spaceId] ?? []).filter((m) => m.id !== id),
+      }));
+    },
+    [spaceId]
+  );
+
+  return {
+    commands,
+    commandReplies: (spaceId && repliesBySpace[spaceId]) || NO_REPLIES,
+    runCommand: runSlashCommand ? run : undefined,
+    dismissCommandReply: dismiss,
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Typing Indicator Hook
+ *
+ * Custom hook for showing who is typing in a space.
+ * Listens for typing signals on the space channel, expires them after a
+ * short quiet period, and throttles the signals sent for the current user.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { pusherClient } from "@/lib/pusher-client";
+import { TYPING } from "@/utils/constants";
+import type { Message } from "@/types";
+
+/**
+ * Member currently shown as typing
+ */
+type Typer = {
+  name: string;
+  expiresAt: number;
+};
+
+/**
+ * Custom hook that tracks typing members of a space
+ *
+ * @param spaceId - Active space ID, or null when no space is open
+ * @param currentUsername - Username of the current user, who is never shown
+ * @param sendSignal - Sends a typing signal for a space to other members
+ * @returns Names of members who are typing and a throttled notifier for local input
+ */
+export const useTypingIndicator = (
+  spaceId: string | null,
+  currentUsername: string | undefined,
+  sendSignal?: (spaceId: string) => Promise<unknown>
+) => {
+  /**
+   * Typing members keyed by username
+   */
+  const [typers, setTypers] = useState<Record<string, Typer>>({});
+
+  /**
+   * Time the last signal was sent for the current user
+   */
+  const lastSentRef = useRef(0);
+
+  /**
+   * Clears typing state when switching spaces
+   */
+  useEffect(() => {
+    setTypers({});
+    lastSentRef.current = 0;
+  }, [spaceId]);
+
+  /**
+   * Listens for typing signals and new messages on the space channel
+   * The channel subscription itself is owned by AppWrapper, so only the
+   * handlers are removed on cleanup
+   */
+  useEffect(() => {
+    if (!spaceId || !pusherClient) return;
+    const channel = pusherClient.subscribe(`space-${spaceId}`);
+
+    const onTypingStart = (data: { username: string; name: string }) => {
+      if (data.username === currentUsername) return;
+      setTypers((prev) => ({
+        ...prev,
+        [data.username]: {
+          name: data.name,
+          expiresAt: Date.now() + TYPING.EXPIRE_MS,
+        },
+      }));
+    };
+
+    const onNewMessage = (message: Message) => {
+      if (!message.username) return;
+      setTypers((prev) => {
+        if (!prev[message.username!]) return prev;
+        const next = { ...prev };
+        delete next[message.username!];
+        return next;
+      });
+    };
+
+    channel.bind("typing:start", onTypingStart);
+    channel.bind("message:new", onNewMessage);
+    return () => {
+      channel.unbind("typing:start", onTypingStart);
+      channel.unbind("message:new", onNewMessage);
+    };
+  }, [spaceId, currentUsername]);
+
+  /**
+   * Removes typers whose signal has expired
+   * Schedules a single timeout for the earliest expiry
+   */
+  useEffect(() => {
+    const expiries = Object.values(typers).map((t) => t.expiresAt);
+    if (expiries.length === 0) return;
+    const delay = Math.max(0, Math.min(...expiries) - Date.now());
+    const timeoutId = setTimeout(() => {
+      const now = Date.now();
+      setTypers((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([, t]) => t.expiresAt > now)
+        )
+      );
+    }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [typers]);
+
+  /**
+   * Signals that the current user is typing
+   * Sends at most one signal per throttle window
+   */
+  const notifyTyping = useCallback(() => {
+    if (!spaceId || !sendSignal) return;
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING.THROTTLE_MS) return;
+    lastSentRef.current = now;
+    sendSignal(spaceId).catch(() => {});
+  }, [spaceId, sendSignal]);
+
+  const typingNames = useMemo(
+    () => Object.values(typers).map((t) => t.name),
+    [typers]
+  );
+
+  return { typingNames, notifyTyping };
+};
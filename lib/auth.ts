@@ -32,7 +32,8 @@ export const authOptions: NextAuthOptions = {
           },
         });
 
-        if (!user) {
+        // Placeholder authors created by imports cannot sign in
+        if (!user || user.importKey) {
           return null;
         }
 
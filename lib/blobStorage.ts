@@ -0,0 +1,138 @@
+/**
+ * Blob Storage Configuration
+ *
+ * This module uploads user files (space icons and chat attachments) to
+ * Azure Blob Storage. Credentials come from either a connection string or
+ * an account name and key. Files are validated against a size limit and a
+ * content-type allowlist before anything is uploaded.
+ */
+
+import { BlobServiceClient } from "@azure/storage-blob";
+import crypto from "crypto";
+import { validateUploadFile } from "@/utils/attachments";
+
+interface BlockBlobClientLike {
+  uploadData: (data: Buffer, options?: unknown) => Promise<void>;
+  url: string;
+}
+interface ContainerClientLike {
+  createIfNotExists: () => Promise<void>;
+  getBlockBlobClient: (blobName: string) => BlockBlobClientLike;
+}
+interface BlobServiceLike {
+  getContainerClient: (name: string) => ContainerClientLike;
+}
+
+/**
+ * Upload constraints for one kind of file
+ */
+export type BlobUploadOptions = {
+  maxBytes: number;
+  allowedTypes: readonly string[];
+  folder?: string;
+};
+
+/**
+ * Stored file details
+ */
+export type UploadedBlob = {
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+};
+
+/**
+ * Opens the configured blob container, creating it if needed
+ *
+ * @returns Container client for uploads
+ * @throws Error if the container or credentials are not configured
+ */
+async function getContainer(): Promise<ContainerClientLike> {
+  const conn = process.env.AZURE_STORAGE_CONNECTION_STRING;
+  const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
+  const accountKey = process.env.AZURE_STORAGE_ACCOUNT_KEY;
+  const containerName = process.env.AZURE_STORAGE_CONTAINER;
+  if (!containerName) throw new Error("Missing AZURE_STORAGE_CONTAINER env");
+
+  let blobService: BlobServiceLike;
+  if (conn && conn.length > 0) {
+    blobService = BlobServiceClient.fromConnectionString(
+      conn
+    ) as unknown as BlobServiceLike;
+  } else if (accountName && accountKey) {
+    const { StorageSharedKeyCredential } = await import("@azure/storage-blob");
+    const sharedKey = new StorageSharedKeyCredential(accountName, accountKey);
+    blobService = new BlobServiceClient(
+      `https://${accountName}.blob.core.windows.net`,
+      sharedKey
+    ) as unknown as BlobServiceLike;
+  } else {
+    throw new Error("Missing Azure Storage credentials");
+  }
+
+  const container = blobService.getContainerClient(containerName);
+  await container.createIfNotExists();
+  return container;
+}
+
+/**
+ * Validates a file without uploading it
+ *
+ * @param file - File from form data
+ * @param options - Size limit and allowed content types
+ * @throws Error describing why the file was rejected
+ */
+export const assertUploadable = (file: File, options: BlobUploadOptions) => {
+  const error = validateUploadFile(
+    file,
+    options.maxBytes,
+    options.allowedTypes
+  );
+  if (error) throw new Error(error);
+};
+
+/**
+ * Uploads a file under a random name and returns its public URL
+ * Non-image files are served as downloads rather than rendered inline
+ *
+ * @param file - File from form data
+ * @param options - Size limit, allowed content types, and optional folder
+ * @returns Stored file details
+ * @throws Error if the file is rejected or storage is not configured
+ */
+export async function uploadBlob(
+  file: File,
+  options: BlobUploadOptions
+): Promise<UploadedBlob> {
+  assertUploadable(file, options);
+  const contentType = file.type || "application/octet-stream";
+  const container = await getContainer();
+
+  const ext = (file.name.split(".").pop() || "bin").toLowerCase();
+  const uniqueName = `${crypto.randomUUID()}.${ext}`;
+  const blockBlob = container.getBlockBlobClient(
+    options.folder ? `${options.folder}/${uniqueName}` : uniqueName
+  );
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  await blockBlob.uploadData(buffer, {
+    blobHTTPHeaders: {
+      blobContentType: contentType,
+      ...(contentType.startsWith("image/")
+        ? {}
+        : {
+            blobContentDisposition: `attachment; filename="${encodeURIComponent(
+              file.name
+            )}"`,
+          }),
+    },
+  });
+
+  return {
+    url: blockBlob.url,
+    name: file.name,
+    contentType,
+    size: file.size,
+  };
+}
@@ -0,0 +1,410 @@
+/**
+ * Link Preview Fetching
+ *
+ * This module fetches OpenGraph and Twitter card metadata for URLs posted
+ * in chat. Requests are guarded against server-side request forgery:
+ * - Only http(s) URLs on the default ports are fetched
+ * - Every resolved address is checked when the connection is made, so
+ *   private, loopback, and link-local hosts are refused even after a
+ *   redirect or a DNS change
+ * - Redirects are followed manually and re-checked hop by hop
+ * - The whole fetch shares one timeout and reads a capped number of bytes
+ *
+ * The fetcher is pluggable: createLinkPreviewFetcher builds one with custom
+ * limits (for example to allow a local fixture server), and
+ * setLinkPreviewFetcher swaps the one used by server actions.
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { LINK_PREVIEWS } from "@/utils/constants";
+import { isSafeUrl } from "@/utils/markdown";
+
+/**
+ * Metadata extracted from a linked page
+ */
+export type LinkPreviewMetadata = {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+};
+
+/**
+ * Fetches preview metadata for a URL
+ * Resolves to null when the page cannot be previewed; never rejects
+ */
+export type LinkPreviewFetcher = (
+  url: string
+) => Promise<LinkPreviewMetadata | null>;
+
+/**
+ * Limits for a link preview fetcher
+ * `allowPrivateNetworks` lets the fetcher reach loopback and private hosts
+ * on any port, and is meant only for local fixture servers
+ */
+export type LinkPreviewFetcherOptions = {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  allowPrivateNetworks?: boolean;
+};
+
+/**
+ * Address ranges that are never fetched: private, loopback, link-local,
+ * carrier-grade NAT, multicast, documentation, and reserved networks.
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.0.2.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["198.51.100.0", 24],
+    ["203.0.113.0", 24],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+);
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["2001:db8::", 32],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+);
+
+/**
+ * Checks whether an IP address belongs to a blocked range
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns true if the address must not be fetched
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Builds a DNS lookup that refuses blocked addresses
+ * Used as the socket lookup, so the address that is checked is the
+ * address that is connected to
+ */
+const createGuardedLookup =
+  (allowPrivateNetworks: boolean): net.LookupFunction =>
+  (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err, "", 4);
+      const blocked = addresses.find(
+        ({ address }) => !allowPrivateNetworks && isBlockedAddress(address)
+      );
+      if (blocked || addresses.length === 0) {
+        const error: NodeJS.ErrnoException = new Error(
+          `Refusing to fetch ${hostname}`
+        );
+        error.code = "EBLOCKED";
+        return callback(error, "", 4);
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+/**
+ * Checks a URL before requesting it
+ *
+ * @param url - URL to request
+ * @param allowPrivateNetworks - Whether private hosts and other ports are allowed
+ * @returns true if the URL may be requested
+ */
+const isFetchableUrl = (url: URL, allowPrivateNetworks: boolean): boolean => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+  if (url.username || url.password) return false;
+  if (allowPrivateNetworks) return true;
+  if (url.port && url.port !== "80" && url.port !== "443") return false;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  // IP literals are connected to directly without a lookup
+  return net.isIP(host) === 0 || !isBlockedAddress(host);
+};
+
+/**
+ * Result of one request: a redirect target or the start of an HTML body
+ */
+type RequestResult =
+  | { type: "redirect"; location: URL }
+  | { type: "html"; html: string }
+  | { type: "skip" };
+
+/**
+ * Reads the charset from a Content-Type header
+ */
+const readCharset = (contentType: string): string => {
+  const match = /charset\s*=\s*"?([\w-]+)/i.exec(contentType);
+  return match ? match[1] : "utf-8";
+};
+
+/**
+ * Decodes a response body, falling back to UTF-8 for unknown charsets
+ */
+const decodeBody = (body: Buffer, charset: string): string => {
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+};
+
+/**
+ * Requests a single URL without following redirects
+ * Stops reading once maxBytes have arrived; the page head is all that is needed
+ */
+const requestOnce = (
+  url: URL,
+  options: {
+    signal: AbortSignal;
+    maxBytes: number;
+    lookup: net.LookupFunction;
+  }
+): Promise<RequestResult> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(
+      url,
+      {
+        signal: options.signal,
+        lookup: options.lookup,
+        headers: {
+          accept: "text/html,application/xhtml+xml",
+          "user-agent": "GroupChatLinkPreview/1.0",
+        },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        const location = res.headers.location;
+        if (status >= 300 && status < 400 && location) {
+          res.resume();
+          try {
+            resolve({ type: "redirect", location: new URL(location, url) });
+          } catch {
+            resolve({ type: "skip" });
+          }
+          return;
+        }
+
+        const contentType = String(res.headers["content-type"] ?? "");
+        if (status !== 200 || !/text\/html|xhtml/i.test(contentType)) {
+          res.resume();
+          resolve({ type: "skip" });
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        const finish = () =>
+          resolve({
+            type: "html",
+            html: decodeBody(Buffer.concat(chunks), readCharset(contentType)),
+          });
+        res.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          received += chunk.length;
+          if (received >= options.maxBytes) {
+            res.destroy();
+            finish();
+          }
+        });
+        res.on("end", finish);
+        res.on("error", reject);
+      }
+    );
+    req.on("error", reject);
+  });
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decodes the HTML entities commonly found in meta tags
+ */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? entity;
+    const point =
+      code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff
+      ? String.fromCodePoint(point)
+      : entity;
+  });
+
+/**
+ * Normalizes extracted text: decoded, single-spaced, and length-capped
+ */
+const cleanText = (
+  text: string | undefined,
+  maxLength: number
+): string | undefined => {
+  if (!text) return undefined;
+  const cleaned = decodeEntities(text).replace(/\s+/g, " ").trim();
+  if (!cleaned) return undefined;
+  return cleaned.length > maxLength
+    ? `${cleaned.slice(0, maxLength - 1)}…`
+    : cleaned;
+};
+
+/**
+ * Extracts preview metadata from the start of an HTML page
+ * OpenGraph tags win over Twitter card tags, which win over plain HTML
+ *
+ * @param html - Page HTML (only the head is read)
+ * @param pageUrl - Final page URL, for resolving relative image URLs
+ * @returns Metadata, or null if the page has no title or description
+ */
+export const parseLinkPreviewMetadata = (
+  html: string,
+  pageUrl: string
+): LinkPreviewMetadata | null => {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = new Map<string, string>();
+    for (const match of tag.matchAll(
+      /([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+    )) {
+      attrs.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4]);
+    }
+    const key = (attrs.get("property") ?? attrs.get("name"))?.toLowerCase();
+    const content = attrs.get("content");
+    if (key && content !== undefined && !meta.has(key)) meta.set(key, content);
+  }
+  const pick = (...keys: string[]) =>
+    keys.map((key) => meta.get(key)).find((value) => value?.trim());
+
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+  const title = cleanText(
+    pick("og:title", "twitter:title") ?? titleTag,
+    LINK_PREVIEWS.MAX_TITLE_LENGTH
+  );
+  const description = cleanText(
+    pick("og:description", "twitter:description", "description"),
+    LINK_PREVIEWS.MAX_DESCRIPTION_LENGTH
+  );
+  if (!title && !description) return null;
+
+  let imageUrl: string | undefined;
+  const image = pick(
+    "og:image:secure_url",
+    "og:image",
+    "og:image:url",
+    "twitter:image",
+    "twitter:image:src"
+  );
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image.trim()), pageUrl).href;
+      if (
+        isSafeUrl(resolved) &&
+        resolved.length <= LINK_PREVIEWS.MAX_URL_LENGTH
+      ) {
+        imageUrl = resolved;
+      }
+    } catch {}
+  }
+
+  return {
+    url: pageUrl,
+    title,
+    description,
+    imageUrl,
+    siteName:
+      cleanText(pick("og:site_name"), LINK_PREVIEWS.MAX_TITLE_LENGTH) ??
+      new URL(pageUrl).hostname,
+  };
+};
+
+/**
+ * Creates a link preview fetcher with the given limits
+ *
+ * @param options - Timeout, size, redirect, and network limits
+ * @returns Fetcher that resolves to metadata or null
+ */
+export const createLinkPreviewFetcher = (
+  options: LinkPreviewFetcherOptions = {}
+): LinkPreviewFetcher => {
+  const {
+    timeoutMs = LINK_PREVIEWS.TIMEOUT_MS,
+    maxBytes = LINK_PREVIEWS.MAX_BYTES,
+    maxRedirects = LINK_PREVIEWS.MAX_REDIRECTS,
+    allowPrivateNetworks = false,
+  } = options;
+  const lookup = createGuardedLookup(allowPrivateNetworks);
+
+  return async (rawUrl) => {
+    const signal = AbortSignal.timeout(timeoutMs);
+    try {
+      let url = new URL(rawUrl);
+      for (let hop = 0; hop <= maxRedirects; hop += 1) {
+        if (!isFetchableUrl(url, allowPrivateNetworks)) return null;
+        const result = await requestOnce(url, { signal, maxBytes, lookup });
+        if (result.type === "redirect") {
+          url = result.location;
+          continue;
+        }
+        return result.type === "html"
+          ? parseLinkPreviewMetadata(result.html, url.href)
+          : null;
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  };
+};
+
+let activeFetcher: LinkPreviewFetcher | null = null;
+
+/**
+ * Replaces the fetcher used by server actions
+ *
+ * @param fetcher - Fetcher to use, or null to restore the default
+ */
+export const setLinkPreviewFetcher = (fetcher: LinkPreviewFetcher | null) => {
+  activeFetcher = fetcher;
+};
+
+/**
+ * Returns the fetcher used by server actions
+ *
+ * @returns The fetcher set with setLinkPreviewFetcher, or the default one
+ */
+export const getLinkPreviewFetcher = (): LinkPreviewFetcher =>
+  (activeFetcher ??= createLinkPreviewFetcher());
@@ -0,0 +1,128 @@
+/**
+ * Message Outbox Storage
+ *
+ * This module persists messages that have not reached the server yet in
+ * IndexedDB, so unsent messages survive a page reload and can be retried.
+ * Every function resolves quietly when IndexedDB is unavailable (server
+ * rendering, private browsing), in which case the outbox only lives in memory.
+ */
+
+import { OUTBOX } from "@/utils/constants";
+import type { MessageReference } from "@/types";
+
+/**
+ * Message waiting in the outbox
+ * `clientId` is generated in the browser and doubles as the key; `quote` is
+ * the message being quoted, shown on the pending copy
+ */
+export type OutboxEntry = {
+  clientId: string;
+  userId: string;
+  spaceId: string;
+  content: string;
+  quote?: MessageReference;
+  createdAt: string;
+  status: "pending" | "failed";
+  attempts: number;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise
+ *
+ * @param request - Request to wait for
+ * @returns The request's result
+ */
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the outbox database once per page, creating the store if needed
+ *
+ * @returns Database handle, or null when IndexedDB cannot be used
+ */
+const openOutbox = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    const request = indexedDB.open(OUTBOX.DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX.STORE_NAME, {
+        keyPath: "clientId",
+      });
+      store.createIndex("userId", "userId");
+    };
+    dbPromise = toPromise(request).catch((error) => {
+      console.error("Failed to open message outbox:", error);
+      return null;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Loads a user's unsent messages, oldest first
+ *
+ * @param userId - Owner of the messages
+ * @returns Outbox entries for the user
+ */
+export async function loadOutbox(userId: string): Promise<OutboxEntry[]> {
+  const db = await openOutbox();
+  if (!db) return [];
+  try {
+    const entries = await toPromise<OutboxEntry[]>(
+      db
+        .transaction(OUTBOX.STORE_NAME, "readonly")
+        .objectStore(OUTBOX.STORE_NAME)
+        .index("userId")
+        .getAll(userId)
+    );
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error("Failed to read message outbox:", error);
+    return [];
+  }
+}
+
+/**
+ * Adds or replaces an outbox entry
+ *
+ * @param entry - Entry to store
+ */
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openOutbox();
+  if (!db) return;
+  try {
+    await toPromise(
+      db
+        .transaction(OUTBOX.STORE_NAME, "readwrite")
+        .objectStore(OUTBOX.STORE_NAME)
+        .put(entry)
+    );
+  } catch (error) {
+    console.error("Failed to save outbox entry:", error);
+  }
+}
+
+/**
+ * Removes an outbox entry once it has been sent or discarded
+ *
+ * @param clientId - Client ID of the entry
+ */
+export async function deleteOutboxEntry(clientId: string): Promise<void> {
+  const db = await openOutbox();
+  if (!db) return;
+  try {
+    await toPromise(
+      db
+        .transaction(OUTBOX.STORE_NAME, "readwrite")
+        .objectStore(OUTBOX.STORE_NAME)
+        .delete(clientId)
+    );
+  } catch (error) {
+    console.error("Failed to delete outbox entry:", error);
+  }
+}
@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
     contentDispositionType: "attachment",
     contentSecurityPolicy: "default-src 'self'; script-src 'none'; sandbox;",
   },
+  experimental: {
+    serverActions: {
+      // Room for ATTACHMENTS.MAX_TOTAL_BYTES plus the rest of the form
+      bodySizeLimit: "55mb",
+    },
+  },
   /* config options here */
 };
 
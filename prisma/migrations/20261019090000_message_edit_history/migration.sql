@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."message_revisions" (
+    "id" BIGSERIAL NOT NULL,
+    "messageId" BIGINT NOT NULL,
+    "content" TEXT NOT NULL,
+    "editorId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_revisions_messageId_createdAt_idx" ON "public"."message_revisions"("messageId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_revisions" ADD CONSTRAINT "message_revisions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_revisions" ADD CONSTRAINT "message_revisions_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
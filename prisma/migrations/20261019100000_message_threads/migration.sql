@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "parentId" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "messages_parentId_createdAt_idx" ON "public"."messages"("parentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
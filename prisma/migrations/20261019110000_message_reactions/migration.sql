@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."message_reactions" (
+    "messageId" BIGINT NOT NULL,
+    "userId" UUID NOT NULL,
+    "emoji" VARCHAR(32) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reactions_pkey" PRIMARY KEY ("messageId","userId","emoji")
+);
+
+-- CreateIndex
+CREATE INDEX "message_reactions_messageId_createdAt_idx" ON "public"."message_reactions"("messageId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_reactions" ADD CONSTRAINT "message_reactions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_reactions" ADD CONSTRAINT "message_reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."space_members" ADD COLUMN     "lastReadAt" TIMESTAMP(3),
+ADD COLUMN     "lastReadMessageId" BIGINT;
+
+-- Existing members start with everything already read
+UPDATE "public"."space_members" AS sm
+SET "lastReadMessageId" = latest."id",
+    "lastReadAt" = CURRENT_TIMESTAMP
+FROM (
+    SELECT "spaceId", MAX("id") AS "id"
+    FROM "public"."messages"
+    GROUP BY "spaceId"
+) AS latest
+WHERE latest."spaceId" = sm."spaceId";
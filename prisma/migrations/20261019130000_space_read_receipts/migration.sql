@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."spaces" ADD COLUMN     "readReceiptsEnabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "mentionsEveryone" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."spaces" ADD COLUMN     "membersCanMentionEveryone" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."message_mentions" (
+    "messageId" BIGINT NOT NULL,
+    "userId" UUID NOT NULL,
+
+    CONSTRAINT "message_mentions_pkey" PRIMARY KEY ("messageId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "message_mentions_userId_messageId_idx" ON "public"."message_mentions"("userId", "messageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_mentions" ADD CONSTRAINT "message_mentions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_mentions" ADD CONSTRAINT "message_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill mentions from existing message text
+INSERT INTO "public"."message_mentions" ("messageId", "userId")
+SELECT DISTINCT m."id", sm."userId"
+FROM "public"."messages" m
+JOIN "public"."space_members" sm ON sm."spaceId" = m."spaceId"
+JOIN "public"."users" u ON u."id" = sm."userId"
+WHERE m."content" NOT LIKE '\_\_ACTIVITY\_\_:%'
+  AND m."content" ~* ('(^|[^A-Za-z0-9_])@' || u."username" || '([^A-Za-z0-9_]|$)');
+
+UPDATE "public"."messages"
+SET "mentionsEveryone" = true
+WHERE "content" NOT LIKE '\_\_ACTIVITY\_\_:%'
+  AND "content" ~* '(^|[^A-Za-z0-9_])@(here|all)([^A-Za-z0-9_]|$)';
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."spaces" ADD COLUMN     "attachmentMaxBytes" INTEGER NOT NULL DEFAULT 10485760;
+
+-- CreateTable
+CREATE TABLE "public"."message_attachments" (
+    "id" BIGSERIAL NOT NULL,
+    "messageId" BIGINT NOT NULL,
+    "url" VARCHAR(2048) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "contentType" VARCHAR(255) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_attachments_messageId_idx" ON "public"."message_attachments"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_attachments" ADD CONSTRAINT "message_attachments_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "previewDismissed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "previewUrl" VARCHAR(2048);
+
+-- CreateTable
+CREATE TABLE "public"."link_previews" (
+    "url" VARCHAR(2048) NOT NULL,
+    "title" VARCHAR(300),
+    "description" VARCHAR(1000),
+    "imageUrl" VARCHAR(2048),
+    "siteName" VARCHAR(300),
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "link_previews_pkey" PRIMARY KEY ("url")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_previewUrl_fkey" FOREIGN KEY ("previewUrl") REFERENCES "public"."link_previews"("url") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."message_pins" (
+    "messageId" BIGINT NOT NULL,
+    "spaceId" UUID NOT NULL,
+    "pinnedById" UUID NOT NULL,
+    "pinnedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_pins_pkey" PRIMARY KEY ("messageId")
+);
+
+-- CreateIndex
+CREATE INDEX "message_pins_spaceId_pinnedAt_idx" ON "public"."message_pins"("spaceId", "pinnedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "public"."message_pins" ADD CONSTRAINT "message_pins_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_pins" ADD CONSTRAINT "message_pins_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "public"."spaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_pins" ADD CONSTRAINT "message_pins_pinnedById_fkey" FOREIGN KEY ("pinnedById") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateIndex
+-- Full-text search over message content. Prisma cannot describe expression
+-- indexes, so this index lives only in the migration; searchMessages must
+-- use the same to_tsvector('english', "content") expression to hit it.
+CREATE INDEX "messages_content_search_idx" ON "public"."messages" USING GIN (to_tsvector('english', "content"));
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "idempotencyKey" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_spaceId_userId_idempotencyKey_key" ON "public"."messages"("spaceId", "userId", "idempotencyKey");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."scheduled_messages" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "spaceId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "content" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "rrule" VARCHAR(200),
+    "timeZone" VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "runCount" INTEGER NOT NULL DEFAULT 0,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_nextRunAt_idx" ON "public"."scheduled_messages"("nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_spaceId_userId_nextRunAt_idx" ON "public"."scheduled_messages"("spaceId", "userId", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_messages" ADD CONSTRAINT "scheduled_messages_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "public"."spaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_messages" ADD CONSTRAINT "scheduled_messages_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,118 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivityKind" AS ENUM ('MEMBER_JOINED', 'MEMBER_LEFT', 'MEMBER_REMOVED', 'MEMBER_ROLE_CHANGED', 'SPACE_INFO_UPDATED', 'READ_RECEIPTS_CHANGED', 'MENTION_EVERYONE_CHANGED', 'ATTACHMENT_LIMIT_CHANGED', 'MESSAGE_PINNED', 'MESSAGE_UNPINNED', 'NOTE_CREATED', 'NOTE_UPDATED', 'NOTE_DELETED', 'LEGACY');
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "activityKind" "public"."ActivityKind",
+ADD COLUMN     "activityTargetId" VARCHAR(64),
+ADD COLUMN     "activityPayload" JSONB;
+
+-- Existing activity messages are stored as "__ACTIVITY__:" followed by HTML.
+-- Convert the phrasings the app has written to structured events. The author
+-- stays the actor; other members' names and note titles move to the payload
+-- as they were shown. Anything else becomes a LEGACY event with its text.
+CREATE FUNCTION pg_temp.activity_text(html TEXT) RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(
+        regexp_replace(html, '<[^>]*>', '', 'g'),
+        '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&')
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MEMBER_JOINED'
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> joined the space$';
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MEMBER_LEFT'
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> left the space$';
+
+UPDATE "public"."messages"
+SET "activityKind" = 'SPACE_INFO_UPDATED'
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> just updated the space info$';
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MESSAGE_PINNED'
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> pinned a message$';
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MESSAGE_UNPINNED'
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> unpinned a message$';
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = 'MEMBER_REMOVED',
+    "activityPayload" = jsonb_build_object('targetName', pg_temp.activity_text(x.parts[1]))
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> removed <strong>(.*)</strong> from the space$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = 'MEMBER_ROLE_CHANGED',
+    "activityPayload" = jsonb_build_object('targetName', pg_temp.activity_text(x.parts[1]), 'role', 'ADMIN')
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> made <strong>(.*)</strong> an admin$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = 'MEMBER_ROLE_CHANGED',
+    "activityPayload" = jsonb_build_object('targetName', pg_temp.activity_text(x.parts[1]), 'role', 'MEMBER')
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> changed <strong>(.*)</strong>''s role$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = 'READ_RECEIPTS_CHANGED',
+    "activityPayload" = jsonb_build_object('enabled', x.parts[1] = 'on')
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> turned read receipts (on|off)$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MENTION_EVERYONE_CHANGED',
+    "activityPayload" = jsonb_build_object('enabled', true)
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> let everyone mention @here and @all$';
+
+UPDATE "public"."messages"
+SET "activityKind" = 'MENTION_EVERYONE_CHANGED',
+    "activityPayload" = jsonb_build_object('enabled', false)
+WHERE "content" ~ '^__ACTIVITY__:<strong>[^<]*</strong> limited @here and @all to admins$';
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = 'ATTACHMENT_LIMIT_CHANGED',
+    "activityPayload" = jsonb_build_object(
+        'maxBytes',
+        round(x.parts[1]::numeric * power(1024, array_position(ARRAY['Bytes', 'KB', 'MB', 'GB'], x.parts[2]) - 1))::bigint
+    )
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> set the attachment limit to ([0-9.]+) (Bytes|KB|MB|GB)$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages" AS m
+SET "activityKind" = CASE x.parts[1]
+        WHEN 'just added a new note' THEN 'NOTE_CREATED'::"public"."ActivityKind"
+        WHEN 'just edited a note' THEN 'NOTE_UPDATED'::"public"."ActivityKind"
+        ELSE 'NOTE_DELETED'::"public"."ActivityKind"
+    END,
+    "activityPayload" = jsonb_build_object('title', pg_temp.activity_text(x.parts[2]))
+FROM (
+    SELECT "id", regexp_match("content", '^__ACTIVITY__:<strong>[^<]*</strong> (just added a new note|just edited a note|deleted a note): <strong>(.*)</strong>$') AS parts
+    FROM "public"."messages"
+) AS x
+WHERE x."id" = m."id" AND x.parts IS NOT NULL;
+
+UPDATE "public"."messages"
+SET "activityKind" = 'LEGACY',
+    "activityPayload" = jsonb_build_object('text', pg_temp.activity_text(substr("content", 14)))
+WHERE "content" ~ '^__ACTIVITY__:' AND "activityKind" IS NULL;
+
+-- Activity content becomes a plain-text summary without the prefix
+UPDATE "public"."messages"
+SET "content" = pg_temp.activity_text(substr("content", 14))
+WHERE "content" ~ '^__ACTIVITY__:';
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "public"."polls" (
+    "messageId" BIGINT NOT NULL,
+    "multipleChoice" BOOLEAN NOT NULL DEFAULT false,
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "closesAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("messageId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."poll_options" (
+    "id" BIGSERIAL NOT NULL,
+    "pollId" BIGINT NOT NULL,
+    "text" VARCHAR(200) NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."poll_votes" (
+    "optionId" BIGINT NOT NULL,
+    "userId" UUID NOT NULL,
+    "pollId" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poll_votes_pkey" PRIMARY KEY ("optionId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "poll_options_pollId_sortOrder_idx" ON "public"."poll_options"("pollId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "poll_votes_pollId_userId_idx" ON "public"."poll_votes"("pollId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."polls" ADD CONSTRAINT "polls_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_options" ADD CONSTRAINT "poll_options_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "public"."polls"("messageId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_votes" ADD CONSTRAINT "poll_votes_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "public"."poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_votes" ADD CONSTRAINT "poll_votes_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "public"."polls"("messageId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_votes" ADD CONSTRAINT "poll_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "quotedMessageId" BIGINT,
+ADD COLUMN     "quotedSenderName" VARCHAR(80),
+ADD COLUMN     "quotedExcerpt" VARCHAR(300),
+ADD COLUMN     "forwardedFromId" BIGINT,
+ADD COLUMN     "forwardedSenderName" VARCHAR(80),
+ADD COLUMN     "forwardedSpaceName" VARCHAR(80);
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_quotedMessageId_fkey" FOREIGN KEY ("quotedMessageId") REFERENCES "public"."messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_forwardedFromId_fkey" FOREIGN KEY ("forwardedFromId") REFERENCES "public"."messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."spaces" ADD COLUMN     "isDirect" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "directKey" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "spaces_directKey_key" ON "public"."spaces"("directKey");
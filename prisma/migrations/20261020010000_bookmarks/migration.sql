@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."BookmarkKind" AS ENUM ('MESSAGE', 'NOTE_BLOCK');
+
+-- CreateTable
+CREATE TABLE "public"."bookmarks" (
+    "id" BIGSERIAL NOT NULL,
+    "userId" UUID NOT NULL,
+    "kind" "public"."BookmarkKind" NOT NULL,
+    "messageId" BIGINT,
+    "noteId" BIGINT,
+    "blockIndex" SMALLINT,
+    "excerpt" VARCHAR(300),
+    "privateNote" VARCHAR(500),
+    "remindAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bookmarks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookmarks_userId_createdAt_idx" ON "public"."bookmarks"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bookmarks_userId_messageId_key" ON "public"."bookmarks"("userId", "messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bookmarks_userId_noteId_blockIndex_key" ON "public"."bookmarks"("userId", "noteId", "blockIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."bookmarks" ADD CONSTRAINT "bookmarks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bookmarks" ADD CONSTRAINT "bookmarks_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bookmarks" ADD CONSTRAINT "bookmarks_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "public"."notes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "public"."ActivityKind" ADD VALUE 'RETENTION_CHANGED';
+ALTER TYPE "public"."ActivityKind" ADD VALUE 'LEGAL_HOLD_CHANGED';
+
+-- AlterTable
+ALTER TABLE "public"."spaces" ADD COLUMN     "retentionDays" SMALLINT,
+ADD COLUMN     "legalHold" BOOLEAN NOT NULL DEFAULT false;
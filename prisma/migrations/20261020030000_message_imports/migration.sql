@@ -0,0 +1,107 @@
+-- CreateEnum
+CREATE TYPE "public"."ImportSource" AS ENUM ('SLACK', 'DISCORD');
+
+-- CreateEnum
+CREATE TYPE "public"."ImportStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "importKey" VARCHAR(100);
+
+-- CreateTable
+CREATE TABLE "public"."import_jobs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "userId" UUID NOT NULL,
+    "source" "public"."ImportSource" NOT NULL,
+    "status" "public"."ImportStatus" NOT NULL DEFAULT 'PENDING',
+    "fileName" VARCHAR(255) NOT NULL,
+    "report" JSONB NOT NULL,
+    "error" TEXT,
+    "totalMessages" INTEGER NOT NULL DEFAULT 0,
+    "importedMessages" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."import_channels" (
+    "id" BIGSERIAL NOT NULL,
+    "jobId" UUID NOT NULL,
+    "externalId" VARCHAR(64) NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "description" TEXT,
+    "memberExternalIds" VARCHAR(64)[],
+    "messageCount" INTEGER NOT NULL DEFAULT 0,
+    "spaceId" UUID,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "import_channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."import_authors" (
+    "id" BIGSERIAL NOT NULL,
+    "jobId" UUID NOT NULL,
+    "externalId" VARCHAR(64) NOT NULL,
+    "importKey" VARCHAR(100) NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "email" CITEXT,
+    "userId" UUID,
+
+    CONSTRAINT "import_authors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."import_messages" (
+    "id" BIGSERIAL NOT NULL,
+    "channelId" BIGINT NOT NULL,
+    "externalId" VARCHAR(64) NOT NULL,
+    "authorExternalId" VARCHAR(64) NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "parentExternalId" VARCHAR(64),
+    "quotedExternalId" VARCHAR(64),
+    "messageId" BIGINT,
+
+    CONSTRAINT "import_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_importKey_key" ON "public"."users"("importKey");
+
+-- CreateIndex
+CREATE INDEX "import_jobs_userId_createdAt_idx" ON "public"."import_jobs"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_channels_jobId_externalId_key" ON "public"."import_channels"("jobId", "externalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_authors_jobId_externalId_key" ON "public"."import_authors"("jobId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "import_messages_channelId_createdAt_idx" ON "public"."import_messages"("channelId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_messages_channelId_externalId_key" ON "public"."import_messages"("channelId", "externalId");
+
+-- AddForeignKey
+ALTER TABLE "public"."import_jobs" ADD CONSTRAINT "import_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_channels" ADD CONSTRAINT "import_channels_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."import_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_channels" ADD CONSTRAINT "import_channels_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "public"."spaces"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_authors" ADD CONSTRAINT "import_authors_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."import_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_authors" ADD CONSTRAINT "import_authors_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_messages" ADD CONSTRAINT "import_messages_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "public"."import_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."scheduled_messages" ADD COLUMN     "failureCount" INTEGER NOT NULL DEFAULT 0;
@@ -1,4 +1,23 @@
-import type { Message, Note, SpaceWithNotes } from "./index";
+import type {
+  ActivityEvent,
+  ImportJobSummary,
+  Message,
+  MessagePage,
+  MessageSearchPage,
+  MessageThread,
+  Note,
+  PinnedMessage,
+  Poll,
+  PollInput,
+  ReactionSummary,
+  SavedItem,
+  SaveItemInput,
+  ScheduledMessage,
+  SlashCommandInfo,
+  SlashCommandResult,
+  SpaceWithNotes,
+  UserSummary,
+} from "./index";
 
 export type NoteBlockItemPayload = {
   id?: string;
@@ -19,12 +38,90 @@ export type AppActions = {
   createSpace: (name: string, description?: string) => Promise<SpaceWithNotes>;
   getSpaceDetail: (spaceId: string) => Promise<SpaceWithNotes>;
   joinSpace: (spaceId: string) => Promise<string>;
+  markSpaceRead?: (
+    spaceId: string,
+    messageId?: string
+  ) => Promise<{ spaceId: string; lastReadMessageId: string | null }>;
   leaveSpace?: (spaceId: string) => Promise<{ success: true }>;
-  sendMessage: (spaceId: string, content: string) => Promise<Message>;
-  listMessages: (spaceId: string) => Promise<Message[]>;
+  searchPeople?: (query: string) => Promise<UserSummary[]>;
+  startDirectMessage?: (userIds: string[]) => Promise<SpaceWithNotes>;
+  previewImport?: (formData: FormData) => Promise<ImportJobSummary>;
+  runImport?: (jobId: string) => Promise<ImportJobSummary>;
+  listImportJobs?: () => Promise<ImportJobSummary[]>;
+  discardImportJob?: (jobId: string) => Promise<void>;
+  sendMessage: (
+    spaceId: string,
+    content: string,
+    idempotencyKey?: string,
+    quotedMessageId?: string
+  ) => Promise<Message>;
+  listMessages: (
+    spaceId: string,
+    options?: { before?: string; after?: string; limit?: number }
+  ) => Promise<MessagePage>;
+  searchMessages?: (
+    query: string,
+    cursor?: string
+  ) => Promise<MessageSearchPage>;
+  sendMessageWithAttachments?: (formData: FormData) => Promise<Message>;
+  forwardMessage?: (
+    messageId: string,
+    targetSpaceId: string
+  ) => Promise<Message>;
+  sendReply?: (parentId: string, content: string) => Promise<Message>;
+  sendTypingSignal?: (spaceId: string) => Promise<unknown>;
+  listThread?: (parentId: string) => Promise<MessageThread>;
+  editMessage?: (messageId: string, content: string) => Promise<Message>;
+  dismissLinkPreview?: (messageId: string) => Promise<Message>;
+  deleteMessage?: (
+    messageId: string
+  ) => Promise<{ spaceId: string; id: string }>;
+  toggleReaction?: (
+    messageId: string,
+    emoji: string
+  ) => Promise<{
+    spaceId: string;
+    messageId: string;
+    reactions: ReactionSummary[];
+  }>;
+  pinMessage?: (
+    messageId: string
+  ) => Promise<{ spaceId: string; pin: PinnedMessage }>;
+  unpinMessage?: (
+    messageId: string
+  ) => Promise<{ spaceId: string; messageId: string }>;
+  scheduleMessage?: (
+    spaceId: string,
+    content: string,
+    sendAt: string,
+    rrule?: string,
+    timeZone?: string
+  ) => Promise<ScheduledMessage>;
+  cancelScheduledMessage?: (
+    scheduledMessageId: string
+  ) => Promise<{ spaceId: string; id: string }>;
+  listScheduledMessages?: (spaceId: string) => Promise<ScheduledMessage[]>;
+  createPoll?: (spaceId: string, poll: PollInput) => Promise<Message>;
+  votePoll?: (
+    messageId: string,
+    optionIds: string[]
+  ) => Promise<{ spaceId: string; messageId: string; poll: Poll }>;
+  closePoll?: (
+    messageId: string
+  ) => Promise<{ spaceId: string; messageId: string; poll: Poll }>;
+  saveItem?: (input: SaveItemInput) => Promise<SavedItem>;
+  unsaveItem?: (savedItemId: string) => Promise<{ id: string }>;
+  listSavedItems?: () => Promise<SavedItem[]>;
+  listSlashCommands?: () => Promise<SlashCommandInfo[]>;
+  runSlashCommand?: (
+    spaceId: string,
+    input: string,
+    noteId?: string
+  ) => Promise<SlashCommandResult>;
   sendActivityMessage?: (
     spaceId: string,
-    htmlContent: string
+    activity: ActivityEvent,
+    idempotencyKey?: string
   ) => Promise<Message>;
   createNote: (
     spaceId: string,
@@ -8,6 +8,8 @@ export interface User {
   updatedAt?: string;
 }
 
+export type UserSummary = Pick<User, "id" | "name" | "username" | "avatar">;
+
 export interface Space {
   id: string;
   name: string;
@@ -18,6 +20,14 @@ export interface Space {
   lastMessageTimestamp?: string;
   createdAt?: string;
   members?: SpaceMember[];
+  unreadCount?: number;
+  mentionCount?: number;
+  readReceiptsEnabled?: boolean;
+  membersCanMentionEveryone?: boolean;
+  attachmentMaxBytes?: number;
+  retentionDays?: number | null;
+  legalHold?: boolean;
+  isDirect?: boolean;
 }
 
 export interface Message {
@@ -27,7 +37,261 @@ export interface Message {
   isSent?: boolean;
   senderName?: string;
   username?: string;
-  type?: "text" | "activity";
+  type?: "text" | "activity" | "ephemeral";
+  editedAt?: string;
+  isDeleted?: boolean;
+  parentId?: string;
+  replyCount?: number;
+  latestRepliers?: string[];
+  lastReplyAt?: string;
+  reactions?: ReactionSummary[];
+  mentions?: MessageMention[];
+  mentionsEveryone?: boolean;
+  attachments?: MessageAttachment[];
+  linkPreview?: LinkPreview;
+  clientId?: string;
+  status?: "pending" | "failed";
+  activity?: MessageActivity;
+  poll?: Poll;
+  quote?: MessageReference;
+  forwardedFrom?: MessageReference;
+}
+
+export interface MessageReference {
+  messageId?: string;
+  spaceId?: string;
+  senderName: string;
+  excerpt?: string;
+  spaceName?: string;
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+  voteCount: number;
+  voters?: ReactionUser[];
+}
+
+export interface Poll {
+  messageId: string;
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+  closedAt?: string;
+  options: PollOption[];
+  voterCount: number;
+  myVotes?: string[];
+}
+
+export interface PollInput {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string;
+}
+
+export type ActivityKind =
+  | "MEMBER_JOINED"
+  | "MEMBER_LEFT"
+  | "MEMBER_REMOVED"
+  | "MEMBER_ROLE_CHANGED"
+  | "SPACE_INFO_UPDATED"
+  | "READ_RECEIPTS_CHANGED"
+  | "MENTION_EVERYONE_CHANGED"
+  | "ATTACHMENT_LIMIT_CHANGED"
+  | "MESSAGE_PINNED"
+  | "MESSAGE_UNPINNED"
+  | "NOTE_CREATED"
+  | "NOTE_UPDATED"
+  | "NOTE_DELETED"
+  | "RETENTION_CHANGED"
+  | "LEGAL_HOLD_CHANGED"
+  | "LEGACY";
+
+export interface ActivityPayload {
+  targetName?: string;
+  role?: "ADMIN" | "MEMBER";
+  title?: string;
+  enabled?: boolean;
+  maxBytes?: number;
+  retentionDays?: number | null;
+  text?: string;
+}
+
+export interface ActivityEvent {
+  kind: ActivityKind;
+  targetId?: string;
+  payload?: ActivityPayload;
+}
+
+export interface MessageActivity extends ActivityEvent {
+  actorName: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface PinnedMessage {
+  message: Message;
+  pinnedAt: string;
+  pinnedByName: string;
+}
+
+export interface ScheduledMessage {
+  id: string;
+  spaceId: string;
+  content: string;
+  nextRunAt: string;
+  rrule?: string;
+  timeZone: string;
+}
+
+export interface SlashCommandInfo {
+  name: string;
+  usage: string;
+  description: string;
+  adminOnly: boolean;
+}
+
+export interface SlashCommandResult {
+  reply: string;
+  openNoteId?: string;
+  leftSpace?: boolean;
+}
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+export interface MessageMention {
+  userId: string;
+  username: string;
+  name: string;
+}
+
+export interface MentionCandidate {
+  username: string;
+  name: string;
+  avatar?: string;
+  isBroadcast?: boolean;
+}
+
+export interface ReactionUser {
+  username: string;
+  name: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: ReactionUser[];
+}
+
+export interface ThreadSummary {
+  parentId: string;
+  replyCount: number;
+  latestRepliers: string[];
+  lastReplyAt?: string;
+}
+
+export interface MessageThread {
+  parent: Message;
+  replies: Message[];
+}
+
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  spaceId: string;
+  spaceName: string;
+  snippet: SearchSnippetPart[];
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[];
+  nextCursor: string | null;
+}
+
+export interface SavedItem {
+  id: string;
+  kind: "message" | "noteBlock";
+  privateNote?: string;
+  remindAt?: string;
+  createdAt: string;
+  spaceId?: string;
+  spaceName?: string;
+  message?: Message;
+  noteId?: string;
+  noteTitle?: string;
+  blockIndex?: number;
+  excerpt?: string;
+  isDeleted?: boolean;
+}
+
+export interface SaveItemInput {
+  messageId?: string;
+  noteId?: string;
+  blockIndex?: number;
+  privateNote?: string | null;
+  remindAt?: string | null;
+}
+
+export type TranscriptFormat = "markdown" | "html" | "json";
+
+export interface ImportReport {
+  source: "slack" | "discord";
+  channels: {
+    name: string;
+    messageCount: number;
+    replyCount: number;
+    firstMessageAt?: string;
+    lastMessageAt?: string;
+  }[];
+  /** Export author whose email is the importer's, imported as them */
+  importerAuthor?: string;
+  /** Every other author; matched accounts are not told apart from placeholders */
+  otherAuthors: { count: number; names: string[] };
+  skipped: {
+    systemEvents: number;
+    botMessages: number;
+    emptyMessages: number;
+    directMessages: number;
+  };
+  warnings: string[];
+}
+
+export interface ImportJobSummary {
+  id: string;
+  source: "slack" | "discord";
+  status: "pending" | "running" | "completed" | "failed";
+  fileName: string;
+  report: ImportReport;
+  totalMessages: number;
+  importedMessages: number;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
 }
 
 export interface ProfileState {
@@ -41,6 +305,10 @@ export interface ProfileState {
 
 export type SpaceWithMessages = Space & {
   messages: Message[];
+  olderMessagesCursor?: string | null;
+  firstUnreadMessageId?: string | null;
+  readPointers?: Record<string, string>;
+  pinnedMessages?: PinnedMessage[];
 };
 
 export interface NoteBlockItem {
@@ -76,7 +344,8 @@ export interface SpaceMemberUser {
   id: string;
   name: string;
   username: string;
-  email: string;
+  /** Left out of realtime broadcasts */
+  email?: string;
   avatar?: string;
 }
 
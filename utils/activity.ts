@@ -1,33 +1,122 @@
 /**
  * Activity Message Utilities
  *
- * This module provides utilities for handling activity messages:
- * - Activity message prefix identification
- * - Content filtering and processing
- * - Message type differentiation
+ * This module describes the activity events shown in the chat timeline:
+ * - Splitting an event into plain and emphasized text segments
+ * - Plain-text summaries stored with activity messages
+ *
+ * Names and titles are returned as text for components to render, so user
+ * input never reaches the page as HTML.
  */
 
+import { formatFileSize } from "@/utils/formatters";
+import type { MessageActivity } from "@/types";
+
 /**
- * Prefix used to identify activity messages in the database
+ * Piece of an activity description; names and titles are emphasized
  */
-export const ACTIVITY_PREFIX = "__ACTIVITY__:";
+export type ActivitySegment = {
+  text: string;
+  strong?: boolean;
+};
 
 /**
- * Checks if a message content is an activity message
+ * Splits an activity event into text segments for display
  *
- * @param content - Message content to check
- * @returns true if the content is an activity message
+ * @param activity - Activity event with the actor's name
+ * @returns Segments that read as a sentence when joined
  */
-export function isActivityContent(content: string): boolean {
-  return content.startsWith(ACTIVITY_PREFIX);
+export function getActivitySegments(
+  activity: MessageActivity
+): ActivitySegment[] {
+  const payload = activity.payload ?? {};
+  const actor = { text: activity.actorName, strong: true };
+  const target = { text: payload.targetName || "Someone", strong: true };
+  const title = { text: payload.title || "Untitled", strong: true };
+
+  switch (activity.kind) {
+    case "MEMBER_JOINED":
+      return [actor, { text: " joined the space" }];
+    case "MEMBER_LEFT":
+      return [actor, { text: " left the space" }];
+    case "MEMBER_REMOVED":
+      return [
+        actor,
+        { text: " removed " },
+        target,
+        { text: " from the space" },
+      ];
+    case "MEMBER_ROLE_CHANGED":
+      return payload.role === "ADMIN"
+        ? [actor, { text: " made " }, target, { text: " an admin" }]
+        : [actor, { text: " changed " }, target, { text: "'s role" }];
+    case "SPACE_INFO_UPDATED":
+      return [actor, { text: " just updated the space info" }];
+    case "READ_RECEIPTS_CHANGED":
+      return [
+        actor,
+        { text: ` turned read receipts ${payload.enabled ? "on" : "off"}` },
+      ];
+    case "MENTION_EVERYONE_CHANGED":
+      return [
+        actor,
+        {
+          text: payload.enabled
+            ? " let everyone mention @here and @all"
+            : " limited @here and @all to admins",
+        },
+      ];
+    case "ATTACHMENT_LIMIT_CHANGED":
+      return [
+        actor,
+        {
+          text: ` set the attachment limit to ${formatFileSize(
+            payload.maxBytes ?? 0
+          )}`,
+        },
+      ];
+    case "RETENTION_CHANGED":
+      return [
+        actor,
+        {
+          text: payload.retentionDays
+            ? ` set messages to be deleted after ${payload.retentionDays} days`
+            : " set messages to be kept forever",
+        },
+      ];
+    case "LEGAL_HOLD_CHANGED":
+      return [
+        actor,
+        {
+          text: payload.enabled
+            ? " placed the space on legal hold"
+            : " lifted the legal hold",
+        },
+      ];
+    case "MESSAGE_PINNED":
+      return [actor, { text: " pinned a message" }];
+    case "MESSAGE_UNPINNED":
+      return [actor, { text: " unpinned a message" }];
+    case "NOTE_CREATED":
+      return [actor, { text: " just added a new note: " }, title];
+    case "NOTE_UPDATED":
+      return [actor, { text: " just edited a note: " }, title];
+    case "NOTE_DELETED":
+      return [actor, { text: " deleted a note: " }, title];
+    case "LEGACY":
+      return [{ text: payload.text ?? "" }];
+  }
 }
 
 /**
- * Removes the activity prefix from message content
+ * Describes an activity event as plain text
+ * Stored as the content of activity messages
  *
- * @param content - Message content with activity prefix
- * @returns Content without the activity prefix
+ * @param activity - Activity event with the actor's name
+ * @returns Sentence such as "Ada joined the space"
  */
-export function stripActivityPrefix(content: string): string {
-  return content.replace(ACTIVITY_PREFIX, "");
+export function describeActivity(activity: MessageActivity): string {
+  return getActivitySegments(activity)
+    .map((segment) => segment.text)
+    .join("");
 }
@@ -0,0 +1,98 @@
+/**
+ * Attachment Utilities
+ *
+ * This module provides helpers shared by the upload UI and server actions:
+ * - Content-type allowlist matching (with `type/*` wildcards)
+ * - Per-file and per-message size checks with readable errors
+ * - Image detection for thumbnail rendering
+ */
+
+import { ATTACHMENTS } from "@/utils/constants";
+import { formatFileSize } from "@/utils/formatters";
+
+/**
+ * Minimal file shape shared by browser File objects and form entries
+ */
+type FileLike = {
+  name: string;
+  size: number;
+  type: string;
+};
+
+/**
+ * Checks a content type against an allowlist
+ *
+ * @param contentType - MIME type reported for the file
+ * @param allowedTypes - Allowed MIME types; `image/*` style wildcards match a whole family
+ * @returns true if the content type is allowed
+ */
+export const isAllowedContentType = (
+  contentType: string,
+  allowedTypes: readonly string[]
+): boolean => {
+  const type = contentType.toLowerCase();
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith("/*")
+      ? type.startsWith(allowed.slice(0, -1))
+      : type === allowed
+  );
+};
+
+/**
+ * Validates a single file against a size limit and content-type allowlist
+ *
+ * @param file - File to check
+ * @param maxBytes - Largest allowed file size
+ * @param allowedTypes - Allowed MIME types
+ * @returns Error message, or null if the file is acceptable
+ */
+export const validateUploadFile = (
+  file: FileLike,
+  maxBytes: number,
+  allowedTypes: readonly string[]
+): string | null => {
+  if (file.size <= 0) return `${file.name} is empty`;
+  if (file.size > maxBytes) {
+    return `${file.name} is larger than ${formatFileSize(maxBytes)}`;
+  }
+  if (!isAllowedContentType(file.type || "", allowedTypes)) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+};
+
+/**
+ * Validates the files attached to one message
+ *
+ * @param files - Files to attach
+ * @param maxBytes - Space's per-file size limit
+ * @returns Error message, or null if all files are acceptable
+ */
+export const validateAttachments = (
+  files: FileLike[],
+  maxBytes: number
+): string | null => {
+  if (files.length > ATTACHMENTS.MAX_FILES) {
+    return `You can attach up to ${ATTACHMENTS.MAX_FILES} files at once`;
+  }
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > ATTACHMENTS.MAX_TOTAL_BYTES) {
+    return `Attachments are limited to ${formatFileSize(
+      ATTACHMENTS.MAX_TOTAL_BYTES
+    )} per message`;
+  }
+  for (const file of files) {
+    const error = validateUploadFile(file, maxBytes, ATTACHMENTS.ALLOWED_TYPES);
+    if (error) return error;
+  }
+  return null;
+};
+
+/**
+ * Checks whether an attachment can be shown as an image thumbnail
+ *
+ * @param contentType - MIME type of the attachment
+ * @returns true for image attachments
+ */
+export const isImageAttachment = (contentType: string): boolean =>
+  contentType.toLowerCase().startsWith("image/");
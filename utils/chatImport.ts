@@ -0,0 +1,514 @@
+/**
+ * Chat Export Parsing Utilities
+ *
+ * This module reads chat exports from other apps into one shape:
+ * - Slack workspace exports (zip with users.json, channels.json and a
+ *   folder of daily JSON files per channel)
+ * - Discord channel exports in DiscordChatExporter's JSON format
+ *
+ * Parsing never touches the database. Join/leave notices and other system
+ * events, bot posts, and empty messages are counted and left out; Slack
+ * direct messages are counted but not imported. Attached files are listed
+ * by name in the message text since their URLs need the source app's login.
+ */
+
+import { readZipEntries, type ZipEntry } from "@/utils/zipArchive";
+import { truncateText } from "@/utils/formatters";
+import { IMPORTS } from "@/utils/constants";
+import type { ImportReport } from "@/types";
+
+/**
+ * A message ready to be staged, keyed by its ID in the source app
+ */
+export interface ParsedMessage {
+  externalId: string;
+  authorExternalId: string;
+  content: string;
+  createdAt: Date;
+  editedAt?: Date;
+  parentExternalId?: string;
+  quotedExternalId?: string;
+}
+
+export interface ParsedChannel {
+  externalId: string;
+  name: string;
+  description?: string;
+  memberExternalIds: string[];
+  messages: ParsedMessage[];
+}
+
+export interface ParsedAuthor {
+  externalId: string;
+  importKey: string;
+  name: string;
+  email?: string;
+}
+
+/**
+ * Everything read from an export, before authors are matched to accounts
+ */
+export interface ParsedArchive {
+  source: "SLACK" | "DISCORD";
+  channels: ParsedChannel[];
+  authors: ParsedAuthor[];
+  skipped: ImportReport["skipped"];
+  warnings: string[];
+}
+
+/**
+ * Slack message subtypes that are real messages; every other subtype is a
+ * system event such as a join, leave or topic change
+ */
+const SLACK_MESSAGE_SUBTYPES = new Set([
+  "thread_broadcast",
+  "file_share",
+  "me_message",
+]);
+
+/**
+ * Discord message types that are real messages
+ */
+const DISCORD_MESSAGE_TYPES = new Set(["Default", "Reply"]);
+
+/**
+ * Longest space name, matching the space name column
+ */
+const MAX_CHANNEL_NAME_LENGTH = 80;
+
+/**
+ * Reads a value as a non-empty string
+ *
+ * @param value - Any JSON value
+ * @returns The string, or undefined if it is not a non-empty string
+ */
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.length > 0 ? value : undefined;
+
+/**
+ * Reads a value as a JSON object
+ *
+ * @param value - Any JSON value
+ * @returns The object, or an empty object if it is something else
+ */
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+/**
+ * Reads a value as a JSON array
+ *
+ * @param value - Any JSON value
+ * @returns The array, or an empty array if it is something else
+ */
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+/**
+ * Parses JSON from an archive entry
+ *
+ * @param entry - Zip entry holding JSON
+ * @returns Parsed value
+ * @throws Error naming the entry if it is not valid JSON
+ */
+const readJson = (entry: ZipEntry): unknown => {
+  try {
+    return JSON.parse(entry.read().toString("utf8"));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${entry.name} is not valid JSON`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fits a channel name to the space name column
+ *
+ * @param name - Channel name from the export
+ * @returns Name to give the space
+ */
+const toSpaceName = (name: string): string =>
+  truncateText(name.trim() || "Imported channel", MAX_CHANNEL_NAME_LENGTH - 3);
+
+/**
+ * Converts Slack message markup to plain text
+ * User mentions become @names, channel links #names, and links keep both
+ * their label and URL
+ *
+ * @param text - Slack mrkdwn text
+ * @param userNames - Display names keyed by Slack user ID
+ * @returns Text for the imported message
+ */
+export const slackToText = (
+  text: string,
+  userNames: Map<string, string>
+): string =>
+  text
+    .replace(/<([^<>]+)>/g, (_match, inner: string) => {
+      const [target, label] = inner.split("|", 2);
+      if (target.startsWith("@")) {
+        return `@${label || userNames.get(target.slice(1)) || target.slice(1)}`;
+      }
+      if (target.startsWith("#")) return `#${label || target.slice(1)}`;
+      if (target === "!here") return "@here";
+      if (target === "!channel" || target === "!everyone") return "@all";
+      if (target.startsWith("!")) return label || target.slice(1);
+      const url = target.replace(/^mailto:/, "");
+      return label && label !== url ? `${label} (${url})` : url;
+    })
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Reads a Slack timestamp such as "1697712000.000200"
+ *
+ * @param ts - Slack message timestamp
+ * @returns Time the message was posted, or undefined if unreadable
+ */
+const fromSlackTs = (ts: unknown): Date | undefined => {
+  const seconds = typeof ts === "string" ? Number(ts) : NaN;
+  return Number.isFinite(seconds) ? new Date(seconds * 1000) : undefined;
+};
+
+/**
+ * Appends the names of attached files to message text
+ *
+ * @param content - Message text
+ * @param fileNames - Names of the attached files
+ * @returns Text with one "📎 name" line per file
+ */
+const withFileNames = (content: string, fileNames: string[]): string =>
+  [content, ...fileNames.map((name) => `📎 ${name}`)]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Drops thread and reply links to messages that are not in the channel,
+ * so those messages are imported on their own
+ *
+ * @param channel - Parsed channel
+ */
+const dropMissingReferences = (channel: ParsedChannel) => {
+  const ids = new Set(channel.messages.map((m) => m.externalId));
+  for (const message of channel.messages) {
+    if (message.parentExternalId && !ids.has(message.parentExternalId)) {
+      message.parentExternalId = undefined;
+    }
+    if (message.quotedExternalId && !ids.has(message.quotedExternalId)) {
+      message.quotedExternalId = undefined;
+    }
+  }
+};
+
+/**
+ * Reads a Slack workspace export
+ *
+ * @param entries - Files in the export zip
+ * @returns Channels, authors, and what was left out
+ * @throws Error if the export is missing its user or channel list
+ */
+const parseSlackExport = (entries: ZipEntry[]): ParsedArchive => {
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+  const usersEntry = entries.find(
+    (entry) => entry.name === "users.json" || entry.name.endsWith("/users.json")
+  );
+  if (!usersEntry) {
+    throw new Error("This zip is not a Slack export: users.json is missing");
+  }
+  const root = usersEntry.name.slice(0, -"users.json".length);
+  const readList = (name: string) => {
+    const entry = byName.get(root + name);
+    return entry ? asArray(readJson(entry)) : [];
+  };
+
+  const skipped = {
+    systemEvents: 0,
+    botMessages: 0,
+    emptyMessages: 0,
+    directMessages: readList("dms.json").length + readList("mpims.json").length,
+  };
+  const warnings: string[] = [];
+
+  const authors = new Map<string, ParsedAuthor>();
+  const userNames = new Map<string, string>();
+  for (const raw of readList("users.json")) {
+    const user = asRecord(raw);
+    const id = asString(user.id);
+    if (!id) continue;
+    const profile = asRecord(user.profile);
+    const name =
+      asString(profile.real_name) ||
+      asString(user.real_name) ||
+      asString(profile.display_name) ||
+      asString(user.name) ||
+      id;
+    userNames.set(id, asString(profile.display_name) || name);
+    if (user.is_bot === true) continue;
+    authors.set(id, {
+      externalId: id,
+      importKey: `slack:${asString(user.team_id) ?? "workspace"}:${id}`,
+      name,
+      email: asString(profile.email)?.toLowerCase(),
+    });
+  }
+
+  const channelList = [
+    ...readList("channels.json"),
+    ...readList("groups.json"),
+  ].map(asRecord);
+  if (channelList.length === 0) {
+    throw new Error("The Slack export has no channels to import");
+  }
+
+  let total = 0;
+  const usedAuthorIds = new Set<string>();
+  const channels: ParsedChannel[] = [];
+  for (const raw of channelList) {
+    const externalId = asString(raw.id);
+    const folder = asString(raw.name);
+    if (!externalId || !folder) continue;
+
+    const files = entries
+      .filter(
+        (entry) =>
+          entry.name.startsWith(`${root}${folder}/`) &&
+          entry.name.endsWith(".json")
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const messages: ParsedMessage[] = [];
+    for (const file of files) {
+      for (const item of asArray(readJson(file))) {
+        const message = asRecord(item);
+        const subtype = asString(message.subtype);
+        if (
+          message.type !== "message" ||
+          (subtype &&
+            subtype !== "bot_message" &&
+            !SLACK_MESSAGE_SUBTYPES.has(subtype))
+        ) {
+          skipped.systemEvents++;
+          continue;
+        }
+        const userId = asString(message.user);
+        if (
+          subtype === "bot_message" ||
+          !userId ||
+          (message.bot_id && !authors.has(userId))
+        ) {
+          skipped.botMessages++;
+          continue;
+        }
+        const ts = asString(message.ts);
+        const createdAt = fromSlackTs(ts);
+        if (!ts || !createdAt) {
+          skipped.systemEvents++;
+          continue;
+        }
+        const content = withFileNames(
+          slackToText(asString(message.text) ?? "", userNames).trim(),
+          asArray(message.files).flatMap((file) => {
+            const name = asString(asRecord(file).name);
+            return name ? [name] : [];
+          })
+        );
+        if (!content) {
+          skipped.emptyMessages++;
+          continue;
+        }
+
+        if (!authors.has(userId)) {
+          const profile = asRecord(message.user_profile);
+          authors.set(userId, {
+            externalId: userId,
+            importKey: `slack:${
+              asString(message.team) ?? "workspace"
+            }:${userId}`,
+            name:
+              asString(profile.real_name) || asString(profile.name) || userId,
+          });
+        }
+        usedAuthorIds.add(userId);
+
+        if (++total > IMPORTS.MAX_MESSAGES) {
+          throw new Error(
+            `The export has more than ${IMPORTS.MAX_MESSAGES} messages; export fewer channels at a time`
+          );
+        }
+        const threadTs = asString(message.thread_ts);
+        messages.push({
+          externalId: ts,
+          authorExternalId: userId,
+          content,
+          createdAt,
+          editedAt: fromSlackTs(asRecord(message.edited).ts),
+          parentExternalId: threadTs && threadTs !== ts ? threadTs : undefined,
+        });
+      }
+    }
+
+    const channel: ParsedChannel = {
+      externalId,
+      name: toSpaceName(folder),
+      description:
+        asString(asRecord(raw.purpose).value) ||
+        asString(asRecord(raw.topic).value),
+      memberExternalIds: asArray(raw.members).flatMap((id) =>
+        typeof id === "string" ? [id] : []
+      ),
+      messages,
+    };
+    dropMissingReferences(channel);
+    if (files.length === 0) {
+      warnings.push(`#${folder} has no message files and will be empty`);
+    }
+    channels.push(channel);
+  }
+
+  return {
+    source: "SLACK",
+    channels,
+    authors: [...authors.values()].filter(
+      (author) =>
+        usedAuthorIds.has(author.externalId) ||
+        channels.some((c) => c.memberExternalIds.includes(author.externalId))
+    ),
+    skipped,
+    warnings,
+  };
+};
+
+/**
+ * Reads a Discord channel export made with DiscordChatExporter
+ *
+ * @param data - Parsed JSON export
+ * @returns The channel, its authors, and what was left out
+ * @throws Error if the JSON is not a Discord channel export
+ */
+const parseDiscordExport = (data: unknown): ParsedArchive => {
+  const root = asRecord(data);
+  const channelInfo = asRecord(root.channel);
+  const externalId = asString(channelInfo.id);
+  if (!externalId || !Array.isArray(root.messages)) {
+    throw new Error(
+      "This file is not a Discord export: channel or messages are missing"
+    );
+  }
+  if (root.messages.length > IMPORTS.MAX_MESSAGES) {
+    throw new Error(
+      `The export has more than ${IMPORTS.MAX_MESSAGES} messages; export a shorter date range`
+    );
+  }
+
+  const skipped = {
+    systemEvents: 0,
+    botMessages: 0,
+    emptyMessages: 0,
+    directMessages: 0,
+  };
+  const authors = new Map<string, ParsedAuthor>();
+  const messages: ParsedMessage[] = [];
+
+  for (const item of root.messages) {
+    const message = asRecord(item);
+    const id = asString(message.id);
+    const type = asString(message.type);
+    const createdAt = new Date(asString(message.timestamp) ?? "");
+    if (
+      !id ||
+      !type ||
+      !DISCORD_MESSAGE_TYPES.has(type) ||
+      Number.isNaN(createdAt.getTime())
+    ) {
+      skipped.systemEvents++;
+      continue;
+    }
+    const author = asRecord(message.author);
+    const authorId = asString(author.id);
+    if (!authorId || author.isBot === true) {
+      skipped.botMessages++;
+      continue;
+    }
+    const content = withFileNames(
+      (asString(message.content) ?? "").trim(),
+      asArray(message.attachments).flatMap((file) => {
+        const name = asString(asRecord(file).fileName);
+        return name ? [name] : [];
+      })
+    );
+    if (!content) {
+      skipped.emptyMessages++;
+      continue;
+    }
+
+    if (!authors.has(authorId)) {
+      authors.set(authorId, {
+        externalId: authorId,
+        importKey: `discord:${authorId}`,
+        name: asString(author.nickname) || asString(author.name) || authorId,
+      });
+    }
+    const edited = asString(message.timestampEdited);
+    messages.push({
+      externalId: id,
+      authorExternalId: authorId,
+      content,
+      createdAt,
+      editedAt: edited ? new Date(edited) : undefined,
+      quotedExternalId:
+        type === "Reply"
+          ? asString(asRecord(message.reference).messageId)
+          : undefined,
+    });
+  }
+
+  const channel: ParsedChannel = {
+    externalId,
+    name: toSpaceName(asString(channelInfo.name) ?? ""),
+    description: asString(channelInfo.topic),
+    memberExternalIds: [],
+    messages,
+  };
+  dropMissingReferences(channel);
+
+  return {
+    source: "DISCORD",
+    channels: [channel],
+    authors: [...authors.values()],
+    skipped,
+    warnings: [
+      "Discord exports do not include email addresses, so every author, you included, is imported as a placeholder",
+    ],
+  };
+};
+
+/**
+ * Reads a Slack export zip or a Discord JSON export
+ *
+ * @param data - Uploaded file
+ * @returns Channels, authors, and what was left out
+ * @throws Error if the file is neither kind of export or is too large
+ */
+export const parseImportArchive = (data: Buffer): ParsedArchive => {
+  const isZip = data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+  if (isZip) {
+    return parseSlackExport(
+      readZipEntries(data, {
+        maxEntries: IMPORTS.MAX_ENTRIES,
+        maxEntryBytes: IMPORTS.MAX_ENTRY_BYTES,
+        maxTotalBytes: IMPORTS.MAX_EXTRACTED_BYTES,
+      })
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString("utf8"));
+  } catch {
+    throw new Error("Upload a Slack export zip or a Discord JSON export");
+  }
+  return parseDiscordExport(json);
+};
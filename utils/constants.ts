@@ -3,6 +3,17 @@
  *
  * This module contains all application-wide constants including:
  * - Drag and drop constraints
+ * - Message pagination sizes
+ * - Thread summary limits
+ * - Quick-pick reaction emoji
+ * - Typing indicator timing
+ * - Mention autocomplete and broadcast keywords
+ * - Pinned message limit
+ * - Message search page size and snippet settings
+ * - Outbox storage and automatic retry limit for unsent messages
+ * - Scheduled message limits and repeat presets
+ * - Attachment and space icon upload limits
+ * - Link preview fetching limits and cache lifetime
  * - UI animation and z-index values
  * - Color palette for consistent theming
  * - Spacing values for consistent layout
@@ -15,6 +26,247 @@ export const DRAG_CONSTRAINTS = {
   DISTANCE: 5,
 } as const;
 
+/**
+ * Cursor-based message pagination settings
+ */
+export const MESSAGE_PAGINATION = {
+  PAGE_SIZE: 50,
+  LOAD_OLDER_THRESHOLD_PX: 80,
+} as const;
+
+/**
+ * Thread reply settings
+ */
+export const THREADS = {
+  LATEST_REPLIERS: 3,
+} as const;
+
+/**
+ * Emoji offered by the reaction picker
+ */
+export const REACTIONS = {
+  QUICK_PICKS: ["👍", "❤️", "😂", "🎉", "😮", "😢"],
+} as const;
+
+/**
+ * Typing indicator timing
+ * Signals are sent at most once per throttle window and shown until they expire
+ */
+export const TYPING = {
+  THROTTLE_MS: 3000,
+  EXPIRE_MS: 5000,
+} as const;
+
+/**
+ * Mention settings
+ * Broadcast keywords notify every member and cannot be used as usernames
+ */
+export const MENTIONS = {
+  BROADCAST_KEYWORDS: ["here", "all"],
+  MAX_SUGGESTIONS: 6,
+} as const;
+
+/**
+ * Pinned message settings
+ */
+export const PINS = {
+  MAX_PER_SPACE: 50,
+  HIGHLIGHT_MS: 2000,
+} as const;
+
+/**
+ * Message search settings
+ * Matches in snippets are wrapped in control characters that never occur in
+ * typed text, so the client can highlight them without parsing HTML
+ */
+export const SEARCH = {
+  PAGE_SIZE: 20,
+  MAX_QUERY_LENGTH: 200,
+  SNIPPET_LENGTH: 160,
+  HIGHLIGHT_START: "\u0002",
+  HIGHLIGHT_END: "\u0003",
+} as const;
+
+/**
+ * Outbox for messages that have not reached the server yet
+ * Failed messages are retried automatically on reconnect up to the limit,
+ * and manually after that
+ */
+export const OUTBOX = {
+  DB_NAME: "chat-outbox",
+  STORE_NAME: "messages",
+  MAX_AUTO_RETRIES: 5,
+} as const;
+
+/**
+ * Scheduled message settings
+ * REPEAT_OPTIONS are the recurrence presets offered by the composer; the
+ * server accepts any rule supported by utils/recurrence. A message whose
+ * dispatch keeps failing is retried after RETRY_DELAY_MS, doubling each
+ * time, and cancelled after MAX_FAILURES attempts in a row
+ */
+export const SCHEDULED_MESSAGES = {
+  MAX_PENDING_PER_SPACE: 25,
+  MAX_RULE_LENGTH: 200,
+  DISPATCH_BATCH_SIZE: 50,
+  MAX_FAILURES: 5,
+  RETRY_DELAY_MS: 60 * 1000,
+  REPEAT_OPTIONS: [
+    { label: "Does not repeat", rule: "" },
+    { label: "Every day", rule: "FREQ=DAILY" },
+    { label: "Every weekday", rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+    { label: "Every week", rule: "FREQ=WEEKLY" },
+    { label: "Every month", rule: "FREQ=MONTHLY" },
+  ],
+} as const;
+
+/**
+ * Poll limits
+ * The question is stored as the poll message's content
+ */
+export const POLLS = {
+  MAX_QUESTION_LENGTH: 300,
+  MAX_OPTION_LENGTH: 200,
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 10,
+} as const;
+
+/**
+ * Quote reply settings
+ * Replies keep a snapshot of the quoted message cut to EXCERPT_LENGTH
+ */
+export const QUOTES = {
+  EXCERPT_LENGTH: 200,
+} as const;
+
+/**
+ * Direct message settings
+ * MAX_PARTICIPANTS counts the person starting the conversation
+ */
+export const DIRECT_MESSAGES = {
+  MAX_PARTICIPANTS: 8,
+  MAX_QUERY_LENGTH: 100,
+  PEOPLE_SEARCH_LIMIT: 10,
+  SEARCH_DELAY_MS: 250,
+} as const;
+
+/**
+ * Saved item limits
+ * EXCERPT_LENGTH caps the text kept for a bookmarked note block, which is
+ * shown even after the note changes
+ */
+export const BOOKMARKS = {
+  EXCERPT_LENGTH: 200,
+  MAX_NOTE_LENGTH: 500,
+} as const;
+
+/**
+ * Transcript export settings
+ * Messages are read from the database BATCH_SIZE at a time while the file
+ * streams to the browser
+ */
+export const TRANSCRIPTS = {
+  BATCH_SIZE: 500,
+  FORMAT_OPTIONS: [
+    { label: "Markdown", value: "markdown" },
+    { label: "HTML", value: "html" },
+    { label: "JSON", value: "json" },
+  ],
+} as const;
+
+/**
+ * Slack and Discord import limits
+ * Zip exports may hold at most MAX_ENTRIES files and extract to at most
+ * MAX_ENTRY_BYTES per file and MAX_EXTRACTED_BYTES in total. Archives are
+ * parsed into staging tables up front; running the job then
+ * imports BATCH_SIZE messages at a time, at most MAX_BATCHES_PER_RUN per
+ * run. A run holds the job for LEASE_MS, after which another run may resume
+ * it. REPORT_NAME_LIMIT caps the author names listed in the dry-run report
+ */
+export const IMPORTS = {
+  MAX_ARCHIVE_BYTES: 50 * 1024 * 1024,
+  MAX_ENTRY_BYTES: 100 * 1024 * 1024,
+  MAX_EXTRACTED_BYTES: 500 * 1024 * 1024,
+  MAX_ENTRIES: 20000,
+  MAX_MESSAGES: 200000,
+  STAGE_BATCH_SIZE: 1000,
+  BATCH_SIZE: 500,
+  MAX_BATCHES_PER_RUN: 10,
+  LEASE_MS: 2 * 60 * 1000,
+  REPORT_NAME_LIMIT: 50,
+} as const;
+
+/**
+ * Message retention settings
+ * Admins pick a window from DAY_OPTIONS or keep messages forever; the purge
+ * job deletes at most MAX_BATCHES_PER_SPACE batches per space per run and
+ * picks up the rest on its next run. Removals are broadcast in chunks of
+ * BROADCAST_CHUNK_SIZE IDs to stay under Pusher's event size limit
+ */
+export const RETENTION = {
+  DAY_OPTIONS: [30, 90, 365],
+  PURGE_BATCH_SIZE: 500,
+  MAX_BATCHES_PER_SPACE: 10,
+  BROADCAST_CHUNK_SIZE: 200,
+} as const;
+
+/**
+ * Chat attachment limits
+ * Each space picks its per-file limit from SIZE_LIMIT_OPTIONS; a single
+ * message may carry at most MAX_FILES files and MAX_TOTAL_BYTES in total
+ */
+export const ATTACHMENTS = {
+  MAX_FILES: 10,
+  MAX_TOTAL_BYTES: 50 * 1024 * 1024,
+  DEFAULT_MAX_BYTES: 10 * 1024 * 1024,
+  SIZE_LIMIT_OPTIONS: [
+    5 * 1024 * 1024,
+    10 * 1024 * 1024,
+    25 * 1024 * 1024,
+    50 * 1024 * 1024,
+  ],
+  ALLOWED_TYPES: [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "application/pdf",
+    "text/plain",
+    "text/csv",
+    "application/json",
+    "application/zip",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.ms-powerpoint",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+} as const;
+
+/**
+ * Space icon upload limits
+ */
+export const SPACE_ICONS = {
+  MAX_BYTES: 5 * 1024 * 1024,
+  ALLOWED_TYPES: ["image/*"],
+} as const;
+
+/**
+ * Link preview settings
+ * Pages are fetched with a hard timeout and size cap, and results (including
+ * failures) are cached so a URL is fetched at most once per CACHE_TTL_MS
+ */
+export const LINK_PREVIEWS = {
+  TIMEOUT_MS: 5000,
+  MAX_BYTES: 512 * 1024,
+  MAX_REDIRECTS: 3,
+  MAX_URL_LENGTH: 2048,
+  CACHE_TTL_MS: 24 * 60 * 60 * 1000,
+  MAX_TITLE_LENGTH: 300,
+  MAX_DESCRIPTION_LENGTH: 1000,
+} as const;
+
 /**
  * UI constants for animations, z-index, and other UI properties
  */
@@ -4,6 +4,8 @@
  * This module provides utilities for date formatting and manipulation:
  * - Human-readable date formatting (Today, Yesterday, etc.)
  * - Time formatting with 12-hour format
+ * - Short date and time formatting for upcoming events
+ * - Values for datetime-local inputs
  * - Message grouping by date for chat interfaces
  */
 
@@ -51,6 +53,41 @@ export const formatTime = (dateString: string): string => {
   });
 };
 
+/**
+ * Formats a date string as a short date and 12-hour time
+ * The date is left out for today
+ *
+ * @param dateString - ISO date string to format
+ * @returns Formatted date and time (e.g., "Mon, Oct 20, 9:00 AM")
+ */
+export const formatDateTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  if (date.toDateString() === new Date().toDateString()) {
+    return `Today, ${formatTime(dateString)}`;
+  }
+  return date.toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+};
+
+/**
+ * Formats a date as a datetime-local input value in local time
+ *
+ * @param date - Date to format
+ * @returns Value such as "2026-10-20T09:00"
+ */
+export const toDateTimeInputValue = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
 /**
  * Groups messages by their date for display purposes
  *
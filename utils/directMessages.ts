@@ -0,0 +1,70 @@
+/**
+ * Direct Message Utilities
+ *
+ * This module names direct messages, which have no title of their own:
+ * - Titles listing the other participants from the viewer's point of view
+ * - The other person's avatar as the icon of a 1:1 conversation
+ * - The participant list stored as the space name for server-side uses
+ *   such as search filters and forwarded message labels
+ */
+
+import { truncateText } from "@/utils/formatters";
+import type { SpaceMember } from "@/types";
+
+/**
+ * Most names listed in a title before the rest are counted
+ */
+const MAX_TITLE_NAMES = 3;
+
+/**
+ * Longest stored direct message name, matching the space name column
+ * including the ellipsis added by truncateText
+ */
+const MAX_STORED_NAME_LENGTH = 80;
+
+/**
+ * Joins participant names into a short, readable list
+ *
+ * @param names - Display names in the order they should appear
+ * @returns Names such as "Ann, Bo and 2 others"
+ */
+export const formatParticipantNames = (names: string[]): string => {
+  if (names.length <= MAX_TITLE_NAMES) {
+    return names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : names[0] ?? "";
+  }
+  const rest = names.length - MAX_TITLE_NAMES + 1;
+  return `${names.slice(0, MAX_TITLE_NAMES - 1).join(", ")} and ${rest} others`;
+};
+
+/**
+ * Builds the name stored with a new direct message
+ *
+ * @param names - Display names of every participant
+ * @returns Participant list cut to fit the space name column
+ */
+export const toStoredDirectMessageName = (names: string[]): string =>
+  truncateText(formatParticipantNames(names), MAX_STORED_NAME_LENGTH - 3);
+
+/**
+ * Describes a direct message as the viewer sees it
+ *
+ * @param members - Current participants
+ * @param viewerId - ID of the user looking at the conversation
+ * @returns Title listing the other participants, and the other person's
+ *   avatar when there is exactly one
+ */
+export const describeDirectMessage = (
+  members: Pick<SpaceMember, "userId" | "user">[],
+  viewerId: string
+): { name: string; icon?: string } => {
+  const others = members.filter((m) => m.userId !== viewerId);
+  if (others.length === 0) return { name: "Only you" };
+  return {
+    name: formatParticipantNames(
+      others.map((m) => m.user.name || m.user.username)
+    ),
+    icon: others.length === 1 ? others[0].user.avatar : undefined,
+  };
+};
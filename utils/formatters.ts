@@ -35,6 +35,17 @@ export const formatNumber = (num: number): string => {
   return new Intl.NumberFormat().format(num);
 };
 
+/**
+ * Formats a count for a compact badge
+ * Counts above the limit are shown as "<limit>+"
+ *
+ * @param count - Count to display
+ * @param max - Largest count shown exactly (default: 99)
+ * @returns Badge label (e.g., "7" or "99+")
+ */
+export const formatBadgeCount = (count: number, max = 99): string =>
+  count > max ? `${max}+` : String(count);
+
 /**
  * Formats a number as currency with specified currency code
  * Uses US locale formatting with customizable currency
@@ -0,0 +1,607 @@
+/**
+ * Import Job Utilities
+ *
+ * This module stages and runs Slack and Discord imports:
+ * - Staging a parsed export and writing its dry-run report
+ * - Matching authors to existing accounts by email, or creating
+ *   placeholder "imported" authors that cannot sign in
+ * - Creating one space per channel and inserting its messages with their
+ *   original timestamps, a batch at a time
+ * - Resuming a job from its first message not yet imported
+ *
+ * Emails in an export are not verified, so a match only attributes the
+ * author's messages to the account; nobody but the importer is added to the
+ * new spaces, and the dry-run report does not say which authors matched.
+ *
+ * A run holds a lease on its job so two runs never import the same batch.
+ * Each batch is inserted in one transaction together with the staged rows
+ * it marks as imported, so a run that stops part-way loses nothing.
+ */
+
+import crypto from "crypto";
+import type {
+  ImportJob as ImportJobRow,
+  ImportMessage as ImportMessageRow,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import { mapBroadcastMemberData } from "@/utils/spaceUtils";
+import { truncateText } from "@/utils/formatters";
+import { IMPORTS, QUOTES } from "@/utils/constants";
+import type { ParsedArchive } from "@/utils/chatImport";
+import type { ImportJobSummary, ImportReport } from "@/types";
+
+/**
+ * Longest user name, matching the user name column
+ */
+const MAX_AUTHOR_NAME_LENGTH = 80;
+
+/**
+ * Maps an import job row to the client shape
+ *
+ * @param row - Import job
+ * @returns Job summary with its dry-run report
+ */
+export const mapImportJob = (row: ImportJobRow): ImportJobSummary => ({
+  id: row.id,
+  source: row.source === "SLACK" ? "slack" : "discord",
+  status: row.status.toLowerCase() as ImportJobSummary["status"],
+  fileName: row.fileName,
+  report: row.report as unknown as ImportReport,
+  totalMessages: row.totalMessages,
+  importedMessages: row.importedMessages,
+  error: row.error ?? undefined,
+  createdAt: row.createdAt.toISOString(),
+  finishedAt: row.finishedAt?.toISOString(),
+});
+
+/**
+ * Splits a list into chunks
+ *
+ * @param items - Items to split
+ * @param size - Largest chunk
+ * @returns Consecutive chunks of the list
+ */
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Lists names for the dry-run report, capped to keep the report small
+ *
+ * @param names - Every name
+ * @returns Count and the first names
+ */
+const toNameList = (names: string[]) => ({
+  count: names.length,
+  names: names.slice(0, IMPORTS.REPORT_NAME_LIMIT),
+});
+
+/**
+ * Stages a parsed export as a new import job and writes its dry-run report
+ * Nothing visible to other users is created until the job runs.
+ *
+ * @param userId - ID of the user importing, who becomes admin of every space
+ * @param fileName - Name of the uploaded file
+ * @param archive - Parsed export
+ * @returns The new job
+ */
+export async function stageImportJob(
+  userId: string,
+  fileName: string,
+  archive: ParsedArchive
+): Promise<ImportJobRow> {
+  const postingIds = new Set(
+    archive.channels.flatMap((c) => c.messages.map((m) => m.authorExternalId))
+  );
+  const importer = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true },
+  });
+  const isImporter = (email?: string) =>
+    !!email && email.toLowerCase() === importer.email.toLowerCase();
+
+  const report: ImportReport = {
+    source: archive.source === "SLACK" ? "slack" : "discord",
+    channels: archive.channels.map((channel) => ({
+      name: channel.name,
+      messageCount: channel.messages.length,
+      replyCount: channel.messages.filter((m) => m.parentExternalId).length,
+      firstMessageAt: channel.messages
+        .reduce<Date | undefined>(
+          (min, m) => (!min || m.createdAt < min ? m.createdAt : min),
+          undefined
+        )
+        ?.toISOString(),
+      lastMessageAt: channel.messages
+        .reduce<Date | undefined>(
+          (max, m) => (!max || m.createdAt > max ? m.createdAt : max),
+          undefined
+        )
+        ?.toISOString(),
+    })),
+    importerAuthor: archive.authors.find(
+      (a) => postingIds.has(a.externalId) && isImporter(a.email)
+    )?.name,
+    otherAuthors: toNameList(
+      archive.authors
+        .filter((a) => postingIds.has(a.externalId) && !isImporter(a.email))
+        .map((a) => a.name)
+    ),
+    skipped: archive.skipped,
+    warnings: archive.authors.some((a) => a.email)
+      ? [
+          "Messages by authors whose email matches an account here are attributed to that account and the rest to placeholder authors; only you are added to the new spaces",
+          ...archive.warnings,
+        ]
+      : archive.warnings,
+  };
+
+  const totalMessages = archive.channels.reduce(
+    (sum, c) => sum + c.messages.length,
+    0
+  );
+
+  const job = await prisma.importJob.create({
+    data: {
+      userId,
+      source: archive.source,
+      fileName: truncateText(fileName, 252),
+      report: { ...report },
+      totalMessages,
+      authors: {
+        createMany: {
+          data: archive.authors.map((author) => ({
+            externalId: author.externalId,
+            importKey: author.importKey,
+            name: truncateText(author.name, MAX_AUTHOR_NAME_LENGTH - 3),
+            email: author.email,
+          })),
+        },
+      },
+    },
+  });
+
+  for (const channel of archive.channels) {
+    const { id: channelId } = await prisma.importChannel.create({
+      data: {
+        jobId: job.id,
+        externalId: channel.externalId,
+        name: channel.name,
+        description: channel.description,
+        memberExternalIds: channel.memberExternalIds,
+        messageCount: channel.messages.length,
+      },
+      select: { id: true },
+    });
+    for (const messages of chunk(channel.messages, IMPORTS.STAGE_BATCH_SIZE)) {
+      await prisma.importMessage.createMany({
+        data: messages.map((message) => ({ channelId, ...message })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Links every author who posted to an account
+ * Authors whose email matches an existing account use it; the rest get a
+ * placeholder account, shared with earlier imports of the same source user.
+ *
+ * @param jobId - ID of the import job
+ */
+async function resolveAuthors(jobId: string) {
+  const authors = await prisma.importAuthor.findMany({
+    where: { jobId, userId: null },
+  });
+  if (authors.length === 0) return;
+
+  const matched = new Map(
+    (
+      await prisma.user.findMany({
+        where: {
+          email: {
+            in: authors.flatMap((a) => (a.email ? [a.email] : [])),
+            mode: "insensitive",
+          },
+          importKey: null,
+        },
+        select: { id: true, email: true },
+      })
+    ).map((u) => [u.email.toLowerCase(), u.id])
+  );
+  const posting = new Set(
+    (
+      await prisma.importMessage.findMany({
+        where: { channel: { jobId } },
+        distinct: ["authorExternalId"],
+        select: { authorExternalId: true },
+      })
+    ).map((m) => m.authorExternalId)
+  );
+
+  for (const author of authors) {
+    if (!posting.has(author.externalId)) continue;
+    let userId = author.email ? matched.get(author.email.toLowerCase()) : null;
+    if (!userId) {
+      const suffix = crypto.randomBytes(6).toString("hex");
+      const placeholder = await prisma.user.upsert({
+        where: { importKey: author.importKey },
+        create: {
+          importKey: author.importKey,
+          email: `${crypto.randomUUID()}@imported.invalid`,
+          username: `imported_${suffix}`,
+          name: truncateText(
+            `${author.name} (imported)`,
+            MAX_AUTHOR_NAME_LENGTH - 3
+          ),
+          // Not a bcrypt hash, so no password ever matches
+          password: "!",
+        },
+        update: {},
+        select: { id: true },
+      });
+      userId = placeholder.id;
+    }
+    await prisma.importAuthor.update({
+      where: { id: author.id },
+      data: { userId },
+    });
+  }
+}
+
+/**
+ * Creates the space for a channel with the importer as its only member
+ * Nobody else is added; the importer invites people once the history is in.
+ *
+ * @param job - Import job
+ * @param channelId - ID of the staged channel
+ * @returns ID of the space
+ */
+async function createChannelSpace(
+  job: ImportJobRow,
+  channelId: bigint
+): Promise<string> {
+  const channel = await prisma.importChannel.findUniqueOrThrow({
+    where: { id: channelId },
+  });
+  if (channel.spaceId) return channel.spaceId;
+
+  const space = await prisma.space.create({
+    data: {
+      name: channel.name,
+      description: channel.description,
+      members: { create: { userId: job.userId, role: "ADMIN" } },
+    },
+    select: { id: true },
+  });
+  await prisma.importChannel.update({
+    where: { id: channelId },
+    data: { spaceId: space.id },
+  });
+  return space.id;
+}
+
+/**
+ * Imports one batch of a channel's staged messages, oldest first
+ * Thread parents and quoted messages that are not imported yet join the
+ * batch, and every message is inserted after the ones it points at, so
+ * each link can use the new ID.
+ *
+ * @param job - Import job
+ * @param channelId - ID of the staged channel
+ * @param spaceId - ID of the channel's space
+ * @returns Number of messages imported; 0 once the channel is done
+ */
+async function importMessageBatch(
+  job: ImportJobRow,
+  channelId: bigint,
+  spaceId: string
+): Promise<number> {
+  const rows = await prisma.importMessage.findMany({
+    where: { channelId, messageId: null },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: IMPORTS.BATCH_SIZE,
+  });
+  if (rows.length === 0) return 0;
+
+  const referencesOf = (row: ImportMessageRow) =>
+    [row.parentExternalId, row.quotedExternalId].flatMap((id) =>
+      id ? [id] : []
+    );
+  const batchIds = new Set(rows.map((r) => r.externalId));
+  const checked = new Set<string>();
+  for (;;) {
+    const wanted = [
+      ...new Set(
+        rows
+          .flatMap(referencesOf)
+          .filter((id) => !batchIds.has(id) && !checked.has(id))
+      ),
+    ];
+    if (wanted.length === 0) break;
+    wanted.forEach((id) => checked.add(id));
+    const ancestors = await prisma.importMessage.findMany({
+      where: { channelId, externalId: { in: wanted }, messageId: null },
+    });
+    for (const ancestor of ancestors) {
+      rows.push(ancestor);
+      batchIds.add(ancestor.externalId);
+    }
+  }
+
+  const authors = new Map(
+    (
+      await prisma.importAuthor.findMany({
+        where: {
+          jobId: job.id,
+          externalId: { in: [...new Set(rows.map((r) => r.authorExternalId))] },
+        },
+        select: { externalId: true, userId: true },
+      })
+    ).map((a) => [a.externalId, a.userId])
+  );
+
+  const referencedIds = [...new Set(rows.flatMap(referencesOf))];
+  const referenced = new Map(
+    (
+      await prisma.importMessage.findMany({
+        where: { channelId, externalId: { in: referencedIds } },
+        select: {
+          externalId: true,
+          authorExternalId: true,
+          content: true,
+          messageId: true,
+        },
+      })
+    ).map((r) => [r.externalId, r])
+  );
+  const quotedAuthors = new Map(
+    (
+      await prisma.importAuthor.findMany({
+        where: {
+          jobId: job.id,
+          externalId: {
+            in: [...referenced.values()].map((r) => r.authorExternalId),
+          },
+        },
+        select: { externalId: true, name: true },
+      })
+    ).map((a) => [a.externalId, a.name])
+  );
+
+  // New message IDs of staged rows, filled in as each pass is inserted
+  const imported = new Map<string, bigint>();
+  const resolve = (externalId: string | null) =>
+    externalId
+      ? imported.get(externalId) ?? referenced.get(externalId)?.messageId
+      : null;
+
+  // Each pass holds the messages whose links all point outside the batch or
+  // at earlier passes; a reference cycle is broken by inserting the rest
+  const passes: ImportMessageRow[][] = [];
+  const placed = new Set<string>();
+  let pending = rows;
+  while (pending.length > 0) {
+    const ready = pending.filter((row) =>
+      referencesOf(row).every((id) => !batchIds.has(id) || placed.has(id))
+    );
+    const pass = ready.length > 0 ? ready : pending;
+    pass.forEach((row) => placed.add(row.externalId));
+    passes.push(pass);
+    pending = pending.filter((row) => !placed.has(row.externalId));
+  }
+
+  const toMessage = (row: ImportMessageRow) => {
+    const userId = authors.get(row.authorExternalId);
+    if (!userId) throw new Error("An imported author has no account");
+    const quoted = row.quotedExternalId
+      ? referenced.get(row.quotedExternalId)
+      : undefined;
+    return {
+      spaceId,
+      userId,
+      content: row.content,
+      createdAt: row.createdAt,
+      editedAt: row.editedAt,
+      parentId: resolve(row.parentExternalId) ?? null,
+      idempotencyKey: `import-${row.id}`,
+      ...(quoted && {
+        quotedMessageId: resolve(row.quotedExternalId) ?? null,
+        quotedSenderName:
+          quotedAuthors.get(quoted.authorExternalId) ?? "Someone",
+        quotedExcerpt: truncateText(
+          quoted.content.replace(/\s+/g, " ").trim(),
+          QUOTES.EXCERPT_LENGTH
+        ),
+      }),
+    };
+  };
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const pass of passes) {
+        const created = await tx.message.createManyAndReturn({
+          data: pass.map(toMessage),
+          select: { id: true, idempotencyKey: true },
+        });
+        const byKey = new Map(created.map((m) => [m.idempotencyKey, m.id]));
+        for (const row of pass) {
+          const messageId = byKey.get(`import-${row.id}`);
+          if (messageId === undefined) continue;
+          imported.set(row.externalId, messageId);
+          await tx.importMessage.update({
+            where: { id: row.id },
+            data: { messageId },
+          });
+        }
+      }
+      await tx.importJob.update({
+        where: { id: job.id },
+        data: { importedMessages: { increment: rows.length } },
+      });
+    },
+    { timeout: 60 * 1000 }
+  );
+
+  return rows.length;
+}
+
+/**
+ * Finishes a channel: marks its imported history as read and announces the
+ * space to the importer
+ *
+ * @param job - Import job
+ * @param channelId - ID of the staged channel
+ * @param spaceId - ID of the channel's space
+ */
+async function completeChannel(
+  job: ImportJobRow,
+  channelId: bigint,
+  spaceId: string
+) {
+  const last = await prisma.importMessage.findFirst({
+    where: { channelId, messageId: { not: null } },
+    orderBy: { messageId: "desc" },
+    select: { messageId: true },
+  });
+  if (last?.messageId) {
+    await prisma.spaceMember.updateMany({
+      where: { spaceId },
+      data: { lastReadMessageId: last.messageId, lastReadAt: new Date() },
+    });
+  }
+  await prisma.importChannel.update({
+    where: { id: channelId },
+    data: { completedAt: new Date() },
+  });
+
+  const space = await prisma.space.findUnique({
+    where: { id: spaceId },
+    include: { members: { include: { user: true } } },
+  });
+  if (space && pusherServer) {
+    await pusherServer.trigger(`user-${job.userId}`, "space:created", {
+      space: {
+        id: space.id,
+        name: space.name,
+        description: space.description ?? undefined,
+        createdAt: space.createdAt.toISOString(),
+        members: space.members.map(mapBroadcastMemberData),
+        messages: [],
+        notes: [],
+      },
+    });
+  }
+}
+
+/**
+ * Imports the next batches of a job
+ * Returns without doing anything if another run holds the job. Failures
+ * mark the job failed with the reason; running it again resumes it.
+ *
+ * @param jobId - ID of the import job
+ * @param now - Time of this run, defaults to the current time
+ * @returns The job after this run
+ */
+export async function advanceImportJob(
+  jobId: string,
+  now = new Date()
+): Promise<ImportJobRow> {
+  const { count } = await prisma.importJob.updateMany({
+    where: {
+      id: jobId,
+      status: { in: ["PENDING", "RUNNING", "FAILED"] },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      status: "RUNNING",
+      error: null,
+      lockedUntil: new Date(now.getTime() + IMPORTS.LEASE_MS),
+    },
+  });
+  const job = await prisma.importJob.findUniqueOrThrow({
+    where: { id: jobId },
+  });
+  if (count === 0) return job;
+
+  try {
+    await resolveAuthors(jobId);
+
+    let batches = 0;
+    const channels = await prisma.importChannel.findMany({
+      where: { jobId, completedAt: null },
+      orderBy: { id: "asc" },
+      select: { id: true },
+    });
+    for (const { id: channelId } of channels) {
+      const spaceId = await createChannelSpace(job, channelId);
+      while (batches < IMPORTS.MAX_BATCHES_PER_RUN) {
+        const imported = await importMessageBatch(job, channelId, spaceId);
+        if (imported === 0) break;
+        batches++;
+      }
+      if (batches >= IMPORTS.MAX_BATCHES_PER_RUN) break;
+      await completeChannel(job, channelId, spaceId);
+    }
+
+    const remaining = await prisma.importChannel.count({
+      where: { jobId, completedAt: null },
+    });
+    if (remaining === 0) {
+      // Staged messages are no longer needed once every space is complete
+      await prisma.importMessage.deleteMany({ where: { channel: { jobId } } });
+    }
+    return await prisma.importJob.update({
+      where: { id: jobId },
+      data: {
+        lockedUntil: null,
+        ...(remaining === 0 && {
+          status: "COMPLETED" as const,
+          finishedAt: new Date(),
+        }),
+      },
+    });
+  } catch (err) {
+    console.error("advanceImportJob error:", err);
+    return prisma.importJob.update({
+      where: { id: jobId },
+      data: {
+        status: "FAILED",
+        error: err instanceof Error ? err.message : "Import failed",
+        lockedUntil: null,
+      },
+    });
+  }
+}
+
+/**
+ * Continues every running import that no run currently holds
+ * Lets imports finish after the importer closes the app.
+ *
+ * @param now - Time of this run, defaults to the current time
+ * @returns Number of jobs advanced and number completed
+ */
+export async function advanceRunningImportJobs(now = new Date()) {
+  const jobs = await prisma.importJob.findMany({
+    where: {
+      status: "RUNNING",
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let completed = 0;
+  for (const { id } of jobs) {
+    const job = await advanceImportJob(id, now);
+    if (job.status === "COMPLETED") completed++;
+  }
+  return { advanced: jobs.length, completed };
+}
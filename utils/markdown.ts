@@ -0,0 +1,473 @@
+/**
+ * Chat Markdown Parser
+ *
+ * This module parses the Markdown subset supported in chat messages into a
+ * small syntax tree that components render as React elements:
+ * - Bold, italic, strikethrough, and inline code
+ * - Fenced code blocks with an optional language
+ * - Block quotes and bulleted or numbered lists
+ * - Autolinked http(s) URLs and finding the first one for link previews
+ * - Applying composer toolbar formats to a draft selection
+ *
+ * The parser never produces HTML. Any markup in message content stays plain
+ * text, and links are limited to http(s) URLs, so rendering the tree cannot
+ * inject elements or scripts.
+ */
+
+/**
+ * Inline node within a paragraph or list item
+ */
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; text: string }
+  | {
+      type: "strong" | "em" | "strike";
+      children: MarkdownInline[];
+    };
+
+/**
+ * Block node of a message
+ */
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "codeBlock"; lang?: string; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      items: MarkdownInline[][];
+    };
+
+/**
+ * Deepest nesting of quotes and inline emphasis that is parsed;
+ * anything deeper is kept as plain text
+ */
+const MAX_DEPTH = 4;
+
+const FENCE = /^\s{0,3}```\s*([\w+#-]*)\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const BULLET = /^\s{0,3}[-*+]\s+(.*)$/;
+const ORDERED = /^\s{0,3}(\d{1,9})[.)]\s+(.*)$/;
+const URL_PATTERN = /^https?:\/\/[^\s<>"]+/i;
+
+/**
+ * Characters that can be escaped with a backslash
+ */
+const ESCAPABLE = "\\`*_~[]()#+-.!>";
+
+/**
+ * Emphasis delimiters, longest first so `**` wins over `*`
+ */
+const DELIMITERS: { marker: string; type: "strong" | "em" | "strike" }[] = [
+  { marker: "**", type: "strong" },
+  { marker: "__", type: "strong" },
+  { marker: "~~", type: "strike" },
+  { marker: "*", type: "em" },
+  { marker: "_", type: "em" },
+];
+
+const isWordChar = (ch: string | undefined): boolean =>
+  !!ch && /[A-Za-z0-9]/.test(ch);
+
+/**
+ * Checks that a URL is an absolute http(s) URL
+ *
+ * @param href - URL to check
+ * @returns true if the URL is safe to link to
+ */
+export const isSafeUrl = (href: string): boolean => {
+  try {
+    const url = new URL(href);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads an autolinked URL, leaving trailing punctuation outside the link
+ *
+ * @param text - Text starting at a possible URL
+ * @returns The URL, or null if the text does not start with one
+ */
+const readUrl = (text: string): string | null => {
+  const match = URL_PATTERN.exec(text);
+  if (!match) return null;
+  let url = match[0];
+  while (/[.,;:!?'")\]]$/.test(url)) {
+    if (url.endsWith(")") && url.split("(").length >= url.split(")").length) {
+      break;
+    }
+    url = url.slice(0, -1);
+  }
+  return isSafeUrl(url) ? url : null;
+};
+
+/**
+ * Finds the closing delimiter for an emphasis run
+ * Underscores only open and close at word boundaries, so snake_case
+ * names and usernames are left alone
+ *
+ * @param text - Text being parsed
+ * @param from - Index just after the opening delimiter
+ * @param marker - Delimiter to close
+ * @returns Index of the closing delimiter, or -1 if there is none
+ */
+const findClosing = (text: string, from: number, marker: string): number => {
+  let index = text.indexOf(marker, from);
+  while (index !== -1) {
+    const valid =
+      index > from &&
+      !/\s/.test(text[index - 1]) &&
+      text[index - 1] !== "\\" &&
+      !(marker[0] === "_" && isWordChar(text[index + marker.length])) &&
+      !(marker.length === 1 && text[index + 1] === marker);
+    if (valid) return index;
+    index = text.indexOf(marker, index + 1);
+  }
+  return -1;
+};
+
+/**
+ * Parses inline Markdown into inline nodes
+ *
+ * @param text - Inline text
+ * @param depth - Current emphasis nesting depth
+ * @returns Inline nodes
+ */
+export const parseInline = (text: string, depth = 0): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\\" && ESCAPABLE.includes(text[i + 1] ?? "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i += 1;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if ((ch === "h" || ch === "H") && !isWordChar(text[i - 1])) {
+      const url = readUrl(text.slice(i));
+      if (url) {
+        flush();
+        nodes.push({ type: "link", href: url, text: url });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if (depth < MAX_DEPTH) {
+      const delimiter = DELIMITERS.find(
+        ({ marker }) =>
+          text.startsWith(marker, i) &&
+          !/\s/.test(text[i + marker.length] ?? " ") &&
+          !(marker[0] === "_" && isWordChar(text[i - 1]))
+      );
+      if (delimiter) {
+        const start = i + delimiter.marker.length;
+        const end = findClosing(text, start, delimiter.marker);
+        if (end !== -1) {
+          flush();
+          nodes.push({
+            type: delimiter.type,
+            children: parseInline(text.slice(start, end), depth + 1),
+          });
+          i = end + delimiter.marker.length;
+          continue;
+        }
+      }
+    }
+
+    buffer += ch;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses message content into block nodes
+ *
+ * @param content - Raw message content
+ * @param depth - Current quote nesting depth
+ * @returns Block nodes in content order
+ */
+export const parseMarkdown = (content: string, depth = 0): MarkdownBlock[] => {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: "paragraph",
+        children: parseInline(paragraph.join("\n")),
+      });
+    }
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const body: string[] = [];
+      i += 1;
+      while (i < lines.length && !/^\s{0,3}```\s*$/.test(lines[i])) {
+        body.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({
+        type: "codeBlock",
+        lang: fence[1] ? fence[1].toLowerCase() : undefined,
+        text: body.join("\n"),
+      });
+      i += 1;
+      continue;
+    }
+
+    if (depth < MAX_DEPTH && QUOTE.test(line)) {
+      flushParagraph();
+      const body: string[] = [];
+      while (i < lines.length) {
+        const match = QUOTE.exec(lines[i]);
+        if (!match) break;
+        body.push(match[1]);
+        i += 1;
+      }
+      blocks.push({
+        type: "quote",
+        children: parseMarkdown(body.join("\n"), depth + 1),
+      });
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    const ordered = ORDERED.exec(line);
+    if (bullet || ordered) {
+      flushParagraph();
+      const isOrdered = !bullet;
+      const pattern = isOrdered ? ORDERED : BULLET;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = pattern.exec(lines[i]);
+        if (match) {
+          items.push(isOrdered ? match[2] : match[1]);
+        } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i += 1;
+      }
+      blocks.push({
+        type: "list",
+        ordered: isOrdered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: items.map((item) => parseInline(item)),
+      });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+/**
+ * Flattens inline nodes to plain text
+ */
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) =>
+      node.type === "break"
+        ? " "
+        : "children" in node
+        ? inlineText(node.children)
+        : node.text
+    )
+    .join("");
+
+/**
+ * Flattens a block node to plain text
+ */
+const blockText = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case "paragraph":
+      return inlineText(block.children);
+    case "codeBlock":
+      return block.text;
+    case "quote":
+      return block.children.map(blockText).join(" ");
+    case "list":
+      return block.items.map(inlineText).join(", ");
+  }
+};
+
+/**
+ * Converts message content to plain text without Markdown markers
+ * Used for one-line previews such as the space list
+ *
+ * @param content - Raw message content
+ * @returns Plain text with blocks joined by spaces
+ */
+export const markdownToPlainText = (content: string): string =>
+  parseMarkdown(content).map(blockText).join(" ").replace(/\s+/g, " ").trim();
+
+/**
+ * Finds the first link in inline nodes
+ */
+const inlineLink = (nodes: MarkdownInline[]): string | null => {
+  for (const node of nodes) {
+    if (node.type === "link") return node.href;
+    if ("children" in node) {
+      const href = inlineLink(node.children);
+      if (href) return href;
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds the first link in a block node; code blocks never contain links
+ */
+const blockLink = (block: MarkdownBlock): string | null => {
+  switch (block.type) {
+    case "paragraph":
+      return inlineLink(block.children);
+    case "codeBlock":
+      return null;
+    case "quote":
+      return findLink(block.children);
+    case "list":
+      return findLink(
+        block.items.map((children) => ({ type: "paragraph", children }))
+      );
+  }
+};
+
+const findLink = (blocks: MarkdownBlock[]): string | null => {
+  for (const block of blocks) {
+    const href = blockLink(block);
+    if (href) return href;
+  }
+  return null;
+};
+
+/**
+ * Finds the first URL that renders as a link in message content
+ * URLs inside inline code and code blocks are ignored
+ *
+ * @param content - Raw message content
+ * @returns First linked http(s) URL, or null if there is none
+ */
+export const findFirstLink = (content: string): string | null =>
+  findLink(parseMarkdown(content));
+
+/**
+ * Formatting applied from the composer toolbar
+ */
+export type MarkdownFormat =
+  | "bold"
+  | "italic"
+  | "strike"
+  | "code"
+  | "codeBlock"
+  | "quote"
+  | "list";
+
+const INLINE_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: "**",
+  italic: "_",
+  strike: "~~",
+  code: "`",
+};
+
+/**
+ * Applies a toolbar format to the selected text of a draft
+ * Inline formats wrap the selection (or insert empty markers at the caret);
+ * block formats prefix each selected line or fence the selection
+ *
+ * @param value - Current draft
+ * @param start - Selection start
+ * @param end - Selection end
+ * @param format - Format to apply
+ * @returns New draft and the selection to restore
+ */
+export const applyMarkdownFormat = (
+  value: string,
+  start: number,
+  end: number,
+  format: MarkdownFormat
+): { value: string; start: number; end: number } => {
+  const selected = value.slice(start, end);
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+
+  const marker = INLINE_MARKERS[format];
+  if (marker) {
+    return {
+      value: `${before}${marker}${selected}${marker}${after}`,
+      start: start + marker.length,
+      end: end + marker.length,
+    };
+  }
+
+  const lineBreakBefore = before && !before.endsWith("\n") ? "\n" : "";
+  let block: string;
+  if (format === "codeBlock") {
+    block = `\`\`\`\n${selected}\n\`\`\``;
+  } else {
+    const prefix = format === "quote" ? "> " : "- ";
+    block = selected
+      .split("\n")
+      .map((line) => `${prefix}${line}`)
+      .join("\n");
+  }
+  const blockStart = start + lineBreakBefore.length;
+  const caretOffset = format === "codeBlock" ? 4 : 2;
+  return {
+    value: `${before}${lineBreakBefore}${block}${after}`,
+    start: selected ? blockStart : blockStart + caretOffset,
+    end: selected ? blockStart + block.length : blockStart + caretOffset,
+  };
+};
@@ -0,0 +1,833 @@
+/**
+ * Message Data Utilities
+ *
+ * This module provides server-side helpers for reading chat messages:
+ * - Mapping database rows to client message objects
+ * - Encoding and decoding opaque pagination cursors
+ * - Cursor-based page queries over the (spaceId, createdAt) index
+ * - Thread summaries (reply counts and latest repliers) and thread reads
+ * - Aggregated emoji reactions per message
+ * - Resolving @mentions in message content to member references
+ * - Snapshots of quoted and forwarded messages
+ * - Mapping file attachments stored with a message
+ * - Cached link preview metadata for URLs in messages
+ * - Pinned messages per space, newest pin first
+ * - Poll options with live tallies, and the options a viewer voted for
+ * - Finding messages already sent with an idempotency key
+ * - Unread and mention counts relative to a member's last-read pointer
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import {
+  LINK_PREVIEWS,
+  MENTIONS,
+  MESSAGE_PAGINATION,
+  THREADS,
+} from "@/utils/constants";
+import { getLinkPreviewFetcher } from "@/lib/linkPreview";
+import { extractMentionTokens, toQuoteExcerpt } from "@/utils/messageUtils";
+import type {
+  ActivityPayload,
+  Message,
+  MessagePage,
+  MessageThread,
+  PinnedMessage,
+  Poll,
+  ReactionSummary,
+  ThreadSummary,
+} from "@/types";
+
+/**
+ * Relations loaded for messages returned to clients
+ */
+export const messageInclude = {
+  user: true,
+  mentions: {
+    select: {
+      user: { select: { id: true, username: true, name: true } },
+    },
+  },
+  attachments: { orderBy: { id: "asc" } },
+  linkPreview: true,
+  forwardedFrom: { select: { spaceId: true } },
+  poll: {
+    include: {
+      options: {
+        orderBy: { sortOrder: "asc" },
+        include: {
+          votes: {
+            orderBy: { createdAt: "asc" },
+            select: {
+              userId: true,
+              user: { select: { username: true, name: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.MessageInclude;
+
+/**
+ * Message row with its author loaded, and its mentions, attachments, link
+ * preview, forwarded original, and poll when requested through messageInclude
+ */
+export type MessageWithUser = Prisma.MessageGetPayload<{
+  include: { user: true };
+}> &
+  Partial<
+    Pick<
+      Prisma.MessageGetPayload<{ include: typeof messageInclude }>,
+      "mentions" | "attachments" | "linkPreview" | "forwardedFrom" | "poll"
+    >
+  >;
+
+/**
+ * Poll row with its options and votes, as loaded through messageInclude
+ */
+type PollWithVotes = NonNullable<
+  Prisma.MessageGetPayload<{ include: typeof messageInclude }>["poll"]
+>;
+
+/**
+ * Maps a poll row to live tallies for clients
+ * Anonymous polls report counts only, never who voted
+ *
+ * @param poll - Poll row with its options and votes
+ * @returns Poll without the viewer's own votes
+ */
+export const mapPoll = (poll: PollWithVotes): Poll => ({
+  messageId: String(poll.messageId),
+  multipleChoice: poll.multipleChoice,
+  anonymous: poll.anonymous,
+  closesAt: poll.closesAt?.toISOString(),
+  closedAt: poll.closedAt?.toISOString(),
+  options: poll.options.map((option) => ({
+    id: String(option.id),
+    text: option.text,
+    voteCount: option.votes.length,
+    voters: poll.anonymous ? undefined : option.votes.map((v) => v.user),
+  })),
+  voterCount: new Set(
+    poll.options.flatMap((option) => option.votes.map((v) => v.userId))
+  ).size,
+});
+
+/**
+ * Options for a single message page request
+ * `before` loads older messages, `after` loads newer ones
+ */
+export type MessagePageOptions = {
+  before?: string;
+  after?: string;
+  limit?: number;
+};
+
+/**
+ * Maps a raw message row to the client message shape
+ * Activity messages carry their structured event with the author as the
+ * actor; deleted messages keep their place in the timeline as empty tombstones
+ *
+ * @param msg - Message row including its user
+ * @returns Formatted message object
+ */
+export const mapMessageData = (msg: MessageWithUser): Message => {
+  const kind = msg.activityKind;
+  const isDeleted = msg.deletedAt !== null;
+  return {
+    id: String(msg.id),
+    content: isDeleted ? "" : msg.content,
+    timestamp: msg.createdAt.toISOString(),
+    senderName: msg.user?.name,
+    username: msg.user?.username,
+    type: kind ? "activity" : "text",
+    editedAt: msg.editedAt?.toISOString(),
+    isDeleted: isDeleted || undefined,
+    parentId: msg.parentId !== null ? String(msg.parentId) : undefined,
+    mentions:
+      !isDeleted && msg.mentions?.length
+        ? msg.mentions.map(({ user }) => ({
+            userId: user.id,
+            username: user.username,
+            name: user.name,
+          }))
+        : undefined,
+    mentionsEveryone: (!isDeleted && msg.mentionsEveryone) || undefined,
+    attachments:
+      !isDeleted && msg.attachments?.length
+        ? msg.attachments.map((attachment) => ({
+            id: String(attachment.id),
+            url: attachment.url,
+            name: attachment.name,
+            contentType: attachment.contentType,
+            size: attachment.size,
+          }))
+        : undefined,
+    linkPreview:
+      !isDeleted && !msg.previewDismissed && msg.linkPreview
+        ? {
+            url: msg.linkPreview.url,
+            title: msg.linkPreview.title ?? undefined,
+            description: msg.linkPreview.description ?? undefined,
+            imageUrl: msg.linkPreview.imageUrl ?? undefined,
+            siteName: msg.linkPreview.siteName ?? undefined,
+          }
+        : undefined,
+    clientId: msg.idempotencyKey ?? undefined,
+    poll: !isDeleted && msg.poll ? mapPoll(msg.poll) : undefined,
+    quote:
+      !isDeleted && msg.quotedSenderName !== null
+        ? {
+            messageId:
+              msg.quotedMessageId !== null
+                ? String(msg.quotedMessageId)
+                : undefined,
+            spaceId: msg.spaceId,
+            senderName: msg.quotedSenderName,
+            excerpt: msg.quotedExcerpt ?? "",
+          }
+        : undefined,
+    forwardedFrom:
+      !isDeleted && msg.forwardedSenderName !== null
+        ? {
+            messageId:
+              msg.forwardedFromId !== null
+                ? String(msg.forwardedFromId)
+                : undefined,
+            spaceId: msg.forwardedFrom?.spaceId,
+            senderName: msg.forwardedSenderName,
+            spaceName: msg.forwardedSpaceName ?? undefined,
+          }
+        : undefined,
+    activity:
+      kind !== null
+        ? {
+            kind,
+            actorName: msg.user?.name || "Someone",
+            targetId: msg.activityTargetId ?? undefined,
+            payload:
+              (msg.activityPayload as ActivityPayload | null) ?? undefined,
+          }
+        : undefined,
+  };
+};
+
+/**
+ * Finds the message an author already sent to a space with an idempotency key
+ *
+ * @param spaceId - ID of the space
+ * @param userId - ID of the author
+ * @param idempotencyKey - Key supplied with the original send
+ * @returns The original message, or null if the key has not been used
+ */
+export async function findMessageByIdempotencyKey(
+  spaceId: string,
+  userId: string,
+  idempotencyKey: string
+) {
+  return prisma.message.findUnique({
+    where: {
+      spaceId_userId_idempotencyKey: { spaceId, userId, idempotencyKey },
+    },
+    include: messageInclude,
+  });
+}
+
+/**
+ * Checks whether a Prisma error is a unique constraint violation, which
+ * is how a concurrent send with the same idempotency key surfaces
+ *
+ * @param error - Error thrown by Prisma
+ * @returns true for unique constraint violations
+ */
+export const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+/**
+ * Resolves the @mentions in message content to space members
+ * Unknown usernames stay plain text. `@here` and `@all` notify every member
+ * and are limited to admins unless the space lets members use them.
+ *
+ * @param spaceId - ID of the space the message is posted in
+ * @param authorId - ID of the message author
+ * @param content - Message content
+ * @returns IDs of mentioned members and whether everyone was mentioned
+ * @throws Error if the author may not mention everyone
+ */
+export async function resolveMentions(
+  spaceId: string,
+  authorId: string,
+  content: string
+): Promise<{ userIds: string[]; mentionsEveryone: boolean }> {
+  const tokens = extractMentionTokens(content);
+  if (tokens.length === 0) return { userIds: [], mentionsEveryone: false };
+
+  const keywords: readonly string[] = MENTIONS.BROADCAST_KEYWORDS;
+  const mentionsEveryone = tokens.some((t) => keywords.includes(t));
+  if (mentionsEveryone) {
+    const [space, author] = await Promise.all([
+      prisma.space.findUnique({
+        where: { id: spaceId },
+        select: { membersCanMentionEveryone: true },
+      }),
+      prisma.spaceMember.findUnique({
+        where: { spaceId_userId: { spaceId, userId: authorId } },
+        select: { role: true },
+      }),
+    ]);
+    if (!space?.membersCanMentionEveryone && author?.role !== "ADMIN") {
+      throw new Error("Forbidden: only admins can mention @here or @all");
+    }
+  }
+
+  const usernames = tokens.filter((t) => !keywords.includes(t));
+  const members =
+    usernames.length > 0
+      ? await prisma.spaceMember.findMany({
+          where: { spaceId, user: { username: { in: usernames } } },
+          select: { userId: true },
+        })
+      : [];
+
+  return { userIds: members.map((m) => m.userId), mentionsEveryone };
+}
+
+/**
+ * Loads a message for a quote reply and snapshots its sender and excerpt
+ * Only visible messages in the main timeline of the same space can be quoted
+ *
+ * @param spaceId - ID of the space the reply is posted in
+ * @param quotedMessageId - ID of the message to quote
+ * @returns Columns to store with the reply
+ * @throws Error if the message cannot be quoted
+ */
+export async function resolveQuote(
+  spaceId: string,
+  quotedMessageId: string
+): Promise<{
+  quotedMessageId: bigint;
+  quotedSenderName: string;
+  quotedExcerpt: string;
+}> {
+  const quoted = await prisma.message.findFirst({
+    where: {
+      id: BigInt(quotedMessageId),
+      spaceId,
+      parentId: null,
+      deletedAt: null,
+      activityKind: null,
+    },
+    include: { user: true, attachments: { orderBy: { id: "asc" } } },
+  });
+  if (!quoted) throw new Error("Quoted message not found");
+
+  return {
+    quotedMessageId: quoted.id,
+    quotedSenderName: quoted.user.name,
+    quotedExcerpt: toQuoteExcerpt(mapMessageData(quoted)),
+  };
+}
+
+/**
+ * Returns preview metadata for a URL, fetching it when the cache is stale
+ * Failed fetches are cached too, so a URL is fetched at most once per
+ * cache lifetime; a failed refresh keeps the previously cached metadata
+ *
+ * @param url - Linked URL from a message
+ * @returns true if the URL has a preview to show
+ */
+export async function resolveLinkPreview(url: string): Promise<boolean> {
+  if (url.length > LINK_PREVIEWS.MAX_URL_LENGTH) return false;
+  const cached = await prisma.linkPreview.findUnique({ where: { url } });
+  const isFresh =
+    cached &&
+    Date.now() - cached.fetchedAt.getTime() < LINK_PREVIEWS.CACHE_TTL_MS;
+  if (isFresh) return Boolean(cached.title || cached.description);
+
+  const metadata = await getLinkPreviewFetcher()(url);
+  const fields = {
+    title: metadata?.title ?? null,
+    description: metadata?.description ?? null,
+    imageUrl: metadata?.imageUrl ?? null,
+    siteName: metadata?.siteName ?? null,
+  };
+  const saved = await prisma.linkPreview.upsert({
+    where: { url },
+    create: { url, ...fields },
+    update: metadata
+      ? { ...fields, fetchedAt: new Date() }
+      : { fetchedAt: new Date() },
+  });
+  return Boolean(saved.title || saved.description);
+}
+
+/**
+ * Computes reply counts and latest repliers for a set of parent messages
+ * Deleted replies are not counted; parents without replies are omitted
+ *
+ * @param parentIds - IDs of the top-level messages to summarize
+ * @returns Map of parent message ID to its thread summary
+ */
+export async function fetchThreadSummaries(
+  parentIds: bigint[]
+): Promise<Map<string, ThreadSummary>> {
+  const summaries = new Map<string, ThreadSummary>();
+  if (parentIds.length === 0) return summaries;
+
+  const counts = await prisma.message.groupBy({
+    by: ["parentId"],
+    where: { parentId: { in: parentIds }, deletedAt: null },
+    _count: { _all: true },
+    _max: { createdAt: true },
+  });
+  if (counts.length === 0) return summaries;
+
+  for (const row of counts) {
+    if (row.parentId === null) continue;
+    summaries.set(String(row.parentId), {
+      parentId: String(row.parentId),
+      replyCount: row._count._all,
+      latestRepliers: [],
+      lastReplyAt: row._max.createdAt?.toISOString(),
+    });
+  }
+
+  const repliers = await prisma.message.findMany({
+    where: {
+      parentId: { in: counts.map((row) => row.parentId as bigint) },
+      deletedAt: null,
+    },
+    orderBy: { createdAt: "desc" },
+    distinct: ["parentId", "userId"],
+    select: { parentId: true, user: { select: { name: true } } },
+  });
+
+  for (const reply of repliers) {
+    const summary = summaries.get(String(reply.parentId));
+    if (summary && summary.latestRepliers.length < THREADS.LATEST_REPLIERS) {
+      summary.latestRepliers.push(reply.user.name);
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Merges thread summaries into a list of client messages
+ *
+ * @param messages - Messages to annotate
+ * @param summaries - Summaries keyed by parent message ID
+ * @returns Messages with reply counts and latest repliers filled in
+ */
+export const applyThreadSummaries = (
+  messages: Message[],
+  summaries: Map<string, ThreadSummary>
+): Message[] =>
+  messages.map((msg) => {
+    const summary = summaries.get(msg.id);
+    if (!summary) return msg;
+    return {
+      ...msg,
+      replyCount: summary.replyCount,
+      latestRepliers: summary.latestRepliers,
+      lastReplyAt: summary.lastReplyAt,
+    };
+  });
+
+/**
+ * Aggregates reactions for a set of messages
+ * Emoji are ordered by their first use on each message
+ *
+ * @param messageIds - IDs of the messages to aggregate reactions for
+ * @returns Map of message ID to its reaction summaries
+ */
+export async function fetchReactionSummaries(
+  messageIds: bigint[]
+): Promise<Map<string, ReactionSummary[]>> {
+  const summaries = new Map<string, ReactionSummary[]>();
+  if (messageIds.length === 0) return summaries;
+
+  const rows = await prisma.messageReaction.findMany({
+    where: { messageId: { in: messageIds } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      messageId: true,
+      emoji: true,
+      user: { select: { username: true, name: true } },
+    },
+  });
+
+  for (const row of rows) {
+    const key = String(row.messageId);
+    const list = summaries.get(key) ?? [];
+    let entry = list.find((r) => r.emoji === row.emoji);
+    if (!entry) {
+      entry = { emoji: row.emoji, count: 0, users: [] };
+      list.push(entry);
+    }
+    entry.count += 1;
+    entry.users.push(row.user);
+    summaries.set(key, list);
+  }
+
+  return summaries;
+}
+
+/**
+ * Merges reaction summaries into a list of client messages
+ *
+ * @param messages - Messages to annotate
+ * @param summaries - Reaction summaries keyed by message ID
+ * @returns Messages with their reactions filled in
+ */
+export const applyReactionSummaries = (
+  messages: Message[],
+  summaries: Map<string, ReactionSummary[]>
+): Message[] =>
+  messages.map((msg) => {
+    const reactions = summaries.get(msg.id);
+    return reactions ? { ...msg, reactions } : msg;
+  });
+
+/**
+ * Loads the options a user voted for in a set of polls
+ *
+ * @param messageIds - IDs of the messages, polls or not
+ * @param userId - ID of the viewer
+ * @returns Voted option IDs keyed by poll message ID
+ */
+export async function fetchPollVotes(
+  messageIds: bigint[],
+  userId: string
+): Promise<Map<string, string[]>> {
+  const votes = new Map<string, string[]>();
+  if (messageIds.length === 0) return votes;
+
+  const rows = await prisma.pollVote.findMany({
+    where: { pollId: { in: messageIds }, userId },
+    select: { pollId: true, optionId: true },
+  });
+  for (const row of rows) {
+    const key = String(row.pollId);
+    votes.set(key, [...(votes.get(key) ?? []), String(row.optionId)]);
+  }
+  return votes;
+}
+
+/**
+ * Fills in the viewer's own votes on poll messages
+ *
+ * @param messages - Messages to annotate
+ * @param votes - Voted option IDs keyed by poll message ID
+ * @returns Messages whose polls carry `myVotes`
+ */
+export const applyPollVotes = (
+  messages: Message[],
+  votes: Map<string, string[]>
+): Message[] =>
+  messages.map((msg) =>
+    msg.poll
+      ? { ...msg, poll: { ...msg.poll, myVotes: votes.get(msg.id) ?? [] } }
+      : msg
+  );
+
+/**
+ * Loads the thread summary for a single parent message
+ *
+ * @param parentId - ID of the parent message
+ * @returns Thread summary, with a zero count if the thread is empty
+ */
+export async function fetchThreadSummary(
+  parentId: bigint
+): Promise<ThreadSummary> {
+  const summaries = await fetchThreadSummaries([parentId]);
+  return (
+    summaries.get(String(parentId)) ?? {
+      parentId: String(parentId),
+      replyCount: 0,
+      latestRepliers: [],
+    }
+  );
+}
+
+/**
+ * Loads a thread: its parent message and all replies, oldest first
+ *
+ * @param parentId - ID of the parent message
+ * @returns Parent and replies, or null if the parent does not exist
+ */
+export async function fetchThread(
+  parentId: bigint
+): Promise<(MessageThread & { spaceId: string }) | null> {
+  const parent = await prisma.message.findUnique({
+    where: { id: parentId },
+    include: messageInclude,
+  });
+  if (!parent || parent.parentId !== null) return null;
+
+  const [replies, summary] = await Promise.all([
+    prisma.message.findMany({
+      where: { parentId },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      include: messageInclude,
+    }),
+    fetchThreadSummary(parentId),
+  ]);
+  const reactions = await fetchReactionSummaries([
+    parent.id,
+    ...replies.map((reply) => reply.id),
+  ]);
+
+  const [parentMessage] = applyReactionSummaries(
+    applyThreadSummaries(
+      [mapMessageData(parent)],
+      new Map([[summary.parentId, summary]])
+    ),
+    reactions
+  );
+
+  return {
+    spaceId: parent.spaceId,
+    parent: parentMessage,
+    replies: applyReactionSummaries(replies.map(mapMessageData), reactions),
+  };
+}
+
+/**
+ * Relations loaded for pins returned to clients
+ */
+export const pinInclude = {
+  message: { include: messageInclude },
+  pinnedBy: { select: { name: true } },
+} satisfies Prisma.MessagePinInclude;
+
+/**
+ * Maps a pin row to the client pinned message shape
+ *
+ * @param pin - Pin row including its message and pinning user
+ * @returns Pinned message with pin details
+ */
+export const mapPinnedMessage = (
+  pin: Prisma.MessagePinGetPayload<{ include: typeof pinInclude }>
+): PinnedMessage => ({
+  message: mapMessageData(pin.message),
+  pinnedAt: pin.pinnedAt.toISOString(),
+  pinnedByName: pin.pinnedBy.name,
+});
+
+/**
+ * Loads the pinned messages of a space, most recently pinned first
+ *
+ * @param spaceId - ID of the space
+ * @returns Pinned messages with pin details
+ */
+export async function fetchPinnedMessages(
+  spaceId: string
+): Promise<PinnedMessage[]> {
+  const pins = await prisma.messagePin.findMany({
+    where: { spaceId },
+    orderBy: { pinnedAt: "desc" },
+    include: pinInclude,
+  });
+  return pins.map(mapPinnedMessage);
+}
+
+/**
+ * Encodes a message position as an opaque cursor string
+ *
+ * @param msg - Message with id and creation date
+ * @returns Cursor in the form `<epochMs>.<id>`
+ */
+export const encodeMessageCursor = (msg: {
+  id: bigint | string;
+  createdAt: Date;
+}): string => `${msg.createdAt.getTime()}.${String(msg.id)}`;
+
+/**
+ * Decodes a cursor produced by encodeMessageCursor
+ *
+ * @param cursor - Cursor string
+ * @returns Creation date and id, or null if the cursor is malformed
+ */
+export const decodeMessageCursor = (
+  cursor: string
+): { createdAt: Date; id: bigint } | null => {
+  const match = /^(\d+)\.(\d+)$/.exec(cursor);
+  if (!match) return null;
+  return { createdAt: new Date(Number(match[1])), id: BigInt(match[2]) };
+};
+
+/**
+ * Loads one page of top-level messages for a space, oldest first
+ * Without a cursor the newest page is returned; thread replies are left out
+ * and summarized on their parent instead
+ *
+ * @param spaceId - ID of the space to read from
+ * @param options - Cursor and page size options
+ * @param viewerId - ID of the requesting user, whose poll votes are included
+ * @returns Page of messages with cursors for the next requests
+ * @throws Error if the cursor is malformed
+ */
+export async function fetchMessagePage(
+  spaceId: string,
+  options: MessagePageOptions = {},
+  viewerId?: string
+): Promise<MessagePage> {
+  const limit = options.limit ?? MESSAGE_PAGINATION.PAGE_SIZE;
+  const isForward = Boolean(options.after);
+  const rawCursor = options.after ?? options.before;
+  const cursor = rawCursor ? decodeMessageCursor(rawCursor) : null;
+  if (rawCursor && !cursor) throw new Error("Invalid message cursor");
+
+  const where: Prisma.MessageWhereInput = { spaceId, parentId: null };
+  if (cursor) {
+    const op = isForward ? "gt" : "lt";
+    where.OR = [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { [op]: cursor.id } },
+    ];
+  }
+
+  const direction = isForward ? "asc" : "desc";
+  const rows = (await prisma.message.findMany({
+    where,
+    orderBy: [{ createdAt: direction }, { id: direction }],
+    take: limit + 1,
+    include: messageInclude,
+  })) as MessageWithUser[];
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  if (!isForward) page.reverse();
+
+  const pageIds = page.map((row) => row.id);
+  const pollIds = page.filter((row) => row.poll).map((row) => row.id);
+  const [summaries, reactions, votes] = await Promise.all([
+    fetchThreadSummaries(pageIds),
+    fetchReactionSummaries(pageIds),
+    viewerId ? fetchPollVotes(pollIds, viewerId) : new Map<string, string[]>(),
+  ]);
+
+  return {
+    messages: applyPollVotes(
+      applyReactionSummaries(
+        applyThreadSummaries(page.map(mapMessageData), summaries),
+        reactions
+      ),
+      votes
+    ),
+    hasMore,
+    startCursor: page.length > 0 ? encodeMessageCursor(page[0]) : null,
+    endCursor:
+      page.length > 0 ? encodeMessageCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Read position of a space member
+ */
+export type MemberReadState = {
+  spaceId: string;
+  userId: string;
+  joinedAt: Date;
+  lastReadMessageId: bigint | null;
+};
+
+/**
+ * Builds the filter for messages a member has not read yet
+ * Only top-level, non-activity messages from other users count. Members
+ * without a pointer have read nothing since they joined.
+ *
+ * @param member - Member read position
+ * @returns Prisma where clause for the member's unread messages
+ */
+export const unreadMessagesWhere = (
+  member: MemberReadState
+): Prisma.MessageWhereInput => ({
+  spaceId: member.spaceId,
+  parentId: null,
+  deletedAt: null,
+  userId: { not: member.userId },
+  activityKind: null,
+  ...(member.lastReadMessageId !== null
+    ? { id: { gt: member.lastReadMessageId } }
+    : { createdAt: { gt: member.joinedAt } }),
+});
+
+/**
+ * Counts a member's unread messages and the unread messages mentioning them
+ * Mentions of `@here` and `@all` count for every member
+ *
+ * @param member - Member read position
+ * @returns Unread and mention counts
+ */
+export async function countUnreadMessages(
+  member: MemberReadState
+): Promise<{ unreadCount: number; mentionCount: number }> {
+  const where = unreadMessagesWhere(member);
+  const [unreadCount, mentionCount] = await Promise.all([
+    prisma.message.count({ where }),
+    prisma.message.count({
+      where: {
+        ...where,
+        OR: [
+          { mentions: { some: { userId: member.userId } } },
+          { mentionsEveryone: true },
+        ],
+      },
+    }),
+  ]);
+  return { unreadCount, mentionCount };
+}
+
+/**
+ * Counts a user's unread messages and unread mentions in every space they
+ * belong to, in one query
+ * Applies the same rules as unreadMessagesWhere to each membership.
+ *
+ * @param userId - ID of the user
+ * @returns Unread and mention counts keyed by space ID; spaces with nothing
+ * unread are left out
+ */
+export async function countUnreadMessagesBySpace(
+  userId: string
+): Promise<Map<string, { unreadCount: number; mentionCount: number }>> {
+  const rows = await prisma.$queryRaw<
+    { spaceId: string; unreadCount: bigint; mentionCount: bigint }[]
+  >`
+    SELECT sm."spaceId",
+           COUNT(*) AS "unreadCount",
+           COUNT(*) FILTER (
+             WHERE m."mentionsEveryone"
+                OR EXISTS (
+                  SELECT 1 FROM "public"."message_mentions" mm
+                  WHERE mm."messageId" = m."id" AND mm."userId" = sm."userId"
+                )
+           ) AS "mentionCount"
+    FROM "public"."space_members" sm
+    JOIN "public"."messages" m ON m."spaceId" = sm."spaceId"
+    WHERE sm."userId" = ${userId}::uuid
+      AND m."parentId" IS NULL
+      AND m."deletedAt" IS NULL
+      AND m."activityKind" IS NULL
+      AND m."userId" <> sm."userId"
+      AND (
+        CASE WHEN sm."lastReadMessageId" IS NOT NULL
+          THEN m."id" > sm."lastReadMessageId"
+          ELSE m."createdAt" > sm."joinedAt"
+        END
+      )
+    GROUP BY sm."spaceId"`;
+
+  return new Map(
+    rows.map((row) => [
+      row.spaceId,
+      {
+        unreadCount: Number(row.unreadCount),
+        mentionCount: Number(row.mentionCount),
+      },
+    ])
+  );
+}
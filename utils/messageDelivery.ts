@@ -0,0 +1,216 @@
+/**
+ * Message Delivery Utilities
+ *
+ * This module holds the server-side path that stores and broadcasts a new
+ * chat message, shared by the `sendMessage` action and the scheduled
+ * message dispatcher:
+ * - Idempotent creation keyed by the author's idempotency key
+ * - Resolving @mentions and quoted messages
+ * - Real-time broadcasting via Pusher
+ * - Attaching a link preview after the response is sent
+ * - Recording activity events (joins, pins, note changes, ...) in the timeline
+ *
+ * Callers are responsible for validating input and checking who the author is.
+ */
+
+import { after } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import {
+  findMessageByIdempotencyKey,
+  isUniqueViolation,
+  mapMessageData,
+  messageInclude,
+  resolveLinkPreview,
+  resolveMentions,
+  resolveQuote,
+} from "@/utils/messageData";
+import { findFirstLink } from "@/utils/markdown";
+import { describeActivity } from "@/utils/activity";
+import type { ActivityEvent, Message } from "@/types";
+
+/**
+ * Stores a message from a user and broadcasts it to the space
+ *
+ * @param spaceId - ID of the space to post in
+ * @param userId - ID of the author
+ * @param content - Validated message content
+ * @param idempotencyKey - Optional key; a repeated key returns the original
+ * message without broadcasting it again
+ * @param quotedMessageId - Optional message in the same space to quote
+ * @returns Formatted message that was created, or the original one for a repeated key
+ * @throws Error if the author may not mention everyone or the quoted message is unavailable
+ */
+export async function postMessage(
+  spaceId: string,
+  userId: string,
+  content: string,
+  idempotencyKey?: string,
+  quotedMessageId?: string
+): Promise<Message> {
+  if (idempotencyKey) {
+    const original = await findMessageByIdempotencyKey(
+      spaceId,
+      userId,
+      idempotencyKey
+    );
+    if (original) return mapMessageData(original);
+  }
+
+  const mentions = await resolveMentions(spaceId, userId, content);
+  const quote = quotedMessageId
+    ? await resolveQuote(spaceId, quotedMessageId)
+    : undefined;
+
+  let created;
+  try {
+    created = await prisma.message.create({
+      data: {
+        spaceId,
+        userId,
+        content,
+        idempotencyKey,
+        ...quote,
+        mentionsEveryone: mentions.mentionsEveryone,
+        mentions: {
+          create: mentions.userIds.map((mentionedId) => ({
+            userId: mentionedId,
+          })),
+        },
+      },
+      include: messageInclude,
+    });
+  } catch (error) {
+    // A concurrent retry with the same key won the race
+    if (!idempotencyKey || !isUniqueViolation(error)) throw error;
+    const original = await findMessageByIdempotencyKey(
+      spaceId,
+      userId,
+      idempotencyKey
+    );
+    if (!original) throw error;
+    return mapMessageData(original);
+  }
+
+  const payload = mapMessageData(created);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:new", payload);
+  }
+  after(() => attachLinkPreview(created.id, content));
+
+  return payload;
+}
+
+/**
+ * Stores an activity event by a user and broadcasts it to the space
+ * The content is a plain-text summary; clients render the event itself
+ *
+ * @param spaceId - ID of the space the event happened in
+ * @param actorId - ID of the user who caused the event
+ * @param activity - Kind of event, its target and details
+ * @param idempotencyKey - Optional key; a repeated key returns the original
+ * message without broadcasting it again
+ * @returns Formatted activity message that was created, or the original one for a repeated key
+ */
+export async function postActivity(
+  spaceId: string,
+  actorId: string,
+  activity: ActivityEvent,
+  idempotencyKey?: string
+): Promise<Message> {
+  if (idempotencyKey) {
+    const original = await findMessageByIdempotencyKey(
+      spaceId,
+      actorId,
+      idempotencyKey
+    );
+    if (original) return mapMessageData(original);
+  }
+
+  const actor = await prisma.user.findUnique({
+    where: { id: actorId },
+    select: { name: true },
+  });
+
+  let created;
+  try {
+    created = await prisma.message.create({
+      data: {
+        spaceId,
+        userId: actorId,
+        content: describeActivity({
+          ...activity,
+          actorName: actor?.name || "Someone",
+        }),
+        activityKind: activity.kind,
+        activityTargetId: activity.targetId,
+        activityPayload: activity.payload ? { ...activity.payload } : undefined,
+        idempotencyKey,
+      },
+      include: { user: true },
+    });
+  } catch (error) {
+    // A concurrent retry with the same key won the race
+    if (!idempotencyKey || !isUniqueViolation(error)) throw error;
+    const original = await findMessageByIdempotencyKey(
+      spaceId,
+      actorId,
+      idempotencyKey
+    );
+    if (!original) throw error;
+    return mapMessageData(original);
+  }
+
+  const payload = mapMessageData(created);
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${spaceId}`, "activity:new", payload);
+  }
+
+  return payload;
+}
+
+/**
+ * Links a message to a preview of its first URL and broadcasts the change
+ * Runs after the response is sent, so slow pages never delay sending. The
+ * message is only updated if its content is unchanged since it was sent,
+ * and a changed URL brings back a preview the author had dismissed.
+ *
+ * @param messageId - ID of the message to preview
+ * @param content - Message content the preview is for
+ */
+export async function attachLinkPreview(messageId: bigint, content: string) {
+  try {
+    const url = findFirstLink(content);
+    const current = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { previewUrl: true },
+    });
+    if (!current || current.previewUrl === url) return;
+
+    const hasPreview = url ? await resolveLinkPreview(url) : false;
+    const nextUrl = hasPreview ? url : null;
+    if (current.previewUrl === nextUrl) return;
+
+    const { count } = await prisma.message.updateMany({
+      where: { id: messageId, content, deletedAt: null },
+      data: { previewUrl: nextUrl, previewDismissed: false },
+    });
+    if (count === 0) return;
+
+    const updated = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: messageInclude,
+    });
+    if (updated && pusherServer) {
+      await pusherServer.trigger(
+        `space-${updated.spaceId}`,
+        "message:updated",
+        mapMessageData(updated)
+      );
+    }
+  } catch (err) {
+    console.error("attachLinkPreview error:", err);
+  }
+}
@@ -2,10 +2,18 @@
  * Message Utility Functions
  *
  * This module provides utilities for creating and formatting messages.
- * Includes functions for generating message IDs and creating activity messages.
+ * Includes functions for generating message IDs, previews and quote
+ * excerpts, and applying thread and pin updates to client message state.
  */
 
-import type { Message } from "@/types";
+import { QUOTES } from "@/utils/constants";
+import { truncateText } from "@/utils/formatters";
+import type {
+  Message,
+  MessageThread,
+  PinnedMessage,
+  ThreadSummary,
+} from "@/types";
 
 /**
  * Generates a unique message ID using current timestamp
@@ -16,54 +24,185 @@ import type { Message } from "@/types";
 export const createMessageId = (): string => String(Date.now());
 
 /**
- * Creates a formatted activity message for note operations
- * Generates HTML-formatted messages for note editing, deletion, and creation
+ * Extracts the distinct `@username` tokens from message content
+ * Tokens are lowercased, since usernames are matched case-insensitively;
+ * an `@` inside a word (such as an email address) is not a mention
  *
- * @param action - Type of action performed on the note
- * @param noteTitle - Title of the note being acted upon
- * @param senderName - Optional name of the user performing the action
- * @returns Formatted activity message object
+ * @param content - Message content
+ * @returns Mentioned usernames and broadcast keywords without the `@`
  */
-export const createActivityMessage = (
-  action: "edited" | "deleted" | "added",
-  noteTitle: string,
-  senderName?: string
-): Message => {
-  const safeTitle = noteTitle || "Untitled";
-  const safeSender = senderName ?? "Someone";
+export const extractMentionTokens = (content: string): string[] => {
+  const tokens = new Set<string>();
+  for (const match of content.matchAll(
+    /(?:^|[^A-Za-z0-9_])@([A-Za-z0-9_]+)/g
+  )) {
+    tokens.add(match[1].toLowerCase());
+  }
+  return [...tokens];
+};
+
+/**
+ * Splits message content into plain text and resolved mention segments
+ * Only tokens that resolved to a member (or a broadcast keyword the server
+ * accepted) are marked, so stray `@words` stay plain text
+ *
+ * @param content - Message content
+ * @param usernames - Mentioned usernames and accepted keywords
+ * @returns Segments in content order
+ */
+export const splitMentions = (
+  content: string,
+  usernames: string[]
+): { text: string; isMention: boolean }[] => {
+  const known = new Set(usernames.map((u) => u.toLowerCase()));
+  if (known.size === 0) return [{ text: content, isMention: false }];
+
+  const segments: { text: string; isMention: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(/(^|[^A-Za-z0-9_])@([A-Za-z0-9_]+)/g)) {
+    if (!known.has(match[2].toLowerCase())) continue;
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) {
+      segments.push({
+        text: content.slice(lastIndex, start),
+        isMention: false,
+      });
+    }
+    const end = start + match[2].length + 1;
+    segments.push({ text: content.slice(start, end), isMention: true });
+    lastIndex = end;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex), isMention: false });
+  }
+  return segments;
+};
+
+/**
+ * Checks whether a message mentions a user, directly or through `@here`/`@all`
+ *
+ * @param message - Message with its mention references
+ * @param userId - ID of the user to check
+ * @returns true if the message mentions the user
+ */
+export const isMentioned = (message: Message, userId: string): boolean =>
+  Boolean(
+    message.mentionsEveryone ||
+      message.mentions?.some((mention) => mention.userId === userId)
+  );
+
+/**
+ * Builds the one-line preview shown for a space's latest message
+ * Polls show their question; messages without text are summarized by
+ * their attachments
+ *
+ * @param message - Message to preview
+ * @returns Message content, or a summary such as "📊 Lunch?" or "📎 report.pdf"
+ */
+export const getMessagePreview = (message: Message): string => {
+  if (message.poll) return `📊 ${message.content}`;
+  if (message.content || !message.attachments?.length) return message.content;
+  const [first, ...rest] = message.attachments;
+  return rest.length > 0
+    ? `📎 ${first.name} and ${rest.length} more`
+    : `📎 ${first.name}`;
+};
 
-  const actionText = {
-    edited: "just edited a note",
-    deleted: "deleted a note",
-    added: "just added a new note",
-  }[action];
+/**
+ * Shortens a message to the one-line excerpt kept with quotes
+ *
+ * @param message - Message to describe
+ * @returns Preview with whitespace collapsed, cut to QUOTES.EXCERPT_LENGTH
+ */
+export const toQuoteExcerpt = (message: Message): string =>
+  truncateText(
+    getMessagePreview(message).replace(/\s+/g, " ").trim(),
+    QUOTES.EXCERPT_LENGTH
+  );
 
+/**
+ * Checks whether a read pointer covers a message
+ * Message IDs are increasing BigInt values serialized as strings
+ *
+ * @param lastReadMessageId - Member's last-read message ID
+ * @param messageId - Message to check
+ * @returns true if the message is at or before the read pointer
+ */
+export const hasReadMessage = (
+  lastReadMessageId: string,
+  messageId: string
+): boolean => {
+  try {
+    return BigInt(lastReadMessageId) >= BigInt(messageId);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Applies a thread summary to its parent message within a message list
+ *
+ * @param messages - Messages that may contain the thread's parent
+ * @param summary - Latest reply count and repliers for the thread
+ * @returns Messages with the parent's thread fields updated
+ */
+export const applyThreadSummary = (
+  messages: Message[],
+  summary: ThreadSummary
+): Message[] =>
+  messages.map((m) =>
+    m.id === summary.parentId
+      ? {
+          ...m,
+          replyCount: summary.replyCount,
+          latestRepliers: summary.latestRepliers,
+          lastReplyAt: summary.lastReplyAt,
+        }
+      : m
+  );
+
+/**
+ * Updates a message inside a thread, whether it is the parent or a reply
+ *
+ * @param thread - Thread to update
+ * @param messageId - ID of the message to change
+ * @param update - Fields to merge into the message
+ * @returns Updated thread, or the same thread if the message is not in it
+ */
+export const updateThreadMessage = (
+  thread: MessageThread,
+  messageId: string,
+  update: Partial<Message>
+): MessageThread => {
+  if (thread.parent.id === messageId) {
+    return { ...thread, parent: { ...thread.parent, ...update } };
+  }
+  if (!thread.replies.some((m) => m.id === messageId)) return thread;
   return {
-    id: createMessageId(),
-    content: `<strong>${safeSender}</strong> ${actionText}: <strong>${safeTitle}</strong>`,
-    timestamp: new Date().toISOString(),
-    senderName,
-    username: undefined,
-    type: "activity",
+    ...thread,
+    replies: thread.replies.map((m) =>
+      m.id === messageId ? { ...m, ...update } : m
+    ),
   };
 };
 
 /**
- * Creates a generic activity message with custom content
- * Allows for flexible activity message creation with any HTML content
+ * Updates a pinned message's snapshot so the pinned list matches the chat
  *
- * @param content - HTML content for the activity message
- * @param senderName - Optional name of the user performing the action
- * @returns Generic activity message object
+ * @param pins - Pinned messages of a space
+ * @param messageId - ID of the message to change
+ * @param update - Fields to merge into the message
+ * @returns Updated pins, or the same array if the message is not pinned
  */
-export const createGenericActivityMessage = (
-  content: string,
-  senderName?: string
-): Message => ({
-  id: createMessageId(),
-  content,
-  timestamp: new Date().toISOString(),
-  senderName,
-  username: undefined,
-  type: "activity",
-});
+export const updatePinnedMessage = (
+  pins: PinnedMessage[] | undefined,
+  messageId: string,
+  update: Partial<Message>
+): PinnedMessage[] | undefined => {
+  if (!pins?.some((p) => p.message.id === messageId)) return pins;
+  return pins.map((p) =>
+    p.message.id === messageId
+      ? { ...p, message: { ...p.message, ...update } }
+      : p
+  );
+};
@@ -0,0 +1,325 @@
+/**
+ * Recurrence Rule Utilities
+ *
+ * This module handles the RRULE subset used by scheduled messages:
+ * - Parsing `FREQ=DAILY|WEEKLY|MONTHLY` with `INTERVAL`, `BYDAY`, `COUNT` and `UNTIL`
+ * - Computing the next occurrence after a given time
+ * - Keeping the wall-clock time of the first occurrence in the sender's
+ *   time zone, so "every weekday at 9:00" stays at 9:00 across DST changes
+ * - Describing rules for display
+ *
+ * The first occurrence (the rule's DTSTART) is always the scheduled send time.
+ */
+
+/**
+ * Recurrence rule parsed from its RRULE text
+ * `byDay` holds weekdays as 0 (Monday) through 6 (Sunday)
+ */
+export type RecurrenceRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  byDay?: number[];
+  count?: number;
+  until?: Date;
+};
+
+/**
+ * Calendar date and time of day in a particular time zone
+ */
+type WallTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on candidate dates examined per lookup, matching or not, so a
+ * rule that can never match again (e.g. February 30th) cannot loop forever
+ */
+const MAX_CANDIDATES = 5000;
+
+/**
+ * Parses a positive integer rule part
+ *
+ * @param value - Value written in the rule
+ * @param name - Part name, for the error message
+ * @returns Parsed integer
+ * @throws Error if the value is not a positive integer
+ */
+const parsePositive = (value: string, name: string): number => {
+  const n = Number(value);
+  if (!/^\d+$/.test(value) || n < 1) {
+    throw new Error(`Invalid ${name} in recurrence rule`);
+  }
+  return n;
+};
+
+/**
+ * Parses an RRULE string such as `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR`
+ * A leading `RRULE:` is accepted. Date-only `UNTIL` values include the whole day (UTC).
+ *
+ * @param text - Rule text
+ * @returns Parsed rule
+ * @throws Error if the rule uses an unsupported part or value
+ */
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  const body = text.trim().replace(/^RRULE:/i, "");
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [name, value] = part.split("=", 2);
+    if (!value) throw new Error("Invalid recurrence rule");
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("Recurrence must be DAILY, WEEKLY or MONTHLY");
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositive(value, "INTERVAL");
+        break;
+      case "COUNT":
+        rule.count = parsePositive(value, "COUNT");
+        break;
+      case "BYDAY": {
+        const days = value.split(",").map((d) => WEEKDAYS.indexOf(d));
+        if (freq === "MONTHLY" || days.some((d) => d < 0)) {
+          throw new Error("Invalid BYDAY in recurrence rule");
+        }
+        rule.byDay = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      case "UNTIL": {
+        const m = UNTIL_PATTERN.exec(value);
+        if (!m) throw new Error("Invalid UNTIL in recurrence rule");
+        rule.until = m[4]
+          ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]))
+          : new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]) + DAY_MS - 1);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported ${name} in recurrence rule`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error("Use either COUNT or UNTIL, not both");
+  }
+  return rule;
+};
+
+/**
+ * Checks whether a string is an IANA time zone the runtime knows
+ *
+ * @param timeZone - Time zone name, e.g. `Europe/Berlin`
+ * @returns true if the time zone can be used
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads the wall-clock time of an instant in a time zone
+ *
+ * @param date - Instant to read
+ * @param timeZone - IANA time zone
+ * @returns Calendar date and time of day in the zone
+ */
+const toWallTime = (date: Date, timeZone: string): WallTime => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+/**
+ * Converts a wall-clock time in a time zone to an instant
+ * Times skipped by a DST change resolve to the same time under the
+ * offset that applied just before the change
+ *
+ * @param wall - Calendar date and time of day
+ * @param timeZone - IANA time zone
+ * @returns Matching instant
+ */
+const fromWallTime = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second
+  );
+  const offsetAt = (ms: number) => {
+    const w = toWallTime(new Date(ms), timeZone);
+    const local = Date.UTC(
+      w.year,
+      w.month - 1,
+      w.day,
+      w.hour,
+      w.minute,
+      w.second
+    );
+    return local - Math.floor(ms / 1000) * 1000;
+  };
+  const first = asUtc - offsetAt(asUtc);
+  const second = asUtc - offsetAt(first);
+  return new Date(second === first ? first : Math.max(first, second));
+};
+
+/**
+ * Lists candidate days of a rule in order, as UTC day numbers of the
+ * calendar dates in the rule's time zone
+ * Days and months the rule steps over without matching yield null, so
+ * callers can bound the search even when nothing ever matches.
+ *
+ * @param rule - Parsed rule
+ * @param start - Wall time of the first occurrence
+ * @returns Generator of day numbers on or after the first occurrence's
+ * date, with null for each non-matching step
+ */
+function* candidateDays(
+  rule: RecurrenceRule,
+  start: WallTime
+): Generator<number | null> {
+  const startDay = Date.UTC(start.year, start.month - 1, start.day) / DAY_MS;
+  const weekday = (day: number) => (new Date(day * DAY_MS).getUTCDay() + 6) % 7;
+
+  if (rule.freq === "DAILY") {
+    for (let day = startDay; ; day += rule.interval) {
+      yield !rule.byDay || rule.byDay.includes(weekday(day)) ? day : null;
+    }
+  }
+  if (rule.freq === "WEEKLY") {
+    const days = rule.byDay ?? [weekday(startDay)];
+    for (
+      let monday = startDay - weekday(startDay);
+      ;
+      monday += 7 * rule.interval
+    ) {
+      for (const offset of days) {
+        if (monday + offset >= startDay) yield monday + offset;
+      }
+    }
+  }
+  for (let i = 0; ; i += rule.interval) {
+    // Months without the start's day of month are skipped, as in RFC 5545
+    const first = new Date(Date.UTC(start.year, start.month - 1 + i, 1));
+    const date = new Date(
+      Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), start.day)
+    );
+    yield date.getUTCMonth() === first.getUTCMonth()
+      ? date.getTime() / DAY_MS
+      : null;
+  }
+}
+
+/**
+ * Finds the first occurrence of a rule strictly after a given time
+ * `COUNT` is not applied here because it depends on how many occurrences
+ * were actually sent; callers track that themselves.
+ *
+ * @param rule - Parsed rule
+ * @param startAt - First occurrence, which sets the time of day
+ * @param timeZone - IANA time zone the time of day is kept in
+ * @param after - Occurrences at or before this time are skipped
+ * @returns Next occurrence, or null if the rule has ended
+ */
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  startAt: Date,
+  timeZone: string,
+  after: Date
+): Date | null => {
+  const start = toWallTime(startAt, timeZone);
+  let examined = 0;
+  for (const day of candidateDays(rule, start)) {
+    if (++examined > MAX_CANDIDATES) return null;
+    if (day === null) continue;
+    const date = new Date(day * DAY_MS);
+    const occurrence = fromWallTime(
+      {
+        ...start,
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      },
+      timeZone
+    );
+    if (rule.until && occurrence > rule.until) return null;
+    if (occurrence > after) return occurrence;
+  }
+  return null;
+};
+
+/**
+ * Describes a rule in words, e.g. "Every 2 weeks on Mon, Thu"
+ * Rules that cannot be parsed are shown as written
+ *
+ * @param text - Rule text
+ * @returns Short human-readable description
+ */
+export const describeRecurrenceRule = (text: string): string => {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(text);
+  } catch {
+    return text;
+  }
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let description =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay) {
+    const isWeekdays = rule.byDay.join() === "0,1,2,3,4";
+    if (isWeekdays && rule.interval === 1) description = "Every weekday";
+    else
+      description += ` on ${rule.byDay
+        .map((d) => WEEKDAY_NAMES[d])
+        .join(", ")}`;
+  }
+  if (rule.count) description += `, ${rule.count} times`;
+  if (rule.until) {
+    description += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  }
+  return description;
+};
@@ -0,0 +1,166 @@
+/**
+ * Message Retention Utilities
+ *
+ * This module provides the server-side purge of expired messages:
+ * - Finding spaces with a retention window that are not on legal hold
+ * - Deleting messages older than the window in batches
+ * - Broadcasting the removed messages to members
+ *
+ * A thread is kept whole until its latest reply has expired, so a
+ * conversation that is still going never loses its history. Purged messages
+ * are deleted outright; their reactions, pins, revisions and polls go with
+ * them.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import { RETENTION } from "@/utils/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Messages removed by one purge batch
+ */
+type PurgeResult = {
+  removedIds: bigint[];
+  unpinnedIds: bigint[];
+};
+
+/**
+ * Deletes one batch of a space's expired messages
+ * Only top-level messages are picked, and their replies go with them, so
+ * threads expire as a whole. The picked threads are locked first, so a
+ * reply sent meanwhile either waits and then fails, or keeps its thread.
+ *
+ * @param spaceId - ID of the space
+ * @param cutoff - Messages created before this time have expired
+ * @returns IDs of every removed message, replies included, and of those
+ * that were pinned
+ */
+async function purgeBatch(spaceId: string, cutoff: Date): Promise<PurgeResult> {
+  const expired = await prisma.message.findMany({
+    where: {
+      spaceId,
+      parentId: null,
+      createdAt: { lt: cutoff },
+      replies: { none: { createdAt: { gte: cutoff } } },
+    },
+    select: { id: true },
+    orderBy: { id: "asc" },
+    take: RETENTION.PURGE_BATCH_SIZE,
+  });
+  if (expired.length === 0) return { removedIds: [], unpinnedIds: [] };
+
+  return prisma.$transaction(async (tx) => {
+    // Replies take a key-share lock on their parent, so this blocks new ones
+    const locked = await tx.$queryRaw<{ id: bigint }[]>`
+      SELECT "id" FROM "public"."messages"
+      WHERE "id" IN (${Prisma.join(expired.map((m) => m.id))})
+      FOR UPDATE`;
+    const replies = await tx.message.findMany({
+      where: { parentId: { in: locked.map((m) => m.id) } },
+      select: { id: true, parentId: true, createdAt: true },
+    });
+    // Threads that got a reply after the first look are kept
+    const revived = new Set(
+      replies.filter((r) => r.createdAt >= cutoff).map((r) => r.parentId)
+    );
+    const parentIds = locked.map((m) => m.id).filter((id) => !revived.has(id));
+    const replyIds = replies
+      .filter((r) => r.parentId !== null && !revived.has(r.parentId))
+      .map((r) => r.id);
+    const removedIds = [...parentIds, ...replyIds];
+    if (removedIds.length === 0) return { removedIds, unpinnedIds: [] };
+
+    const pins = await tx.messagePin.findMany({
+      where: { messageId: { in: removedIds } },
+      select: { messageId: true },
+    });
+    await tx.message.deleteMany({ where: { id: { in: replyIds } } });
+    await tx.message.deleteMany({ where: { id: { in: parentIds } } });
+
+    return { removedIds, unpinnedIds: pins.map((p) => p.messageId) };
+  });
+}
+
+/**
+ * Tells members of a space which messages were purged, and which pins
+ * went with them
+ *
+ * @param spaceId - ID of the space
+ * @param result - IDs of the removed and unpinned messages
+ */
+async function broadcastPurge(
+  spaceId: string,
+  { removedIds, unpinnedIds }: PurgeResult
+) {
+  if (!pusherServer) return;
+  for (const messageId of unpinnedIds) {
+    await pusherServer.trigger(`space-${spaceId}`, "message:unpinned", {
+      spaceId,
+      messageId: String(messageId),
+    });
+  }
+  for (let i = 0; i < removedIds.length; i += RETENTION.BROADCAST_CHUNK_SIZE) {
+    await pusherServer.trigger(`space-${spaceId}`, "messages:purged", {
+      spaceId,
+      messageIds: removedIds
+        .slice(i, i + RETENTION.BROADCAST_CHUNK_SIZE)
+        .map(String),
+    });
+  }
+}
+
+/**
+ * Purges a space's expired messages, a batch at a time
+ * The space is re-read before each batch, so a legal hold placed or a
+ * window widened mid-run takes effect at once.
+ *
+ * @param spaceId - ID of the space
+ * @param now - Time of this purge run
+ * @returns Number of messages removed
+ */
+async function purgeSpace(spaceId: string, now: Date): Promise<number> {
+  let purged = 0;
+  for (let batch = 0; batch < RETENTION.MAX_BATCHES_PER_SPACE; batch++) {
+    const space = await prisma.space.findUnique({
+      where: { id: spaceId },
+      select: { retentionDays: true, legalHold: true },
+    });
+    if (!space || space.retentionDays === null || space.legalHold) break;
+
+    const cutoff = new Date(now.getTime() - space.retentionDays * DAY_MS);
+    const result = await purgeBatch(spaceId, cutoff);
+    if (result.removedIds.length === 0) break;
+
+    purged += result.removedIds.length;
+    await broadcastPurge(spaceId, result);
+  }
+  return purged;
+}
+
+/**
+ * Purges expired messages in every space with a retention window
+ * Spaces on legal hold are skipped. A failing space is logged and retried
+ * on the next run without holding up the others.
+ *
+ * @param now - Time to measure retention windows from, defaults to the current time
+ * @returns Number of spaces checked and number of messages removed
+ */
+export async function purgeExpiredMessages(now = new Date()) {
+  const spaces = await prisma.space.findMany({
+    where: { retentionDays: { not: null }, legalHold: false },
+    select: { id: true },
+  });
+
+  let purged = 0;
+  for (const space of spaces) {
+    try {
+      purged += await purgeSpace(space.id, now);
+    } catch (err) {
+      console.error("purgeSpace error:", err);
+    }
+  }
+  return { spaces: spaces.length, purged };
+}
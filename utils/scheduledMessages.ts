@@ -0,0 +1,179 @@
+/**
+ * Scheduled Message Utilities
+ *
+ * This module provides server-side helpers for scheduled messages:
+ * - Mapping database rows to client scheduled message objects
+ * - Computing the next run of a repeating message
+ * - Dispatching due messages through the same path as `sendMessage`
+ *
+ * Each run is posted with an idempotency key derived from the schedule and
+ * the run number, so overlapping dispatcher runs and retries after a failure
+ * never post a message twice.
+ */
+
+import type { ScheduledMessage as ScheduledMessageRow } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { pusherServer } from "@/lib/pusher";
+import { postMessage } from "@/utils/messageDelivery";
+import { nextOccurrence, parseRecurrenceRule } from "@/utils/recurrence";
+import { SCHEDULED_MESSAGES } from "@/utils/constants";
+import type { ScheduledMessage } from "@/types";
+
+/**
+ * Maps a pending scheduled message row to the client shape
+ *
+ * @param row - Scheduled message row with a next run
+ * @returns Formatted scheduled message
+ */
+export const mapScheduledMessage = (
+  row: ScheduledMessageRow
+): ScheduledMessage => ({
+  id: row.id,
+  spaceId: row.spaceId,
+  content: row.content,
+  nextRunAt: (row.nextRunAt ?? row.startAt).toISOString(),
+  rrule: row.rrule ?? undefined,
+  timeZone: row.timeZone,
+});
+
+/**
+ * Computes when a scheduled message runs after the given run
+ * Runs missed while the dispatcher was down are skipped rather than
+ * posted in a burst.
+ *
+ * @param row - Scheduled message
+ * @param runCount - Number of runs including the one just posted
+ * @param after - Time to look past, normally the later of the run time and now
+ * @returns Next run, or null if the message does not repeat or its rule has ended
+ */
+export const computeNextRun = (
+  row: ScheduledMessageRow,
+  runCount: number,
+  after: Date
+): Date | null => {
+  if (!row.rrule) return null;
+  const rule = parseRecurrenceRule(row.rrule);
+  if (rule.count && runCount >= rule.count) return null;
+  return nextOccurrence(rule, row.startAt, row.timeZone, after);
+};
+
+/**
+ * Posts one due scheduled message and moves it to its next run
+ * Schedules whose author has left the space are cancelled instead.
+ *
+ * @param row - Due scheduled message
+ * @param now - Time of this dispatcher run
+ * @returns true if a message was posted
+ */
+async function dispatchScheduledMessage(
+  row: ScheduledMessageRow,
+  now: Date
+): Promise<boolean> {
+  const runAt = row.nextRunAt;
+  if (!runAt) return false;
+
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId: row.spaceId, userId: row.userId } },
+    select: { userId: true },
+  });
+  if (!membership) {
+    await prisma.scheduledMessage.updateMany({
+      where: { id: row.id, nextRunAt: runAt },
+      data: { nextRunAt: null, cancelledAt: now },
+    });
+    return false;
+  }
+
+  await postMessage(
+    row.spaceId,
+    row.userId,
+    row.content,
+    `scheduled-${row.id}-${row.runCount + 1}`
+  );
+
+  const runCount = row.runCount + 1;
+  const nextRunAt = computeNextRun(
+    row,
+    runCount,
+    new Date(Math.max(runAt.getTime(), now.getTime()))
+  );
+  // Only the run that still sees the old nextRunAt moves the schedule on
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: row.id, nextRunAt: runAt },
+    data: { nextRunAt, lastRunAt: now, runCount, failureCount: 0 },
+  });
+  if (count === 0) return false;
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${row.spaceId}`, "scheduled:dispatched", {
+      id: row.id,
+      userId: row.userId,
+      nextRunAt: nextRunAt?.toISOString() ?? null,
+    });
+  }
+  return true;
+}
+
+/**
+ * Records a failed dispatch and pushes the message back
+ * The delay doubles with each failure in a row; after too many the
+ * schedule is cancelled.
+ *
+ * @param row - Scheduled message that failed to post
+ * @param now - Time of this dispatcher run
+ */
+async function recordDispatchFailure(row: ScheduledMessageRow, now: Date) {
+  const failureCount = row.failureCount + 1;
+  const gaveUp = failureCount >= SCHEDULED_MESSAGES.MAX_FAILURES;
+  const nextRunAt = gaveUp
+    ? null
+    : new Date(
+        now.getTime() +
+          SCHEDULED_MESSAGES.RETRY_DELAY_MS * 2 ** (failureCount - 1)
+      );
+
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: row.id, nextRunAt: row.nextRunAt },
+    data: { nextRunAt, failureCount, ...(gaveUp && { cancelledAt: now }) },
+  });
+  if (count === 0) return;
+
+  if (pusherServer) {
+    await pusherServer.trigger(`space-${row.spaceId}`, "scheduled:dispatched", {
+      id: row.id,
+      userId: row.userId,
+      nextRunAt: nextRunAt?.toISOString() ?? null,
+    });
+  }
+}
+
+/**
+ * Posts every scheduled message that is due, oldest first
+ * A failing message is logged and retried later without holding up the
+ * others.
+ *
+ * @param now - Time to dispatch up to, defaults to the current time
+ * @returns Number of due messages found and number posted
+ */
+export async function dispatchDueScheduledMessages(now = new Date()) {
+  const due = await prisma.scheduledMessage.findMany({
+    where: { nextRunAt: { lte: now }, cancelledAt: null },
+    orderBy: { nextRunAt: "asc" },
+    take: SCHEDULED_MESSAGES.DISPATCH_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  for (const row of due) {
+    try {
+      if (await dispatchScheduledMessage(row, now)) sent++;
+    } catch (err) {
+      console.error("dispatchScheduledMessage error:", err);
+      try {
+        await recordDispatchFailure(row, now);
+      } catch (recordErr) {
+        console.error("recordDispatchFailure error:", recordErr);
+      }
+    }
+  }
+  return { due: due.length, sent };
+}
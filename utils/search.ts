@@ -0,0 +1,132 @@
+/**
+ * Message Search Utilities
+ *
+ * This module parses message search queries and search snippets:
+ * - Free text plus `from:`, `in:`, `before:`, `after:` and `has:link` operators
+ * - Quoted operator values such as `in:"Deploy team"`
+ * - UTC calendar dates for the date operators
+ * - Splitting highlighted snippets into plain and matched parts
+ */
+
+import { SEARCH } from "@/utils/constants";
+import type { SearchSnippetPart } from "@/types";
+
+/**
+ * Search query split into free text and filters
+ */
+export type ParsedSearchQuery = {
+  text: string;
+  from?: string;
+  in?: string;
+  before?: Date;
+  after?: Date;
+  hasLink: boolean;
+};
+
+/**
+ * Operator token, free-text word, or quoted phrase
+ */
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))|("[^"]*"|\S+)/g;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a YYYY-MM-DD date as midnight UTC
+ *
+ * @param value - Date written in the query
+ * @param operator - Operator name, for the error message
+ * @returns Start of the day in UTC
+ * @throws Error if the value is not a real calendar date
+ */
+const parseDay = (value: string, operator: string): Date => {
+  const match = DATE_PATTERN.exec(value);
+  const date = match
+    ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]))
+    : null;
+  if (!date || date.toISOString().slice(0, 10) !== value) {
+    throw new Error(`Use a YYYY-MM-DD date with ${operator}:`);
+  }
+  return date;
+};
+
+/**
+ * Splits a search query into free text and operator filters
+ * Unknown operators are searched as plain text. `before:` excludes the
+ * given day and everything after it; `after:` excludes the given day and
+ * everything before it.
+ *
+ * @param query - Raw query typed by the user
+ * @returns Parsed query
+ * @throws Error if a date operator has an invalid date
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { text: "", hasLink: false };
+  const words: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, name, quoted, bare, word] = match;
+    if (word !== undefined) {
+      words.push(word);
+      continue;
+    }
+    const value = (quoted ?? bare).trim();
+    switch (name.toLowerCase()) {
+      case "from":
+        parsed.from = value.replace(/^@/, "");
+        break;
+      case "in":
+        parsed.in = value.replace(/^#/, "");
+        break;
+      case "before":
+        parsed.before = parseDay(value, "before");
+        break;
+      case "after":
+        parsed.after = new Date(parseDay(value, "after").getTime() + DAY_MS);
+        break;
+      case "has":
+        if (value.toLowerCase() === "link") parsed.hasLink = true;
+        else words.push(token);
+        break;
+      default:
+        words.push(token);
+    }
+  }
+
+  parsed.text = words.join(" ").trim();
+  return parsed;
+};
+
+/**
+ * Checks whether a parsed query has anything to search for
+ *
+ * @param parsed - Parsed query
+ * @returns true if the query has text or at least one filter
+ */
+export const hasSearchCriteria = (parsed: ParsedSearchQuery): boolean =>
+  Boolean(
+    parsed.text ||
+      parsed.from ||
+      parsed.in ||
+      parsed.before ||
+      parsed.after ||
+      parsed.hasLink
+  );
+
+/**
+ * Splits a snippet marked with the search highlight delimiters into parts
+ *
+ * @param snippet - Snippet with matches wrapped in the highlight delimiters
+ * @returns Plain and highlighted parts in order
+ */
+export const splitSnippet = (snippet: string): SearchSnippetPart[] => {
+  const parts: SearchSnippetPart[] = [];
+  for (const [i, chunk] of snippet.split(SEARCH.HIGHLIGHT_START).entries()) {
+    const [matched, rest] =
+      i === 0 ? [null, chunk] : chunk.split(SEARCH.HIGHLIGHT_END, 2);
+    if (matched) parts.push({ text: matched, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  }
+  return parts;
+};
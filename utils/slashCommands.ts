@@ -0,0 +1,253 @@
+/**
+ * Slash Command Registry
+ *
+ * This module defines the slash commands available in the composer:
+ * - `/note`, `/todo`, `/invite`, `/leave`, `/topic` and `/help`
+ * - Argument parsing with a Zod schema per command
+ * - Admin-only commands checked with `checkAdminPermission`
+ * - Replies shown only to the member who ran the command
+ *
+ * Commands reuse the existing server actions, so their validation,
+ * activity messages and real-time broadcasts apply unchanged.
+ */
+
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { createNote, updateNote } from "@/app/actions/notes";
+import {
+  createInviteLink,
+  leaveSpace,
+  updateSpaceInfo,
+} from "@/app/actions/spaces";
+import { sendActivityMessage } from "@/app/actions/messages";
+import { spaceDescriptionSchema } from "@/utils/validation/actions";
+import type { NoteBlockPayload } from "@/types/app";
+import type { SlashCommandInfo, SlashCommandResult } from "@/types";
+
+/**
+ * Caller and space a command runs for
+ */
+export type SlashCommandContext = {
+  spaceId: string;
+  userId: string;
+  isAdmin: boolean;
+  noteId?: string;
+};
+
+/**
+ * Registered command
+ * `args` parses everything typed after the command name
+ */
+type SlashCommand<T> = {
+  name: string;
+  usage: string;
+  description: string;
+  adminOnly?: boolean;
+  args: z.ZodType<T, z.ZodTypeDef, string>;
+  run(context: SlashCommandContext, args: T): Promise<SlashCommandResult>;
+};
+
+/**
+ * Command name and the text after it
+ */
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i;
+
+/**
+ * Arguments for commands that take none
+ */
+const noArgs = z.literal("");
+
+/**
+ * Finds the note a `/todo` item goes to: the note open in the caller's
+ * notes panel, otherwise the most recently updated note in the space
+ *
+ * @param spaceId - ID of the space
+ * @param noteId - ID of the open note, if any
+ * @returns Note with its blocks and items in order, or null if the space has none
+ */
+const findTodoNote = (spaceId: string, noteId?: string) =>
+  prisma.note.findFirst({
+    where: noteId ? { id: BigInt(noteId), spaceId } : { spaceId },
+    orderBy: { updatedAt: "desc" },
+    include: {
+      blocks: {
+        include: { items: { orderBy: { sortOrder: "asc" } } },
+        orderBy: { sortOrder: "asc" },
+      },
+    },
+  });
+
+/**
+ * Declares a command, inferring its argument type from the `args` schema
+ *
+ * @param command - Command definition
+ * @returns The command, typed for the registry
+ */
+const defineCommand = <T>(command: SlashCommand<T>) =>
+  command as SlashCommand<unknown>;
+
+const COMMANDS: SlashCommand<unknown>[] = [
+  defineCommand({
+    name: "note",
+    usage: "/note <title>",
+    description: "Create a note",
+    args: z.string().trim().min(1).max(200),
+    async run({ spaceId }, title) {
+      const note = await createNote(spaceId, title, []);
+      try {
+        await sendActivityMessage(
+          spaceId,
+          { kind: "NOTE_CREATED", targetId: note.id, payload: { title } },
+          `note-added-${note.id}`
+        );
+      } catch (error) {
+        console.warn("Failed to send activity message:", error);
+      }
+      return { reply: `Created note **${title}**`, openNoteId: note.id };
+    },
+  }),
+  defineCommand({
+    name: "todo",
+    usage: "/todo <item>",
+    description: "Add a to-do to the open note",
+    args: z.string().trim().min(1).max(500),
+    async run({ spaceId, noteId }, text) {
+      const note = await findTodoNote(spaceId, noteId);
+      if (!note) throw new Error("No note to add to. Create one with /note");
+
+      const blocks: NoteBlockPayload[] = note.blocks.map((b) => ({
+        id: String(b.id),
+        type:
+          b.type === "TEXT"
+            ? "text"
+            : b.type === "HEADING"
+            ? "heading"
+            : "todo",
+        content: b.content,
+        todoTitle: b.todoTitle ?? undefined,
+        items: b.items.map((it) => ({
+          id: String(it.id),
+          text: it.text,
+          done: it.done,
+          description: it.description ?? undefined,
+        })),
+      }));
+      const todoBlock = [...blocks].reverse().find((b) => b.type === "todo");
+      if (todoBlock) {
+        todoBlock.items = [...(todoBlock.items ?? []), { text }];
+      } else {
+        blocks.push({ type: "todo", content: "", items: [{ text }] });
+      }
+
+      await updateNote(String(note.id), note.title, blocks);
+      return {
+        reply: `Added a to-do to **${note.title}**`,
+        openNoteId: String(note.id),
+      };
+    },
+  }),
+  defineCommand({
+    name: "invite",
+    usage: "/invite [minutes]",
+    description: "Create an invite link, valid for 60 minutes by default",
+    adminOnly: true,
+    args: z
+      .string()
+      .regex(/^\d*$/)
+      .transform((value) => (value ? Number(value) : 60))
+      .pipe(
+        z
+          .number()
+          .int()
+          .min(5)
+          .max(7 * 24 * 60)
+      ),
+    async run({ spaceId }, minutes) {
+      const { url } = await createInviteLink(spaceId, minutes);
+      const base = process.env.NEXTAUTH_URL;
+      const link = base ? new URL(url, base).toString() : url;
+      return {
+        reply: `Invite link, valid for ${minutes} minutes:\n\n${link}`,
+      };
+    },
+  }),
+  defineCommand({
+    name: "leave",
+    usage: "/leave",
+    description: "Leave this space",
+    args: noArgs,
+    async run({ spaceId }) {
+      await leaveSpace(spaceId);
+      return { reply: "You left the space", leftSpace: true };
+    },
+  }),
+  defineCommand({
+    name: "topic",
+    usage: "/topic <text>",
+    description: "Set the space topic shown in the space info",
+    adminOnly: true,
+    args: z.string().pipe(spaceDescriptionSchema.unwrap().min(1)),
+    async run({ spaceId }, topic) {
+      const space = await prisma.space.findUnique({
+        where: { id: spaceId },
+        select: { name: true },
+      });
+      if (!space) throw new Error("Space not found");
+      await updateSpaceInfo(spaceId, { name: space.name, description: topic });
+      return { reply: `Topic set to: ${topic}` };
+    },
+  }),
+  defineCommand({
+    name: "help",
+    usage: "/help",
+    description: "List the commands you can use",
+    args: noArgs,
+    async run({ isAdmin }) {
+      const lines = listSlashCommandInfo()
+        .filter((c) => isAdmin || !c.adminOnly)
+        .map((c) => `- \`${c.usage}\` ${c.description}`);
+      return { reply: `Available commands:\n\n${lines.join("\n")}` };
+    },
+  }),
+];
+
+/**
+ * Lists every registered command for the composer's command palette
+ *
+ * @returns Command names, usage and descriptions in registry order
+ */
+export const listSlashCommandInfo = (): SlashCommandInfo[] =>
+  COMMANDS.map(({ name, usage, description, adminOnly }) => ({
+    name,
+    usage,
+    description,
+    adminOnly: Boolean(adminOnly),
+  }));
+
+/**
+ * Parses and runs a slash command
+ *
+ * @param input - Command text, e.g. `/note Sprint goals`
+ * @param context - Caller and space to run the command for
+ * @returns Reply for the caller and any follow-up for the client
+ * @throws Error if the command is unknown, the caller may not use it, or its arguments are invalid
+ */
+export async function runSlashCommandInput(
+  input: string,
+  context: SlashCommandContext
+): Promise<SlashCommandResult> {
+  const match = COMMAND_PATTERN.exec(input.trim());
+  const command = match
+    ? COMMANDS.find((c) => c.name === match[1].toLowerCase())
+    : undefined;
+  if (!match || !command) {
+    throw new Error(`Unknown command ${input.trim().split(/\s/)[0]}`);
+  }
+  if (command.adminOnly && !context.isAdmin) {
+    throw new Error(`Forbidden: only admin can use /${command.name}`);
+  }
+
+  const args = command.args.safeParse((match[2] ?? "").trim());
+  if (!args.success) throw new Error(`Usage: ${command.usage}`);
+  return command.run(context, args.data);
+}
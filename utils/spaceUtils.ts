@@ -2,14 +2,15 @@
  * Space Management Utilities
  *
  * This module provides utilities for space-related operations including:
- * - Member data mapping and formatting
+ * - Member data mapping and formatting, with or without emails
  * - Permission checking (admin/member roles)
- * - Activity message creation and sending
+ * - Recording activity events without interrupting the calling action
  * - User display name formatting
  */
 
 import { prisma } from "@/lib/prisma";
-import { sendActivityMessage } from "@/app/actions/messages";
+import { postActivity } from "@/utils/messageDelivery";
+import type { ActivityEvent } from "@/types";
 
 /**
  * Type definition for member-like objects from database
@@ -51,6 +52,25 @@ export const mapMemberData = (member: MemberLike) => ({
   },
 });
 
+/**
+ * Maps member data for realtime broadcasts, leaving out the user's email
+ *
+ * @param member - Raw member data from database
+ * @returns Formatted member object without the email
+ */
+export const mapBroadcastMemberData = (member: MemberLike) => {
+  const { user, ...rest } = mapMemberData(member);
+  return {
+    ...rest,
+    user: {
+      id: user.id,
+      name: user.name,
+      username: user.username,
+      avatar: user.avatar,
+    },
+  };
+};
+
 /**
  * Gets display name for a user with fallback options
  * Returns name, email, or "Someone" as fallback
@@ -84,44 +104,22 @@ export const checkAdminPermission = async (
 };
 
 /**
- * Sends activity message with error handling
- * Wraps sendActivityMessage with try-catch to prevent failures from breaking the flow
+ * Records an activity event with error handling
+ * Wraps postActivity with try-catch to prevent failures from breaking the flow
  *
- * @param spaceId - ID of the space to send message to
- * @param content - HTML content of the activity message
- * @returns Promise that resolves when message is sent or fails silently
+ * @param spaceId - ID of the space the event happened in
+ * @param actorId - ID of the user who caused the event
+ * @param activity - Kind of event, its target and details
+ * @returns Promise that resolves when the event is recorded or fails silently
  */
 export const sendActivityMessageSafe = async (
   spaceId: string,
-  content: string
+  actorId: string,
+  activity: ActivityEvent
 ): Promise<void> => {
   try {
-    await sendActivityMessage(spaceId, content);
+    await postActivity(spaceId, actorId, activity);
   } catch (error) {
     console.warn("Failed to send activity message:", error);
   }
 };
-
-/**
- * Creates formatted activity message for member-related actions
- * Generates HTML-formatted messages for member operations
- *
- * @param action - Type of member action performed
- * @param actorName - Name of the user performing the action
- * @param targetName - Name of the user being acted upon
- * @returns HTML-formatted activity message string
- */
-export const createMemberActivityMessage = (
-  action: "added" | "removed" | "role_changed" | "made_admin",
-  actorName: string,
-  targetName: string
-): string => {
-  const messages = {
-    added: `<strong>${actorName}</strong> joined the space`,
-    removed: `<strong>${actorName}</strong> removed <strong>${targetName}</strong> from the space`,
-    role_changed: `<strong>${actorName}</strong> changed <strong>${targetName}</strong>'s role`,
-    made_admin: `<strong>${actorName}</strong> made <strong>${targetName}</strong> an admin`,
-  };
-
-  return messages[action];
-};
@@ -0,0 +1,197 @@
+/**
+ * Syntax Highlighting Utilities
+ *
+ * This module splits code from fenced code blocks into classified tokens:
+ * - Comments, strings, numbers, and keywords per language family
+ * - Language aliases such as `ts` and `py`
+ * - Plain text for unknown languages
+ *
+ * Tokens are plain strings rendered as React text, so highlighting never
+ * produces markup from message content.
+ */
+
+/**
+ * Token class used for styling
+ */
+export type CodeTokenType =
+  | "plain"
+  | "comment"
+  | "string"
+  | "number"
+  | "keyword";
+
+/**
+ * Piece of highlighted code
+ */
+export type CodeToken = {
+  type: CodeTokenType;
+  text: string;
+};
+
+/**
+ * Lexical rules for a language family
+ */
+type LanguageRules = {
+  lineComment?: string;
+  blockComment?: [string, string];
+  quotes: string[];
+  keywords: Set<string>;
+};
+
+const C_LIKE_KEYWORDS = (
+  "async await break case catch class const continue default delete " +
+  "do else enum export extends false finally for from function if " +
+  "implements import in instanceof interface let new null private " +
+  "protected public return static super switch this throw true try " +
+  "type typeof undefined var void while yield"
+).split(" ");
+
+const PYTHON_KEYWORDS = (
+  "and as assert async await break class continue def del elif else " +
+  "except False finally for from global if import in is lambda None " +
+  "nonlocal not or pass raise return True try while with yield"
+).split(" ");
+
+const SHELL_KEYWORDS = (
+  "case do done echo elif else esac export fi for function if in " +
+  "local return then until while"
+).split(" ");
+
+const SQL_KEYWORDS = (
+  "and as asc by create delete desc distinct drop from group having " +
+  "in index insert into is join left limit not null on or order right " +
+  "select set table update values where"
+).split(" ");
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  clike: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    quotes: ['"', "'", "`"],
+    keywords: new Set(C_LIKE_KEYWORDS),
+  },
+  python: {
+    lineComment: "#",
+    quotes: ['"', "'"],
+    keywords: new Set(PYTHON_KEYWORDS),
+  },
+  shell: {
+    lineComment: "#",
+    quotes: ['"', "'"],
+    keywords: new Set(SHELL_KEYWORDS),
+  },
+  sql: {
+    lineComment: "--",
+    blockComment: ["/*", "*/"],
+    quotes: ["'", '"'],
+    keywords: new Set(SQL_KEYWORDS),
+  },
+  json: {
+    quotes: ['"'],
+    keywords: new Set(["true", "false", "null"]),
+  },
+};
+
+const ALIASES: Record<string, keyof typeof LANGUAGES> = {
+  js: "clike",
+  jsx: "clike",
+  javascript: "clike",
+  ts: "clike",
+  tsx: "clike",
+  typescript: "clike",
+  java: "clike",
+  c: "clike",
+  cpp: "clike",
+  "c++": "clike",
+  cs: "clike",
+  csharp: "clike",
+  go: "clike",
+  rust: "clike",
+  kotlin: "clike",
+  swift: "clike",
+  py: "python",
+  python: "python",
+  sh: "shell",
+  bash: "shell",
+  shell: "shell",
+  zsh: "shell",
+  sql: "sql",
+  json: "json",
+};
+
+/**
+ * Splits code into highlighted tokens
+ *
+ * @param code - Source code
+ * @param lang - Language from the code fence, if any
+ * @returns Tokens covering the whole input, in order
+ */
+export const highlightCode = (code: string, lang?: string): CodeToken[] => {
+  const family = lang ? ALIASES[lang.toLowerCase()] : undefined;
+  if (!family) return [{ type: "plain", text: code }];
+  const rules = LANGUAGES[family];
+  const caseInsensitive = family === "sql";
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    if (rules.lineComment && rest.startsWith(rules.lineComment)) {
+      const end = code.indexOf("\n", i);
+      const stop = end === -1 ? code.length : end;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const [open, close] = rules.blockComment;
+      const end = code.indexOf(close, i + open.length);
+      const stop = end === -1 ? code.length : end + close.length;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const quote = rules.quotes.find((q) => rest.startsWith(q));
+    if (quote) {
+      let j = i + 1;
+      while (j < code.length && code[j] !== quote) {
+        if (code[j] === "\\") j += 1;
+        if (code[j] === "\n" && quote !== "`") break;
+        j += 1;
+      }
+      const stop = code[j] === quote ? j + 1 : Math.min(j, code.length);
+      push("string", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const number = /^\d[\d_]*(\.\d+)?([eE][+-]?\d+)?/.exec(rest);
+    if (number && !/[A-Za-z0-9_$]/.test(code[i - 1] ?? "")) {
+      push("number", number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (word) {
+      const key = caseInsensitive ? word[0].toLowerCase() : word[0];
+      push(rules.keywords.has(key) ? "keyword" : "plain", word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push("plain", code[i]);
+    i += 1;
+  }
+
+  return tokens;
+};
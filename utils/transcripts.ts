@@ -0,0 +1,445 @@
+/**
+ * Transcript Export Utilities
+ *
+ * This module renders a space's messages as a downloadable transcript:
+ * - Markdown and standalone HTML, split into days like the chat timeline
+ *   with activity lines set apart from messages
+ * - JSON with one machine-readable entry per message
+ * - Streaming output that reads messages from the database in batches
+ *
+ * Days and times are shown in the time zone of the person exporting.
+ * Deleted messages stay in the transcript as placeholders without content.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { mapMessageData, messageInclude } from "@/utils/messageData";
+import { formatFileSize } from "@/utils/formatters";
+import { TRANSCRIPTS } from "@/utils/constants";
+import type { Message, TranscriptFormat } from "@/types";
+
+/**
+ * What a transcript covers, shown in its header
+ */
+export interface TranscriptInfo {
+  spaceId: string;
+  title: string;
+  from?: Date;
+  to?: Date;
+  timeZone: string;
+  exportedAt: Date;
+}
+
+/**
+ * Writes the parts of a transcript in one format
+ */
+interface TranscriptRenderer {
+  contentType: string;
+  extension: string;
+  header: (info: TranscriptInfo) => string;
+  day: (label: string, isFirst: boolean) => string;
+  message: (message: Message, time: string, index: number) => string;
+  footer: (count: number) => string;
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ *
+ * @param text - Raw text
+ * @returns Text with HTML special characters replaced by entities
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Formats an instant as a calendar day in a time zone
+ *
+ * @param date - Instant to format
+ * @param timeZone - IANA time zone
+ * @returns Day such as "Monday, October 19, 2026"
+ */
+const formatDay = (date: Date, timeZone: string): string =>
+  date.toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * Formats an instant as a 12-hour time in a time zone
+ *
+ * @param date - Instant to format
+ * @param timeZone - IANA time zone
+ * @returns Time such as "2:30 PM"
+ */
+const formatClock = (date: Date, timeZone: string): string =>
+  date.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+
+/**
+ * Describes the date range of a transcript
+ *
+ * @param info - Transcript range and time zone
+ * @returns Range such as "October 1, 2026 to October 19, 2026"
+ */
+const describeRange = ({ from, to, timeZone }: TranscriptInfo): string => {
+  // The end of the range is exclusive; show the last day it includes
+  const last = to && new Date(to.getTime() - 1);
+  if (from && last) {
+    return `${formatDay(from, timeZone)} to ${formatDay(last, timeZone)}`;
+  }
+  if (from) return `Since ${formatDay(from, timeZone)}`;
+  if (last) return `Until ${formatDay(last, timeZone)}`;
+  return "All messages";
+};
+
+/**
+ * Builds the author line label for a message
+ *
+ * @param message - Message to label
+ * @returns Sender name with their username when known
+ */
+const describeSender = (message: Message): string => {
+  const name = message.senderName || "Someone";
+  return message.username ? `${name} (@${message.username})` : name;
+};
+
+/**
+ * Markdown transcript: a heading per day, messages as short paragraphs
+ * and activity as italic lines
+ */
+const markdownRenderer: TranscriptRenderer = {
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+  header: (info) =>
+    `# ${info.title}\n\n` +
+    `${describeRange(info)} · Times in ${info.timeZone} · ` +
+    `Exported ${info.exportedAt.toISOString()}\n`,
+  day: (label) => `\n## ${label}\n`,
+  message: (message, time) => {
+    if (message.type === "activity") {
+      return `\n_${message.content} · ${time}_\n`;
+    }
+    // Blank lines between parts keep quotes and lists from running into
+    // the message text
+    const parts = [
+      `**${describeSender(message)}** · ${time}` +
+        (message.parentId ? " · reply in thread" : "") +
+        (message.editedAt && !message.isDeleted ? " · edited" : ""),
+    ];
+    if (message.isDeleted) {
+      parts.push("_This message was deleted_");
+      return `\n${parts.join("\n\n")}\n`;
+    }
+    if (message.forwardedFrom) {
+      const { senderName, spaceName } = message.forwardedFrom;
+      parts.push(
+        `> Forwarded from ${senderName}${spaceName ? ` in ${spaceName}` : ""}`
+      );
+    }
+    if (message.quote) {
+      parts.push(`> **${message.quote.senderName}:** ${message.quote.excerpt}`);
+    }
+    if (message.content) parts.push(message.content);
+    const items = [
+      ...(message.poll?.options.map(
+        (option) => `- ${option.text} (${option.voteCount})`
+      ) ?? []),
+      ...(message.attachments?.map(
+        (attachment) =>
+          `- 📎 [${attachment.name}](${attachment.url}) (${formatFileSize(
+            attachment.size
+          )})`
+      ) ?? []),
+    ];
+    if (items.length > 0) parts.push(items.join("\n"));
+    return `\n${parts.join("\n\n")}\n`;
+  },
+  footer: (count) => (count === 0 ? "\nNo messages in this range.\n" : ""),
+};
+
+/**
+ * Styles embedded in HTML transcripts so the file stands alone
+ */
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+header p { color: #6b7280; font-size: 0.875rem; }
+h2 { font-size: 1rem; color: #4b5563; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+.message { margin: 0.75rem 0; }
+.message.reply { margin-left: 1.5rem; }
+.meta { font-size: 0.8125rem; color: #6b7280; }
+.sender { font-weight: 600; color: #111827; }
+.content { white-space: pre-wrap; overflow-wrap: anywhere; margin-top: 0.125rem; }
+.deleted { font-style: italic; color: #6b7280; }
+.reference { border-left: 3px solid #d1d5db; padding-left: 0.5rem; color: #4b5563; font-size: 0.875rem; }
+.activity { text-align: center; font-size: 0.8125rem; font-style: italic; color: #6b7280; margin: 0.75rem 0; }
+ul { margin: 0.25rem 0; padding-left: 1.25rem; font-size: 0.875rem; }
+`;
+
+/**
+ * Standalone HTML transcript: a section per day, activity lines centered
+ * and muted
+ */
+const htmlRenderer: TranscriptRenderer = {
+  contentType: "text/html; charset=utf-8",
+  extension: "html",
+  header: (info) =>
+    `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n` +
+    `<title>${escapeHtml(info.title)}</title>\n` +
+    `<style>${HTML_STYLES}</style>\n</head>\n<body>\n` +
+    `<header>\n<h1>${escapeHtml(info.title)}</h1>\n` +
+    `<p>${escapeHtml(describeRange(info))} · Times in ${escapeHtml(
+      info.timeZone
+    )} · Exported ${info.exportedAt.toISOString()}</p>\n</header>\n`,
+  day: (label, isFirst) =>
+    `${isFirst ? "" : "</section>\n"}<section>\n<h2>${escapeHtml(
+      label
+    )}</h2>\n`,
+  message: (message, time) => {
+    if (message.type === "activity") {
+      return `<p class="activity">${escapeHtml(
+        message.content
+      )} · ${time}</p>\n`;
+    }
+    const parts = [
+      `<div class="meta"><span class="sender">${escapeHtml(
+        describeSender(message)
+      )}</span> · ${time}` +
+        (message.parentId ? " · reply in thread" : "") +
+        (message.editedAt && !message.isDeleted ? " · edited" : "") +
+        "</div>",
+    ];
+    if (message.isDeleted) {
+      parts.push(`<div class="deleted">This message was deleted</div>`);
+    } else {
+      if (message.forwardedFrom) {
+        const { senderName, spaceName } = message.forwardedFrom;
+        parts.push(
+          `<div class="reference">Forwarded from ${escapeHtml(senderName)}${
+            spaceName ? ` in ${escapeHtml(spaceName)}` : ""
+          }</div>`
+        );
+      }
+      if (message.quote) {
+        parts.push(
+          `<div class="reference"><strong>${escapeHtml(
+            message.quote.senderName
+          )}:</strong> ${escapeHtml(message.quote.excerpt ?? "")}</div>`
+        );
+      }
+      parts.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+      if (message.poll) {
+        parts.push(
+          `<ul>${message.poll.options
+            .map(
+              (option) =>
+                `<li>${escapeHtml(option.text)} (${option.voteCount})</li>`
+            )
+            .join("")}</ul>`
+        );
+      }
+      if (message.attachments) {
+        parts.push(
+          `<ul>${message.attachments
+            .map(
+              (attachment) =>
+                `<li><a href="${escapeHtml(attachment.url)}">${escapeHtml(
+                  attachment.name
+                )}</a> (${formatFileSize(attachment.size)})</li>`
+            )
+            .join("")}</ul>`
+        );
+      }
+    }
+    return `<article class="message${
+      message.parentId ? " reply" : ""
+    }">\n${parts.join("\n")}\n</article>\n`;
+  },
+  footer: (count) =>
+    (count === 0 ? "<p>No messages in this range.</p>\n" : "</section>\n") +
+    "</body>\n</html>\n",
+};
+
+/**
+ * JSON transcript: the export details followed by every message in order
+ */
+const jsonRenderer: TranscriptRenderer = {
+  contentType: "application/json; charset=utf-8",
+  extension: "json",
+  header: (info) =>
+    `{"space":${JSON.stringify({ id: info.spaceId, name: info.title })},` +
+    `"from":${JSON.stringify(info.from?.toISOString() ?? null)},` +
+    `"to":${JSON.stringify(info.to?.toISOString() ?? null)},` +
+    `"timeZone":${JSON.stringify(info.timeZone)},` +
+    `"exportedAt":${JSON.stringify(info.exportedAt.toISOString())},` +
+    `"messages":[`,
+  day: () => "",
+  message: (message, _time, index) =>
+    (index === 0 ? "\n" : ",\n") +
+    JSON.stringify({
+      id: message.id,
+      parentId: message.parentId ?? null,
+      type: message.type === "activity" ? "activity" : "message",
+      timestamp: message.timestamp,
+      editedAt: message.editedAt ?? null,
+      author: {
+        name: message.senderName ?? null,
+        username: message.username ?? null,
+      },
+      content: message.content,
+      deleted: !!message.isDeleted,
+      activity: message.activity
+        ? { kind: message.activity.kind, payload: message.activity.payload }
+        : undefined,
+      quote: message.quote
+        ? {
+            messageId: message.quote.messageId ?? null,
+            senderName: message.quote.senderName,
+            excerpt: message.quote.excerpt,
+          }
+        : undefined,
+      forwardedFrom: message.forwardedFrom
+        ? {
+            senderName: message.forwardedFrom.senderName,
+            spaceName: message.forwardedFrom.spaceName ?? null,
+          }
+        : undefined,
+      poll: message.poll
+        ? {
+            multipleChoice: message.poll.multipleChoice,
+            anonymous: message.poll.anonymous,
+            closedAt: message.poll.closedAt ?? null,
+            options: message.poll.options.map((option) => ({
+              text: option.text,
+              voteCount: option.voteCount,
+            })),
+          }
+        : undefined,
+      attachments: message.attachments?.map((attachment) => ({
+        name: attachment.name,
+        url: attachment.url,
+        contentType: attachment.contentType,
+        size: attachment.size,
+      })),
+    }),
+  footer: (count) => `${count === 0 ? "" : "\n"}]}\n`,
+};
+
+const RENDERERS: Record<TranscriptFormat, TranscriptRenderer> = {
+  markdown: markdownRenderer,
+  html: htmlRenderer,
+  json: jsonRenderer,
+};
+
+/**
+ * Builds the download file name for a transcript
+ *
+ * @param title - Space title
+ * @param format - File format
+ * @param exportedAt - Time of the export
+ * @returns Name such as "design-team-2026-10-19.md"
+ */
+export const getTranscriptFileName = (
+  title: string,
+  format: TranscriptFormat,
+  exportedAt: Date
+): string => {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "transcript";
+  return `${slug}-${exportedAt.toISOString().slice(0, 10)}.${
+    RENDERERS[format].extension
+  }`;
+};
+
+/**
+ * Gets the Content-Type header of a transcript format
+ *
+ * @param format - File format
+ * @returns MIME type with charset
+ */
+export const getTranscriptContentType = (format: TranscriptFormat): string =>
+  RENDERERS[format].contentType;
+
+/**
+ * Streams a space's messages as a transcript, oldest first
+ * Thread replies appear in time order next to the main chat, marked as
+ * replies. Callers must check that the viewer belongs to the space.
+ *
+ * @param info - Space, date range, and time zone of the transcript
+ * @param format - File format
+ * @returns Stream of the encoded file
+ */
+export function streamTranscript(
+  info: TranscriptInfo,
+  format: TranscriptFormat
+): ReadableStream<Uint8Array> {
+  const renderer = RENDERERS[format];
+  const encoder = new TextEncoder();
+  const where: Prisma.MessageWhereInput = {
+    spaceId: info.spaceId,
+    ...((info.from || info.to) && {
+      createdAt: {
+        ...(info.from && { gte: info.from }),
+        ...(info.to && { lt: info.to }),
+      },
+    }),
+  };
+
+  let cursor: bigint | null = null;
+  let lastDay: string | null = null;
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(renderer.header(info)));
+    },
+    async pull(controller) {
+      const rows = await prisma.message.findMany({
+        where,
+        include: messageInclude,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: TRANSCRIPTS.BATCH_SIZE,
+        ...(cursor !== null && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      let chunk = "";
+      for (const row of rows) {
+        const day = formatDay(row.createdAt, info.timeZone);
+        if (day !== lastDay) {
+          chunk += renderer.day(day, lastDay === null);
+          lastDay = day;
+        }
+        chunk += renderer.message(
+          mapMessageData(row),
+          formatClock(row.createdAt, info.timeZone),
+          count
+        );
+        count++;
+      }
+
+      if (rows.length < TRANSCRIPTS.BATCH_SIZE) {
+        chunk += renderer.footer(count);
+        controller.enqueue(encoder.encode(chunk));
+        controller.close();
+        return;
+      }
+      cursor = rows[rows.length - 1].id;
+      controller.enqueue(encoder.encode(chunk));
+    },
+  });
+}
@@ -6,6 +6,15 @@
  */
 
 import { z } from "zod";
+import {
+  ATTACHMENTS,
+  BOOKMARKS,
+  DIRECT_MESSAGES,
+  POLLS,
+  RETENTION,
+  SCHEDULED_MESSAGES,
+  SEARCH,
+} from "@/utils/constants";
 
 // ===== BASIC FIELD SCHEMAS =====
 
@@ -21,6 +30,29 @@ export const spaceIdSchema = z.string().min(1);
  */
 export const messageContentSchema = z.string().trim().min(1);
 
+/**
+ * Schema for validating message IDs
+ * Message IDs are BigInt primary keys serialized as digit strings
+ */
+export const messageIdSchema = z.string().regex(/^\d+$/);
+
+/**
+ * Schema for validating client-supplied idempotency keys
+ * Sending twice with the same key returns the first message
+ */
+export const idempotencyKeySchema = z.string().min(1).max(64);
+
+/**
+ * Schema for validating reaction emoji
+ * Accepts a single short emoji sequence (including modifiers and joiners)
+ */
+export const reactionEmojiSchema = z
+  .string()
+  .max(32)
+  .regex(
+    /^(?=.*\p{Extended_Pictographic})(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u
+  );
+
 /**
  * Schema for validating space names
  * Ensures space name is trimmed, non-empty, and within length limits
@@ -115,17 +147,340 @@ export const sendMessageSchema = z.object({
   spaceId: spaceIdSchema,
   /** Message content (trimmed, non-empty) */
   content: messageContentSchema,
+  /** Key that makes retries of the same send return the first message */
+  idempotencyKey: idempotencyKeySchema.optional(),
+  /** Message quoted by this reply, in the same space */
+  quotedMessageId: messageIdSchema.optional(),
+});
+
+/**
+ * Schema for scheduling a message to be posted later, optionally repeating
+ */
+export const scheduleMessageSchema = z.object({
+  /** Space ID where the message will be posted */
+  spaceId: spaceIdSchema,
+  /** Message content (trimmed, non-empty) */
+  content: messageContentSchema,
+  /** First send time as an ISO 8601 timestamp */
+  sendAt: z.string().datetime({ offset: true }),
+  /** Optional RRULE-style recurrence, e.g. FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR */
+  rrule: z
+    .string()
+    .trim()
+    .min(1)
+    .max(SCHEDULED_MESSAGES.MAX_RULE_LENGTH)
+    .optional(),
+  /** IANA time zone that keeps the time of day for repeats */
+  timeZone: z.string().min(1).max(64),
+});
+
+/**
+ * Schema for validating scheduled message IDs
+ */
+export const scheduledMessageIdSchema = z.string().uuid();
+
+/**
+ * Schema for creating a poll message
+ * Option texts must be distinct, ignoring case
+ */
+export const createPollSchema = z.object({
+  /** Space ID where the poll will be posted */
+  spaceId: spaceIdSchema,
+  /** Question, stored as the message content */
+  question: z.string().trim().min(1).max(POLLS.MAX_QUESTION_LENGTH),
+  /** Answer options in display order */
+  options: z
+    .array(z.string().trim().min(1).max(POLLS.MAX_OPTION_LENGTH))
+    .min(POLLS.MIN_OPTIONS)
+    .max(POLLS.MAX_OPTIONS)
+    .refine(
+      (options) =>
+        new Set(options.map((o) => o.toLowerCase())).size === options.length,
+      "Poll options must be different"
+    ),
+  /** Whether members may pick more than one option */
+  multipleChoice: z.boolean().default(false),
+  /** Whether voters are hidden from everyone */
+  anonymous: z.boolean().default(false),
+  /** Optional time after which votes are no longer accepted */
+  closesAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * Schema for voting in a poll
+ * An empty option list withdraws the vote
+ */
+export const votePollSchema = z.object({
+  /** ID of the poll message */
+  messageId: messageIdSchema,
+  /** Chosen option IDs */
+  optionIds: z.array(messageIdSchema).max(POLLS.MAX_OPTIONS),
+});
+
+/**
+ * Schema for running a slash command typed in the composer
+ */
+export const runSlashCommandSchema = z.object({
+  /** Space ID the command runs in */
+  spaceId: spaceIdSchema,
+  /** Command text starting with `/`, e.g. `/note Sprint goals` */
+  input: z.string().trim().min(2).max(2000).startsWith("/"),
+  /** Note open in the composer's notes panel, used by `/todo` */
+  noteId: z.string().regex(/^\d+$/).optional(),
+});
+
+/**
+ * Schema for sending a message with file attachments
+ * The caption is optional; the files themselves are checked separately
+ */
+export const sendAttachmentsSchema = z.object({
+  /** Space ID where the message will be sent */
+  spaceId: spaceIdSchema,
+  /** Optional caption shown above the attachments */
+  content: z.string().trim(),
+  /** Message quoted by this reply, in the same space */
+  quotedMessageId: messageIdSchema.optional(),
+});
+
+/**
+ * Schema for forwarding a message into another space
+ */
+export const forwardMessageSchema = z.object({
+  /** Message to forward */
+  messageId: messageIdSchema,
+  /** Space the copy is posted in */
+  targetSpaceId: spaceIdSchema,
+});
+
+/**
+ * Schema for replying to a message in a thread
+ * Validates the parent message ID and reply content
+ */
+export const sendReplySchema = z.object({
+  /** ID of the message being replied to */
+  parentId: messageIdSchema,
+  /** Reply content (trimmed, non-empty) */
+  content: messageContentSchema,
+});
+
+/**
+ * Schema for editing an existing message
+ * Validates message ID and the replacement content
+ */
+export const editMessageSchema = z.object({
+  /** ID of the message to edit */
+  messageId: messageIdSchema,
+  /** New message content (trimmed, non-empty) */
+  content: messageContentSchema,
+});
+
+/**
+ * Schema for toggling a reaction on a message
+ * Validates message ID and emoji
+ */
+export const toggleReactionSchema = z.object({
+  /** ID of the message to react to */
+  messageId: messageIdSchema,
+  /** Reaction emoji */
+  emoji: reactionEmojiSchema,
 });
 
+/**
+ * Schema for listing a page of messages
+ * Validates space ID, optional before/after cursors, and page size
+ */
+export const listMessagesSchema = z
+  .object({
+    /** Space ID to read messages from */
+    spaceId: spaceIdSchema,
+    /** Cursor to load messages older than */
+    before: z.string().min(1).optional(),
+    /** Cursor to load messages newer than */
+    after: z.string().min(1).optional(),
+    /** Page size (1-100) */
+    limit: z.number().int().min(1).max(100).optional(),
+  })
+  .refine((data) => !(data.before && data.after), {
+    message: "Use either before or after, not both",
+  });
+
+/**
+ * Schema for searching messages across the caller's spaces
+ */
+export const searchMessagesSchema = z.object({
+  /** Free text with optional from:, in:, before:, after: and has:link operators */
+  query: z.string().trim().min(1).max(SEARCH.MAX_QUERY_LENGTH),
+  /** Message ID to continue after, from the previous page */
+  cursor: messageIdSchema.optional(),
+});
+
+/**
+ * Schema for finding people to start a direct message with
+ */
+export const searchPeopleSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(DIRECT_MESSAGES.MAX_QUERY_LENGTH);
+
+/**
+ * Schema for starting or reopening a direct message
+ * The caller is added to the participants, so it is not listed here
+ */
+export const startDirectMessageSchema = z.object({
+  /** Other participants' user IDs */
+  userIds: z
+    .array(z.string().uuid())
+    .min(1)
+    .max(DIRECT_MESSAGES.MAX_PARTICIPANTS - 1),
+});
+
+/**
+ * Schema for saving a message or a note block
+ * Exactly one of messageId or noteId is given; a note block also needs its
+ * position. A null private note or reminder clears it, undefined keeps it
+ */
+export const saveItemSchema = z
+  .object({
+    /** Message to save */
+    messageId: messageIdSchema.optional(),
+    /** Note containing the block to save */
+    noteId: z.string().regex(/^\d+$/).optional(),
+    /** Position of the block within the note */
+    blockIndex: z.number().int().min(0).max(10000).optional(),
+    /** Reminder to self, only visible to the saver */
+    privateNote: z
+      .string()
+      .trim()
+      .max(BOOKMARKS.MAX_NOTE_LENGTH)
+      .nullable()
+      .optional(),
+    /** When to be reminded, as an ISO 8601 timestamp */
+    remindAt: z.string().datetime({ offset: true }).nullable().optional(),
+  })
+  .refine((data) => !data.messageId !== !data.noteId, {
+    message: "Save either a message or a note block",
+  })
+  .refine((data) => !data.noteId || data.blockIndex !== undefined, {
+    message: "Note blocks need a block index",
+  });
+
+/**
+ * Schema for validating saved item IDs
+ */
+export const savedItemIdSchema = z.string().regex(/^\d+$/);
+
+/**
+ * Schema for moving a member's last-read pointer
+ * Without a message ID the newest message in the space is used
+ */
+export const markSpaceReadSchema = z.object({
+  /** Space ID being read */
+  spaceId: spaceIdSchema,
+  /** Newest message the member has seen */
+  messageId: messageIdSchema.optional(),
+});
+
+/**
+ * Schema for turning read receipts on or off for a space
+ */
+export const readReceiptsSchema = z.object({
+  /** Space ID to update */
+  spaceId: spaceIdSchema,
+  /** Whether members' read positions are shared */
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for letting members (not just admins) mention @here and @all
+ */
+export const everyoneMentionsSchema = z.object({
+  /** Space ID to update */
+  spaceId: spaceIdSchema,
+  /** Whether members may mention everyone */
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for changing a space's per-file attachment size limit
+ */
+export const attachmentLimitSchema = z.object({
+  /** Space ID to update */
+  spaceId: spaceIdSchema,
+  /** Largest allowed file, one of the offered size options */
+  maxBytes: z
+    .number()
+    .int()
+    .refine((value) =>
+      (ATTACHMENTS.SIZE_LIMIT_OPTIONS as readonly number[]).includes(value)
+    ),
+});
+
+/**
+ * Schema for changing how long a space keeps its messages
+ */
+export const retentionPolicySchema = z.object({
+  /** Space ID to update */
+  spaceId: spaceIdSchema,
+  /** Days to keep messages, one of the offered options, or null for forever */
+  retentionDays: z
+    .number()
+    .int()
+    .refine((value) =>
+      (RETENTION.DAY_OPTIONS as readonly number[]).includes(value)
+    )
+    .nullable(),
+});
+
+/**
+ * Schema for placing a space on legal hold or lifting it
+ */
+export const legalHoldSchema = z.object({
+  /** Space ID to update */
+  spaceId: spaceIdSchema,
+  /** Whether purging is suspended */
+  enabled: z.boolean(),
+});
+
+/**
+ * Schema for exporting a space's messages as a transcript file
+ */
+export const transcriptExportSchema = z
+  .object({
+    /** Space ID to export */
+    spaceId: spaceIdSchema,
+    /** File format */
+    format: z.enum(["markdown", "html", "json"]),
+    /** Earliest message time as an ISO 8601 timestamp; omitted for no lower bound */
+    from: z.string().datetime({ offset: true }).optional(),
+    /** Time messages must precede as an ISO 8601 timestamp; omitted for up to now */
+    to: z.string().datetime({ offset: true }).optional(),
+    /** IANA time zone used to split days and show times */
+    timeZone: z.string().min(1).max(64),
+  })
+  .refine(({ from, to }) => !from || !to || new Date(from) < new Date(to), {
+    message: "The start of the range must be before its end",
+  });
+
 /**
  * Schema for sending activity messages
- * Validates space ID and HTML content for activity notifications
+ * Validates space ID and the note event to record
  */
 export const sendActivitySchema = z.object({
   /** Space ID where the activity message will be sent */
   spaceId: spaceIdSchema,
-  /** HTML content for the activity message (trimmed, non-empty) */
-  htmlContent: z.string().trim().min(1),
+  /** Note event; other activity kinds are only recorded by the server */
+  activity: z.object({
+    kind: z.enum(["NOTE_CREATED", "NOTE_UPDATED", "NOTE_DELETED"]),
+    /** ID of the note */
+    targetId: z.string().regex(/^\d+$/),
+    payload: z.object({
+      /** Note title as shown at the time of the event */
+      title: z.string().trim().min(1).max(200),
+    }),
+  }),
+  /** Key that makes retries of the same send return the first message */
+  idempotencyKey: idempotencyKeySchema.optional(),
 });
 
 /**
@@ -138,3 +493,8 @@ export const createSpaceSchema = z.object({
   /** Optional space description (trimmed, max 300 characters) */
   description: spaceDescriptionSchema,
 });
+
+/**
+ * Schema for import job IDs
+ */
+export const importJobIdSchema = z.string().uuid();
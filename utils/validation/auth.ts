@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { MENTIONS } from "@/utils/constants";
 
 /**
  * Schema for user registration form validation
@@ -16,7 +17,7 @@ export const registerSchema = z
     /** User's full name (trimmed, required, max 100 characters) */
     name: z.string().trim().min(1, "Name is required").max(100),
 
-    /** Username (trimmed, 3-32 characters, alphanumeric + underscore only) */
+    /** Username (trimmed, 3-32 characters, alphanumeric + underscore only, not a mention keyword) */
     username: z
       .string()
       .trim()
@@ -25,6 +26,13 @@ export const registerSchema = z
       .regex(
         /^[a-zA-Z0-9_]+$/,
         "Username can only contain letters, numbers, underscore"
+      )
+      .refine(
+        (v) =>
+          !(MENTIONS.BROADCAST_KEYWORDS as readonly string[]).includes(
+            v.toLowerCase()
+          ),
+        "This username is reserved"
       ),
 
     /** Email address (trimmed, lowercase, valid email format) */
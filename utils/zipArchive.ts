@@ -0,0 +1,152 @@
+/**
+ * Zip Archive Utilities
+ *
+ * Minimal reader for the zip files produced by chat exports:
+ * - Lists entries from the central directory
+ * - Extracts stored and deflated entries with Node's zlib
+ * - Caps the number of entries, the size of every extracted entry and the
+ *   total extracted size, to guard against zip bombs
+ *
+ * Zip64, encrypted and multi-disk archives are rejected.
+ */
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Limits applied while reading an archive
+ */
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+}
+
+/**
+ * One file in a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Buffer;
+}
+
+/**
+ * Finds the end of central directory record, which sits at the very end of
+ * the file after an optional comment of up to 64 KB
+ *
+ * @param data - Whole archive
+ * @returns Offset of the record
+ * @throws Error if the data is not a zip archive
+ */
+const findEndOfCentralDirectory = (data: Buffer): number => {
+  const stop = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= stop; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("The file is not a zip archive");
+};
+
+/**
+ * Lists the files in a zip archive
+ * Directory entries are left out. Entries share one budget of extracted
+ * bytes; inflating stops as soon as an entry would go over it.
+ *
+ * @param data - Whole archive
+ * @param limits - Largest number of entries, size of one extracted entry,
+ * and size of all extracted entries together
+ * @returns Entries in archive order, each extracted on demand
+ * @throws Error if the archive is malformed, uses unsupported features, or
+ * goes over a limit
+ */
+export const readZipEntries = (
+  data: Buffer,
+  { maxEntries, maxEntryBytes, maxTotalBytes }: ZipLimits
+): ZipEntry[] => {
+  if (data.length < 22) throw new Error("The file is not a zip archive");
+  const end = findEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(end + 10);
+  const directoryOffset = data.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+  if (entryCount > maxEntries) {
+    throw new Error(`The zip archive has more than ${maxEntries} files`);
+  }
+
+  let extractedBytes = 0;
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > data.length ||
+      data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new Error("The zip archive is damaged");
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const headerOffset = data.readUInt32LE(offset + 42);
+    const name = data
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x800 ? "utf8" : "latin1");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1)
+      throw new Error("Encrypted zip archives are not supported");
+    if (method !== 0 && method !== 8) {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+
+    entries.push({
+      name,
+      size,
+      read: () => {
+        if (size > maxEntryBytes) throw new Error(`${name} is too large`);
+        const budget = Math.min(maxEntryBytes, maxTotalBytes - extractedBytes);
+        if (size > budget) throw new Error("The zip archive is too large");
+        if (
+          headerOffset + 30 > data.length ||
+          data.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER
+        ) {
+          throw new Error("The zip archive is damaged");
+        }
+        const start =
+          headerOffset +
+          30 +
+          data.readUInt16LE(headerOffset + 26) +
+          data.readUInt16LE(headerOffset + 28);
+        const raw = data.subarray(start, start + compressedSize);
+        let content: Buffer;
+        if (method === 0) {
+          if (raw.length > budget)
+            throw new Error("The zip archive is too large");
+          content = Buffer.from(raw);
+        } else {
+          try {
+            // The declared size may lie, so the output is capped as well
+            content = inflateRawSync(raw, { maxOutputLength: budget });
+          } catch (error) {
+            if (error instanceof RangeError) {
+              throw new Error("The zip archive is too large");
+            }
+            throw error;
+          }
+        }
+        extractedBytes += content.length;
+        return content;
+      },
+    });
+  }
+  return entries;
+};